@@ -0,0 +1,93 @@
+import {LocationData} from '../src/services/LocationService';
+import {
+  determineActivityState,
+  getSamplingInterval,
+} from '../src/utils/activitySampling';
+
+const METERS_PER_DEGREE = 111320;
+const now = Date.parse('2026-10-19T06:00:00Z');
+
+// Fixes heading north at the given pace, one every ten seconds up to now
+function track(
+  count: number,
+  metersPerFix: number,
+  speed?: number,
+): LocationData[] {
+  return Array.from({length: count}, (_, i) => ({
+    latitude: 19.8135 + (i * metersPerFix) / METERS_PER_DEGREE,
+    longitude: 85.8312,
+    accuracy: 10,
+    speed,
+    timestamp: now - (count - 1 - i) * 10000,
+  }));
+}
+
+const settings = {
+  adaptiveSampling: true,
+  updateInterval: 5000,
+  samplingIntervals: {
+    stationary: 60000,
+    walking: 5000,
+    vehicle: 2000,
+    highFrequency: 1000,
+  },
+};
+
+describe('determineActivityState', () => {
+  it('is stationary while fixes stay within GPS jitter', () => {
+    expect(determineActivityState(track(6, 4), 'walking', now)).toBe(
+      'stationary',
+    );
+  });
+
+  it('tells walking from driving by displacement', () => {
+    // 1.2 m/s and 15 m/s
+    expect(determineActivityState(track(6, 12), 'stationary', now)).toBe(
+      'walking',
+    );
+    expect(determineActivityState(track(6, 150), 'stationary', now)).toBe(
+      'vehicle',
+    );
+  });
+
+  it('prefers the median reported speed over displacement', () => {
+    const reported = track(6, 12, 8);
+    reported[2].speed = 0;
+
+    expect(determineActivityState(reported, 'walking', now)).toBe('vehicle');
+  });
+
+  it('keeps the previous state without enough recent fixes', () => {
+    const old = track(6, 150).map(location => ({
+      ...location,
+      timestamp: location.timestamp - 10 * 60 * 1000,
+    }));
+
+    expect(determineActivityState([], 'vehicle', now)).toBe('vehicle');
+    expect(determineActivityState(old, 'walking', now)).toBe('walking');
+    expect(determineActivityState(track(1, 0), 'stationary', now)).toBe(
+      'stationary',
+    );
+  });
+});
+
+describe('getSamplingInterval', () => {
+  it('uses the interval for the activity', () => {
+    expect(getSamplingInterval(settings, 'stationary', false)).toBe(60000);
+    expect(getSamplingInterval(settings, 'vehicle', false)).toBe(2000);
+  });
+
+  it('samples at high frequency during an emergency', () => {
+    expect(getSamplingInterval(settings, 'stationary', true)).toBe(1000);
+  });
+
+  it('uses the fixed interval when adaptive sampling is off', () => {
+    expect(
+      getSamplingInterval(
+        {...settings, adaptiveSampling: false},
+        'stationary',
+        true,
+      ),
+    ).toBe(5000);
+  });
+});
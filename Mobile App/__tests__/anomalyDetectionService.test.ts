@@ -0,0 +1,374 @@
+import type {AlertButton} from 'react-native';
+import type {AnomalyDetector} from '../src/services/anomalyDetectors';
+import type {LocationData} from '../src/services/LocationService';
+import {MAX_ESCALATION_ATTEMPTS} from '../src/utils/checkIn';
+
+jest.mock('../src/services/PanicButtonService', () => ({
+  PanicButtonService: {
+    activatePanicButton: jest.fn(),
+    isPanicButtonActive: jest.fn(() => false),
+    getCurrentAlert: jest.fn(() => null),
+  },
+}));
+jest.mock('../src/services/NotificationService', () => ({
+  NotificationService: {sendNotification: jest.fn(() => Promise.resolve())},
+}));
+jest.mock('../src/services/BiometricService', () => ({
+  BiometricService: {authenticateWithFallback: jest.fn()},
+}));
+jest.mock('../src/services/BlockchainService', () => ({
+  BlockchainService: {getCurrentDigitalID: jest.fn(() => null)},
+}));
+
+type AnomalyDetectionService =
+  typeof import('../src/services/AIAnomalyDetectionService').AIAnomalyDetectionService;
+
+const now = new Date('2026-10-19T10:00:00Z');
+const MINUTE = 60 * 1000;
+
+let service: AnomalyDetectionService;
+let activatePanicButton: jest.Mock;
+let sendNotification: jest.Mock;
+let authenticateWithFallback: jest.Mock;
+let alert: jest.SpyInstance;
+
+// Raises a high anomaly on every check
+const alarm: AnomalyDetector = {
+  id: 'test_alarm',
+  name: 'Test alarm',
+  anomalyType: 'test_alarm',
+  configSchema: {},
+  evaluate: () => ({
+    severity: 'high',
+    description: 'Test alarm',
+    confidence: 0.9,
+  }),
+};
+
+function fix(minutesAgo: number): LocationData {
+  return {
+    latitude: 28.6139,
+    longitude: 77.209,
+    accuracy: 10,
+    timestamp: Date.now() - minutesAgo * MINUTE,
+    source: 'filtered',
+  };
+}
+
+// Fresh service and mocks for every test
+beforeEach(async () => {
+  jest.useFakeTimers({now});
+  jest.resetModules();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+
+  service =
+    require('../src/services/AIAnomalyDetectionService').AIAnomalyDetectionService;
+  activatePanicButton = require('../src/services/PanicButtonService')
+    .PanicButtonService.activatePanicButton;
+  sendNotification = require('../src/services/NotificationService')
+    .NotificationService.sendNotification;
+  authenticateWithFallback = require('../src/services/BiometricService')
+    .BiometricService.authenticateWithFallback;
+  alert = jest
+    .spyOn(require('react-native').Alert, 'alert')
+    .mockImplementation(() => {});
+
+  await service.addLocationData(fix(2));
+  await service.addLocationData(fix(1));
+});
+
+afterEach(() => {
+  service.stopMonitoring();
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+function useOnly(detector: AnomalyDetector) {
+  service.getDetectors().forEach(({id}) => {
+    service.removeDetector(id);
+  });
+  service.registerDetector(detector);
+}
+
+async function runDetection(passes = 1) {
+  await service.startMonitoring();
+  await jest.advanceTimersByTimeAsync(passes * MINUTE);
+  service.stopMonitoring();
+}
+
+// Runs one detection pass, which prompts a check-in for the alarm
+async function raiseAlarm() {
+  await runDetection();
+
+  const checkIn = service.getPendingCheckIn();
+  expect(checkIn).not.toBeNull();
+  return checkIn!;
+}
+
+function pressAlertButton(text: string) {
+  const buttons: AlertButton[] = alert.mock.calls[0][2];
+  buttons.find(button => button.text === text)!.onPress!();
+}
+
+const stepTypes = (checkInId: string) =>
+  service
+    .getCheckIns()
+    .find(checkIn => checkIn.id === checkInId)!
+    .steps.map(step => step.type);
+
+describe('check-in escalation', () => {
+  beforeEach(() => {
+    useOnly(alarm);
+  });
+
+  it('raises a panic alert when the check-in times out', async () => {
+    activatePanicButton.mockResolvedValue({id: 'panic_1'});
+    const checkIn = await raiseAlarm();
+
+    expect(alert).toHaveBeenCalledTimes(1);
+    expect(sendNotification).toHaveBeenCalledWith(
+      'Are you OK?',
+      expect.stringContaining('Test alarm'),
+      'anomaly',
+      'high',
+      expect.objectContaining({checkInId: checkIn.id}),
+    );
+
+    await jest.advanceTimersByTimeAsync(9 * MINUTE);
+    expect(activatePanicButton).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(MINUTE);
+    expect(activatePanicButton).toHaveBeenCalledTimes(1);
+    expect(service.getCheckIns()[0].status).toBe('escalated');
+    expect(stepTypes(checkIn.id)).toEqual([
+      'prompted',
+      'timed-out',
+      'escalated',
+    ]);
+  });
+
+  it('retries a failed panic alert', async () => {
+    activatePanicButton
+      .mockRejectedValueOnce(new Error('No network'))
+      .mockResolvedValue({id: 'panic_1'});
+    const checkIn = await raiseAlarm();
+
+    await jest.advanceTimersByTimeAsync(10 * MINUTE);
+    expect(service.getPendingCheckIn()).not.toBeNull();
+
+    await jest.advanceTimersByTimeAsync(MINUTE);
+    expect(activatePanicButton).toHaveBeenCalledTimes(2);
+    expect(service.getCheckIns()[0].status).toBe('escalated');
+    expect(stepTypes(checkIn.id)).toEqual([
+      'prompted',
+      'timed-out',
+      'escalation-failed',
+      'escalated',
+    ]);
+  });
+
+  it('gives up after the last attempt and tells the tourist', async () => {
+    activatePanicButton.mockRejectedValue(new Error('No network'));
+    await raiseAlarm();
+
+    await jest.advanceTimersByTimeAsync(
+      10 * MINUTE + (MAX_ESCALATION_ATTEMPTS - 1) * MINUTE,
+    );
+    expect(activatePanicButton).toHaveBeenCalledTimes(MAX_ESCALATION_ATTEMPTS);
+    expect(service.getCheckIns()[0].status).toBe('escalation-failed');
+    expect(sendNotification).toHaveBeenLastCalledWith(
+      'Could not alert your contacts',
+      expect.any(String),
+      'anomaly',
+      'high',
+    );
+
+    await jest.advanceTimersByTimeAsync(10 * MINUTE);
+    expect(activatePanicButton).toHaveBeenCalledTimes(MAX_ESCALATION_ATTEMPTS);
+  });
+
+  it('escalates straight away on "Need help"', async () => {
+    activatePanicButton.mockResolvedValue({id: 'panic_1'});
+    const checkIn = await raiseAlarm();
+
+    pressAlertButton('Need help');
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(activatePanicButton).toHaveBeenCalledTimes(1);
+    expect(service.getCheckIns()[0].status).toBe('escalated');
+    expect(stepTypes(checkIn.id)).toEqual([
+      'prompted',
+      'help-requested',
+      'escalated',
+    ]);
+  });
+});
+
+describe('confirming safe', () => {
+  beforeEach(() => {
+    useOnly(alarm);
+    service.updateConfiguration({verifyCheckIn: true});
+  });
+
+  it('closes the check-in once verified and counts a dismissal', async () => {
+    authenticateWithFallback.mockResolvedValue({
+      success: true,
+      biometricType: 'fingerprint',
+    });
+    const checkIn = await raiseAlarm();
+
+    expect(await service.confirmSafe(checkIn.id)).toBe(true);
+    expect(service.getCheckIns()[0]).toMatchObject({status: 'safe'});
+    expect(service.getCheckIns()[0].steps[1]).toMatchObject({
+      type: 'confirmed-safe',
+      detail: 'Confirmed with fingerprint',
+    });
+    expect(service.getAnomalyEvents()[0].dismissedAt).toBeDefined();
+    expect(service.getDetectorMetrics('test_alarm').dismissed).toBe(1);
+
+    await jest.advanceTimersByTimeAsync(10 * MINUTE);
+    expect(activatePanicButton).not.toHaveBeenCalled();
+  });
+
+  it('asks again and keeps the deadline when verification fails', async () => {
+    authenticateWithFallback.mockResolvedValue({
+      success: false,
+      error: 'Authentication cancelled',
+    });
+    activatePanicButton.mockResolvedValue({id: 'panic_1'});
+    const checkIn = await raiseAlarm();
+
+    expect(await service.confirmSafe(checkIn.id)).toBe(false);
+    expect(alert).toHaveBeenCalledTimes(2);
+    expect(service.getPendingCheckIn()?.steps[1]).toMatchObject({
+      type: 'verification-failed',
+      detail: 'Authentication cancelled',
+    });
+
+    await jest.advanceTimersByTimeAsync(10 * MINUTE);
+    expect(activatePanicButton).toHaveBeenCalledTimes(1);
+    expect(service.getCheckIns()[0].status).toBe('escalated');
+  });
+});
+
+describe('detector registry', () => {
+  // Raises a medium anomaly, which is recorded without a check-in
+  const crowdWatch: AnomalyDetector = {
+    id: 'crowd_watch',
+    name: 'Crowd watch',
+    anomalyType: 'crowd_watch',
+    configSchema: {
+      minCrowd: {label: 'Crowd of at least', default: 50, min: 1},
+    },
+    evaluate: jest.fn(({config}) => ({
+      severity: 'medium',
+      description: `Crowd of over ${config.minCrowd}`,
+      confidence: 0.7,
+    })),
+  };
+
+  it('runs a registered detector with its config', async () => {
+    service.registerDetector(crowdWatch);
+    await service.updateDetectorConfig('crowd_watch', {minCrowd: 80});
+    await runDetection();
+
+    expect(service.getDetectors().map(({id}) => id)).toContain('crowd_watch');
+    expect(service.getAnomalyEvents()).toContainEqual(
+      expect.objectContaining({
+        type: 'crowd_watch',
+        detectorId: 'crowd_watch',
+        severity: 'medium',
+        description: 'Crowd of over 80',
+      }),
+    );
+    expect(service.getDetectorMetrics('crowd_watch').recorded).toBe(1);
+  });
+
+  it('skips disabled detectors and rejects unknown ones', async () => {
+    useOnly(crowdWatch);
+    await service.setDetectorEnabled('crowd_watch', false);
+    await runDetection();
+
+    expect(service.isDetectorEnabled('crowd_watch')).toBe(false);
+    expect(service.getDetectorMetrics('crowd_watch').evaluations).toBe(0);
+    expect(service.getAnomalyEvents()).toEqual([]);
+    await expect(service.setDetectorEnabled('missing', true)).rejects.toThrow(
+      'Anomaly detector missing is not registered',
+    );
+  });
+
+  it('counts recorded and dismissed anomalies per detector', async () => {
+    useOnly(crowdWatch);
+    // Detections of an ongoing incident are not recorded again
+    await runDetection(3);
+
+    expect(service.getDetectorMetrics('crowd_watch')).toMatchObject({
+      evaluations: 3,
+      detections: 3,
+      recorded: 1,
+      dismissed: 0,
+    });
+
+    await service.dismissAnomaly(service.getAnomalyEvents()[0].id);
+    expect(service.getDetectorMetrics('crowd_watch').dismissed).toBe(1);
+    expect(service.getAnomalyEvents()[0].isResolved).toBe(true);
+  });
+});
+
+describe('legacy configuration', () => {
+  let storage: Record<string, string>;
+  let setItem: jest.Mock;
+
+  beforeEach(() => {
+    storage = {
+      anomalyDetectionConfig: JSON.stringify({
+        checkInTimeout: 15,
+        locationDropoffThreshold: 45,
+        speedAnomalyThreshold: 30,
+        enableMLModels: false,
+      }),
+    };
+    const AsyncStorage = require('@react-native-async-storage/async-storage');
+    AsyncStorage.getItem.mockImplementation(
+      async (key: string) => storage[key] ?? null,
+    );
+    setItem = AsyncStorage.setItem;
+    setItem.mockClear();
+  });
+
+  const saved = (key: string) =>
+    JSON.parse(
+      setItem.mock.calls.filter(([savedKey]) => savedKey === key).pop()[1],
+    );
+
+  it('moves the old thresholds to the built-in detectors', async () => {
+    await service.initialize();
+
+    expect(service.getDetectorConfig('location_dropoff').threshold).toBe(45);
+    expect(service.getDetectorConfig('speed_anomaly').threshold).toBe(30);
+    expect(service.isDetectorEnabled('behavior_anomaly')).toBe(false);
+    expect(saved('anomalyDetectorSettings')).toMatchObject({
+      location_dropoff: {config: {threshold: 45}},
+      behavior_anomaly: {enabled: false},
+    });
+    expect(saved('anomalyDetectionConfig')).toEqual({
+      checkInTimeout: 15,
+      verifyCheckIn: false,
+    });
+  });
+
+  it('keeps detector settings saved since, but still drops the old fields', async () => {
+    storage.anomalyDetectorSettings = JSON.stringify({
+      location_dropoff: {config: {threshold: 90}},
+    });
+    await service.initialize();
+
+    expect(service.getDetectorConfig('location_dropoff').threshold).toBe(90);
+    expect(service.getDetectorConfig('speed_anomaly').threshold).toBe(20);
+    expect(service.isDetectorEnabled('behavior_anomaly')).toBe(true);
+    expect(saved('anomalyDetectionConfig')).toEqual({
+      checkInTimeout: 15,
+      verifyCheckIn: false,
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import {LocationData} from '../src/services/LocationService';
+import {
+  BehaviorAnomalyDetector,
+  DetectorContext,
+  LocationDropoffDetector,
+  predictBehaviorAnomaly,
+  RouteDeviationDetector,
+  SpeedAnomalyDetector,
+} from '../src/services/anomalyDetectors';
+import {AnomalyFeatures, trainAnomalyModel} from '../src/utils/anomalyModel';
+import {
+  getDismissalRate,
+  resolveDetectorConfig,
+  validateDetectorConfig,
+} from '../src/utils/detectorConfig';
+import {destinationPoint} from '../src/utils/geo';
+
+const now = new Date('2026-10-19T10:00:00Z');
+const start = {latitude: 28.6139, longitude: 77.209};
+
+// Fixes heading east, one per minute, at the given speed
+function track(count: number, speed: number, endsAt: Date): LocationData[] {
+  return Array.from({length: count}, (_, i) => ({
+    ...destinationPoint(start, 90, i * speed * 60),
+    accuracy: 10,
+    timestamp: endsAt.getTime() - (count - 1 - i) * 60 * 1000,
+  }));
+}
+
+function context<C extends Record<string, any>>(
+  history: LocationData[],
+  config: C,
+): DetectorContext<C> {
+  return {
+    location: history[history.length - 1],
+    history,
+    now,
+    itinerary: null,
+    behaviorPattern: null,
+    anomalyModel: trainAnomalyModel([]),
+    features: {
+      hour: 10,
+      speed: 1,
+      distanceFromUsual: 0,
+      stepDistance: 0,
+      accuracy: 10,
+    },
+    config,
+  };
+}
+
+describe('detector config', () => {
+  const {configSchema} = new SpeedAnomalyDetector();
+
+  it('fills in the defaults and keeps valid stored settings', () => {
+    expect(resolveDetectorConfig(configSchema, {threshold: 30})).toEqual({
+      threshold: 30,
+      highSpeed: 50,
+    });
+  });
+
+  it('ignores stored settings the schema no longer accepts', () => {
+    expect(
+      resolveDetectorConfig(configSchema, {threshold: -1, removed: 5}),
+    ).toEqual({threshold: 20, highSpeed: 50});
+  });
+
+  it('rejects unknown settings and invalid values', () => {
+    expect(() => validateDetectorConfig(configSchema, {speed: 10})).toThrow(
+      'Unknown detector setting speed',
+    );
+    expect(() =>
+      validateDetectorConfig(configSchema, {threshold: '10'}),
+    ).toThrow('Faster than must be a number');
+    expect(() => validateDetectorConfig(configSchema, {threshold: 0})).toThrow(
+      'Faster than must be at least 1',
+    );
+  });
+
+  it('reports the share of alerts dismissed', () => {
+    const metrics = {
+      evaluations: 100,
+      detections: 12,
+      recorded: 4,
+      dismissed: 3,
+      errors: 0,
+    };
+
+    expect(getDismissalRate(metrics)).toBe(0.75);
+    expect(getDismissalRate({...metrics, recorded: 0, dismissed: 0})).toBe(0);
+  });
+});
+
+describe('built-in detectors', () => {
+  it('flags a location dropoff from its configured threshold', () => {
+    const detector = new LocationDropoffDetector();
+    const history = track(3, 1, new Date(now.getTime() - 45 * 60 * 1000));
+
+    expect(
+      detector.evaluate(context(history, {threshold: 60, criticalAfter: 120})),
+    ).toBeNull();
+    expect(
+      detector.evaluate(context(history, {threshold: 30, criticalAfter: 40})),
+    ).toMatchObject({
+      severity: 'critical',
+      description: 'No location update for 45 minutes',
+    });
+  });
+
+  it('flags travelling faster than the threshold', () => {
+    const detector = new SpeedAnomalyDetector();
+    const config = {threshold: 20, highSpeed: 50};
+
+    expect(detector.evaluate(context(track(5, 1.4, now), config))).toBeNull();
+    expect(detector.evaluate(context(track(5, 30, now), config))).toMatchObject(
+      {
+        severity: 'medium',
+        description: 'Unusual speed detected: 108 km/h',
+      },
+    );
+  });
+
+  it('waits for usual places before judging deviation without a plan', () => {
+    const detector = new RouteDeviationDetector();
+
+    expect(
+      detector.evaluate(
+        context(track(5, 30, now), {
+          corridorWidth: 1000,
+          highDistance: 5000,
+          highLateness: 180,
+        }),
+      ),
+    ).toBeNull();
+  });
+});
+
+describe('behaviour anomaly', () => {
+  // A tourist who walks around town by day, sampled every few seconds
+  const walker = trainAnomalyModel(
+    Array.from({length: 100}, (_, i) => ({
+      hour: 10 + (i % 7),
+      speed: 1 + (i % 5) * 0.1,
+      distanceFromUsual: 100 + (i % 7) * 50,
+      stepDistance: 5 + (i % 4),
+      accuracy: 8 + (i % 3),
+    })),
+  );
+  const walking: AnomalyFeatures = {
+    hour: 14,
+    speed: 1.2,
+    distanceFromUsual: 200,
+    stepDistance: 6,
+    accuracy: 9,
+  };
+
+  it('leaves a walker taking a taxi to the speed detector', () => {
+    // 45 km/h, sampled every 2 s in a vehicle
+    const taxi = {...walking, speed: 12.5, stepDistance: 25};
+    const prediction = predictBehaviorAnomaly(walker, taxi);
+
+    expect(prediction.predictedRisk).toBe('low');
+    expect(prediction.contributingFactors).toEqual([]);
+    expect(
+      new BehaviorAnomalyDetector().evaluate({
+        ...context(track(5, 12.5, now), {minScore: 0.7}),
+        anomalyModel: walker,
+        features: taxi,
+      }),
+    ).toBeNull();
+  });
+
+  it('flags being faster than usual, but not slower', () => {
+    expect(
+      predictBehaviorAnomaly(walker, {...walking, speed: 35})
+        .contributingFactors,
+    ).toEqual(['Faster than usual (35.0 m/s, usually 1.2 m/s)']);
+    expect(
+      predictBehaviorAnomaly(walker, {...walking, speed: 0}).anomalyScore,
+    ).toBe(0);
+  });
+
+  it('never makes an anomaly critical on the model alone', () => {
+    const prediction = predictBehaviorAnomaly(walker, {
+      ...walking,
+      hour: 3,
+      distanceFromUsual: 20000,
+      accuracy: 200,
+    });
+
+    expect(prediction.anomalyScore).toBeGreaterThan(0.8);
+    expect(prediction.predictedRisk).toBe('high');
+  });
+});
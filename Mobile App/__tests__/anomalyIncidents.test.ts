@@ -0,0 +1,137 @@
+import {AnomalyEvent} from '../src/services/AIAnomalyDetectionService';
+import {
+  AnomalyIncident,
+  ANOMALY_COOLDOWNS,
+  updateIncidents,
+} from '../src/utils/anomalyIncidents';
+
+const start = new Date('2026-10-19T10:00:00Z');
+const minutesLater = (minutes: number) =>
+  new Date(start.getTime() + minutes * 60 * 1000);
+
+let nextId = 0;
+function detection(
+  type: AnomalyEvent['type'],
+  severity: AnomalyEvent['severity'] = 'medium',
+): AnomalyEvent {
+  return {
+    id: `anomaly_${nextId++}`,
+    type,
+    severity,
+    timestamp: start,
+    description: `${type} detected`,
+    confidence: 0.8,
+    isResolved: false,
+    metadata: {},
+  };
+}
+
+// Runs one detection round per minute, like the monitoring interval
+function runRounds(rounds: AnomalyEvent['type'][][]) {
+  let incidents: AnomalyIncident[] = [];
+  const recorded: AnomalyEvent[] = [];
+  rounds.forEach((types, minute) => {
+    const update = updateIncidents(
+      incidents,
+      types.map(type => detection(type)),
+      minutesLater(minute),
+    );
+    incidents = update.incidents;
+    recorded.push(...update.recorded);
+  });
+  return {incidents, recorded};
+}
+
+describe('updateIncidents', () => {
+  it('records a lasting condition once', () => {
+    const {incidents, recorded} = runRounds([
+      ['inactivity'],
+      ['inactivity'],
+      ['inactivity'],
+    ]);
+
+    expect(recorded).toHaveLength(1);
+    expect(recorded[0].incidentId).toBe(incidents[0].id);
+    expect(incidents).toHaveLength(1);
+    expect(incidents[0]).toMatchObject({
+      occurrences: 3,
+      startedAt: start,
+      lastSeenAt: minutesLater(2),
+      isResolved: false,
+    });
+  });
+
+  it('groups related anomalies into one incident', () => {
+    const {incidents, recorded} = runRounds([
+      ['inactivity'],
+      ['inactivity', 'location_dropoff'],
+      ['location_dropoff', 'speed_anomaly'],
+    ]);
+
+    expect(recorded.map(anomaly => anomaly.type)).toEqual([
+      'inactivity',
+      'location_dropoff',
+      'speed_anomaly',
+    ]);
+    expect(incidents.map(incident => incident.group)).toEqual([
+      'stopped',
+      'unusual-movement',
+    ]);
+    expect(incidents[0].types).toEqual(['inactivity', 'location_dropoff']);
+    expect(incidents[0].activeTypes).toEqual(['location_dropoff']);
+  });
+
+  it('records escalations and keeps the peak severity', () => {
+    const first = updateIncidents([], [detection('location_dropoff', 'high')]);
+    const escalated = updateIncidents(first.incidents, [
+      detection('location_dropoff', 'critical'),
+    ]);
+    const eased = updateIncidents(escalated.incidents, [
+      detection('location_dropoff', 'high'),
+    ]);
+
+    expect(escalated.recorded).toHaveLength(1);
+    expect(escalated.recorded[0].severity).toBe('critical');
+    expect(eased.recorded).toHaveLength(0);
+    expect(eased.incidents[0].peakSeverity).toBe('critical');
+    expect(eased.incidents[0].eventIds).toHaveLength(2);
+  });
+
+  it('resolves an incident once its condition clears', () => {
+    const {incidents} = runRounds([['speed_anomaly'], ['speed_anomaly'], []]);
+
+    expect(incidents[0]).toMatchObject({
+      isResolved: true,
+      resolvedAt: minutesLater(2),
+      autoResolved: true,
+      activeTypes: [],
+    });
+  });
+
+  it('holds back a recurrence during the cooldown unless it is critical', () => {
+    const cleared = runRounds([['speed_anomaly'], []]).incidents;
+    const cooldown = ANOMALY_COOLDOWNS.speed_anomaly / (60 * 1000);
+
+    const during = updateIncidents(
+      cleared,
+      [detection('speed_anomaly')],
+      minutesLater(cooldown),
+    );
+    const critical = updateIncidents(
+      cleared,
+      [detection('speed_anomaly', 'critical')],
+      minutesLater(cooldown),
+    );
+    const after = updateIncidents(
+      cleared,
+      [detection('speed_anomaly')],
+      minutesLater(cooldown + 2),
+    );
+
+    expect(during.recorded).toHaveLength(0);
+    expect(during.incidents).toHaveLength(1);
+    expect(critical.recorded).toHaveLength(1);
+    expect(after.recorded).toHaveLength(1);
+    expect(after.incidents).toHaveLength(2);
+  });
+});
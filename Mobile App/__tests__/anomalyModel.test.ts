@@ -0,0 +1,116 @@
+import {
+  AnomalyFeatures,
+  getFeatureZScore,
+  MIN_TRAINING_SAMPLES,
+  scoreAnomaly,
+  trainAnomalyModel,
+} from '../src/utils/anomalyModel';
+
+// A tourist who walks around town between 10:00 and 17:00
+function daytimeWalk(count: number): AnomalyFeatures[] {
+  const samples: AnomalyFeatures[] = [];
+  for (let i = 0; i < count; i++) {
+    samples.push({
+      hour: 10 + (i % 7),
+      speed: 1 + (i % 5) * 0.1,
+      distanceFromUsual: 100 + (i % 7) * 50,
+      stepDistance: 40 + (i % 4) * 10,
+      accuracy: 8 + (i % 3),
+    });
+  }
+  return samples;
+}
+
+const usual: AnomalyFeatures = {
+  hour: 14,
+  speed: 1.2,
+  distanceFromUsual: 200,
+  stepDistance: 50,
+  accuracy: 9,
+};
+
+describe('trainAnomalyModel', () => {
+  it('uses the priors until there is enough personal history', () => {
+    const coldStart = trainAnomalyModel(daytimeWalk(MIN_TRAINING_SAMPLES - 1));
+    const personal = trainAnomalyModel(daytimeWalk(MIN_TRAINING_SAMPLES));
+
+    expect(coldStart.mode).toBe('cold-start');
+    expect(personal.mode).toBe('personal');
+    expect(personal.stats.speed.median).toBeCloseTo(1.2);
+  });
+
+  it('treats the hour as wrapping around midnight', () => {
+    const nightOwl = daytimeWalk(60).map(sample => ({
+      ...sample,
+      hour: [23, 0, 1][Math.floor(sample.hour) % 3],
+    }));
+    const model = trainAnomalyModel(nightOwl);
+
+    expect(model.stats.hour.median).toBeCloseTo(0);
+    expect(getFeatureZScore(model, 'hour', 23.5)).toBeLessThan(1);
+    expect(getFeatureZScore(model, 'hour', 12)).toBeGreaterThan(3);
+  });
+});
+
+describe('scoreAnomaly', () => {
+  const model = trainAnomalyModel(daytimeWalk(200));
+
+  it('scores usual behaviour as normal', () => {
+    const result = scoreAnomaly(model, usual);
+
+    expect(result.anomalyScore).toBe(0);
+    expect(result.contributions).toEqual([]);
+  });
+
+  it('names the features that drove the score', () => {
+    const result = scoreAnomaly(model, {
+      ...usual,
+      hour: 3,
+      distanceFromUsual: 4000,
+    });
+
+    expect(result.anomalyScore).toBeGreaterThan(0.7);
+    expect(result.contributions.map(c => c.feature)).toEqual([
+      'distanceFromUsual',
+      'hour',
+    ]);
+    expect(result.contributions[0].description).toBe(
+      'Far from usual places (4.0 km away)',
+    );
+    expect(result.contributions[1].description).toBe(
+      'Unusual time of day (03:00, usually around 13:00)',
+    );
+  });
+
+  it('does not flag being back at a usual place with a precise fix', () => {
+    const exploring = trainAnomalyModel(
+      daytimeWalk(100).map(sample => ({
+        ...sample,
+        distanceFromUsual: 2800 + (sample.distanceFromUsual - 100) * 2,
+        accuracy: 20 + (sample.accuracy - 8) * 5,
+      })),
+    );
+    const atHotel = scoreAnomaly(exploring, {
+      ...usual,
+      distanceFromUsual: 0,
+      stepDistance: 0,
+      accuracy: 3,
+    });
+
+    expect(atHotel.anomalyScore).toBe(0);
+    expect(atHotel.contributions).toEqual([]);
+    expect(getFeatureZScore(exploring, 'accuracy', 80)).toBeGreaterThan(3);
+  });
+
+  it('is deterministic and less confident in cold-start mode', () => {
+    const coldStart = trainAnomalyModel([]);
+    const features = {...usual, speed: 25};
+
+    expect(scoreAnomaly(coldStart, features)).toEqual(
+      scoreAnomaly(coldStart, features),
+    );
+    expect(scoreAnomaly(coldStart, features).confidence).toBeLessThan(
+      scoreAnomaly(model, features).confidence,
+    );
+  });
+});
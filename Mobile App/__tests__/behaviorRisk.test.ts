@@ -0,0 +1,153 @@
+import {
+  assessBehaviorRisk,
+  isGeofenceViolation,
+} from '../src/utils/behaviorRisk';
+import {AnomalyEvent} from '../src/services/AIAnomalyDetectionService';
+import {GeoFenceAlert} from '../src/services/GeoFencingService';
+
+const now = new Date('2026-10-19T12:00:00Z');
+const hoursAgo = (hours: number) =>
+  new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+function anomaly(overrides: Partial<AnomalyEvent> = {}): AnomalyEvent {
+  return {
+    id: 'anomaly_1',
+    type: 'inactivity',
+    severity: 'high',
+    timestamp: now,
+    description: 'No movement detected',
+    confidence: 1,
+    isResolved: false,
+    metadata: {},
+    ...overrides,
+  };
+}
+
+function alert(overrides: Partial<GeoFenceAlert> = {}): GeoFenceAlert {
+  return {
+    id: 'alert_1',
+    zoneId: 'zone_1',
+    zoneName: 'Old Quarry',
+    zoneType: 'restricted',
+    alertType: 'enter',
+    timestamp: now,
+    location: {
+      latitude: 26.9,
+      longitude: 75.8,
+      accuracy: 5,
+      timestamp: now.getTime(),
+    },
+    message: 'You have entered Old Quarry',
+    isRead: false,
+    ...overrides,
+  };
+}
+
+const noInputs = {anomalies: [], geofenceAlerts: [], ignoredRecommendations: 0};
+
+describe('assessBehaviorRisk', () => {
+  it('scores a clean record as low risk', () => {
+    const assessment = assessBehaviorRisk(noInputs, now);
+
+    expect(assessment.risk).toBe(10);
+    expect(assessment.description).toBe(
+      'No unresolved anomalies or geo-fence violations',
+    );
+  });
+
+  it('weighs unresolved anomalies by severity and confidence', () => {
+    expect(
+      assessBehaviorRisk({...noInputs, anomalies: [anomaly()]}, now).risk,
+    ).toBe(40);
+    expect(
+      assessBehaviorRisk(
+        {...noInputs, anomalies: [anomaly({severity: 'low', confidence: 0.5})]},
+        now,
+      ).risk,
+    ).toBe(13);
+
+    const assessment = assessBehaviorRisk(
+      {...noInputs, anomalies: [anomaly(), anomaly({isResolved: true})]},
+      now,
+    );
+    expect(assessment.unresolvedAnomalies).toBe(1);
+    expect(assessment.description).toBe('1 unresolved anomaly');
+  });
+
+  it('lets old anomalies fade', () => {
+    expect(
+      assessBehaviorRisk(
+        {...noInputs, anomalies: [anomaly({timestamp: hoursAgo(24)})]},
+        now,
+      ).risk,
+    ).toBe(25);
+  });
+
+  it('counts entering dangerous zones and overstaying as violations', () => {
+    expect(isGeofenceViolation(alert())).toBe(true);
+    expect(isGeofenceViolation(alert({zoneType: 'high-risk'}))).toBe(true);
+    expect(
+      isGeofenceViolation(alert({alertType: 'dwell', zoneType: 'cave'})),
+    ).toBe(true);
+
+    expect(isGeofenceViolation(alert({alertType: 'approach'}))).toBe(false);
+    expect(isGeofenceViolation(alert({alertType: 'exit'}))).toBe(false);
+    expect(isGeofenceViolation(alert({zoneType: 'safe'}))).toBe(false);
+    // Alerts stored before zone types were recorded
+    expect(isGeofenceViolation(alert({zoneType: undefined}))).toBe(false);
+  });
+
+  it('names the latest violation', () => {
+    const assessment = assessBehaviorRisk(
+      {
+        ...noInputs,
+        geofenceAlerts: [
+          alert({timestamp: hoursAgo(2)}),
+          alert({
+            zoneName: 'Jungle Trail',
+            zoneType: 'high-risk',
+            timestamp: hoursAgo(1),
+          }),
+          alert({alertType: 'approach'}),
+          alert({timestamp: hoursAgo(24 * 8)}),
+        ],
+      },
+      now,
+    );
+
+    expect(assessment.geofenceViolations).toBe(2);
+    expect(assessment.risk).toBeGreaterThan(50);
+    expect(assessment.description).toBe(
+      '2 geo-fence violations, latest in Jungle Trail',
+    );
+  });
+
+  it('counts recommendations the tourist has not acted on', () => {
+    const assessment = assessBehaviorRisk(
+      {...noInputs, ignoredRecommendations: 2},
+      now,
+    );
+
+    expect(assessment.risk).toBe(30);
+    expect(assessment.description).toBe(
+      '2 safety recommendations not acted on',
+    );
+  });
+
+  it('caps the risk at 100', () => {
+    const assessment = assessBehaviorRisk(
+      {
+        anomalies: [
+          anomaly({severity: 'critical'}),
+          anomaly({severity: 'critical'}),
+        ],
+        geofenceAlerts: [alert()],
+        ignoredRecommendations: 2,
+      },
+      now,
+    );
+
+    expect(assessment.risk).toBe(100);
+    expect(assessment.description).toBe('2 unresolved anomalies');
+  });
+});
@@ -0,0 +1,102 @@
+import {AnomalyEvent} from '../src/services/AIAnomalyDetectionService';
+import {
+  addCheckInStep,
+  attachAnomaly,
+  createCheckIn,
+  isCheckInOverdue,
+  isEscalationExhausted,
+  MAX_ESCALATION_ATTEMPTS,
+  shouldPromptCheckIn,
+} from '../src/utils/checkIn';
+
+const now = new Date('2026-10-19T10:00:00Z');
+const minutesLater = (minutes: number) =>
+  new Date(now.getTime() + minutes * 60 * 1000);
+
+function anomaly(id: string, severity: AnomalyEvent['severity']): AnomalyEvent {
+  return {
+    id,
+    type: 'location_dropoff',
+    severity,
+    timestamp: now,
+    description: `No location update (${id})`,
+    confidence: 0.9,
+    isResolved: false,
+    metadata: {},
+  };
+}
+
+describe('check-ins', () => {
+  it('prompts only for high and critical anomalies', () => {
+    expect(shouldPromptCheckIn(anomaly('a', 'medium'))).toBe(false);
+    expect(shouldPromptCheckIn(anomaly('b', 'high'))).toBe(true);
+    expect(shouldPromptCheckIn(anomaly('c', 'critical'))).toBe(true);
+  });
+
+  it('gives less time to answer a critical anomaly', () => {
+    const high = createCheckIn('1', anomaly('a', 'high'), now, 10);
+    const critical = createCheckIn('2', anomaly('b', 'critical'), now, 10);
+
+    expect(high.deadline).toEqual(minutesLater(10));
+    expect(critical.deadline).toEqual(minutesLater(5));
+    expect(high.steps).toEqual([
+      {
+        type: 'prompted',
+        at: now,
+        anomalyId: 'a',
+        detail: 'No location update (a)',
+      },
+    ]);
+  });
+
+  it('adds later anomalies without pushing the deadline back', () => {
+    const checkIn = createCheckIn('1', anomaly('a', 'critical'), now, 10);
+    const attached = attachAnomaly(
+      checkIn,
+      anomaly('b', 'high'),
+      minutesLater(2),
+      10,
+    );
+    const escalated = attachAnomaly(
+      createCheckIn('2', anomaly('a', 'high'), now, 10),
+      anomaly('b', 'critical'),
+      minutesLater(2),
+      10,
+    );
+
+    expect(attached.anomalyIds).toEqual(['a', 'b']);
+    expect(attached.deadline).toEqual(minutesLater(5));
+    expect(attached.steps[1].type).toBe('anomaly-added');
+    expect(escalated.deadline).toEqual(minutesLater(7));
+  });
+
+  it('is overdue only while pending past the deadline', () => {
+    const checkIn = createCheckIn('1', anomaly('a', 'high'), now, 10);
+    const answered = {
+      ...addCheckInStep(checkIn, 'confirmed-safe', minutesLater(3)),
+      status: 'safe' as const,
+    };
+
+    expect(isCheckInOverdue(checkIn, minutesLater(9))).toBe(false);
+    expect(isCheckInOverdue(checkIn, minutesLater(10))).toBe(true);
+    expect(isCheckInOverdue(answered, minutesLater(10))).toBe(false);
+    expect(answered.steps.map(step => step.type)).toEqual([
+      'prompted',
+      'confirmed-safe',
+    ]);
+  });
+
+  it('stops retrying escalation after the last attempt', () => {
+    let checkIn = createCheckIn('1', anomaly('a', 'high'), now, 10);
+    for (let i = 1; i < MAX_ESCALATION_ATTEMPTS; i++) {
+      checkIn = addCheckInStep(checkIn, 'escalation-failed', minutesLater(i));
+    }
+
+    expect(isEscalationExhausted(checkIn)).toBe(false);
+    expect(
+      isEscalationExhausted(
+        addCheckInStep(checkIn, 'escalation-failed', minutesLater(10)),
+      ),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,164 @@
+import {
+  assessCrowdDensity,
+  buildDensityLayer,
+  countWithinRadius,
+  getCrowdLevel,
+  getDensityCell,
+  getLayerUsualCount,
+  getUsualCount,
+  mapCrowdDensityRecords,
+  recordBaselineSample,
+} from '../src/utils/crowdDensity';
+import {destinationPoint} from '../src/utils/geo';
+import {TouristCluster} from '../src/services/AuthorityDashboardService';
+
+const now = new Date('2026-10-19T06:00:00Z');
+const puri = {latitude: 19.8135, longitude: 85.8312};
+const konark = {latitude: 19.8876, longitude: 86.0945};
+
+function cluster(
+  center: {latitude: number; longitude: number},
+  count: number,
+  minutesAgo = 5,
+): TouristCluster {
+  const tourists: TouristCluster['tourists'] = [];
+  for (let i = 0; i < count; i++) {
+    tourists.push({
+      id: `tourist_${i}`,
+      name: `Tourist ${i}`,
+      lastSeen: new Date(now.getTime() - minutesAgo * 60 * 1000),
+      status: 'safe',
+    });
+  }
+  return {
+    id: `cluster_${count}`,
+    center,
+    radius: 500,
+    touristCount: count,
+    riskLevel: 'low',
+    lastUpdated: now,
+    tourists,
+  };
+}
+
+describe('buildDensityLayer', () => {
+  it('keeps only counts of recently seen tourists per grid cell', () => {
+    const layer = buildDensityLayer(
+      [
+        cluster(puri, 12),
+        cluster(destinationPoint(puri, 0, 50), 3),
+        cluster(konark, 4, 90),
+      ],
+      now,
+    );
+
+    expect(layer.cells).toHaveLength(1);
+    expect(Object.keys(layer.cells[0]).sort()).toEqual([
+      'cell',
+      'center',
+      'count',
+    ]);
+    expect(countWithinRadius(layer, puri)).toBe(15);
+    expect(countWithinRadius(layer, konark)).toBe(0);
+  });
+
+  it('merges sparse cells and leaves out lone tourists', () => {
+    const layer = buildDensityLayer(
+      [
+        cluster(puri, 1),
+        cluster(destinationPoint(puri, 90, 300), 2),
+        cluster(konark, 1),
+      ],
+      now,
+    );
+
+    expect(layer.cells).toHaveLength(1);
+    expect(layer.cells[0].cell).toMatch(/\/4$/);
+    expect(layer.cells[0].count).toBe(3);
+    expect(countWithinRadius(layer, konark, 2000)).toBe(0);
+  });
+});
+
+describe('baseline', () => {
+  it('averages the samples for each hour and counts empty cells as zero', () => {
+    const busy = buildDensityLayer([cluster(puri, 20)], now);
+    const empty = buildDensityLayer([], now);
+
+    let baseline = recordBaselineSample({}, busy, 6);
+    baseline = recordBaselineSample(baseline, empty, 6);
+
+    expect(getUsualCount(baseline, puri, 6)).toBe(10);
+    expect(getUsualCount(baseline, puri, 7)).toBeNull();
+    expect(getUsualCount(baseline, konark, 6)).toBeNull();
+  });
+});
+
+describe('mapCrowdDensityRecords', () => {
+  const cell = getDensityCell(puri);
+  const [latIndex, lngIndex] = cell.split(',').map(Number);
+  const layer = mapCrowdDensityRecords(
+    [
+      {
+        cell,
+        center_lat: (latIndex + 0.5) * 0.0025,
+        center_lng: (lngIndex + 0.5) * 0.0025,
+        tourist_count: 12,
+        usual_count: 0,
+      },
+      {
+        cell: `${latIndex},${lngIndex + 1}`,
+        center_lat: (latIndex + 0.5) * 0.0025,
+        center_lng: (lngIndex + 1.5) * 0.0025,
+        tourist_count: 0,
+        usual_count: 8.5,
+      },
+    ],
+    now,
+  );
+
+  it('counts the published cells within the radius', () => {
+    expect(layer.updatedAt).toBe(now);
+    expect(countWithinRadius(layer, puri)).toBe(12);
+    expect(countWithinRadius(layer, konark)).toBe(0);
+  });
+
+  it('sums the usual counts the server gave', () => {
+    expect(getLayerUsualCount(layer, puri)).toBe(8.5);
+    expect(getLayerUsualCount(layer, puri, 100)).toBeNull();
+    expect(getLayerUsualCount(layer, konark)).toBeNull();
+  });
+});
+
+describe('assessCrowdDensity', () => {
+  it('penalises both deserted and overcrowded areas', () => {
+    expect(getCrowdLevel(1, null)).toBe('deserted');
+    expect(getCrowdLevel(3, 40)).toBe('deserted');
+    expect(getCrowdLevel(30, 30)).toBe('normal');
+    expect(getCrowdLevel(120, 40)).toBe('overcrowded');
+    expect(getCrowdLevel(200, null)).toBe('overcrowded');
+
+    const normal = assessCrowdDensity({radius: 500, count: 30, usual: 30});
+    const deserted = assessCrowdDensity({radius: 500, count: 1, usual: 30});
+    const overcrowded = assessCrowdDensity({
+      radius: 500,
+      count: 120,
+      usual: 40,
+    });
+    expect(deserted.risk).toBeGreaterThan(normal.risk);
+    expect(overcrowded.risk).toBeGreaterThan(normal.risk);
+  });
+
+  it('describes the live count against the usual one', () => {
+    expect(
+      assessCrowdDensity({radius: 500, count: 1, usual: 29.6}).description,
+    ).toBe(
+      'Deserted area: fewer than 3 tourists within 500 m, usually 30 at this hour',
+    );
+    expect(
+      assessCrowdDensity({radius: 500, count: null, usual: 12}).description,
+    ).toBe('Usual crowd: usually 12 tourists within 500 m at this hour');
+    expect(assessCrowdDensity({radius: 500, count: null, usual: null})).toEqual(
+      {risk: 30, level: null, description: 'No crowd data for this area yet'},
+    );
+  });
+});
@@ -0,0 +1,193 @@
+import http from 'http';
+import {AddressInfo} from 'net';
+import {EnvironmentalDataService} from '../src/services/EnvironmentalDataService';
+import {HttpEnvironmentalProvider} from '../src/services/environmentalProviders';
+import {
+  assessEnvironmentalRisk,
+  parseEnvironmentalFeed,
+} from '../src/utils/environmentalRisk';
+
+const puri = {latitude: 19.8135, longitude: 85.8312};
+const konark = {latitude: 19.8876, longitude: 86.0945};
+
+const feed = {
+  conditions: [
+    {
+      id: 'mahanadi_flood',
+      type: 'flood',
+      severity: 'warning',
+      center: puri,
+      radius: 3000,
+      description: 'Low-lying beach roads under water',
+    },
+    {
+      id: 'coast_heat',
+      type: 'heat',
+      severity: 'advisory',
+      center: puri,
+      radius: 20000,
+      temperature: 41.2,
+      validUntil: '2026-10-20T12:00:00Z',
+      description: 'Avoid the beach at midday',
+    },
+  ],
+};
+
+// Local stand-in for a weather or disaster management feed
+let requests: string[] = [];
+let status = 200;
+const server = http.createServer((request, response) => {
+  requests.push(request.url || '');
+  response.writeHead(status, {'Content-Type': 'application/json'});
+  response.end(status === 200 ? JSON.stringify(feed) : '{}');
+});
+let baseUrl = '';
+
+beforeAll(done => {
+  server.listen(0, '127.0.0.1', () => {
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    done();
+  });
+});
+
+afterAll(done => {
+  server.close(done);
+});
+
+beforeEach(() => {
+  requests = [];
+  status = 200;
+  EnvironmentalDataService.getProviders().forEach(provider =>
+    EnvironmentalDataService.removeProvider(provider.id),
+  );
+});
+
+describe('HttpEnvironmentalProvider', () => {
+  it('fetches and parses conditions around the location', async () => {
+    const provider = new HttpEnvironmentalProvider({
+      id: 'imd',
+      url: `${baseUrl}/warnings?lat={lat}&lng={lng}`,
+    });
+
+    const conditions = await provider.fetchConditions(puri);
+
+    expect(requests).toEqual(['/warnings?lat=19.8135&lng=85.8312']);
+    expect(conditions.map(condition => condition.id)).toEqual([
+      'mahanadi_flood',
+      'coast_heat',
+    ]);
+    expect(conditions[1].validUntil).toEqual(new Date('2026-10-20T12:00:00Z'));
+    expect(conditions[1].source).toBe('imd');
+  });
+
+  it('rejects when the feed responds with an error', async () => {
+    status = 503;
+    const provider = new HttpEnvironmentalProvider({id: 'imd', url: baseUrl});
+
+    await expect(provider.fetchConditions(puri)).rejects.toThrow(
+      'Environmental feed imd responded with 503',
+    );
+  });
+});
+
+describe('EnvironmentalDataService', () => {
+  const now = new Date('2026-10-19T06:00:00Z');
+  const minutesLater = (minutes: number) =>
+    new Date(now.getTime() + minutes * 60 * 1000);
+
+  it('refetches only once the cached conditions are older than the TTL', async () => {
+    EnvironmentalDataService.registerProvider(
+      new HttpEnvironmentalProvider({id: 'ttl', url: baseUrl, ttl: 10 * 60000}),
+    );
+
+    await EnvironmentalDataService.refreshConditions(puri, now);
+    await EnvironmentalDataService.refreshConditions(puri, minutesLater(5));
+    expect(requests).toHaveLength(1);
+
+    await EnvironmentalDataService.refreshConditions(puri, minutesLater(11));
+    expect(requests).toHaveLength(2);
+
+    // Konark is outside the cached area, so it has its own entry
+    expect(EnvironmentalDataService.getConditions(konark, now)).toEqual([]);
+  });
+
+  it('keeps serving cached conditions while the feed is down', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    EnvironmentalDataService.registerProvider(
+      new HttpEnvironmentalProvider({id: 'offline', url: baseUrl, ttl: 60000}),
+    );
+    await EnvironmentalDataService.refreshConditions(puri, now);
+
+    status = 503;
+    const conditions = await EnvironmentalDataService.refreshConditions(
+      puri,
+      minutesLater(30),
+    );
+
+    expect(requests).toHaveLength(2);
+    expect(conditions).toHaveLength(2);
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+
+  it('drops entries past the maximum age when saving', async () => {
+    EnvironmentalDataService.registerProvider(
+      new HttpEnvironmentalProvider({id: 'prune', url: baseUrl}),
+    );
+    await EnvironmentalDataService.refreshConditions(puri, now);
+    expect(
+      EnvironmentalDataService.getLastFetchedAt('prune', puri),
+    ).not.toBeNull();
+
+    // A save eight days later, for another area, prunes the Puri entry
+    await EnvironmentalDataService.refreshConditions(
+      konark,
+      minutesLater(8 * 24 * 60),
+    );
+
+    expect(EnvironmentalDataService.getLastFetchedAt('prune', puri)).toBeNull();
+  });
+});
+
+describe('assessEnvironmentalRisk', () => {
+  const conditions = parseEnvironmentalFeed(feed, 'fixture');
+  const at = new Date('2026-10-19T06:00:00Z');
+
+  it('describes the worst condition affecting the location', () => {
+    const assessment = assessEnvironmentalRisk(puri, conditions, 'day', at);
+
+    expect(assessment.risk).toBe(30 + 42 + 10);
+    expect(assessment.description).toBe(
+      'Flooding warning: Low-lying beach roads under water and 1 more',
+    );
+  });
+
+  it('ignores conditions that are out of range or expired', () => {
+    expect(
+      assessEnvironmentalRisk(konark, conditions, 'night', at).description,
+    ).toBe('No weather or terrain warnings, but it is dark');
+
+    const later = assessEnvironmentalRisk(
+      {latitude: 19.84, longitude: 85.86},
+      conditions,
+      'day',
+      new Date('2026-10-21T06:00:00Z'),
+    );
+    expect(later.risk).toBe(30);
+  });
+
+  it('skips feed entries that do not validate', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const parsed = parseEnvironmentalFeed(
+      [
+        {type: 'tsunami', severity: 'warning', center: puri, radius: 100},
+        {type: 'flood', severity: 'constructor', center: puri, radius: 100},
+      ],
+      'fixture',
+    );
+
+    expect(parsed).toEqual([]);
+    expect(() => parseEnvironmentalFeed({}, 'fixture')).toThrow();
+    warnSpy.mockRestore();
+  });
+});
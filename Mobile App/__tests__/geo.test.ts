@@ -0,0 +1,158 @@
+import {
+  calculateBearing,
+  destinationPoint,
+  distanceToPath,
+  distanceToSegment,
+  getBoundingBox,
+  getPathLength,
+  getRadiusBounds,
+  haversineDistance,
+  isPointInBounds,
+  simplifyPath,
+} from '../src/utils/geo';
+
+const jaipur = {latitude: 26.9124, longitude: 75.7873};
+const delhi = {latitude: 28.6139, longitude: 77.209};
+
+describe('geo', () => {
+  it('measures great-circle distance', () => {
+    expect(haversineDistance(jaipur, jaipur)).toBe(0);
+    // Jaipur to Delhi is about 235 km in a straight line
+    expect(haversineDistance(jaipur, delhi) / 1000).toBeCloseTo(235.3, 0);
+    // One degree of longitude on the equator
+    expect(
+      haversineDistance(
+        {latitude: 0, longitude: 0},
+        {latitude: 0, longitude: 1},
+      ),
+    ).toBeCloseTo(111195, -1);
+  });
+
+  it('computes initial bearings', () => {
+    const origin = {latitude: 0, longitude: 0};
+    expect(calculateBearing(origin, {latitude: 1, longitude: 0})).toBeCloseTo(
+      0,
+    );
+    expect(calculateBearing(origin, {latitude: 0, longitude: 1})).toBeCloseTo(
+      90,
+    );
+    expect(calculateBearing(origin, {latitude: -1, longitude: 0})).toBeCloseTo(
+      180,
+    );
+    expect(calculateBearing(origin, {latitude: 0, longitude: -1})).toBeCloseTo(
+      270,
+    );
+    expect(calculateBearing(jaipur, delhi)).toBeCloseTo(36.6, 0);
+  });
+
+  it('finds destination points that round-trip with distance and bearing', () => {
+    const destination = destinationPoint(
+      jaipur,
+      calculateBearing(jaipur, delhi),
+      haversineDistance(jaipur, delhi),
+    );
+    expect(destination.latitude).toBeCloseTo(delhi.latitude, 6);
+    expect(destination.longitude).toBeCloseTo(delhi.longitude, 6);
+
+    const east = destinationPoint(jaipur, 90, 5000);
+    expect(haversineDistance(jaipur, east)).toBeCloseTo(5000, 0);
+    expect(calculateBearing(jaipur, east)).toBeCloseTo(90, 0);
+
+    // Crossing the antimeridian wraps the longitude
+    const wrapped = destinationPoint(
+      {latitude: 0, longitude: 179.99},
+      90,
+      5000,
+    );
+    expect(wrapped.longitude).toBeLessThan(-179);
+  });
+
+  it('measures distance to segments and paths', () => {
+    const start = {latitude: 0, longitude: 0};
+    const end = {latitude: 0, longitude: 0.01};
+
+    // Perpendicular to the middle of the segment
+    expect(
+      distanceToSegment({latitude: 0.001, longitude: 0.005}, start, end),
+    ).toBeCloseTo(111.2, 0);
+    // Beyond the end, so measured to the endpoint
+    const beyond = {latitude: 0, longitude: 0.02};
+    expect(distanceToSegment(beyond, start, end)).toBeCloseTo(
+      haversineDistance(beyond, end),
+      0,
+    );
+    // Degenerate segment
+    expect(
+      distanceToSegment({latitude: 0.001, longitude: 0}, start, start),
+    ).toBeCloseTo(111.2, 0);
+
+    const path = [start, end, {latitude: 0.01, longitude: 0.01}];
+    expect(
+      distanceToPath({latitude: 0.005, longitude: 0.011}, path),
+    ).toBeCloseTo(111.2, 0);
+    expect(distanceToPath(start, [])).toBe(Infinity);
+    expect(getPathLength(path)).toBeCloseTo(
+      haversineDistance(start, end) * 2,
+      -1,
+    );
+  });
+
+  it('builds bounding boxes', () => {
+    const bounds = getBoundingBox([jaipur, delhi]);
+    expect(bounds).toEqual({
+      minLatitude: jaipur.latitude,
+      minLongitude: jaipur.longitude,
+      maxLatitude: delhi.latitude,
+      maxLongitude: delhi.longitude,
+    });
+    expect(isPointInBounds({latitude: 27.5, longitude: 76.5}, bounds)).toBe(
+      true,
+    );
+    expect(isPointInBounds({latitude: 29, longitude: 76.5}, bounds)).toBe(
+      false,
+    );
+
+    const radiusBounds = getRadiusBounds(jaipur, 1000);
+    expect(
+      haversineDistance(jaipur, {
+        latitude: radiusBounds.maxLatitude,
+        longitude: jaipur.longitude,
+      }),
+    ).toBeCloseTo(1000, -1);
+    expect(
+      haversineDistance(jaipur, {
+        latitude: jaipur.latitude,
+        longitude: radiusBounds.maxLongitude,
+      }),
+    ).toBeCloseTo(1000, -1);
+  });
+
+  describe('simplifyPath', () => {
+    // A straight walk east with a 50m detour north in the middle
+    const track = [0, 1, 2, 3, 4, 5, 6, 7, 8].map(i => ({
+      latitude: i === 4 ? 0.00045 : 0.000001 * (i % 2),
+      longitude: 0.001 * i,
+      timestamp: i,
+    }));
+
+    it('drops points within tolerance and keeps the endpoints', () => {
+      const simplified = simplifyPath(track, 10);
+      expect(simplified.map(point => point.timestamp)).toEqual([0, 3, 4, 5, 8]);
+    });
+
+    it('keeps only the endpoints when the tolerance covers the detour', () => {
+      expect(simplifyPath(track, 100).map(point => point.timestamp)).toEqual([
+        0, 8,
+      ]);
+    });
+
+    it('keeps every point with a zero tolerance on a zigzag', () => {
+      expect(simplifyPath(track, 0)).toHaveLength(track.length);
+    });
+
+    it('returns short paths unchanged', () => {
+      expect(simplifyPath(track.slice(0, 2), 10)).toEqual(track.slice(0, 2));
+      expect(simplifyPath([], 10)).toEqual([]);
+    });
+  });
+});
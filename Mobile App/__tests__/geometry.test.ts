@@ -0,0 +1,198 @@
+import {GeoFenceZone} from '../src/services/LocationService';
+import {GeoFenceGeometry, GeoJSONLinearRing} from '../src/types/geojson';
+import {
+  distanceToGeometryBoundary,
+  distanceToZoneBoundary,
+  getGeometryBounds,
+  isLocationInsideZone,
+  isPointInGeometry,
+  isPointInPolygon,
+} from '../src/utils/geometry';
+
+const METERS_PER_DEGREE = 111320;
+
+// Closed square ring, [longitude, latitude] like the safety_zones table
+const square = (
+  south: number,
+  west: number,
+  size: number,
+): GeoJSONLinearRing => [
+  [west, south],
+  [west + size, south],
+  [west + size, south + size],
+  [west, south + size],
+  [west, south],
+];
+
+// A 2 km square near Puri with a 1 km courtyard in the middle
+const outer = square(19.8, 85.8, 0.018);
+const courtyard = square(19.8045, 85.8045, 0.009);
+const puri = {latitude: 19.809, longitude: 85.809}; // inside the courtyard
+const walkway = {latitude: 19.802, longitude: 85.809}; // between the rings
+
+describe('isPointInPolygon', () => {
+  it('excludes points inside a hole', () => {
+    expect(isPointInPolygon(walkway, [outer])).toBe(true);
+    expect(isPointInPolygon(walkway, [outer, courtyard])).toBe(true);
+    expect(isPointInPolygon(puri, [outer])).toBe(true);
+    expect(isPointInPolygon(puri, [outer, courtyard])).toBe(false);
+    expect(isPointInPolygon(puri, [])).toBe(false);
+  });
+
+  it('handles concave rings and rays through a vertex', () => {
+    // An L shape: the square with its north-east quarter cut away
+    const lShape: GeoJSONLinearRing = [
+      [0, 0],
+      [2, 0],
+      [2, 1],
+      [1, 1],
+      [1, 2],
+      [0, 2],
+      [0, 0],
+    ];
+
+    expect(isPointInPolygon({latitude: 1.5, longitude: 0.5}, [lShape])).toBe(
+      true,
+    );
+    expect(isPointInPolygon({latitude: 1.5, longitude: 1.5}, [lShape])).toBe(
+      false,
+    );
+    // Level with the (1, 1) and (2, 1) vertices
+    expect(isPointInPolygon({latitude: 1, longitude: 0.5}, [lShape])).toBe(
+      true,
+    );
+    expect(isPointInPolygon({latitude: 1, longitude: 2.5}, [lShape])).toBe(
+      false,
+    );
+  });
+
+  it('tells points just either side of an edge apart', () => {
+    const justInside = {
+      latitude: 19.8 + 1 / METERS_PER_DEGREE,
+      longitude: 85.81,
+    };
+    const justOutside = {
+      latitude: 19.8 - 1 / METERS_PER_DEGREE,
+      longitude: 85.81,
+    };
+
+    expect(isPointInPolygon(justInside, [outer])).toBe(true);
+    expect(isPointInPolygon(justOutside, [outer])).toBe(false);
+  });
+
+  it('works anywhere short of the antimeridian', () => {
+    // Taveuni, Fiji, just west of 180°, and Ushuaia in the south-west
+    const taveuni = square(-16.95, 179.85, 0.1);
+    const ushuaia = square(-54.85, -68.35, 0.05);
+
+    expect(
+      isPointInPolygon({latitude: -16.9, longitude: 179.9}, [taveuni]),
+    ).toBe(true);
+    expect(
+      isPointInPolygon({latitude: -16.9, longitude: 179.99}, [taveuni]),
+    ).toBe(false);
+    expect(
+      isPointInPolygon({latitude: -54.82, longitude: -68.32}, [ushuaia]),
+    ).toBe(true);
+    expect(
+      isPointInPolygon({latitude: -54.82, longitude: -68.28}, [ushuaia]),
+    ).toBe(false);
+  });
+});
+
+describe('isPointInGeometry', () => {
+  it('is inside a MultiPolygon when inside any of its polygons', () => {
+    const islands: GeoFenceGeometry = {
+      type: 'MultiPolygon',
+      coordinates: [[outer, courtyard], [square(20.2, 85.8, 0.01)]],
+    };
+
+    expect(isPointInGeometry(walkway, islands)).toBe(true);
+    expect(
+      isPointInGeometry({latitude: 20.205, longitude: 85.805}, islands),
+    ).toBe(true);
+    expect(isPointInGeometry(puri, islands)).toBe(false);
+    expect(
+      isPointInGeometry({latitude: 20.0, longitude: 85.805}, islands),
+    ).toBe(false);
+  });
+
+  it('bounds a MultiPolygon by its outer rings', () => {
+    expect(
+      getGeometryBounds({
+        type: 'MultiPolygon',
+        coordinates: [[outer, courtyard], [square(20.2, 85.8, 0.01)]],
+      }),
+    ).toEqual({
+      minLatitude: 19.8,
+      minLongitude: 85.8,
+      maxLatitude: 20.21,
+      maxLongitude: 85.818,
+    });
+  });
+});
+
+describe('distanceToGeometryBoundary', () => {
+  const withCourtyard: GeoFenceGeometry = {
+    type: 'Polygon',
+    coordinates: [outer, courtyard],
+  };
+
+  it('measures to the nearest edge from inside and outside', () => {
+    const south = {latitude: 19.8 - 200 / METERS_PER_DEGREE, longitude: 85.809};
+
+    expect(distanceToGeometryBoundary(south, withCourtyard)).toBeCloseTo(
+      200,
+      -1,
+    );
+    // The walkway point is 220 m from the south edge, 280 m from the hole
+    expect(distanceToGeometryBoundary(walkway, withCourtyard)).toBeCloseTo(
+      222,
+      -1,
+    );
+  });
+
+  it('counts the edge of a hole as boundary', () => {
+    // Courtyard center, 470 m from its east and west sides
+    expect(distanceToGeometryBoundary(puri, withCourtyard)).toBeCloseTo(
+      471,
+      -1,
+    );
+  });
+});
+
+describe('zones', () => {
+  const circle: GeoFenceZone = {
+    id: 'temple',
+    name: 'Jagannath Temple',
+    type: 'restricted',
+    center: {latitude: 19.8048, longitude: 85.8179},
+    radius: 300,
+    alertMessage: 'Restricted',
+    isActive: true,
+  };
+  const north = (meters: number) => ({
+    latitude: circle.center.latitude + meters / METERS_PER_DEGREE,
+    longitude: circle.center.longitude,
+  });
+
+  it('falls back to the center and radius without a geometry', () => {
+    expect(isLocationInsideZone(north(250), circle)).toBe(true);
+    expect(isLocationInsideZone(north(350), circle)).toBe(false);
+    expect(distanceToZoneBoundary(north(250), circle)).toBeCloseTo(50, 0);
+    expect(distanceToZoneBoundary(north(400), circle)).toBeCloseTo(100, 0);
+  });
+
+  it('uses the geometry instead of the circle when set', () => {
+    // The circle covers the courtyard and misses the walkway
+    const zone: GeoFenceZone = {
+      ...circle,
+      center: puri,
+      geometry: {type: 'Polygon', coordinates: [outer, courtyard]},
+    };
+
+    expect(isLocationInsideZone(walkway, zone)).toBe(true);
+    expect(isLocationInsideZone(puri, zone)).toBe(false);
+    expect(distanceToZoneBoundary(puri, zone)).toBeCloseTo(471, -1);
+  });
+});
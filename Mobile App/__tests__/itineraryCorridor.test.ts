@@ -0,0 +1,165 @@
+import {
+  PlannedLocation,
+  TripItinerary,
+} from '../src/services/BlockchainService';
+import {destinationPoint} from '../src/utils/geo';
+import {
+  assessItineraryDeviation,
+  describeItineraryDeviation,
+  getDayRoute,
+} from '../src/utils/itineraryCorridor';
+
+const hotel = {latitude: 28.6139, longitude: 77.209};
+const fort = destinationPoint(hotel, 90, 4000);
+const market = destinationPoint(fort, 0, 3000);
+
+function stop(
+  name: string,
+  coordinates: {latitude: number; longitude: number},
+  plannedVisitDate: Date,
+): PlannedLocation {
+  return {
+    id: name.toLowerCase().replace(/ /g, '-'),
+    name,
+    coordinates,
+    plannedVisitDate,
+    riskLevel: 'low',
+    isVisited: false,
+  };
+}
+
+const day = (hours: number, minutes = 0) =>
+  new Date(2026, 9, 19, hours, minutes);
+
+function itinerary(
+  plannedLocations: PlannedLocation[],
+  accommodation = hotel,
+): TripItinerary {
+  return {
+    entryPoint: 'Delhi',
+    entryDate: day(0),
+    exitDate: new Date(2026, 9, 25),
+    plannedLocations,
+    accommodation: {
+      name: 'Hotel',
+      address: '',
+      coordinates: accommodation,
+      contactNumber: '',
+      checkInDate: day(0),
+      checkOutDate: new Date(2026, 9, 25),
+    },
+    purpose: 'tourism',
+    groupSize: 1,
+  };
+}
+
+const trip = itinerary([
+  stop('Market', market, day(15)),
+  stop('Red Fort', fort, day(10)),
+  stop('Tomorrow', market, new Date(2026, 9, 20, 10)),
+]);
+
+describe('getDayRoute', () => {
+  it("runs from the accommodation through the day's stops in order", () => {
+    expect(getDayRoute(trip, day(12)).map(point => point.name)).toEqual([
+      'Hotel',
+      'Red Fort',
+      'Market',
+      'Hotel',
+    ]);
+  });
+
+  it('leaves out an accommodation that has not been located', () => {
+    const unlocated = itinerary(trip.plannedLocations, {
+      latitude: 0,
+      longitude: 0,
+    });
+
+    expect(getDayRoute(unlocated, day(12)).map(point => point.name)).toEqual([
+      'Red Fort',
+      'Market',
+    ]);
+  });
+});
+
+describe('assessItineraryDeviation', () => {
+  it('does nothing on days without a plan', () => {
+    expect(
+      assessItineraryDeviation(trip, hotel, [], new Date(2026, 9, 22, 12)),
+    ).toBeNull();
+  });
+
+  it('accepts anywhere inside the corridor of the route', () => {
+    const alongFirstLeg = destinationPoint(
+      destinationPoint(hotel, 90, 2000),
+      0,
+      500,
+    );
+    const deviation = assessItineraryDeviation(
+      trip,
+      alongFirstLeg,
+      [{...fort, timestamp: day(10).getTime()}],
+      day(11),
+    );
+
+    expect(deviation?.isOffRoute).toBe(false);
+    expect(deviation?.leg.label).toBe('Hotel → Red Fort');
+    expect(deviation?.lateStops).toEqual([]);
+  });
+
+  it('names the leg that was left and by how far', () => {
+    const eastOfLeg = destinationPoint(
+      destinationPoint(fort, 0, 1500),
+      90,
+      2500,
+    );
+    const deviation = assessItineraryDeviation(
+      trip,
+      eastOfLeg,
+      [{...fort, timestamp: day(10).getTime()}],
+      day(11),
+    );
+
+    expect(deviation?.isOffRoute).toBe(true);
+    expect(deviation?.leg.label).toBe('Red Fort → Market');
+    expect(describeItineraryDeviation(deviation!)).toBe(
+      '2.5 km off the planned leg Red Fort → Market',
+    );
+  });
+
+  it('reports stops not reached well after their planned time', () => {
+    const deviation = assessItineraryDeviation(
+      trip,
+      hotel,
+      [{...hotel, timestamp: day(9).getTime()}],
+      day(12, 30),
+    );
+
+    expect(deviation?.isOffRoute).toBe(false);
+    expect(deviation?.lateStops.map(late => late.stop.name)).toEqual([
+      'Red Fort',
+    ]);
+    expect(describeItineraryDeviation(deviation!)).toBe(
+      '2h 30m late for Red Fort',
+    );
+  });
+
+  it('has no lateness for stops planned without a time', () => {
+    // Imported in a time zone 5h 30m behind, so not at local midnight here
+    const dateOnly = itinerary([
+      {...stop('Red Fort', fort, day(5, 30)), isDateOnly: true},
+    ]);
+    const deviation = assessItineraryDeviation(dateOnly, hotel, [], day(20));
+
+    expect(deviation?.lateStops).toEqual([]);
+  });
+
+  it('holds a stop planned for midnight to its time', () => {
+    const midnight = itinerary([stop('Red Fort', fort, day(0))]);
+    const deviation = assessItineraryDeviation(midnight, hotel, [], day(2));
+
+    expect(deviation?.lateStops.map(late => late.stop.name)).toEqual([
+      'Red Fort',
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+import fs from 'fs';
+import path from 'path';
+import {PlannedLocation} from '../src/services/BlockchainService';
+import {
+  detectItineraryFormat,
+  parseItinerary,
+} from '../src/utils/itineraryImport';
+
+const readFixture = (name: string) =>
+  fs.readFileSync(path.join(__dirname, 'fixtures', 'itinerary', name), 'utf8');
+
+const tripStart = new Date(2026, 10, 1);
+
+describe('detectItineraryFormat', () => {
+  it('prefers the file extension and falls back to the content', () => {
+    expect(detectItineraryFormat('', 'Trip.KML')).toBe('kml');
+    expect(detectItineraryFormat(readFixture('namespaced.gpx'))).toBe('gpx');
+    expect(detectItineraryFormat(readFixture('placemarks.kml'))).toBe('kml');
+    expect(detectItineraryFormat(readFixture('stops.csv'))).toBe('csv');
+  });
+});
+
+describe('parseItinerary', () => {
+  it('reads namespaced GPX waypoints and route points, not tracks', () => {
+    const result = parseItinerary(readFixture('namespaced.gpx'), {
+      defaultVisitDate: tripStart,
+    });
+
+    expect(result.format).toBe('gpx');
+    expect(result.locations.map(location => location.name)).toEqual([
+      'Puri Beach & Lighthouse <north end>',
+      'Konark Sun Temple',
+      'Stop 5',
+    ]);
+    expect(result.locations[0].plannedVisitDate).toEqual(
+      new Date('2026-11-02T04:30:00Z'),
+    );
+    expect(result.locations[0].isDateOnly).toBe(false);
+    expect(result.locations[1].coordinates).toEqual({
+      latitude: 19.8876,
+      longitude: 86.0945,
+    });
+    expect(result.skipped).toEqual([
+      {entry: 3, message: 'Coordinates are 0,0'},
+    ]);
+    // The route passes Puri again on the same day
+    expect(result.duplicates).toBe(1);
+  });
+
+  it('reads KML points with CDATA names and time spans', () => {
+    const result = parseItinerary(readFixture('placemarks.kml'));
+
+    expect(result.locations).toMatchObject([
+      {
+        name: 'Chilika Lake (boat jetty)',
+        coordinates: {latitude: 19.7167, longitude: 85.4333},
+        plannedVisitDate: new Date(2026, 10, 3),
+        isDateOnly: true,
+      },
+      {
+        name: 'Udayagiri & Khandagiri Caves',
+        coordinates: {latitude: 20.2631, longitude: 85.7857},
+        plannedVisitDate: new Date('2026-11-04T03:00:00Z'),
+        isDateOnly: false,
+      },
+    ]);
+    expect(result.skipped).toEqual([
+      {entry: 2, message: 'Placemark is not a point'},
+    ]);
+  });
+
+  it('reads quoted CSV cells, day-first dates and risk levels', () => {
+    const warnings = parseItinerary(readFixture('stops.csv'));
+    const result = parseItinerary(readFixture('stops.csv'), {
+      defaultVisitDate: tripStart,
+    });
+
+    expect(
+      result.locations.map(
+        ({name, plannedVisitDate, isDateOnly, riskLevel}) => ({
+          name,
+          plannedVisitDate,
+          isDateOnly,
+          riskLevel,
+        }),
+      ),
+    ).toEqual([
+      {
+        name: 'Raghurajpur, artist village',
+        plannedVisitDate: new Date(2026, 10, 5),
+        isDateOnly: true,
+        riskLevel: 'medium',
+      },
+      {
+        name: 'The "Big" Temple',
+        plannedVisitDate: new Date(2026, 10, 5),
+        isDateOnly: true,
+        riskLevel: 'high',
+      },
+      // No date in the file, so the trip start is used
+      {
+        name: 'Sakshigopal',
+        plannedVisitDate: tripStart,
+        isDateOnly: true,
+        riskLevel: 'low',
+      },
+    ]);
+    expect(result.skipped).toEqual([
+      {entry: 5, message: 'Unrecognised date "31/02/2026"'},
+      {entry: 7, message: 'Missing or non-numeric coordinates'},
+    ]);
+    expect(result.duplicates).toBe(1);
+    // Without a fallback date the undated stop is skipped too
+    expect(warnings.skipped).toContainEqual({
+      entry: 4,
+      message: 'Missing visit date',
+    });
+  });
+
+  it('reads a headerless semicolon file as name, lat, lng, date', () => {
+    const result = parseItinerary(readFixture('headerless.csv'));
+
+    expect(result.locations).toMatchObject([
+      {name: 'Lingaraj Temple', plannedVisitDate: new Date(2026, 10, 6)},
+      {name: 'Dhauli', plannedVisitDate: new Date(2026, 10, 6)},
+    ]);
+  });
+
+  it('drops stops already on the itinerary on the same day only', () => {
+    const existing: PlannedLocation = {
+      id: 'PL_1',
+      name: 'Lingaraj',
+      coordinates: {latitude: 20.2383, longitude: 85.8339},
+      plannedVisitDate: new Date(2026, 10, 6),
+      riskLevel: 'low',
+      isVisited: false,
+    };
+
+    const sameDay = parseItinerary(readFixture('headerless.csv'), {
+      existing: [existing],
+    });
+    const otherDay = parseItinerary(readFixture('headerless.csv'), {
+      existing: [{...existing, plannedVisitDate: new Date(2026, 10, 7)}],
+    });
+
+    expect(sameDay.locations.map(location => location.name)).toEqual([
+      'Dhauli',
+    ]);
+    expect(sameDay.duplicates).toBe(1);
+    expect(otherDay.locations).toHaveLength(2);
+  });
+});
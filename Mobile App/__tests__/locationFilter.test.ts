@@ -0,0 +1,98 @@
+import {LocationData} from '../src/services/LocationService';
+import {LocationFixFilter} from '../src/utils/locationFilter';
+import {haversineDistance} from '../src/utils/geo';
+
+const start = {latitude: 26.9124, longitude: 75.7873};
+const metersNorth = (meters: number) => meters / 111320;
+
+// A fix the given meters north of the start, seconds after the first one
+function fix(seconds: number, meters: number, accuracy = 10): LocationData {
+  return {
+    latitude: start.latitude + metersNorth(meters),
+    longitude: start.longitude,
+    accuracy,
+    timestamp: seconds * 1000,
+  };
+}
+
+describe('LocationFixFilter', () => {
+  let filter: LocationFixFilter;
+
+  beforeEach(() => {
+    filter = new LocationFixFilter();
+  });
+
+  it('passes the first fix through unchanged', () => {
+    const result = filter.process(fix(0, 0));
+
+    expect(result.accepted).toBe(true);
+    expect(result.raw.source).toBe('raw');
+    expect(result.filtered).toMatchObject({...start, source: 'filtered'});
+  });
+
+  it('drops inaccurate and out-of-order fixes', () => {
+    filter.process(fix(10, 0));
+
+    expect(filter.process(fix(20, 5, 250)).rejectionReason).toBe('inaccurate');
+    expect(filter.process(fix(20, 5, 0)).rejectionReason).toBe('inaccurate');
+    expect(filter.process(fix(5, 5)).rejectionReason).toBe('stale');
+    expect(filter.getStats()).toEqual({
+      accepted: 1,
+      rejectedInaccurate: 2,
+      rejectedJumps: 0,
+      rejectedStale: 1,
+    });
+  });
+
+  it('rejects a jump faster than the speed limit', () => {
+    filter.process(fix(0, 0));
+
+    // 5 km in 10 seconds
+    const result = filter.process(fix(10, 5000));
+
+    expect(result.accepted).toBe(false);
+    expect(result.rejectionReason).toBe('impossible-jump');
+    expect(filter.process(fix(20, 20)).accepted).toBe(true);
+  });
+
+  it('allows for both error circles before calling it a jump', () => {
+    filter.process(fix(0, 0, 80));
+
+    // 150 m in one second, but within the two 80 m accuracy circles
+    expect(filter.process(fix(1, 150, 80)).accepted).toBe(true);
+  });
+
+  it('trusts repeated jumps to the same new place', () => {
+    filter.process(fix(0, 0));
+
+    expect(filter.process(fix(10, 50000)).accepted).toBe(false);
+    expect(filter.process(fix(20, 50010)).accepted).toBe(false);
+    const third = filter.process(fix(30, 50020));
+
+    // The filter starts over at the new place instead of smoothing towards it
+    expect(third.accepted).toBe(true);
+    expect(third.filtered?.latitude).toBe(fix(30, 50020).latitude);
+    expect(filter.getStats().rejectedJumps).toBe(2);
+  });
+
+  it('smooths noisy fixes towards the estimate', () => {
+    filter.process(fix(0, 0, 10));
+    const result = filter.process(fix(1, 30, 30));
+
+    const moved = haversineDistance(start, result.filtered!);
+    expect(moved).toBeGreaterThan(0);
+    expect(moved).toBeLessThan(10);
+    expect(result.filtered!.accuracy).toBeLessThan(10);
+    // The raw fix is still reported as the GPS gave it
+    expect(result.raw.latitude).toBe(fix(1, 30).latitude);
+  });
+
+  it('starts smoothing afresh after a reset', () => {
+    filter.process(fix(0, 0));
+    filter.reset();
+
+    expect(filter.process(fix(1, 200, 50)).filtered?.latitude).toBe(
+      fix(1, 200).latitude,
+    );
+  });
+});
@@ -0,0 +1,169 @@
+import {HeatMapData} from '../src/services/AuthorityDashboardService';
+import {GeoFenceZone} from '../src/services/LocationService';
+import {SafetyZoneRecord} from '../src/services/SafetyZoneSyncService';
+import {
+  assessLocationRisk,
+  BASELINE_LOCATION_RISK,
+  DEFAULT_LOCATION_RISK_SETTINGS,
+  LocationRiskInputs,
+  splitZoneLayers,
+} from '../src/utils/locationRisk';
+import {mapSafetyZoneRecord} from '../src/utils/safetyZoneMapping';
+
+const METERS_PER_DEGREE = 111320;
+const puri = {latitude: 19.8135, longitude: 85.8312};
+const north = (meters: number) => ({
+  latitude: puri.latitude + meters / METERS_PER_DEGREE,
+  longitude: puri.longitude,
+});
+const now = new Date('2026-10-19T06:00:00Z');
+
+// A row as the web SafetyZonesManager writes it
+function syncedZone(
+  zoneType: SafetyZoneRecord['zone_type'],
+  radius: number,
+): GeoFenceZone {
+  return mapSafetyZoneRecord({
+    id: `zone-${zoneType}`,
+    name: `Beach ${zoneType}`,
+    description: null,
+    zone_type: zoneType,
+    coordinates: null,
+    radius,
+    center_lat: puri.latitude,
+    center_lng: puri.longitude,
+    schedule: null,
+    is_active: true,
+    updated_at: '2026-10-01T00:00:00Z',
+  })!;
+}
+
+const cave: GeoFenceZone = {
+  id: 'cave-1',
+  name: 'Sea Caves',
+  type: 'cave',
+  center: north(2000),
+  radius: 100,
+  alertMessage: 'Cave',
+  isActive: true,
+};
+
+const empty: LocationRiskInputs = {safetyZones: [], zones: [], heatMap: []};
+
+describe('splitZoneLayers', () => {
+  it('puts every synced zone on the safety zone layer', () => {
+    const synced = (['safe', 'caution', 'danger'] as const).map(type =>
+      syncedZone(type, 200),
+    );
+    const layers = splitZoneLayers([...synced, cave]);
+
+    expect(layers.safetyZones.map(zone => zone.type)).toEqual([
+      'safe',
+      'high-risk',
+      'restricted',
+    ]);
+    expect(layers.zones).toEqual([cave]);
+  });
+});
+
+describe('assessLocationRisk', () => {
+  it('stays at the baseline with nothing nearby', () => {
+    expect(assessLocationRisk(puri, empty, undefined, now)).toMatchObject({
+      risk: BASELINE_LOCATION_RISK,
+      drivingLayer: null,
+      description: 'No known risks nearby',
+    });
+  });
+
+  it('rates a synced danger zone on the safety zone layer', () => {
+    const inputs = {
+      ...empty,
+      ...splitZoneLayers([syncedZone('danger', 200), cave]),
+    };
+
+    expect(assessLocationRisk(puri, inputs, undefined, now)).toMatchObject({
+      risk: 90,
+      drivingLayer: 'safetyZones',
+      description: 'Inside restricted zone "Beach danger" (safety zones)',
+    });
+    // Half the risk one decay distance (250 m) outside the boundary
+    expect(assessLocationRisk(north(450), inputs, undefined, now).risk).toBe(
+      45,
+    );
+  });
+
+  it('rates built-in zones on the zone-type layer', () => {
+    const inputs = {...empty, ...splitZoneLayers([cave])};
+
+    expect(
+      assessLocationRisk(cave.center, inputs, undefined, now),
+    ).toMatchObject({
+      risk: 60,
+      drivingLayer: 'zoneTypes',
+      description: 'Inside cave zone "Sea Caves" (zone types)',
+    });
+  });
+
+  it('adds no risk for safe or inactive zones', () => {
+    const inputs = {
+      ...empty,
+      ...splitZoneLayers([
+        syncedZone('safe', 500),
+        {...syncedZone('danger', 500), isActive: false},
+      ]),
+    };
+
+    expect(assessLocationRisk(puri, inputs, undefined, now).risk).toBe(
+      BASELINE_LOCATION_RISK,
+    );
+  });
+
+  it('skips disabled layers', () => {
+    const inputs = {...empty, ...splitZoneLayers([syncedZone('danger', 200)])};
+    const settings = {
+      ...DEFAULT_LOCATION_RISK_SETTINGS,
+      safetyZones: {
+        ...DEFAULT_LOCATION_RISK_SETTINGS.safetyZones,
+        enabled: false,
+      },
+    };
+
+    const assessment = assessLocationRisk(puri, inputs, settings, now);
+    expect(assessment.risk).toBe(BASELINE_LOCATION_RISK);
+    expect(assessment.layers.map(layer => layer.layer)).toEqual([
+      'zoneTypes',
+      'incidents',
+    ]);
+  });
+
+  it('fades incidents with distance and age', () => {
+    const hotspot: HeatMapData = {
+      id: 'hotspot',
+      coordinates: puri,
+      intensity: 1,
+      riskLevel: 'high',
+      incidentCount: 4,
+      lastIncident: now,
+      zoneType: 'urban',
+    };
+    const risk = (location = puri, lastIncident = now) =>
+      assessLocationRisk(
+        location,
+        {...empty, heatMap: [{...hotspot, lastIncident}]},
+        undefined,
+        now,
+      );
+
+    expect(risk()).toMatchObject({
+      risk: 100,
+      drivingLayer: 'incidents',
+      description: '4 reported incidents within 1800 m (incident heat map)',
+    });
+    expect(risk(north(300)).risk).toBe(50);
+    expect(
+      risk(puri, new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)).risk,
+    ).toBe(50);
+    // Beyond the cutoff the hotspot is not counted at all
+    expect(risk(north(2000)).risk).toBe(BASELINE_LOCATION_RISK);
+  });
+});
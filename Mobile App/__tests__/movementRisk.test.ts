@@ -0,0 +1,174 @@
+import {assessMovementRisk} from '../src/utils/movementRisk';
+import {Coordinates, destinationPoint} from '../src/utils/geo';
+import {LocationData} from '../src/services/LocationService';
+
+const FIX_INTERVAL = 5; // seconds
+
+interface Leg {
+  bearing: number;
+  seconds: number;
+  speed: number; // m/s, 0 to stand still
+}
+
+// Fixes every FIX_INTERVAL seconds along the legs, starting at start
+function syntheticTrack(
+  start: Coordinates,
+  startTime: Date,
+  legs: Leg[],
+): LocationData[] {
+  let position = start;
+  let time = startTime.getTime();
+  const track: LocationData[] = [
+    {...position, accuracy: 5, timestamp: time, source: 'filtered'},
+  ];
+
+  legs.forEach(leg => {
+    for (let t = 0; t < leg.seconds; t += FIX_INTERVAL) {
+      position = destinationPoint(
+        position,
+        leg.bearing,
+        leg.speed * FIX_INTERVAL,
+      );
+      time += FIX_INTERVAL * 1000;
+      track.push({
+        ...position,
+        accuracy: 5,
+        timestamp: time,
+        source: 'filtered',
+      });
+    }
+  });
+
+  return track;
+}
+
+function endOf(track: LocationData[]): Date {
+  return new Date(track[track.length - 1].timestamp);
+}
+
+const jaipur = {latitude: 26.9124, longitude: 75.7873};
+// Night follows darkness in Jaipur, not the machine's clock: 14:00 and
+// 23:00 IST
+const afternoon = new Date('2026-10-19T08:30:00Z');
+const lateNight = new Date('2026-10-19T17:30:00Z');
+
+describe('assessMovementRisk', () => {
+  it('withholds judgement with too little recent history', () => {
+    const track = syntheticTrack(jaipur, afternoon, [
+      {bearing: 90, seconds: 10, speed: 1.4},
+    ]);
+    const assessment = assessMovementRisk(track, endOf(track));
+
+    expect(assessment.risk).toBe(30);
+    expect(assessment.description).toBe('Not enough recent movement to assess');
+  });
+
+  it('scores a steady daytime walk as low risk', () => {
+    const track = syntheticTrack(jaipur, afternoon, [
+      {bearing: 90, seconds: 600, speed: 1.4},
+    ]);
+    const assessment = assessMovementRisk(track, endOf(track));
+
+    expect(assessment.erraticHeading).toBe(0);
+    expect(assessment.stopAndGo).toBe(0);
+    expect(assessment.nightMovement).toBe(0);
+    expect(assessment.risk).toBe(10);
+    expect(assessment.description).toBe('Steady movement');
+  });
+
+  it('allows the occasional turn at a street corner', () => {
+    const track = syntheticTrack(jaipur, afternoon, [
+      {bearing: 90, seconds: 300, speed: 1.4},
+      {bearing: 0, seconds: 300, speed: 1.4},
+    ]);
+
+    expect(assessMovementRisk(track, endOf(track)).erraticHeading).toBe(0);
+  });
+
+  it('detects erratic changes of direction', () => {
+    // Doubling back on itself every 30 meters
+    const legs: Leg[] = [];
+    for (let i = 0; i < 20; i++) {
+      legs.push({bearing: i % 2 === 0 ? 45 : 200, seconds: 25, speed: 1.2});
+    }
+    const track = syntheticTrack(jaipur, afternoon, legs);
+    const assessment = assessMovementRisk(track, endOf(track));
+
+    expect(assessment.erraticHeading).toBeGreaterThan(0.9);
+    expect(assessment.risk).toBeGreaterThanOrEqual(45);
+    expect(assessment.description).toBe('Erratic changes of direction');
+  });
+
+  it('counts repeated short stops as stop-and-go', () => {
+    const legs: Leg[] = [];
+    for (let i = 0; i < 6; i++) {
+      legs.push({bearing: 90, seconds: 60, speed: 1.4});
+      legs.push({bearing: 90, seconds: 40, speed: 0});
+    }
+    legs.push({bearing: 90, seconds: 60, speed: 1.4});
+    const track = syntheticTrack(jaipur, afternoon, legs);
+    const assessment = assessMovementRisk(track, endOf(track));
+
+    expect(assessment.stopAndGo).toBe(1);
+    expect(assessment.description).toBe('6 short stops in the last 30 minutes');
+  });
+
+  it('does not count a long visit as stop-and-go', () => {
+    const track = syntheticTrack(jaipur, afternoon, [
+      {bearing: 90, seconds: 120, speed: 1.4},
+      {bearing: 90, seconds: 600, speed: 0},
+      {bearing: 90, seconds: 120, speed: 1.4},
+    ]);
+
+    expect(assessMovementRisk(track, endOf(track)).stopAndGo).toBe(0);
+  });
+
+  it('flags movement after dark', () => {
+    const track = syntheticTrack(jaipur, lateNight, [
+      {bearing: 90, seconds: 600, speed: 1.4},
+    ]);
+    const assessment = assessMovementRisk(track, endOf(track));
+
+    expect(assessment.nightMovement).toBe(1);
+    expect(assessment.risk).toBe(37);
+    expect(assessment.description).toBe('Moving after dark');
+  });
+
+  it('describes a tourist standing still at night as stationary', () => {
+    const track = syntheticTrack(jaipur, lateNight, [
+      {bearing: 0, seconds: 600, speed: 0},
+    ]);
+    const assessment = assessMovementRisk(track, endOf(track));
+
+    expect(assessment.nightMovement).toBe(0);
+    expect(assessment.description).toBe('Stationary');
+  });
+
+  it('only looks at the last half hour', () => {
+    const legs: Leg[] = [];
+    for (let i = 0; i < 20; i++) {
+      legs.push({bearing: i % 2 === 0 ? 45 : 200, seconds: 25, speed: 1.2});
+    }
+    const erratic = syntheticTrack(jaipur, afternoon, legs);
+    const steady = syntheticTrack(
+      jaipur,
+      new Date(afternoon.getTime() + 60 * 60 * 1000),
+      [{bearing: 90, seconds: 600, speed: 1.4}],
+    );
+
+    expect(
+      assessMovementRisk([...erratic, ...steady], endOf(steady)).risk,
+    ).toBe(10);
+  });
+
+  it('accepts timestamps revived from storage as Dates', () => {
+    const track = syntheticTrack(jaipur, lateNight, [
+      {bearing: 90, seconds: 600, speed: 1.4},
+    ]).map(location => ({
+      ...location,
+      timestamp: new Date(location.timestamp) as unknown as number,
+    }));
+
+    expect(assessMovementRisk(track, endOf(track)).nightMovement).toBe(1);
+  });
+});
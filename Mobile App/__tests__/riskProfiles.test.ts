@@ -0,0 +1,144 @@
+import {
+  DEFAULT_RISK_PROFILE_ID,
+  getFactorWeights,
+  normalizeWeights,
+  resolveRiskProfile,
+  RISK_PROFILES,
+  RiskProfile,
+  SafetyFactorKey,
+} from '../src/utils/riskProfiles';
+
+const sum = (weights: Record<SafetyFactorKey, number>) =>
+  Object.values(weights).reduce((total, weight) => total + weight, 0);
+
+const authorityProfile: RiskProfile = {
+  ...RISK_PROFILES[0],
+  id: 'monsoon-2026',
+  name: 'Monsoon season',
+};
+
+describe('resolveRiskProfile', () => {
+  it('finds built-in and authority-issued profiles', () => {
+    expect(resolveRiskProfile('trekking').name).toBe('Trekking party');
+    expect(resolveRiskProfile('monsoon-2026', [authorityProfile])).toBe(
+      authorityProfile,
+    );
+  });
+
+  it('lets an authority profile replace a built-in one with the same id', () => {
+    const strictStandard = {...authorityProfile, id: DEFAULT_RISK_PROFILE_ID};
+
+    expect(resolveRiskProfile(DEFAULT_RISK_PROFILE_ID, [strictStandard])).toBe(
+      strictStandard,
+    );
+  });
+
+  it('falls back to Standard for unknown or missing ids', () => {
+    expect(resolveRiskProfile('retired-profile').name).toBe('Standard');
+    expect(resolveRiskProfile(undefined).id).toBe(DEFAULT_RISK_PROFILE_ID);
+    expect(resolveRiskProfile('monsoon-2026').id).toBe(DEFAULT_RISK_PROFILE_ID);
+  });
+});
+
+describe('normalizeWeights', () => {
+  it('keeps the built-in weights, which already sum to 1 without crowd', () => {
+    RISK_PROFILES.forEach(profile => {
+      const weights = {...profile.weights, crowd: 0};
+      expect(sum(weights)).toBeCloseTo(1, 10);
+      expect(normalizeWeights(weights).location).toBeCloseTo(
+        profile.weights.location,
+        10,
+      );
+    });
+  });
+
+  it('scales weights that do not sum to 1', () => {
+    const weights = normalizeWeights({
+      location: 3,
+      time: 2,
+      movement: 1,
+      behavior: 1,
+      environmental: 2,
+      crowd: 1,
+    });
+
+    expect(sum(weights)).toBeCloseTo(1, 10);
+    expect(weights.location).toBeCloseTo(0.3, 10);
+    expect(weights.crowd).toBeCloseTo(0.1, 10);
+  });
+
+  it('treats missing and negative weights as zero', () => {
+    const weights = normalizeWeights({
+      location: 1,
+      time: -1,
+      crowd: 1,
+    } as Record<SafetyFactorKey, number>);
+
+    expect(weights).toEqual({
+      location: 0.5,
+      time: 0,
+      movement: 0,
+      behavior: 0,
+      environmental: 0,
+      crowd: 0.5,
+    });
+  });
+
+  it('weighs every factor equally when all weights are zero', () => {
+    const weights = normalizeWeights({
+      location: 0,
+      time: 0,
+      movement: 0,
+      behavior: 0,
+      environmental: 0,
+      crowd: 0,
+    });
+
+    Object.values(weights).forEach(weight => {
+      expect(weight).toBeCloseTo(1 / 6, 10);
+    });
+  });
+});
+
+describe('getFactorWeights', () => {
+  const standard = RISK_PROFILES[0].weights;
+
+  it('uses the base weights unchanged without crowd data', () => {
+    expect(getFactorWeights(standard, false)).toEqual({
+      location: 0.3,
+      time: 0.2,
+      movement: 0.15,
+      behavior: 0.2,
+      environmental: 0.15,
+      crowd: 0,
+    });
+  });
+
+  it('gives crowd its share and scales the rest in proportion', () => {
+    const weights = getFactorWeights(standard, true);
+
+    expect(sum(weights)).toBeCloseTo(1, 10);
+    expect(weights.crowd).toBeCloseTo(0.1, 10);
+    expect(weights.location).toBeCloseTo(0.27, 10);
+    expect(weights.behavior).toBeCloseTo(0.18, 10);
+    expect(weights.location / weights.time).toBeCloseTo(1.5, 10);
+  });
+
+  it('scales authority weights that do not sum to 1', () => {
+    const weights = getFactorWeights(
+      {
+        location: 2,
+        time: 2,
+        movement: 0,
+        behavior: 0,
+        environmental: 0,
+        crowd: 0.5,
+      },
+      true,
+    );
+
+    expect(weights.location).toBeCloseTo(0.25, 10);
+    expect(weights.time).toBeCloseTo(0.25, 10);
+    expect(weights.crowd).toBeCloseTo(0.5, 10);
+  });
+});
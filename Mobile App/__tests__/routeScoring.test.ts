@@ -0,0 +1,84 @@
+import {
+  getSegmentMidpoint,
+  getSegmentWarnings,
+  splitRoute,
+} from '../src/utils/routeScoring';
+import {destinationPoint, haversineDistance} from '../src/utils/geo';
+import {GeoFenceZone} from '../src/services/LocationService';
+
+const puri = {latitude: 19.8135, longitude: 85.8312, name: 'Puri'};
+const beach = {...destinationPoint(puri, 90, 1200), name: 'Beach'};
+
+function zone(
+  type: GeoFenceZone['type'],
+  center = destinationPoint(puri, 90, 600),
+  radius = 100,
+): GeoFenceZone {
+  return {
+    id: `${type}_zone`,
+    name: `${type} zone`,
+    type,
+    center,
+    radius,
+    alertMessage: '',
+    isActive: true,
+  };
+}
+
+describe('splitRoute', () => {
+  it('splits long legs into segments no longer than the limit', () => {
+    const segments = splitRoute([puri, beach], 500);
+
+    expect(segments).toHaveLength(3);
+    segments.forEach(segment => {
+      expect(segment.length).toBeCloseTo(400, 0);
+      expect(segment.label).toBe('Puri → Beach');
+    });
+    expect(haversineDistance(segments[2].end, beach)).toBeLessThan(0.01);
+    expect(haversineDistance(segments[1].start, segments[0].end)).toBe(0);
+  });
+
+  it('skips repeated points and numbers unnamed legs', () => {
+    const segments = splitRoute([
+      {latitude: puri.latitude, longitude: puri.longitude},
+      {latitude: puri.latitude, longitude: puri.longitude},
+      {latitude: beach.latitude, longitude: beach.longitude},
+    ]);
+
+    expect(segments).toHaveLength(3);
+    expect(segments[0].label).toBe('Leg 2');
+    expect(segments.map(segment => segment.index)).toEqual([0, 1, 2]);
+  });
+
+  it('finds the middle of a segment', () => {
+    const [segment] = splitRoute([puri, beach], 2000);
+    const midpoint = getSegmentMidpoint(segment);
+
+    expect(haversineDistance(puri, midpoint)).toBeCloseTo(600, 0);
+  });
+});
+
+describe('getSegmentWarnings', () => {
+  const [segment] = splitRoute([puri, beach], 2000);
+
+  it('flags crossing a restricted or high-risk zone', () => {
+    expect(getSegmentWarnings(segment, [zone('restricted')], false)).toEqual([
+      {
+        type: 'crosses-zone',
+        zoneId: 'restricted_zone',
+        zoneName: 'restricted zone',
+        zoneType: 'restricted',
+      },
+    ]);
+    expect(getSegmentWarnings(segment, [zone('safe')], false)).toEqual([]);
+  });
+
+  it('flags passing a dangerous zone only after dark', () => {
+    const nearby = zone('high-risk', destinationPoint(puri, 75, 600), 50);
+
+    expect(getSegmentWarnings(segment, [nearby], false)).toEqual([]);
+    expect(getSegmentWarnings(segment, [nearby], true)).toMatchObject([
+      {type: 'passes-zone-after-dark', zoneId: 'high-risk_zone'},
+    ]);
+  });
+});
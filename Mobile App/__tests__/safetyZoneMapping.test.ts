@@ -0,0 +1,107 @@
+import {SafetyZoneRecord} from '../src/services/SafetyZoneSyncService';
+import {
+  DEFAULT_ZONE_RADIUS,
+  mapSafetyZoneRecord,
+} from '../src/utils/safetyZoneMapping';
+
+function record(overrides: Partial<SafetyZoneRecord>): SafetyZoneRecord {
+  return {
+    id: 'zone-1',
+    name: 'Umiam Lake shore',
+    description: null,
+    zone_type: 'caution',
+    coordinates: null,
+    radius: null,
+    center_lat: 25.65,
+    center_lng: 91.89,
+    schedule: null,
+    is_active: true,
+    updated_at: '2026-10-19T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('mapSafetyZoneRecord', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('maps the web zone types onto geo-fence types', () => {
+    expect(mapSafetyZoneRecord(record({zone_type: 'safe'}))?.type).toBe('safe');
+    expect(mapSafetyZoneRecord(record({zone_type: 'caution'}))?.type).toBe(
+      'high-risk',
+    );
+    expect(mapSafetyZoneRecord(record({zone_type: 'danger'}))?.type).toBe(
+      'restricted',
+    );
+  });
+
+  it('uses the center columns with the default radius and message', () => {
+    expect(mapSafetyZoneRecord(record({}))).toMatchObject({
+      id: 'zone-1',
+      center: {latitude: 25.65, longitude: 91.89},
+      radius: DEFAULT_ZONE_RADIUS,
+      source: 'safety_zones',
+      alertMessage:
+        'Authorities have marked this area for caution. Stay alert and keep to marked paths.',
+      isActive: true,
+    });
+    expect(
+      mapSafetyZoneRecord(record({radius: 120, description: 'Slippery rocks'})),
+    ).toMatchObject({radius: 120, alertMessage: 'Slippery rocks'});
+  });
+
+  it('reads a Point when the center columns are empty', () => {
+    const zone = mapSafetyZoneRecord(
+      record({
+        center_lat: null,
+        center_lng: null,
+        coordinates: {type: 'Point', coordinates: [91.88, 25.57]},
+      }),
+    );
+
+    expect(zone?.center).toEqual({latitude: 25.57, longitude: 91.88});
+    expect(zone?.geometry).toBeUndefined();
+  });
+
+  it('keeps a polygon boundary and circles it for display', () => {
+    const zone = mapSafetyZoneRecord(
+      record({
+        coordinates: {
+          type: 'Polygon',
+          coordinates: [
+            [
+              [91.88, 25.57],
+              [91.9, 25.57],
+              [91.9, 25.59],
+              [91.88, 25.59],
+              [91.88, 25.57],
+            ],
+          ],
+        },
+      }),
+    );
+
+    expect(zone?.geometry?.type).toBe('Polygon');
+    expect(zone?.center.latitude).toBeCloseTo(25.58, 5);
+    expect(zone?.center.longitude).toBeCloseTo(91.89, 5);
+    // Half the diagonal of a roughly 2 km square
+    expect(zone?.radius).toBeGreaterThan(1400);
+    expect(zone?.radius).toBeLessThan(1600);
+  });
+
+  it('skips rows without a usable type or geometry', () => {
+    expect(
+      mapSafetyZoneRecord(
+        record({zone_type: 'unknown' as SafetyZoneRecord['zone_type']}),
+      ),
+    ).toBeNull();
+    expect(
+      mapSafetyZoneRecord(record({center_lat: null, center_lng: null})),
+    ).toBeNull();
+  });
+});
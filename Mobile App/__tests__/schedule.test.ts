@@ -0,0 +1,80 @@
+import {ZoneSchedule} from '../src/services/LocationService';
+import {getZoneScheduleStatus} from '../src/utils/schedule';
+
+const daytime: ZoneSchedule = {
+  timezone: 'Asia/Kolkata',
+  openingHours: [{days: [0, 1, 2, 3, 4, 5, 6], start: '09:00', end: '17:00'}],
+  whenClosed: 'restricted',
+};
+
+describe('getZoneScheduleStatus', () => {
+  it('is open inside the opening hours in the zone time zone', () => {
+    // 10:00 and 18:00 in Kolkata on a Monday
+    expect(
+      getZoneScheduleStatus(daytime, new Date('2026-10-19T04:30:00Z')),
+    ).toEqual({isOpen: true, minutesUntilClose: 420});
+    expect(
+      getZoneScheduleStatus(daytime, new Date('2026-10-19T12:30:00Z')),
+    ).toEqual({isOpen: false, minutesUntilClose: null});
+  });
+
+  it('reads the hours in the zone time zone, not the device one', () => {
+    const at = new Date('2026-10-19T04:30:00Z');
+
+    expect(getZoneScheduleStatus(daytime, at).isOpen).toBe(true);
+    expect(
+      getZoneScheduleStatus({...daytime, timezone: 'America/New_York'}, at)
+        .isOpen,
+    ).toBe(false);
+  });
+
+  it('keeps an overnight window open past midnight', () => {
+    const fridayNights: ZoneSchedule = {
+      ...daytime,
+      openingHours: [{days: [5], start: '20:00', end: '02:00'}],
+    };
+
+    // Friday 23:00, Saturday 01:00 and Saturday 23:00 in Kolkata
+    expect(
+      getZoneScheduleStatus(fridayNights, new Date('2026-10-23T17:30:00Z')),
+    ).toEqual({isOpen: true, minutesUntilClose: 180});
+    expect(
+      getZoneScheduleStatus(fridayNights, new Date('2026-10-23T19:30:00Z')),
+    ).toEqual({isOpen: true, minutesUntilClose: 60});
+    expect(
+      getZoneScheduleStatus(fridayNights, new Date('2026-10-24T17:30:00Z'))
+        .isOpen,
+    ).toBe(false);
+  });
+
+  it('repeats MM-DD closures every year, across new year', () => {
+    const winter: ZoneSchedule = {
+      timezone: 'Asia/Kolkata',
+      closures: [{from: '12-20', to: '01-10'}],
+      whenClosed: 'inactive',
+    };
+    const isOpen = (date: string) =>
+      getZoneScheduleStatus(winter, new Date(date)).isOpen;
+
+    expect(isOpen('2026-12-31T06:00:00Z')).toBe(false);
+    expect(isOpen('2028-01-05T06:00:00Z')).toBe(false);
+    expect(isOpen('2027-01-11T06:00:00Z')).toBe(true);
+    expect(isOpen('2027-06-01T06:00:00Z')).toBe(true);
+  });
+
+  it('counts down to midnight before a dated closure', () => {
+    const monsoon: ZoneSchedule = {
+      timezone: 'Asia/Kolkata',
+      closures: [{from: '2026-10-20', to: '2026-10-31'}],
+      whenClosed: 'inactive',
+    };
+
+    // 22:00 in Kolkata the evening before
+    expect(
+      getZoneScheduleStatus(monsoon, new Date('2026-10-19T16:30:00Z')),
+    ).toEqual({isOpen: true, minutesUntilClose: 120});
+    expect(
+      getZoneScheduleStatus(monsoon, new Date('2026-10-25T06:00:00Z')).isOpen,
+    ).toBe(false);
+  });
+});
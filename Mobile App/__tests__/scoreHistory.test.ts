@@ -0,0 +1,76 @@
+import {
+  getEntriesForDay,
+  getEntriesNear,
+  getScoreTrend,
+  ScoreHistoryEntry,
+  summarizeByDay,
+  toDayKey,
+} from '../src/utils/scoreHistory';
+
+const puri = {latitude: 19.8135, longitude: 85.8312};
+const konark = {latitude: 19.8876, longitude: 86.0945};
+
+function entry(
+  score: number,
+  timestamp: Date,
+  location = puri,
+): ScoreHistoryEntry {
+  return {
+    score,
+    riskLevel: score >= 70 ? 'high' : score >= 40 ? 'medium' : 'low',
+    factors: {location: score},
+    location,
+    timestamp,
+    profileId: 'standard',
+  };
+}
+
+// Local times so day boundaries do not depend on the machine's timezone
+const history = [
+  entry(20, new Date(2026, 9, 17, 9, 0)),
+  entry(40, new Date(2026, 9, 17, 23, 30), konark),
+  entry(30, new Date(2026, 9, 18, 0, 15)),
+  entry(50, new Date(2026, 9, 19, 12, 0), konark),
+  entry(70, new Date(2026, 9, 19, 21, 0), konark),
+];
+
+describe('score history', () => {
+  it('files scores under the local calendar day', () => {
+    expect(toDayKey(new Date(2026, 0, 5, 23, 59))).toBe('2026-01-05');
+    expect(getEntriesForDay(history, new Date(2026, 9, 17, 12))).toHaveLength(
+      2,
+    );
+    expect(getEntriesForDay(history, new Date(2026, 9, 18))).toHaveLength(1);
+  });
+
+  it('finds scores recorded near a place', () => {
+    expect(getEntriesNear(history, konark)).toHaveLength(3);
+    expect(getEntriesNear(history, puri, 100)).toHaveLength(2);
+  });
+
+  it('summarises each day, oldest first', () => {
+    const summaries = summarizeByDay([...history].reverse());
+
+    expect(summaries.map(summary => summary.day)).toEqual([
+      '2026-10-17',
+      '2026-10-18',
+      '2026-10-19',
+    ]);
+    expect(summaries[2]).toMatchObject({
+      average: 60,
+      highest: 70,
+      lowest: 50,
+      count: 2,
+    });
+    expect(summaries[2].riskiestEntry.score).toBe(70);
+  });
+
+  it('reads a rising average as a worsening trend', () => {
+    const summaries = summarizeByDay(history);
+
+    expect(getScoreTrend(summaries)).toBe('worsening');
+    expect(getScoreTrend(summaries.slice(0, 2))).toBe('stable');
+    expect(getScoreTrend(summarizeByDay(history).reverse())).toBe('improving');
+    expect(getScoreTrend([])).toBe('stable');
+  });
+});
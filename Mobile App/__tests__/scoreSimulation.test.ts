@@ -0,0 +1,54 @@
+import {
+  applyGroupSize,
+  getFactorContributions,
+  getGroupSizeModifier,
+} from '../src/utils/scoreSimulation';
+
+describe('score simulation', () => {
+  it('raises risk for solo travellers and lowers it for groups', () => {
+    expect(getGroupSizeModifier(undefined)).toBe(1);
+    expect(getGroupSizeModifier(1)).toBeGreaterThan(1);
+    expect(getGroupSizeModifier(2)).toBe(1);
+    expect(getGroupSizeModifier(4)).toBeLessThan(1);
+    expect(getGroupSizeModifier(10)).toBeLessThan(getGroupSizeModifier(4));
+  });
+
+  it('only adjusts the factors a group affects', () => {
+    expect(applyGroupSize('time', 80, 1)).toBe(88);
+    expect(applyGroupSize('time', 95, 1)).toBe(100);
+    expect(applyGroupSize('location', 50, 6)).toBe(40);
+    expect(applyGroupSize('behavior', 50, 6)).toBe(50);
+  });
+
+  it('breaks the score down by factor against the baseline', () => {
+    const contributions = getFactorContributions(
+      [
+        {key: 'time', name: 'Time Risk', value: 80, weight: 0.2},
+        {key: 'location', name: 'Location Risk', value: 20, weight: 0.3},
+      ],
+      [
+        {key: 'time', name: 'Time Risk', value: 20, weight: 0.2},
+        {key: 'location', name: 'Location Risk', value: 20, weight: 0.3},
+      ],
+    );
+
+    expect(contributions).toEqual([
+      {
+        key: 'time',
+        name: 'Time Risk',
+        value: 80,
+        weight: 0.2,
+        contribution: 16,
+        delta: 12,
+      },
+      {
+        key: 'location',
+        name: 'Location Risk',
+        value: 20,
+        weight: 0.3,
+        contribution: 6,
+        delta: 0,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,138 @@
+import {
+  getDaylightPhase,
+  getSolarTimes,
+  getSunAltitude,
+} from '../src/utils/solar';
+import {getZonedDateParts} from '../src/utils/schedule';
+import {resolveTimeZone} from '../src/utils/timezone';
+import {GeoFenceZone} from '../src/services/LocationService';
+
+const puri = {latitude: 19.8135, longitude: 85.8312};
+const tromso = {latitude: 69.6492, longitude: 18.9553};
+
+// Minutes since local midnight in the given zone
+const localMinutes = (date: Date | null, timeZone: string) =>
+  getZonedDateParts(date!, timeZone).minutes;
+
+describe('solar times', () => {
+  it('matches published sunrise and sunset within a few minutes', () => {
+    // Greenwich at the June solstice: 04:43 and 21:21 BST
+    const greenwich = getSolarTimes(new Date('2026-06-21T12:00:00Z'), {
+      latitude: 51.4779,
+      longitude: 0,
+    });
+    expect(
+      Math.abs(
+        localMinutes(greenwich.sunrise, 'Europe/London') - (4 * 60 + 43),
+      ),
+    ).toBeLessThanOrEqual(3);
+    expect(
+      Math.abs(
+        localMinutes(greenwich.sunset, 'Europe/London') - (21 * 60 + 21),
+      ),
+    ).toBeLessThanOrEqual(3);
+  });
+
+  it('puts civil twilight either side of sunrise and sunset', () => {
+    // Puri in mid October: about 05:43 to 17:21 IST
+    const times = getSolarTimes(new Date('2026-10-19T06:30:00Z'), puri);
+
+    expect(
+      Math.abs(localMinutes(times.sunrise, 'Asia/Kolkata') - (5 * 60 + 43)),
+    ).toBeLessThanOrEqual(3);
+    expect(
+      Math.abs(localMinutes(times.sunset, 'Asia/Kolkata') - (17 * 60 + 21)),
+    ).toBeLessThanOrEqual(3);
+    expect(times.civilDawn!.getTime()).toBeLessThan(times.sunrise!.getTime());
+    expect(times.civilDusk!.getTime()).toBeGreaterThan(times.sunset!.getTime());
+  });
+
+  it('reports polar night and midnight sun as missing crossings', () => {
+    const winter = getSolarTimes(new Date('2026-12-21T11:00:00Z'), tromso);
+    expect(winter.sunrise).toBeNull();
+    expect(winter.sunset).toBeNull();
+    expect(winter.civilDawn).not.toBeNull();
+
+    const summer = getSolarTimes(new Date('2026-06-21T11:00:00Z'), tromso);
+    expect(summer.sunset).toBeNull();
+    expect(getDaylightPhase(new Date('2026-06-21T23:00:00Z'), tromso)).toBe(
+      'day',
+    );
+  });
+
+  it('classifies daylight, twilight and night by sun altitude', () => {
+    expect(
+      getSunAltitude(new Date('2026-10-19T06:30:00Z'), puri),
+    ).toBeGreaterThan(50);
+    expect(getDaylightPhase(new Date('2026-10-19T06:30:00Z'), puri)).toBe(
+      'day',
+    );
+    // 17:35 IST, just after sunset
+    expect(getDaylightPhase(new Date('2026-10-19T12:05:00Z'), puri)).toBe(
+      'twilight',
+    );
+    expect(getDaylightPhase(new Date('2026-10-19T16:30:00Z'), puri)).toBe(
+      'night',
+    );
+  });
+});
+
+describe('resolveTimeZone', () => {
+  const zone = (timezone: string, latitude: number, longitude: number) =>
+    ({
+      id: timezone,
+      name: timezone,
+      type: 'safe',
+      center: {latitude, longitude},
+      radius: 100,
+      alertMessage: '',
+      isActive: true,
+      schedule: {timezone, whenClosed: 'inactive'},
+    } as GeoFenceZone);
+
+  it('prefers the nearest zone naming a time zone', () => {
+    expect(
+      resolveTimeZone(puri, [
+        zone('Asia/Dhaka', 23.8, 90.4),
+        zone('Asia/Kolkata', 19.8, 85.8),
+      ]),
+    ).toBe('Asia/Kolkata');
+  });
+
+  it('falls back to the region, then the longitude', () => {
+    expect(resolveTimeZone(puri)).toBe('Asia/Kolkata');
+    expect(resolveTimeZone(tromso)).toBe('Etc/GMT-1');
+    expect(resolveTimeZone({latitude: 40.7, longitude: -74})).toBe('Etc/GMT+5');
+    expect(resolveTimeZone({latitude: 51.5, longitude: -0.1})).toBe('Etc/GMT');
+  });
+
+  it('tells India apart from its neighbours', () => {
+    const at = (latitude: number, longitude: number) =>
+      resolveTimeZone({latitude, longitude});
+
+    [
+      [28.61, 77.21], // Delhi
+      [26.85, 80.95], // Lucknow
+      [26.76, 83.37], // Gorakhpur
+      [22.57, 88.36], // Kolkata
+      [26.72, 88.43], // Siliguri
+      [26.14, 91.74], // Guwahati
+      [23.83, 91.28], // Agartala
+      [31.63, 74.87], // Amritsar
+      [34.16, 77.58], // Leh
+      [11.62, 92.73], // Port Blair
+      [8.08, 77.54], // Kanyakumari
+    ].forEach(([latitude, longitude]) => {
+      expect(at(latitude, longitude)).toBe('Asia/Kolkata');
+    });
+    expect(at(27.71, 85.32)).toBe('Asia/Kathmandu');
+    expect(at(26.45, 87.27)).toBe('Asia/Kathmandu'); // Biratnagar
+    expect(at(27.47, 89.64)).toBe('Asia/Thimphu');
+    expect(at(23.81, 90.41)).toBe('Asia/Dhaka');
+    expect(at(24.9, 91.87)).toBe('Asia/Dhaka'); // Sylhet
+    expect(at(6.93, 79.86)).toBe('Asia/Colombo');
+    expect(at(31.55, 74.34)).toBe('Etc/GMT-5'); // Lahore
+    expect(at(29.65, 91.1)).toBe('Etc/GMT-6'); // Lhasa
+    expect(at(32.5, 80.1)).toBe('Etc/GMT-5'); // Shiquanhe, Tibet
+  });
+});
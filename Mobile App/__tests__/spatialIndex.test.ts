@@ -0,0 +1,107 @@
+import {SpatialIndex} from '../src/utils/spatialIndex';
+import {getRadiusBounds} from '../src/utils/geo';
+
+const jaipur = {latitude: 26.9124, longitude: 75.7873};
+
+describe('SpatialIndex', () => {
+  let index: SpatialIndex<string>;
+
+  beforeEach(() => {
+    index = new SpatialIndex<string>();
+    index.insertPoint('a', jaipur, 'a');
+    index.insertPoint('b', {latitude: 26.9154, longitude: 75.7873}, 'b'); // ~330m north
+    index.insertPoint('c', {latitude: 26.95, longitude: 75.7873}, 'c'); // ~4.2km north
+    index.insertPoint('d', {latitude: 28.6139, longitude: 77.209}, 'd'); // Delhi
+    index.insert('zone', getRadiusBounds(jaipur, 1000), 'zone');
+  });
+
+  it('finds items whose bounds contain a point', () => {
+    expect(index.containing(jaipur).sort()).toEqual(['a', 'zone']);
+    expect(index.containing({latitude: 27.5, longitude: 75.7873})).toEqual([]);
+  });
+
+  it('returns items within a radius ordered by distance', () => {
+    const matches = index.withinRadius(jaipur, 500);
+    // The point and the zone around it are both at distance 0
+    expect(matches.map(match => match.distance)).toEqual([
+      0,
+      0,
+      expect.any(Number),
+    ]);
+    expect(matches[2].item).toBe('b');
+    expect(matches[2].distance).toBeGreaterThan(300);
+    expect(matches[2].distance).toBeLessThan(350);
+  });
+
+  it('finds the k nearest items, including ones many cells away', () => {
+    expect(index.nearest(jaipur, 3)[2].item).toBe('b');
+    expect(
+      index
+        .nearest({latitude: 28.6, longitude: 77.2}, 2)
+        .map(match => match.item),
+    ).toEqual(['d', 'c']);
+    expect(index.nearest(jaipur, 10)).toHaveLength(5);
+  });
+
+  it('forgets removed and replaced items', () => {
+    expect(index.remove('a')).toBe(true);
+    expect(index.remove('a')).toBe(false);
+    index.insertPoint('b', {latitude: 28.6139, longitude: 77.209}, 'b');
+
+    expect(index.size).toBe(4);
+    expect(index.withinRadius(jaipur, 500).map(match => match.item)).toEqual([
+      'zone',
+    ]);
+  });
+
+  it('keeps zones spanning many cells out of the grid but still finds them', () => {
+    // A 5 degree reserve would otherwise cover about 250,000 cells
+    index.insert(
+      'reserve',
+      {
+        minLatitude: 22,
+        minLongitude: 80,
+        maxLatitude: 27,
+        maxLongitude: 85,
+      },
+      'reserve',
+    );
+    const inside = {latitude: 24.5, longitude: 82.5};
+
+    expect(index.containing(inside)).toEqual(['reserve']);
+    expect(
+      index
+        .withinRadius(jaipur, 500)
+        .map(match => match.item)
+        .sort(),
+    ).toEqual(['a', 'b', 'zone']);
+    expect(index.nearest(inside, 1)[0].item).toBe('reserve');
+    expect(index.withinRadius(inside, 50000).map(match => match.item)).toEqual([
+      'reserve',
+    ]);
+
+    expect(index.remove('reserve')).toBe(true);
+    expect(index.containing(inside)).toEqual([]);
+    expect(index.nearest(inside, 1)[0].item).not.toBe('reserve');
+  });
+
+  it('sorts the matches when every item is oversized', () => {
+    const regions = new SpatialIndex<string>();
+    regions.insert(
+      'far',
+      {minLatitude: 0, minLongitude: 60, maxLatitude: 5, maxLongitude: 65},
+      'far',
+    );
+    regions.insert(
+      'near',
+      {minLatitude: 20, minLongitude: 75, maxLatitude: 25, maxLongitude: 80},
+      'near',
+    );
+
+    expect(regions.nearest(jaipur, 2).map(match => match.item)).toEqual([
+      'near',
+      'far',
+    ]);
+    expect(regions.nearest(jaipur, 1)[0].item).toBe('near');
+  });
+});
@@ -0,0 +1,133 @@
+import {LocationData} from '../src/services/LocationService';
+import {
+  buildTrackExport,
+  splitIntoTrips,
+  toGeoJSON,
+  toGPX,
+  toKML,
+} from '../src/utils/trackExport';
+
+const start = Date.parse('2026-10-19T04:00:00Z');
+const minutes = (count: number) => start + count * 60 * 1000;
+
+function point(
+  time: number,
+  overrides: Partial<LocationData> = {},
+): LocationData {
+  return {
+    latitude: 19.8135,
+    longitude: 85.8312,
+    accuracy: 8,
+    timestamp: time,
+    ...overrides,
+  };
+}
+
+describe('splitIntoTrips', () => {
+  it('sorts fixes and breaks trips at long gaps', () => {
+    const trips = splitIntoTrips([
+      point(minutes(50)),
+      point(minutes(0)),
+      point(minutes(10)),
+      point(minutes(45)),
+    ]);
+
+    expect(trips.map(trip => trip.map(location => location.timestamp))).toEqual(
+      [
+        [minutes(0), minutes(10)],
+        [minutes(45), minutes(50)],
+      ],
+    );
+  });
+
+  it('accepts stored history with Date timestamps', () => {
+    const stored = [
+      point(minutes(0)),
+      point(minutes(20)),
+      point(minutes(90)),
+    ].map(location => ({
+      ...location,
+      timestamp: new Date(location.timestamp) as unknown as number,
+    }));
+
+    expect(splitIntoTrips(stored).map(trip => trip.length)).toEqual([2, 1]);
+    expect(splitIntoTrips(stored, 10 * 60 * 1000)).toHaveLength(3);
+    expect(splitIntoTrips([])).toEqual([]);
+  });
+});
+
+describe('track formats', () => {
+  const trips = [
+    [
+      point(minutes(0), {altitude: 12, speed: 1.4}),
+      point(minutes(1), {latitude: 19.814}),
+    ],
+    [point(minutes(60))],
+  ];
+
+  it('writes one GPX track per trip with speed and accuracy extensions', () => {
+    const gpx = toGPX(trips);
+
+    expect(gpx.match(/<trk>/g)).toHaveLength(2);
+    expect(gpx).toContain('<name>Trip 1 (2026-10-19)</name>');
+    expect(gpx).toContain('<trkpt lat="19.8135" lon="85.8312">');
+    expect(gpx).toContain('<ele>12</ele>');
+    expect(gpx).toContain('<time>2026-10-19T04:00:00.000Z</time>');
+    expect(gpx).toContain('<gpxtpx:speed>1.4</gpxtpx:speed>');
+    expect(
+      gpx.match(/<safesafar:accuracy>8<\/safesafar:accuracy>/g),
+    ).toHaveLength(3);
+    // No elevation or speed for fixes that did not report them
+    expect(gpx.match(/<ele>/g)).toHaveLength(1);
+    expect(gpx.match(/<gpxtpx:speed>/g)).toHaveLength(1);
+  });
+
+  it('writes a KML gx:Track per trip with aligned value arrays', () => {
+    const kml = toKML(trips);
+
+    expect(kml.match(/<Placemark>/g)).toHaveLength(2);
+    expect(kml).toContain('<gx:coord>85.8312 19.8135 12</gx:coord>');
+    expect(kml).toContain('<gx:coord>85.8312 19.814 0</gx:coord>');
+    expect(kml.match(/<when>/g)).toHaveLength(3);
+    expect(kml.match(/<gx:value>8<\/gx:value>/g)).toHaveLength(3);
+    expect(kml).toContain('<gx:value>1.4</gx:value>');
+    expect(kml).toContain('<gx:value></gx:value>');
+  });
+
+  it('writes GeoJSON line strings, and a point for a single fix', () => {
+    const collection = JSON.parse(toGeoJSON(trips));
+
+    expect(collection.type).toBe('FeatureCollection');
+    expect(collection.features[0].geometry).toEqual({
+      type: 'LineString',
+      coordinates: [
+        [85.8312, 19.8135, 12],
+        [85.8312, 19.814],
+      ],
+    });
+    expect(collection.features[0].properties).toMatchObject({
+      name: 'Trip 1 (2026-10-19)',
+      startTime: '2026-10-19T04:00:00.000Z',
+      endTime: '2026-10-19T04:01:00.000Z',
+      coordinateProperties: {accuracy: [8, 8], speed: [1.4, null]},
+    });
+    expect(collection.features[1].geometry).toEqual({
+      type: 'Point',
+      coordinates: [85.8312, 19.8135],
+    });
+  });
+
+  it('summarises the export with a file name and MIME type', () => {
+    const trackExport = buildTrackExport(trips.flat(), 'kml');
+
+    expect(trackExport).toMatchObject({
+      format: 'kml',
+      mimeType: 'application/vnd.google-earth.kml+xml',
+      tripCount: 2,
+      pointCount: 3,
+    });
+    expect(trackExport.fileName).toMatch(
+      /^safesafar-track-\d{4}-\d{2}-\d{2}-\d{2}-\d{2}-\d{2}\.kml$/,
+    );
+  });
+});
@@ -0,0 +1,133 @@
+import {GeoFenceZone} from '../src/services/LocationService';
+import {ZoneOccupancy} from '../src/services/GeoFencingService';
+import {advanceOccupancy, getDueDwellMinutes} from '../src/utils/zoneOccupancy';
+
+const now = new Date('2026-10-19T10:00:00Z');
+const minutesLater = (minutes: number) =>
+  new Date(now.getTime() + minutes * 60 * 1000);
+
+const cave: GeoFenceZone = {
+  id: 'cave',
+  name: 'Mawsmai Cave',
+  type: 'cave',
+  center: {latitude: 25.25, longitude: 91.73},
+  radius: 300,
+  isActive: true,
+  alertMessage: 'You are entering a cave',
+};
+
+// Feeds fixes in order: inside or not, meters from the boundary, accuracy
+function walk(fixes: Array<[boolean, number, number]>) {
+  let occupancy: ZoneOccupancy | undefined;
+  return fixes.map(([isInside, distance, accuracy], i) => {
+    const update = advanceOccupancy(
+      'cave',
+      occupancy,
+      isInside,
+      distance,
+      accuracy,
+      minutesLater(i),
+    );
+    occupancy = update.occupancy;
+    return [update.occupancy.state, update.transition];
+  });
+}
+
+describe('advanceOccupancy', () => {
+  it('enters and exits straight away on confident fixes', () => {
+    expect(
+      walk([
+        [false, 500, 10],
+        [true, 50, 10],
+        [true, 80, 10],
+        [false, 40, 10],
+      ]),
+    ).toEqual([
+      ['outside', null],
+      ['inside', 'enter'],
+      ['inside', null],
+      ['outside', 'exit'],
+    ]);
+  });
+
+  it('waits for a second fix when the boundary is within the accuracy', () => {
+    expect(
+      walk([
+        [true, 20, 50],
+        [true, 30, 50],
+        [false, 10, 50],
+        [true, 5, 50],
+        [false, 10, 50],
+        [false, 15, 50],
+      ]),
+    ).toEqual([
+      ['entering', null],
+      ['inside', 'enter'],
+      ['exiting', null],
+      ['inside', null],
+      ['exiting', null],
+      ['outside', 'exit'],
+    ]);
+  });
+
+  it('drops an ambiguous entry that the next fix contradicts', () => {
+    expect(
+      walk([
+        [true, 5, 30],
+        [false, 50, 10],
+      ]),
+    ).toEqual([
+      ['entering', null],
+      ['outside', null],
+    ]);
+  });
+
+  it('caps the accuracy buffer', () => {
+    expect(walk([[true, 150, 500]])).toEqual([['inside', 'enter']]);
+  });
+
+  it('only asks for a save when something changed', () => {
+    const first = advanceOccupancy('cave', undefined, false, 500, 10, now);
+    const second = advanceOccupancy(
+      'cave',
+      first.occupancy,
+      false,
+      400,
+      10,
+      minutesLater(1),
+    );
+
+    expect(first.changed).toBe(true);
+    expect(second.changed).toBe(false);
+  });
+});
+
+describe('getDueDwellMinutes', () => {
+  const entered: ZoneOccupancy = {
+    zoneId: 'cave',
+    state: 'inside',
+    enteredAt: now,
+    lastTransitionAt: now,
+  };
+
+  it('is due once the stay reaches the dwell limit', () => {
+    expect(getDueDwellMinutes(cave, entered, minutesLater(119))).toBeNull();
+    expect(getDueDwellMinutes(cave, entered, minutesLater(125))).toBe(125);
+    expect(
+      getDueDwellMinutes({...cave, dwellLimit: 10}, entered, minutesLater(10)),
+    ).toBe(10);
+  });
+
+  it('alerts once per stay and not for zones without a limit', () => {
+    expect(
+      getDueDwellMinutes(
+        cave,
+        {...entered, dwellAlertedAt: minutesLater(120)},
+        minutesLater(200),
+      ),
+    ).toBeNull();
+    expect(
+      getDueDwellMinutes({...cave, type: 'safe'}, entered, minutesLater(600)),
+    ).toBeNull();
+  });
+});
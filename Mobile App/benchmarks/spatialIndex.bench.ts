@@ -0,0 +1,152 @@
+// Compares SpatialIndex lookups against the linear scans it replaced in
+// GeoFencingService and AuthorityDashboardService. Run with `npm run bench`.
+import {SpatialIndex} from '../src/utils/spatialIndex';
+import {
+  Coordinates,
+  getRadiusBounds,
+  haversineDistance,
+} from '../src/utils/geo';
+
+// Roughly the extent of Rajasthan
+const REGION = {
+  minLatitude: 23.0,
+  maxLatitude: 30.0,
+  minLongitude: 69.5,
+  maxLongitude: 78.2,
+};
+
+// Deterministic so every run measures the same workload
+function createRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+function randomPoints(count: number, seed: number): Coordinates[] {
+  const random = createRandom(seed);
+  const points: Coordinates[] = [];
+  for (let i = 0; i < count; i++) {
+    points.push({
+      latitude:
+        REGION.minLatitude +
+        random() * (REGION.maxLatitude - REGION.minLatitude),
+      longitude:
+        REGION.minLongitude +
+        random() * (REGION.maxLongitude - REGION.minLongitude),
+    });
+  }
+  return points;
+}
+
+function time(run: () => void): number {
+  const start = Date.now();
+  run();
+  return Date.now() - start;
+}
+
+function report(name: string, linear: number, indexed: number) {
+  const speedup = indexed > 0 ? (linear / indexed).toFixed(1) : 'n/a';
+  console.log(
+    `${name}: linear ${linear}ms, indexed ${indexed}ms, speedup ${speedup}x`,
+  );
+}
+
+describe('SpatialIndex benchmarks', () => {
+  it('zones containing each fix', () => {
+    const zoneCenters = randomPoints(2000, 1);
+    const radii = zoneCenters.map((_, i) => 200 + (i % 20) * 100);
+    const fixes = randomPoints(1000, 2);
+
+    const index = new SpatialIndex<number>();
+    zoneCenters.forEach((center, i) =>
+      index.insert(String(i), getRadiusBounds(center, radii[i]), i),
+    );
+
+    let linearHits = 0;
+    const linear = time(() => {
+      fixes.forEach(fix => {
+        zoneCenters.forEach((center, i) => {
+          if (haversineDistance(fix, center) <= radii[i]) {
+            linearHits++;
+          }
+        });
+      });
+    });
+
+    let indexedHits = 0;
+    const indexed = time(() => {
+      fixes.forEach(fix => {
+        index.containing(fix).forEach(i => {
+          if (haversineDistance(fix, zoneCenters[i]) <= radii[i]) {
+            indexedHits++;
+          }
+        });
+      });
+    });
+
+    report('2000 zones x 1000 fixes', linear, indexed);
+    expect(indexedHits).toBe(linearHits);
+    expect(indexed).toBeLessThan(linear);
+  });
+
+  it('tourists within a cluster radius', () => {
+    const tourists = randomPoints(2000, 3);
+
+    const index = new SpatialIndex<number>();
+    tourists.forEach((point, i) => index.insertPoint(String(i), point, i));
+
+    let linearPairs = 0;
+    const linear = time(() => {
+      tourists.forEach(point => {
+        tourists.forEach(other => {
+          if (haversineDistance(point, other) <= 500) {
+            linearPairs++;
+          }
+        });
+      });
+    });
+
+    let indexedPairs = 0;
+    const indexed = time(() => {
+      tourists.forEach(point => {
+        indexedPairs += index.withinRadius(point, 500).length;
+      });
+    });
+
+    report('2000 tourists, 500m radius', linear, indexed);
+    expect(indexedPairs).toBe(linearPairs);
+    expect(indexed).toBeLessThan(linear);
+  });
+
+  it('k nearest tourists', () => {
+    const tourists = randomPoints(2000, 4);
+    const queries = randomPoints(200, 5);
+
+    const index = new SpatialIndex<number>();
+    tourists.forEach((point, i) => index.insertPoint(String(i), point, i));
+
+    let linearResults: number[][] = [];
+    const linear = time(() => {
+      linearResults = queries.map(query =>
+        tourists
+          .map((point, i) => ({i, distance: haversineDistance(query, point)}))
+          .sort((a, b) => a.distance - b.distance)
+          .slice(0, 5)
+          .map(match => match.i),
+      );
+    });
+
+    let indexedResults: number[][] = [];
+    const indexed = time(() => {
+      indexedResults = queries.map(query =>
+        index.nearest(query, 5).map(match => match.item),
+      );
+    });
+
+    report('200 queries, 5 nearest of 2000', linear, indexed);
+    expect(indexedResults).toEqual(linearResults);
+    expect(indexed).toBeLessThan(linear);
+  });
+});
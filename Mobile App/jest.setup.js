@@ -9,12 +9,16 @@ jest.mock('react-native-maps', () => {
   const MockMapView = props => React.createElement(View, props);
   const MockMarker = props => React.createElement(View, props);
   const MockCircle = props => React.createElement(View, props);
+  const MockPolygon = props => React.createElement(View, props);
+  const MockPolyline = props => React.createElement(View, props);
 
   return {
     __esModule: true,
     default: MockMapView,
     Marker: MockMarker,
     Circle: MockCircle,
+    Polygon: MockPolygon,
+    Polyline: MockPolyline,
   };
 });
 
@@ -30,6 +34,27 @@ jest.mock('react-native-haptic-feedback', () => ({
   trigger: jest.fn(),
 }));
 
+// Mock react-native-fs
+jest.mock('react-native-fs', () => ({
+  CachesDirectoryPath: '/caches',
+  DocumentDirectoryPath: '/documents',
+  DownloadDirectoryPath: '/downloads',
+  writeFile: jest.fn(() => Promise.resolve()),
+  readFile: jest.fn(() => Promise.resolve('')),
+}));
+
+// Mock react-native-document-picker
+jest.mock('react-native-document-picker', () => ({
+  pickSingle: jest.fn(() => Promise.reject(new Error('cancelled'))),
+  isCancel: jest.fn(() => true),
+  types: {allFiles: '*/*'},
+}));
+
+// Mock react-native-share
+jest.mock('react-native-share', () => ({
+  open: jest.fn(() => Promise.resolve({success: true})),
+}));
+
 // Mock react-native-flash-message
 jest.mock('react-native-flash-message', () => ({
   showMessage: jest.fn(),
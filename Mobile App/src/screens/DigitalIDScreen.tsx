@@ -12,6 +12,7 @@ import {
   Divider,
 } from 'react-native-paper';
 import {SafeAreaView} from 'react-native-safe-area-context';
+import DocumentPicker from 'react-native-document-picker';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 
 import {theme, colors} from '../styles/theme';
@@ -32,6 +33,7 @@ const DigitalIDScreen: React.FC<DigitalIDScreenProps> = ({
   const [digitalID, setDigitalID] = useState<DigitalTouristID | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
   const [validityStatus, setValidityStatus] = useState<{
     isValid: boolean;
     daysRemaining: number;
@@ -197,6 +199,47 @@ const DigitalIDScreen: React.FC<DigitalIDScreenProps> = ({
     }
   };
 
+  const handleImportItinerary = async () => {
+    try {
+      const file = await DocumentPicker.pickSingle({
+        type: DocumentPicker.types.allFiles,
+        copyTo: 'cachesDirectory',
+      });
+      setIsImporting(true);
+
+      const result = await BlockchainService.importItineraryFile(
+        file.fileCopyUri || file.uri,
+        file.name || undefined,
+      );
+      setDigitalID(BlockchainService.getCurrentDigitalID());
+
+      const lines = [
+        `${
+          result.locations.length
+        } stop(s) added from ${result.format.toUpperCase()}.`,
+      ];
+      if (result.duplicates > 0) {
+        lines.push(`${result.duplicates} duplicate(s) ignored.`);
+      }
+      if (result.skipped.length > 0) {
+        lines.push(
+          `${result.skipped.length} entry(s) skipped:`,
+          ...result.skipped
+            .slice(0, 5)
+            .map(issue => `• #${issue.entry}: ${issue.message}`),
+        );
+      }
+      Alert.alert('Itinerary Imported', lines.join('\n'));
+    } catch (error) {
+      if (!DocumentPicker.isCancel(error)) {
+        console.error('Failed to import itinerary:', error);
+        Alert.alert('Error', 'Failed to import the itinerary file');
+      }
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const handleRevokeID = async () => {
     Alert.alert(
       'Revoke Digital ID',
@@ -468,6 +511,39 @@ const DigitalIDScreen: React.FC<DigitalIDScreenProps> = ({
                     <Icon name="group" size={24} color={theme.colors.primary} />
                   )}
                 />
+                {digitalID.tripItinerary.plannedLocations.map(location => (
+                  <React.Fragment key={location.id}>
+                    <Divider />
+                    <List.Item
+                      title={location.name}
+                      description={location.plannedVisitDate.toLocaleDateString()}
+                      left={() => (
+                        <Icon
+                          name={location.isVisited ? 'check-circle' : 'flag'}
+                          size={24}
+                          color={
+                            location.isVisited
+                              ? colors.success
+                              : theme.colors.primary
+                          }
+                        />
+                      )}
+                    />
+                  </React.Fragment>
+                ))}
+                <Button
+                  mode="outlined"
+                  icon="file-upload"
+                  onPress={handleImportItinerary}
+                  loading={isImporting}
+                  disabled={isImporting}
+                  style={styles.importButton}>
+                  Import Route File
+                </Button>
+                <Text style={styles.importHint}>
+                  GPX waypoints and routes, KML placemarks, or CSV with name,
+                  lat, lng and date columns
+                </Text>
               </Card.Content>
             </Card>
 
@@ -736,6 +812,14 @@ const styles = StyleSheet.create({
     flex: 1,
     marginHorizontal: theme.spacing.xs,
   },
+  importButton: {
+    marginTop: theme.spacing.md,
+  },
+  importHint: {
+    fontSize: theme.typography.body2.fontSize,
+    color: theme.colors.secondary,
+    marginTop: theme.spacing.sm,
+  },
   formCard: {
     marginBottom: theme.spacing.md,
     elevation: 2,
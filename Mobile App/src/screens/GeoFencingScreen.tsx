@@ -3,11 +3,12 @@ import {View, Text, StyleSheet, ScrollView, Alert} from 'react-native';
 import {Card, Title, Paragraph, Switch, Chip} from 'react-native-paper';
 import {SafeAreaView} from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/MaterialIcons';
-import MapView, {Marker, Circle} from 'react-native-maps';
+import MapView, {Marker, Circle, Polygon} from 'react-native-maps';
 
 import {theme, colors} from '../styles/theme';
 import {GeoFencingService, GeoFenceAlert} from '../services/GeoFencingService';
 import {LocationService, GeoFenceZone} from '../services/LocationService';
+import {GeoFenceGeometry, GeoJSONLinearRing} from '../types/geojson';
 
 interface GeoFencingScreenProps {
   navigation: any;
@@ -83,6 +84,27 @@ const GeoFencingScreen: React.FC<GeoFencingScreenProps> = ({
     }
   };
 
+  const toMapCoordinates = (ring: GeoJSONLinearRing) =>
+    ring.map(([longitude, latitude]) => ({latitude, longitude}));
+
+  const getGeometryPolygons = (geometry: GeoFenceGeometry) =>
+    geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+
+  const getAlertTypeLabel = (alert: GeoFenceAlert) => {
+    switch (alert.alertType) {
+      case 'enter':
+        return 'Entered';
+      case 'exit':
+        return 'Exited';
+      case 'approach':
+        return `Approaching (${Math.round(alert.distanceToBoundary || 0)}m)`;
+      case 'dwell':
+        return `Stayed ${Math.round(alert.dwellMinutes || 0)} min`;
+      case 'closing':
+        return `Closes in ${Math.round(alert.minutesUntilClose || 0)} min`;
+    }
+  };
+
   const getZoneTypeIcon = (type: string) => {
     switch (type) {
       case 'high-risk':
@@ -140,13 +162,28 @@ const GeoFencingScreen: React.FC<GeoFencingScreenProps> = ({
                         title={zone.name}
                         description={zone.alertMessage}
                       />
-                      <Circle
-                        center={zone.center}
-                        radius={zone.radius}
-                        fillColor={`${getZoneTypeColor(zone.type)}20`}
-                        strokeColor={getZoneTypeColor(zone.type)}
-                        strokeWidth={2}
-                      />
+                      {zone.geometry ? (
+                        getGeometryPolygons(zone.geometry).map(
+                          ([outer, ...holes], index) => (
+                            <Polygon
+                              key={`${zone.id}-${index}`}
+                              coordinates={toMapCoordinates(outer)}
+                              holes={holes.map(toMapCoordinates)}
+                              fillColor={`${getZoneTypeColor(zone.type)}20`}
+                              strokeColor={getZoneTypeColor(zone.type)}
+                              strokeWidth={2}
+                            />
+                          ),
+                        )
+                      ) : (
+                        <Circle
+                          center={zone.center}
+                          radius={zone.radius}
+                          fillColor={`${getZoneTypeColor(zone.type)}20`}
+                          strokeColor={getZoneTypeColor(zone.type)}
+                          strokeWidth={2}
+                        />
+                      )}
                     </React.Fragment>
                   ))}
                 </MapView>
@@ -178,7 +215,9 @@ const GeoFencingScreen: React.FC<GeoFencingScreenProps> = ({
                         {zone.type.toUpperCase()}
                       </Text>
                       <Text style={styles.zoneRadius}>
-                        Radius: {zone.radius}m
+                        {zone.geometry
+                          ? `Boundary: ${zone.geometry.type}`
+                          : `Radius: ${zone.radius}m`}
                       </Text>
                     </View>
                   </View>
@@ -212,7 +251,7 @@ const GeoFencingScreen: React.FC<GeoFencingScreenProps> = ({
                   <View style={styles.alertInfo}>
                     <Text style={styles.alertZone}>{alert.zoneName}</Text>
                     <Text style={styles.alertType}>
-                      {alert.alertType === 'enter' ? 'Entered' : 'Exited'}
+                      {getAlertTypeLabel(alert)}
                     </Text>
                     <Text style={styles.alertTime}>
                       {alert.timestamp.toLocaleString()}
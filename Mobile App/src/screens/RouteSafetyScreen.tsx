@@ -0,0 +1,370 @@
+import React, {useState, useEffect} from 'react';
+import {View, Text, StyleSheet, ScrollView} from 'react-native';
+import {Card, Title, Paragraph, Chip} from 'react-native-paper';
+import {SafeAreaView} from 'react-native-safe-area-context';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import MapView, {Marker, Polyline} from 'react-native-maps';
+
+import {theme, colors} from '../styles/theme';
+import {SafetyScoreService, RouteScore} from '../services/SafetyScoreService';
+import {LocationService} from '../services/LocationService';
+import {
+  BlockchainService,
+  PlannedLocation,
+} from '../services/BlockchainService';
+import {Coordinates, getBoundingBox} from '../utils/geo';
+import {RouteWarning} from '../utils/routeScoring';
+import {toDayKey} from '../utils/scoreHistory';
+
+interface RouteSafetyScreenProps {
+  navigation: any;
+}
+
+// Departure options, in hours from now
+const DEPARTURE_OFFSETS = [0, 1, 3, 6];
+
+const RouteSafetyScreen: React.FC<RouteSafetyScreenProps> = ({
+  navigation: _navigation,
+}) => {
+  const [stops, setStops] = useState<PlannedLocation[]>([]);
+  const [routeScore, setRouteScore] = useState<RouteScore | null>(null);
+  const [departureOffset, setDepartureOffset] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    scoreRoute(departureOffset);
+  }, [departureOffset]);
+
+  const scoreRoute = async (offset: number) => {
+    try {
+      setIsLoading(true);
+      const departure = new Date(Date.now() + offset * 60 * 60 * 1000);
+      const digitalID = BlockchainService.getCurrentDigitalID();
+      // The day trip: stops still to visit on the day of departure
+      const upcoming = (digitalID?.tripItinerary.plannedLocations || [])
+        .filter(
+          stop =>
+            !stop.isVisited &&
+            toDayKey(new Date(stop.plannedVisitDate)) === toDayKey(departure),
+        )
+        .sort(
+          (a, b) =>
+            new Date(a.plannedVisitDate).getTime() -
+            new Date(b.plannedVisitDate).getTime(),
+        );
+      setStops(upcoming);
+
+      // Start from where the tourist is now when the fix is available
+      const location = await LocationService.getCurrentLocation();
+      const route: PlannedLocation[] = location
+        ? [
+            {
+              id: 'current',
+              name: 'Current location',
+              coordinates: {
+                latitude: location.latitude,
+                longitude: location.longitude,
+              },
+              plannedVisitDate: new Date(),
+              riskLevel: 'low',
+              isVisited: true,
+            },
+            ...upcoming,
+          ]
+        : upcoming;
+
+      setRouteScore(
+        route.length >= 2
+          ? SafetyScoreService.scoreRoute(route, departure)
+          : null,
+      );
+    } catch (error) {
+      console.error('Failed to score route:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getRiskColor = (riskLevel: string) => {
+    switch (riskLevel) {
+      case 'low':
+        return colors.lowRisk;
+      case 'medium':
+        return colors.mediumRisk;
+      case 'high':
+        return colors.highRisk;
+      default:
+        return colors.mediumRisk;
+    }
+  };
+
+  const getWarningText = (warning: RouteWarning) =>
+    warning.type === 'crosses-zone'
+      ? `Crosses ${warning.zoneType} zone ${warning.zoneName}`
+      : `Passes ${warning.zoneType} zone ${warning.zoneName} after dark`;
+
+  const formatDistance = (meters: number) =>
+    meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${meters} m`;
+
+  const getMapRegion = (score: RouteScore) => {
+    const points: Coordinates[] = [];
+    score.segments.forEach(({segment}) =>
+      points.push(segment.start, segment.end),
+    );
+    const bounds = getBoundingBox(points);
+    return {
+      latitude: (bounds.minLatitude + bounds.maxLatitude) / 2,
+      longitude: (bounds.minLongitude + bounds.maxLongitude) / 2,
+      latitudeDelta: Math.max(
+        0.01,
+        (bounds.maxLatitude - bounds.minLatitude) * 1.3,
+      ),
+      longitudeDelta: Math.max(
+        0.01,
+        (bounds.maxLongitude - bounds.minLongitude) * 1.3,
+      ),
+    };
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView}>
+        {/* Departure */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Title style={styles.cardTitle}>Route Safety</Title>
+            <Paragraph style={styles.subtitle}>
+              Your planned stops scored along the way, at the time you are
+              expected to pass each part of the route
+            </Paragraph>
+            <View style={styles.chipRow}>
+              {DEPARTURE_OFFSETS.map(offset => (
+                <Chip
+                  key={offset}
+                  selected={offset === departureOffset}
+                  onPress={() => setDepartureOffset(offset)}
+                  style={styles.chip}>
+                  {offset === 0 ? 'Leave now' : `In ${offset}h`}
+                </Chip>
+              ))}
+            </View>
+          </Card.Content>
+        </Card>
+
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <Text>Scoring route...</Text>
+          </View>
+        ) : !routeScore ? (
+          <Card style={styles.card}>
+            <Card.Content>
+              <Paragraph style={styles.emptyText}>
+                No stops planned for the day of departure. Add them to your trip
+                itinerary to score the route.
+              </Paragraph>
+            </Card.Content>
+          </Card>
+        ) : (
+          <>
+            {/* Coloured Route */}
+            <Card style={styles.card}>
+              <Card.Content>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryText}>
+                    {formatDistance(Math.round(routeScore.distance))}, arriving{' '}
+                    {routeScore.arrival.toLocaleTimeString()}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.riskText,
+                      {color: getRiskColor(routeScore.riskLevel)},
+                    ]}>
+                    {routeScore.riskLevel.toUpperCase()} RISK
+                  </Text>
+                </View>
+                <View style={styles.mapContainer}>
+                  <MapView style={styles.map} region={getMapRegion(routeScore)}>
+                    {routeScore.segments.map(segment => (
+                      <Polyline
+                        key={segment.segment.index}
+                        coordinates={[
+                          segment.segment.start,
+                          segment.segment.end,
+                        ]}
+                        strokeColor={getRiskColor(segment.riskLevel)}
+                        strokeWidth={5}
+                      />
+                    ))}
+                    {stops.map(stop => (
+                      <Marker
+                        key={stop.id}
+                        coordinate={stop.coordinates}
+                        title={stop.name}
+                        pinColor={getRiskColor(stop.riskLevel)}
+                      />
+                    ))}
+                  </MapView>
+                </View>
+              </Card.Content>
+            </Card>
+
+            {/* Segments */}
+            <Card style={styles.card}>
+              <Card.Content>
+                <Title style={styles.cardTitle}>Segments</Title>
+                {routeScore.segments.map(segment => (
+                  <View key={segment.segment.index} style={styles.segmentItem}>
+                    <View
+                      style={[
+                        styles.segmentMarker,
+                        {backgroundColor: getRiskColor(segment.riskLevel)},
+                      ]}
+                    />
+                    <View style={styles.segmentInfo}>
+                      <Text style={styles.segmentLabel}>
+                        {segment.segment.label}
+                      </Text>
+                      <Text style={styles.segmentDetail}>
+                        {segment.departure.toLocaleTimeString()} –{' '}
+                        {segment.arrival.toLocaleTimeString()},{' '}
+                        {formatDistance(Math.round(segment.segment.length))}
+                      </Text>
+                      {segment.warnings.map(warning => (
+                        <View key={warning.zoneId} style={styles.warningRow}>
+                          <Icon
+                            name="warning"
+                            size={16}
+                            color={
+                              warning.type === 'crosses-zone'
+                                ? colors.highRisk
+                                : colors.mediumRisk
+                            }
+                          />
+                          <Text style={styles.warningText}>
+                            {getWarningText(warning)}
+                          </Text>
+                        </View>
+                      ))}
+                    </View>
+                    <Text style={styles.segmentScore}>
+                      {segment.score.score}
+                    </Text>
+                  </View>
+                ))}
+              </Card.Content>
+            </Card>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  loadingContainer: {
+    padding: theme.spacing.lg,
+    alignItems: 'center',
+  },
+  card: {
+    margin: theme.spacing.md,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: theme.typography.h4.fontSize,
+    fontWeight: theme.typography.h4.fontWeight,
+    color: theme.colors.primary,
+    marginBottom: theme.spacing.sm,
+  },
+  subtitle: {
+    fontSize: theme.typography.body2.fontSize,
+    color: theme.colors.secondary,
+    marginBottom: theme.spacing.md,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    marginRight: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
+  emptyText: {
+    fontSize: theme.typography.body2.fontSize,
+    color: theme.colors.secondary,
+    textAlign: 'center',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  summaryText: {
+    fontSize: theme.typography.body1.fontSize,
+    color: theme.colors.primary,
+  },
+  riskText: {
+    fontSize: theme.typography.body1.fontSize,
+    fontWeight: 'bold',
+  },
+  mapContainer: {
+    height: 260,
+    borderRadius: theme.roundness,
+    overflow: 'hidden',
+  },
+  map: {
+    flex: 1,
+  },
+  segmentItem: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  segmentMarker: {
+    width: 6,
+    alignSelf: 'stretch',
+    borderRadius: 3,
+    marginRight: theme.spacing.sm,
+  },
+  segmentInfo: {
+    flex: 1,
+  },
+  segmentLabel: {
+    fontSize: theme.typography.body1.fontSize,
+    fontWeight: '500',
+    color: theme.colors.primary,
+  },
+  segmentDetail: {
+    fontSize: theme.typography.body2.fontSize,
+    color: theme.colors.secondary,
+    marginTop: 2,
+  },
+  warningRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: theme.spacing.xs,
+  },
+  warningText: {
+    fontSize: theme.typography.body2.fontSize,
+    color: theme.colors.secondary,
+    marginLeft: theme.spacing.xs,
+    flex: 1,
+  },
+  segmentScore: {
+    fontSize: theme.typography.h4.fontSize,
+    fontWeight: 'bold',
+    color: theme.colors.primary,
+    marginLeft: theme.spacing.sm,
+  },
+});
+
+export default RouteSafetyScreen;
@@ -3,12 +3,19 @@ import {View, Text, StyleSheet, ScrollView} from 'react-native';
 import {Card, Title, Button, ProgressBar} from 'react-native-paper';
 import {SafeAreaView} from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/MaterialIcons';
-import {BarChart} from 'react-native-chart-kit';
+import {BarChart, LineChart} from 'react-native-chart-kit';
 import {Dimensions} from 'react-native';
 
 import {theme, colors} from '../styles/theme';
-import {SafetyScoreService, SafetyScore} from '../services/SafetyScoreService';
+import {
+  SafetyScoreService,
+  SafetyScore,
+  ItineraryForecast,
+} from '../services/SafetyScoreService';
+import {DailyScoreSummary, ScoreTrend} from '../utils/scoreHistory';
 import {LocationService} from '../services/LocationService';
+import {EnvironmentalDataService} from '../services/EnvironmentalDataService';
+import {CrowdDensityService} from '../services/CrowdDensityService';
 
 interface SafetyScoreScreenProps {
   navigation: any;
@@ -16,24 +23,52 @@ interface SafetyScoreScreenProps {
 
 const {width} = Dimensions.get('window');
 
-const SafetyScoreScreen: React.FC<SafetyScoreScreenProps> = ({
-  navigation: _navigation,
-}) => {
+const SafetyScoreScreen: React.FC<SafetyScoreScreenProps> = ({navigation}) => {
   const [safetyScore, setSafetyScore] = useState<SafetyScore | null>(null);
+  const [dailySummaries, setDailySummaries] = useState<DailyScoreSummary[]>([]);
+  const [trend, setTrend] = useState<ScoreTrend>('stable');
+  const [forecast, setForecast] = useState<ItineraryForecast | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
     calculateSafetyScore();
   }, []);
 
+  const loadHistory = () => {
+    setDailySummaries(SafetyScoreService.getDailySummaries());
+    setTrend(SafetyScoreService.getScoreTrend());
+    setForecast(SafetyScoreService.forecastItinerary());
+  };
+
+  // Shows the last score, or one from cached weather and terrain warnings,
+  // straight away and rescores once the providers have been asked
   const calculateSafetyScore = async () => {
     try {
-      setIsLoading(true);
+      const currentScore = SafetyScoreService.getCurrentSafetyScore();
+      if (currentScore) {
+        setSafetyScore(currentScore);
+        loadHistory();
+        setIsLoading(false);
+      } else {
+        setIsLoading(true);
+      }
+
       const location = await LocationService.getCurrentLocation();
       if (location) {
-        const score = SafetyScoreService.calculateSafetyScore(location);
-        setSafetyScore(score);
+        if (!currentScore) {
+          setSafetyScore(SafetyScoreService.calculateSafetyScore(location));
+          loadHistory();
+          setIsLoading(false);
+        }
+        // Falls back to cached warnings when offline, and scores without
+        // the crowd factor
+        await Promise.all([
+          EnvironmentalDataService.refreshConditions(location),
+          CrowdDensityService.refreshCrowdDensity(location),
+        ]);
+        setSafetyScore(SafetyScoreService.calculateSafetyScore(location));
       }
+      loadHistory();
     } catch (error) {
       console.error('Failed to calculate safety score:', error);
     } finally {
@@ -81,6 +116,23 @@ const SafetyScoreScreen: React.FC<SafetyScoreScreenProps> = ({
     };
   };
 
+  const getHistoryChartData = () => {
+    if (dailySummaries.length < 2) {
+      return null;
+    }
+
+    return {
+      // MM-DD
+      labels: dailySummaries.map(summary => summary.day.slice(5)),
+      datasets: [
+        {
+          data: dailySummaries.map(summary => summary.average),
+          color: (opacity = 1) => `rgba(46, 125, 50, ${opacity})`,
+        },
+      ],
+    };
+  };
+
   if (isLoading) {
     return (
       <SafeAreaView style={styles.container}>
@@ -103,6 +155,7 @@ const SafetyScoreScreen: React.FC<SafetyScoreScreenProps> = ({
   }
 
   const chartData = getChartData();
+  const historyChartData = getHistoryChartData();
 
   return (
     <SafeAreaView style={styles.container}>
@@ -168,10 +221,15 @@ const SafetyScoreScreen: React.FC<SafetyScoreScreenProps> = ({
         <Card style={styles.factorsCard}>
           <Card.Content>
             <Title style={styles.factorsTitle}>Risk Factors</Title>
+            <Text style={styles.profileText}>
+              Weighted for the {safetyScore.profileName} risk profile
+            </Text>
             {safetyScore.factors.map((factor, index) => (
               <View key={index} style={styles.factorItem}>
                 <View style={styles.factorInfo}>
-                  <Text style={styles.factorName}>{factor.name}</Text>
+                  <Text style={styles.factorName}>
+                    {factor.name} ({Math.round(factor.weight * 100)}%)
+                  </Text>
                   <Text style={styles.factorDescription}>
                     {factor.description}
                   </Text>
@@ -201,6 +259,92 @@ const SafetyScoreScreen: React.FC<SafetyScoreScreenProps> = ({
           </Card.Content>
         </Card>
 
+        {/* Score History */}
+        {historyChartData && (
+          <Card style={styles.chartCard}>
+            <Card.Content>
+              <Title style={styles.chartTitle}>Score History</Title>
+              <LineChart
+                data={historyChartData}
+                width={width - 80}
+                height={200}
+                fromZero
+                chartConfig={{
+                  backgroundColor: theme.colors.surface,
+                  backgroundGradientFrom: theme.colors.surface,
+                  backgroundGradientTo: theme.colors.surface,
+                  decimalPlaces: 0,
+                  color: (opacity = 1) => `rgba(46, 125, 50, ${opacity})`,
+                  labelColor: (opacity = 1) => `rgba(0, 0, 0, ${opacity})`,
+                  style: {
+                    borderRadius: 16,
+                  },
+                }}
+                style={styles.chart}
+              />
+              <Text style={styles.profileText}>
+                Daily average risk is {trend} over the last{' '}
+                {dailySummaries.length} days
+              </Text>
+            </Card.Content>
+          </Card>
+        )}
+
+        {/* Itinerary Forecast */}
+        {forecast && forecast.stops.length > 0 && (
+          <Card style={styles.factorsCard}>
+            <Card.Content>
+              <Title style={styles.factorsTitle}>Trip Forecast</Title>
+              {forecast.riskiestDay && (
+                <Text style={styles.profileText}>
+                  Riskiest day:{' '}
+                  {forecast.riskiestDay.stops[0].visitTime.toLocaleDateString()}{' '}
+                  ({forecast.riskiestDay.riskLevel} risk)
+                </Text>
+              )}
+              {forecast.stops.map(stopForecast => (
+                <View key={stopForecast.stop.id} style={styles.factorItem}>
+                  <View style={styles.factorInfo}>
+                    <Text style={styles.factorName}>
+                      {stopForecast.stop.name}
+                    </Text>
+                    <Text style={styles.factorDescription}>
+                      {stopForecast.visitTime.toLocaleString()}
+                    </Text>
+                  </View>
+                  <View style={styles.factorValue}>
+                    <Text style={styles.factorScore}>
+                      {stopForecast.score.score}
+                    </Text>
+                    <Icon
+                      name={getRiskIcon(stopForecast.score.riskLevel)}
+                      size={20}
+                      color={getRiskColor(stopForecast.score.riskLevel)}
+                    />
+                  </View>
+                </View>
+              ))}
+              {forecast.advice.map((advice, index) => (
+                <View key={index} style={styles.forecastAdvice}>
+                  <Icon
+                    name="event-note"
+                    size={20}
+                    color={theme.colors.primary}
+                  />
+                  <Text style={styles.recommendationText}>{advice}</Text>
+                </View>
+              ))}
+              <Button
+                mode="outlined"
+                onPress={() => navigation.navigate('RouteSafety')}
+                style={styles.refreshButton}
+                icon="directions">
+                Check Route Safety
+              </Button>
+            </Card.Content>
+          </Card>
+        )}
+
         {/* Recommendations */}
         <Card style={styles.recommendationsCard}>
           <Card.Content>
@@ -320,7 +464,12 @@ const styles = StyleSheet.create({
     fontSize: theme.typography.h4.fontSize,
     fontWeight: theme.typography.h4.fontWeight,
     color: theme.colors.primary,
-    marginBottom: theme.spacing.md,
+    marginBottom: theme.spacing.sm,
+  },
+  profileText: {
+    fontSize: theme.typography.body2.fontSize,
+    color: theme.colors.secondary,
+    marginBottom: theme.spacing.sm,
   },
   factorItem: {
     flexDirection: 'row',
@@ -368,6 +517,11 @@ const styles = StyleSheet.create({
     alignItems: 'flex-start',
     marginBottom: theme.spacing.sm,
   },
+  forecastAdvice: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginTop: theme.spacing.sm,
+  },
   recommendationText: {
     fontSize: theme.typography.body2.fontSize,
     color: theme.colors.secondary,
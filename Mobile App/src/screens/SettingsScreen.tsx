@@ -8,6 +8,7 @@ import {theme, colors} from '../styles/theme';
 import {AuthService, User} from '../services/AuthService';
 import {TrackingService} from '../services/TrackingService';
 import {GeoFencingService} from '../services/GeoFencingService';
+import {SafetyScoreService} from '../services/SafetyScoreService';
 
 interface SettingsScreenProps {
   navigation: any;
@@ -74,6 +75,16 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({
     }
   };
 
+  const selectRiskProfile = async (profileId: string) => {
+    try {
+      await SafetyScoreService.selectRiskProfile(profileId);
+      setUser(AuthService.getCurrentUser());
+    } catch (error) {
+      console.error('Failed to select risk profile:', error);
+      Alert.alert('Error', 'Failed to update risk profile');
+    }
+  };
+
   const handleClearData = () => {
     Alert.alert(
       'Clear All Data',
@@ -88,6 +99,8 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({
             TrackingService.clearTrackingHistory();
             // Clear geo-fencing alerts
             GeoFencingService.clearAlertHistory();
+            // Clear safety score history
+            SafetyScoreService.clearScoreHistory();
             Alert.alert('Success', 'All data has been cleared');
           },
         },
@@ -96,8 +109,36 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({
   };
 
   const handleExportData = () => {
-    TrackingService.exportTrackingData();
-    Alert.alert('Export Data', 'Your data has been exported successfully');
+    Alert.alert(
+      'Export Tracking History',
+      'Your trips will be exported as a GPX file. KML and GeoJSON are available on the Tracking screen.',
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {
+          text: 'Save to Device',
+          onPress: async () => {
+            try {
+              const path = await TrackingService.saveTrackExport('gpx');
+              Alert.alert('Export Data', `Saved to ${path}`);
+            } catch (error) {
+              console.error('Failed to save export:', error);
+              Alert.alert('Error', 'Failed to save tracking history');
+            }
+          },
+        },
+        {
+          text: 'Share',
+          onPress: async () => {
+            try {
+              await TrackingService.shareTrackExport('gpx');
+            } catch (error) {
+              console.error('Failed to share export:', error);
+              Alert.alert('Error', 'Failed to share tracking history');
+            }
+          },
+        },
+      ],
+    );
   };
 
   const handleAbout = () => {
@@ -107,6 +148,9 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({
     );
   };
 
+  const riskProfile = SafetyScoreService.getRiskProfile();
+  const riskProfileLocked = SafetyScoreService.isRiskProfileSetByAuthority();
+
   if (isLoading) {
     return (
       <SafeAreaView style={styles.container}>
@@ -172,6 +216,38 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({
           </Card.Content>
         </Card>
 
+        {/* Risk Profile */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Title style={styles.cardTitle}>Risk Profile</Title>
+            {riskProfileLocked && (
+              <Text style={styles.hintText}>
+                Set by local authorities for your trip
+              </Text>
+            )}
+
+            {SafetyScoreService.getAvailableRiskProfiles().map(profile => (
+              <List.Item
+                key={profile.id}
+                title={profile.name}
+                description={profile.description}
+                disabled={riskProfileLocked}
+                left={props => <List.Icon {...props} icon="tune" />}
+                right={props =>
+                  profile.id === riskProfile.id ? (
+                    <List.Icon
+                      {...props}
+                      icon="check"
+                      color={theme.colors.primary}
+                    />
+                  ) : null
+                }
+                onPress={() => selectRiskProfile(profile.id)}
+              />
+            ))}
+          </Card.Content>
+        </Card>
+
         {/* Privacy Settings */}
         <Card style={styles.card}>
           <Card.Content>
@@ -414,6 +490,11 @@ const styles = StyleSheet.create({
   actionButton: {
     marginBottom: theme.spacing.sm,
   },
+  hintText: {
+    fontSize: theme.typography.body2.fontSize,
+    color: theme.colors.secondary,
+    marginBottom: theme.spacing.sm,
+  },
 });
 
 export default SettingsScreen;
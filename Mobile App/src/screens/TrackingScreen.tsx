@@ -1,15 +1,25 @@
 import React, {useState, useEffect} from 'react';
 import {View, Text, StyleSheet, ScrollView, Alert} from 'react-native';
-import {Card, Title, Paragraph, Button, Switch, List} from 'react-native-paper';
+import {
+  Card,
+  Title,
+  Paragraph,
+  Button,
+  Switch,
+  List,
+  SegmentedButtons,
+} from 'react-native-paper';
 import {SafeAreaView} from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 
 import {theme, colors} from '../styles/theme';
 import {
+  ActivityState,
   TrackingService,
   TrackingSettings,
   TrackingStats,
 } from '../services/TrackingService';
+import {TrackExportFormat} from '../utils/trackExport';
 
 interface TrackingScreenProps {
   navigation: any;
@@ -22,6 +32,7 @@ const TrackingScreen: React.FC<TrackingScreenProps> = ({
   const [settings, setSettings] = useState<TrackingSettings | null>(null);
   const [stats, setStats] = useState<TrackingStats | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [exportFormat, setExportFormat] = useState<TrackExportFormat>('gpx');
 
   useEffect(() => {
     initializeTracking();
@@ -91,6 +102,25 @@ const TrackingScreen: React.FC<TrackingScreenProps> = ({
     );
   };
 
+  const shareExport = async () => {
+    try {
+      await TrackingService.shareTrackExport(exportFormat);
+    } catch (error) {
+      console.error('Failed to share export:', error);
+      Alert.alert('Error', 'Failed to share tracking history');
+    }
+  };
+
+  const saveExport = async () => {
+    try {
+      const path = await TrackingService.saveTrackExport(exportFormat);
+      Alert.alert('Export', `Tracking history saved to ${path}`);
+    } catch (error) {
+      console.error('Failed to save export:', error);
+      Alert.alert('Error', 'Failed to save tracking history');
+    }
+  };
+
   const formatDistance = (meters: number) => {
     if (meters < 1000) {
       return `${Math.round(meters)}m`;
@@ -112,6 +142,36 @@ const TrackingScreen: React.FC<TrackingScreenProps> = ({
     return `${speed.toFixed(1)} m/s`;
   };
 
+  const formatInterval = (milliseconds: number) => {
+    const seconds = milliseconds / 1000;
+    if (seconds < 60) {
+      return `${seconds} seconds`;
+    }
+    return `${Math.round(seconds / 60)} min`;
+  };
+
+  const getActivityLabel = (activity: ActivityState) => {
+    switch (activity) {
+      case 'stationary':
+        return 'Stationary';
+      case 'walking':
+        return 'Walking';
+      case 'vehicle':
+        return 'In a vehicle';
+    }
+  };
+
+  const getActivityIcon = (activity: ActivityState) => {
+    switch (activity) {
+      case 'stationary':
+        return 'hotel';
+      case 'walking':
+        return 'directions-walk';
+      case 'vehicle':
+        return 'directions-car';
+    }
+  };
+
   if (isLoading) {
     return (
       <SafeAreaView style={styles.container}>
@@ -166,6 +226,19 @@ const TrackingScreen: React.FC<TrackingScreenProps> = ({
                 {stats?.locationCount || 0} locations recorded
               </Text>
             </View>
+            {isTracking && stats && (
+              <View style={styles.statusItem}>
+                <Icon
+                  name={getActivityIcon(stats.activityState)}
+                  size={24}
+                  color={colors.primary}
+                />
+                <Text style={styles.statusText}>
+                  {getActivityLabel(stats.activityState)}, sampling every{' '}
+                  {formatInterval(stats.samplingInterval)}
+                </Text>
+              </View>
+            )}
           </Card.Content>
         </Card>
 
@@ -199,6 +272,18 @@ const TrackingScreen: React.FC<TrackingScreenProps> = ({
                   </Text>
                   <Text style={styles.statLabel}>Max Speed</Text>
                 </View>
+                <View style={styles.statItem}>
+                  <Text style={styles.statNumber}>{stats.samplesTaken}</Text>
+                  <Text style={styles.statLabel}>Samples Taken</Text>
+                </View>
+                <View style={styles.statItem}>
+                  <Text style={styles.statNumber}>
+                    {`${Math.round(stats.samplingSavedPercent)}%`}
+                  </Text>
+                  <Text style={styles.statLabel}>
+                    Sampling Saved ({stats.samplesSaved} samples)
+                  </Text>
+                </View>
               </View>
             </Card.Content>
           </Card>
@@ -255,9 +340,34 @@ const TrackingScreen: React.FC<TrackingScreenProps> = ({
                 )}
               />
 
+              <List.Item
+                title="Adaptive Sampling"
+                description="Sample less often while stationary and more often in vehicles or emergencies"
+                left={props => <List.Icon {...props} icon="battery" />}
+                right={() => (
+                  <Switch
+                    value={settings.adaptiveSampling}
+                    onValueChange={value =>
+                      updateSettings({adaptiveSampling: value})
+                    }
+                    color={theme.colors.primary}
+                  />
+                )}
+              />
+
               <List.Item
                 title="Update Interval"
-                description={`${settings.updateInterval / 1000} seconds`}
+                description={
+                  settings.adaptiveSampling
+                    ? `${formatInterval(
+                        settings.samplingIntervals.stationary,
+                      )} stationary, ${formatInterval(
+                        settings.samplingIntervals.walking,
+                      )} walking, ${formatInterval(
+                        settings.samplingIntervals.vehicle,
+                      )} in a vehicle`
+                    : formatInterval(settings.updateInterval)
+                }
                 left={props => <List.Icon {...props} icon="schedule" />}
               />
             </Card.Content>
@@ -277,16 +387,34 @@ const TrackingScreen: React.FC<TrackingScreenProps> = ({
               textColor="white">
               Clear History
             </Button>
+            <Paragraph style={styles.exportHint}>
+              Export your trips for maps and GIS tools
+            </Paragraph>
+            <SegmentedButtons
+              value={exportFormat}
+              onValueChange={value =>
+                setExportFormat(value as TrackExportFormat)
+              }
+              buttons={[
+                {value: 'gpx', label: 'GPX'},
+                {value: 'kml', label: 'KML'},
+                {value: 'geojson', label: 'GeoJSON'},
+              ]}
+              style={styles.exportFormats}
+            />
             <Button
               mode="outlined"
-              onPress={() => {
-                TrackingService.exportTrackingData();
-                // In a real app, you would share this data
-                Alert.alert('Export', 'Tracking data exported successfully');
-              }}
+              onPress={shareExport}
+              style={styles.actionButton}
+              icon="share">
+              Share Export
+            </Button>
+            <Button
+              mode="outlined"
+              onPress={saveExport}
               style={styles.actionButton}
               icon="download">
-              Export Data
+              Save to Device
             </Button>
           </Card.Content>
         </Card>
@@ -399,6 +527,14 @@ const styles = StyleSheet.create({
   actionButton: {
     marginBottom: theme.spacing.sm,
   },
+  exportHint: {
+    fontSize: theme.typography.body2.fontSize,
+    color: theme.colors.secondary,
+    marginTop: theme.spacing.sm,
+  },
+  exportFormats: {
+    marginVertical: theme.spacing.sm,
+  },
   privacyCard: {
     margin: theme.spacing.md,
     elevation: 2,
@@ -1,23 +1,65 @@
+import {Alert} from 'react-native';
 import {LocationData} from './LocationService';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-
+import {getPathLength, haversineDistance} from '../utils/geo';
+import {
+  AnomalyFeatures,
+  AnomalyModel,
+  trainAnomalyModel,
+} from '../utils/anomalyModel';
+import {
+  ANOMALY_COOLDOWNS,
+  AnomalyIncident,
+  INCIDENT_GROUPS,
+  updateIncidents,
+} from '../utils/anomalyIncidents';
+import {
+  addCheckInStep,
+  attachAnomaly,
+  CheckIn,
+  CheckInStepType,
+  createCheckIn,
+  hasStep,
+  isCheckInOverdue,
+  isEscalationExhausted,
+  shouldPromptCheckIn,
+} from '../utils/checkIn';
+import {
+  createDetectorMetrics,
+  DetectorConfig,
+  DetectorMetrics,
+  resolveDetectorConfig,
+  validateDetectorConfig,
+} from '../utils/detectorConfig';
+import {
+  AnomalyDetector,
+  createBuiltInDetectors,
+  DetectorContext,
+  getAverageSpeed,
+  getUsualPlaces,
+} from './anomalyDetectors';
+import {BiometricResult, BiometricService} from './BiometricService';
+import {BlockchainService} from './BlockchainService';
+import {NotificationService} from './NotificationService';
+import {PanicButtonService} from './PanicButtonService';
+
+// Thresholds belong to the detectors; see getDetectorConfig
 export interface AnomalyDetectionConfig {
-  locationDropoffThreshold: number; // minutes
-  inactivityThreshold: number; // minutes
-  routeDeviationThreshold: number; // meters
-  speedAnomalyThreshold: number; // m/s
-  behaviorAnalysisWindow: number; // minutes
-  enableMLModels: boolean;
+  checkInTimeout: number; // minutes to answer "Are you OK?" before escalating
+  verifyCheckIn: boolean; // confirm "I'm safe" with biometrics or a PIN
 }
 
+export type BuiltInAnomalyType =
+  | 'location_dropoff'
+  | 'inactivity'
+  | 'route_deviation'
+  | 'speed_anomaly'
+  | 'behavior_anomaly';
+
 export interface AnomalyEvent {
   id: string;
-  type:
-    | 'location_dropoff'
-    | 'inactivity'
-    | 'route_deviation'
-    | 'speed_anomaly'
-    | 'behavior_anomaly';
+  type: BuiltInAnomalyType | string; // registered detectors add their own
+  detectorId?: string; // the detector that raised it
   severity: 'low' | 'medium' | 'high' | 'critical';
   timestamp: Date;
   location?: LocationData;
@@ -25,9 +67,17 @@ export interface AnomalyEvent {
   confidence: number; // 0-1
   isResolved: boolean;
   resolvedAt?: Date;
+  incidentId?: string; // the incident it was grouped into
+  checkInId?: string; // the check-in it asked the tourist for
+  dismissedAt?: Date; // when it was judged a false alarm
   metadata: Record<string, any>;
 }
 
+export interface DetectorSettings {
+  enabled?: boolean; // the detector's default when unset
+  config: Partial<DetectorConfig>;
+}
+
 export interface BehaviorPattern {
   userId: string;
   normalMovementSpeed: number;
@@ -50,28 +100,54 @@ export interface MLModelPrediction {
   confidence: number;
 }
 
+// Feature samples kept for training, a few weeks of regular fixes
+const MAX_FEATURE_SAMPLES = 2000;
+// Samples between retraining the model and persisting the samples
+const RETRAIN_EVERY = 10;
+const MAX_INCIDENTS = 200;
+const MAX_CHECK_INS = 100;
+const ESCALATION_RETRY_DELAY = 60 * 1000;
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
 class AIAnomalyDetectionServiceClass {
   private config: AnomalyDetectionConfig = {
-    locationDropoffThreshold: 30, // 30 minutes
-    inactivityThreshold: 60, // 1 hour
-    routeDeviationThreshold: 1000, // 1 km
-    speedAnomalyThreshold: 20, // 20 m/s (72 km/h)
-    behaviorAnalysisWindow: 1440, // 24 hours
-    enableMLModels: true,
+    checkInTimeout: 10,
+    verifyCheckIn: false,
   };
 
   private locationHistory: LocationData[] = [];
   private behaviorPattern: BehaviorPattern | null = null;
+  private featureSamples: AnomalyFeatures[] = [];
+  private newFeatureSamples = 0;
+  private anomalyModel: AnomalyModel = trainAnomalyModel([]);
   private anomalyEvents: AnomalyEvent[] = [];
+  private incidents: AnomalyIncident[] = [];
+  private checkIns: CheckIn[] = [];
+  private checkInTimer: NodeJS.Timeout | null = null;
+  private detectors: Map<string, AnomalyDetector> = new Map(
+    createBuiltInDetectors().map(detector => [detector.id, detector]),
+  );
+  private detectorSettings: Record<string, DetectorSettings> = {};
+  private detectorMetrics: Record<string, DetectorMetrics> = {};
   private isMonitoring = false;
   private monitoringInterval: NodeJS.Timeout | null = null;
 
   async initialize() {
     try {
+      await this.loadDetectorSettings();
       await this.loadConfiguration();
+      await this.loadDetectorMetrics();
       await this.loadLocationHistory();
       await this.loadBehaviorPattern();
+      await this.loadFeatureSamples();
       await this.loadAnomalyEvents();
+      await this.loadIncidents();
+      await this.loadCheckIns();
+      this.anomalyModel = trainAnomalyModel(this.featureSamples);
+      // A check-in left unanswered while the app was closed escalates now
+      this.scheduleCheckInTimeout();
       console.log('AIAnomalyDetectionService initialized successfully');
     } catch (error) {
       console.error('AIAnomalyDetectionService initialization failed:', error);
@@ -82,13 +158,119 @@ class AIAnomalyDetectionServiceClass {
     try {
       const config = await AsyncStorage.getItem('anomalyDetectionConfig');
       if (config) {
-        this.config = {...this.config, ...JSON.parse(config)};
+        const stored = JSON.parse(config);
+        const hadLegacyFields = await this.migrateLegacyConfig(stored);
+        this.config = {...this.config, ...stored};
+        if (hadLegacyFields) {
+          await this.saveConfiguration();
+        }
       }
     } catch (error) {
       console.error('Failed to load anomaly detection config:', error);
     }
   }
 
+  // Thresholds used to be fields of the service config; they now belong to
+  // the built-in detectors. Removes the legacy fields from stored and
+  // resolves with whether there were any.
+  private async migrateLegacyConfig(
+    stored: Record<string, any>,
+  ): Promise<boolean> {
+    const legacyFields: Array<[string, string, string]> = [
+      ['locationDropoffThreshold', 'location_dropoff', 'threshold'],
+      ['behaviorAnalysisWindow', 'inactivity', 'window'],
+      ['routeDeviationThreshold', 'route_deviation', 'corridorWidth'],
+      ['speedAnomalyThreshold', 'speed_anomaly', 'threshold'],
+    ];
+    const hadLegacyFields =
+      'enableMLModels' in stored ||
+      legacyFields.some(([field]) => field in stored);
+    if (!hadLegacyFields) {
+      return false;
+    }
+
+    // Detector settings saved since take precedence over the old fields
+    if (Object.keys(this.detectorSettings).length === 0) {
+      legacyFields.forEach(([field, detectorId, key]) => {
+        if (typeof stored[field] === 'number') {
+          const settings = this.getDetectorSettings(detectorId);
+          this.detectorSettings[detectorId] = {
+            ...settings,
+            config: {...settings.config, [key]: stored[field]},
+          };
+        }
+      });
+      if (stored.enableMLModels === false) {
+        this.detectorSettings.behavior_anomaly = {
+          ...this.getDetectorSettings('behavior_anomaly'),
+          enabled: false,
+        };
+      }
+
+      if (Object.keys(this.detectorSettings).length > 0) {
+        await this.saveDetectorSettings();
+      }
+    }
+
+    legacyFields.forEach(([field]) => delete stored[field]);
+    delete stored.enableMLModels;
+    return true;
+  }
+
+  private async loadDetectorSettings() {
+    try {
+      const settings = await AsyncStorage.getItem('anomalyDetectorSettings');
+      if (settings) {
+        this.detectorSettings = JSON.parse(settings);
+      }
+    } catch (error) {
+      console.error('Failed to load anomaly detector settings:', error);
+    }
+  }
+
+  private async saveDetectorSettings() {
+    try {
+      await AsyncStorage.setItem(
+        'anomalyDetectorSettings',
+        JSON.stringify(this.detectorSettings),
+      );
+    } catch (error) {
+      console.error('Failed to save anomaly detector settings:', error);
+    }
+  }
+
+  private async loadDetectorMetrics() {
+    try {
+      const metrics = await AsyncStorage.getItem('anomalyDetectorMetrics');
+      if (metrics) {
+        const parsed: Record<string, any> = JSON.parse(metrics);
+        Object.keys(parsed).forEach(detectorId => {
+          const {lastDetectedAt, lastErrorAt} = parsed[detectorId];
+          this.detectorMetrics[detectorId] = {
+            ...parsed[detectorId],
+            lastDetectedAt: lastDetectedAt
+              ? new Date(lastDetectedAt)
+              : undefined,
+            lastErrorAt: lastErrorAt ? new Date(lastErrorAt) : undefined,
+          };
+        });
+      }
+    } catch (error) {
+      console.error('Failed to load anomaly detector metrics:', error);
+    }
+  }
+
+  private async saveDetectorMetrics() {
+    try {
+      await AsyncStorage.setItem(
+        'anomalyDetectorMetrics',
+        JSON.stringify(this.detectorMetrics),
+      );
+    } catch (error) {
+      console.error('Failed to save anomaly detector metrics:', error);
+    }
+  }
+
   private async saveConfiguration() {
     try {
       await AsyncStorage.setItem(
@@ -157,6 +339,28 @@ class AIAnomalyDetectionServiceClass {
     }
   }
 
+  private async loadFeatureSamples() {
+    try {
+      const samples = await AsyncStorage.getItem('anomalyFeatureSamples');
+      if (samples) {
+        this.featureSamples = JSON.parse(samples);
+      }
+    } catch (error) {
+      console.error('Failed to load anomaly feature samples:', error);
+    }
+  }
+
+  private async saveFeatureSamples() {
+    try {
+      await AsyncStorage.setItem(
+        'anomalyFeatureSamples',
+        JSON.stringify(this.featureSamples),
+      );
+    } catch (error) {
+      console.error('Failed to save anomaly feature samples:', error);
+    }
+  }
+
   private async loadAnomalyEvents() {
     try {
       const events = await AsyncStorage.getItem('anomalyEvents');
@@ -183,6 +387,65 @@ class AIAnomalyDetectionServiceClass {
     }
   }
 
+  private async loadIncidents() {
+    try {
+      const incidents = await AsyncStorage.getItem('anomalyIncidents');
+      if (incidents) {
+        this.incidents = JSON.parse(incidents).map((incident: any) => ({
+          ...incident,
+          startedAt: new Date(incident.startedAt),
+          lastSeenAt: new Date(incident.lastSeenAt),
+          resolvedAt: incident.resolvedAt
+            ? new Date(incident.resolvedAt)
+            : undefined,
+        }));
+      }
+    } catch (error) {
+      console.error('Failed to load anomaly incidents:', error);
+    }
+  }
+
+  private async saveIncidents() {
+    try {
+      await AsyncStorage.setItem(
+        'anomalyIncidents',
+        JSON.stringify(this.incidents),
+      );
+    } catch (error) {
+      console.error('Failed to save anomaly incidents:', error);
+    }
+  }
+
+  private async loadCheckIns() {
+    try {
+      const checkIns = await AsyncStorage.getItem('anomalyCheckIns');
+      if (checkIns) {
+        this.checkIns = JSON.parse(checkIns).map((checkIn: any) => ({
+          ...checkIn,
+          promptedAt: new Date(checkIn.promptedAt),
+          deadline: new Date(checkIn.deadline),
+          steps: checkIn.steps.map((step: any) => ({
+            ...step,
+            at: new Date(step.at),
+          })),
+        }));
+      }
+    } catch (error) {
+      console.error('Failed to load check-ins:', error);
+    }
+  }
+
+  private async saveCheckIns() {
+    try {
+      await AsyncStorage.setItem(
+        'anomalyCheckIns',
+        JSON.stringify(this.checkIns),
+      );
+    } catch (error) {
+      console.error('Failed to save check-ins:', error);
+    }
+  }
+
   async startMonitoring() {
     if (this.isMonitoring) {
       console.warn('Anomaly detection monitoring is already active');
@@ -191,7 +454,9 @@ class AIAnomalyDetectionServiceClass {
 
     this.isMonitoring = true;
     this.monitoringInterval = setInterval(() => {
-      this.performAnomalyDetection();
+      this.performAnomalyDetection().catch(error =>
+        console.error('Anomaly detection failed:', error),
+      );
     }, 60000); // Check every minute
 
     console.log('AI Anomaly Detection monitoring started');
@@ -202,11 +467,20 @@ class AIAnomalyDetectionServiceClass {
       clearInterval(this.monitoringInterval);
       this.monitoringInterval = null;
     }
+    if (this.newFeatureSamples > 0) {
+      this.newFeatureSamples = 0;
+      this.saveFeatureSamples();
+    }
     this.isMonitoring = false;
     console.log('AI Anomaly Detection monitoring stopped');
   }
 
   async addLocationData(location: LocationData) {
+    // A rejected fix would read as a speed anomaly or a sudden relocation
+    if (location.source === 'raw') {
+      return;
+    }
+
     this.locationHistory.push(location);
 
     // Keep only last 24 hours of data
@@ -217,6 +491,24 @@ class AIAnomalyDetectionServiceClass {
 
     await this.saveLocationHistory();
     await this.updateBehaviorPattern(location);
+    await this.addFeatureSample(location);
+  }
+
+  // Trains the anomaly model on the tourist's own fixes as they come in.
+  // Samples are written in batches, so a crash loses at most RETRAIN_EVERY
+  private async addFeatureSample(location: LocationData) {
+    this.featureSamples.push(this.extractFeatures(location));
+    this.featureSamples = this.featureSamples.slice(-MAX_FEATURE_SAMPLES);
+    this.newFeatureSamples++;
+
+    if (this.anomalyModel.mode === 'cold-start') {
+      this.anomalyModel = trainAnomalyModel(this.featureSamples);
+    }
+    if (this.newFeatureSamples >= RETRAIN_EVERY) {
+      this.newFeatureSamples = 0;
+      this.anomalyModel = trainAnomalyModel(this.featureSamples);
+      await this.saveFeatureSamples();
+    }
   }
 
   private async updateBehaviorPattern(location: LocationData) {
@@ -235,8 +527,8 @@ class AIAnomalyDetectionServiceClass {
     // Update movement speed
     if (this.locationHistory.length > 1) {
       const recentLocations = this.locationHistory.slice(-10);
-      const speeds = this.calculateSpeeds(recentLocations);
-      this.behaviorPattern.normalMovementSpeed = this.calculateAverage(speeds);
+      this.behaviorPattern.normalMovementSpeed =
+        getAverageSpeed(recentLocations);
     }
 
     // Update activity hours
@@ -256,30 +548,6 @@ class AIAnomalyDetectionServiceClass {
     await this.saveBehaviorPattern();
   }
 
-  private calculateSpeeds(locations: LocationData[]): number[] {
-    const speeds: number[] = [];
-    for (let i = 1; i < locations.length; i++) {
-      const prev = locations[i - 1];
-      const curr = locations[i];
-      const distance = this.calculateDistance(
-        prev.latitude,
-        prev.longitude,
-        curr.latitude,
-        curr.longitude,
-      );
-      const timeDiff = (curr.timestamp - prev.timestamp) / 1000; // seconds
-      if (timeDiff > 0) {
-        speeds.push(distance / timeDiff);
-      }
-    }
-    return speeds;
-  }
-
-  private calculateAverage(numbers: number[]): number {
-    if (numbers.length === 0) return 0;
-    return numbers.reduce((sum, num) => sum + num, 0) / numbers.length;
-  }
-
   private updateFrequentLocations(location: LocationData) {
     if (!this.behaviorPattern) return;
 
@@ -287,12 +555,7 @@ class AIAnomalyDetectionServiceClass {
     let found = false;
 
     for (const freqLoc of this.behaviorPattern.frequentLocations) {
-      const distance = this.calculateDistance(
-        location.latitude,
-        location.longitude,
-        freqLoc.coordinates.latitude,
-        freqLoc.coordinates.longitude,
-      );
+      const distance = haversineDistance(location, freqLoc.coordinates);
 
       if (distance <= threshold) {
         freqLoc.visitCount++;
@@ -330,336 +593,391 @@ class AIAnomalyDetectionServiceClass {
       loc => new Date(loc.timestamp) >= today,
     );
 
-    let totalDistance = 0;
-    for (let i = 1; i < todayLocations.length; i++) {
-      const prev = todayLocations[i - 1];
-      const curr = todayLocations[i];
-      totalDistance += this.calculateDistance(
-        prev.latitude,
-        prev.longitude,
-        curr.latitude,
-        curr.longitude,
-      );
-    }
-
-    this.behaviorPattern.averageDailyDistance = totalDistance;
+    this.behaviorPattern.averageDailyDistance = getPathLength(todayLocations);
   }
 
   private async performAnomalyDetection() {
     if (this.locationHistory.length < 2) return;
 
-    const recentLocation =
-      this.locationHistory[this.locationHistory.length - 1];
-    const now = Date.now();
-
-    // Check for location dropoff
-    await this.checkLocationDropoff(recentLocation, now);
-
-    // Check for inactivity
-    await this.checkInactivity(recentLocation, now);
-
-    // Check for route deviation
-    await this.checkRouteDeviation(recentLocation);
-
-    // Check for speed anomalies
-    await this.checkSpeedAnomaly(recentLocation);
+    const location = this.locationHistory[this.locationHistory.length - 1];
+    const now = new Date();
+    const digitalID = BlockchainService.getCurrentDigitalID();
+    const context: Omit<DetectorContext, 'config'> = {
+      location,
+      history: this.locationHistory,
+      now,
+      itinerary: digitalID ? digitalID.tripItinerary : null,
+      behaviorPattern: this.behaviorPattern,
+      anomalyModel: this.anomalyModel,
+      features: this.extractFeatures(location),
+    };
 
-    // ML-based behavior analysis
-    if (this.config.enableMLModels) {
-      await this.performMLAnalysis(recentLocation);
+    const detections: AnomalyEvent[] = [];
+    for (const detector of this.getDetectors()) {
+      if (this.isDetectorEnabled(detector.id)) {
+        const anomaly = await this.runDetector(detector, context);
+        if (anomaly) {
+          detections.push(anomaly);
+        }
+      }
     }
+
+    await this.processDetections(detections, now);
+    await this.saveDetectorMetrics();
   }
 
-  private async checkLocationDropoff(location: LocationData, now: number) {
-    const timeSinceLastUpdate = (now - location.timestamp) / (1000 * 60); // minutes
+  // A detector that throws is counted and skipped, so one faulty detector
+  // does not hold up the others
+  private async runDetector(
+    detector: AnomalyDetector,
+    context: Omit<DetectorContext, 'config'>,
+  ): Promise<AnomalyEvent | null> {
+    const metrics = this.getMetrics(detector.id);
+    metrics.evaluations++;
 
-    if (timeSinceLastUpdate > this.config.locationDropoffThreshold) {
-      const anomaly: AnomalyEvent = {
+    try {
+      const detection = await detector.evaluate({
+        ...context,
+        config: this.getDetectorConfig(detector.id),
+      });
+      if (!detection) {
+        return null;
+      }
+
+      metrics.detections++;
+      metrics.lastDetectedAt = context.now;
+      return {
         id: this.generateAnomalyId(),
-        type: 'location_dropoff',
-        severity: timeSinceLastUpdate > 120 ? 'critical' : 'high',
-        timestamp: new Date(now),
-        location,
-        description: `No location update for ${Math.round(
-          timeSinceLastUpdate,
-        )} minutes`,
-        confidence: 0.9,
+        type: detector.anomalyType,
+        detectorId: detector.id,
+        severity: detection.severity,
+        timestamp: context.now,
+        location: context.location,
+        description: detection.description,
+        confidence: detection.confidence,
         isResolved: false,
-        metadata: {
-          timeSinceLastUpdate,
-          threshold: this.config.locationDropoffThreshold,
-        },
+        metadata: detection.metadata || {},
       };
-
-      await this.recordAnomaly(anomaly);
+    } catch (error) {
+      metrics.errors++;
+      metrics.lastErrorAt = context.now;
+      metrics.lastError = getErrorMessage(error);
+      console.error(`Anomaly detector ${detector.id} failed:`, error);
+      return null;
     }
   }
 
-  private async checkInactivity(location: LocationData, now: number) {
-    const recentLocations = this.locationHistory.filter(
-      loc =>
-        (now - loc.timestamp) / (1000 * 60) <=
-        this.config.behaviorAnalysisWindow,
-    );
-
-    if (recentLocations.length < 2) return;
-
-    const totalDistance = this.calculateTotalDistance(recentLocations);
-    const timeSpan = (now - recentLocations[0].timestamp) / (1000 * 60 * 60); // hours
+  private getMetrics(detectorId: string): DetectorMetrics {
+    if (!this.detectorMetrics[detectorId]) {
+      this.detectorMetrics[detectorId] = createDetectorMetrics();
+    }
+    return this.detectorMetrics[detectorId];
+  }
 
-    const averageSpeed = totalDistance / timeSpan; // m/h
+  // Detectors can declare their own cooldown and incident group on top of
+  // the built-in ones
+  private getIncidentOptions() {
+    const cooldowns: Record<string, number> = {...ANOMALY_COOLDOWNS};
+    const groups: Record<string, string> = {...INCIDENT_GROUPS};
+    this.getDetectors().forEach(detector => {
+      if (detector.cooldown !== undefined) {
+        cooldowns[detector.anomalyType] = detector.cooldown;
+      }
+      if (detector.incidentGroup) {
+        groups[detector.anomalyType] = detector.incidentGroup;
+      }
+    });
+    return {cooldowns, groups};
+  }
 
-    if (averageSpeed < 100) {
-      // Less than 100m/h indicates inactivity
-      const anomaly: AnomalyEvent = {
-        id: this.generateAnomalyId(),
-        type: 'inactivity',
-        severity: 'medium',
-        timestamp: new Date(now),
-        location,
-        description: `Low activity detected: ${Math.round(
-          averageSpeed,
-        )}m/h over ${Math.round(timeSpan)}h`,
-        confidence: 0.7,
-        isResolved: false,
-        metadata: {
-          averageSpeed,
-          timeSpan,
-          totalDistance,
-        },
-      };
+  // The checks fire every minute while a condition lasts, so detections are
+  // grouped into incidents and only new types and escalations are recorded
+  private async processDetections(detections: AnomalyEvent[], now: Date) {
+    const {cooldowns, groups} = this.getIncidentOptions();
+    const update = updateIncidents(
+      this.incidents,
+      detections,
+      now,
+      cooldowns,
+      groups,
+    );
+    this.incidents = update.incidents.slice(-MAX_INCIDENTS);
 
+    for (const anomaly of update.recorded) {
+      if (anomaly.detectorId) {
+        this.getMetrics(anomaly.detectorId).recorded++;
+      }
       await this.recordAnomaly(anomaly);
     }
+    if (update.resolved.length > 0) {
+      this.resolveIncidentEvents(
+        update.resolved.map(incident => incident.id),
+        now,
+      );
+      await this.saveAnomalyEvents();
+    }
+    await this.saveIncidents();
   }
 
-  private async checkRouteDeviation(location: LocationData) {
-    if (!this.behaviorPattern) return;
-
-    const nearestFrequentLocation = this.findNearestFrequentLocation(location);
-    if (!nearestFrequentLocation) return;
+  private resolveIncidentEvents(incidentIds: string[], now: Date) {
+    this.anomalyEvents.forEach(anomaly => {
+      if (
+        !anomaly.isResolved &&
+        anomaly.incidentId &&
+        incidentIds.includes(anomaly.incidentId)
+      ) {
+        anomaly.isResolved = true;
+        anomaly.resolvedAt = now;
+      }
+    });
+  }
 
-    const distance = this.calculateDistance(
-      location.latitude,
-      location.longitude,
-      nearestFrequentLocation.coordinates.latitude,
-      nearestFrequentLocation.coordinates.longitude,
+  private extractFeatures(location: LocationData): AnomalyFeatures {
+    const index = this.locationHistory.lastIndexOf(location);
+    const previous = index > 0 ? this.locationHistory[index - 1] : null;
+    const recentLocations = this.locationHistory.slice(
+      Math.max(0, index - 9),
+      index + 1,
     );
+    const date = new Date(location.timestamp);
 
-    if (distance > this.config.routeDeviationThreshold) {
-      const anomaly: AnomalyEvent = {
-        id: this.generateAnomalyId(),
-        type: 'route_deviation',
-        severity: distance > 5000 ? 'high' : 'medium',
-        timestamp: new Date(),
-        location,
-        description: `Significant deviation from normal route: ${Math.round(
-          distance,
-        )}m from frequent location`,
-        confidence: 0.8,
-        isResolved: false,
-        metadata: {
-          deviationDistance: distance,
-          nearestFrequentLocation,
-        },
-      };
+    return {
+      hour: date.getHours() + date.getMinutes() / 60,
+      speed: getAverageSpeed(recentLocations),
+      distanceFromUsual: this.getDistanceFromUsualPlaces(location),
+      stepDistance: previous ? haversineDistance(previous, location) : 0,
+      accuracy: location.accuracy,
+    };
+  }
 
-      await this.recordAnomaly(anomaly);
+  // 0 until the tourist has places they return to
+  private getDistanceFromUsualPlaces(location: LocationData): number {
+    const usualPlaces = getUsualPlaces(this.behaviorPattern);
+    if (usualPlaces.length === 0) {
+      return 0;
     }
+
+    return Math.min(
+      ...usualPlaces.map(place =>
+        haversineDistance(location, place.coordinates),
+      ),
+    );
   }
 
-  private async checkSpeedAnomaly(location: LocationData) {
-    if (this.locationHistory.length < 2) return;
+  private async recordAnomaly(anomaly: AnomalyEvent) {
+    this.anomalyEvents.push(anomaly);
 
-    const recentSpeeds = this.calculateSpeeds(this.locationHistory.slice(-5));
-    const averageSpeed = this.calculateAverage(recentSpeeds);
+    // Ask the tourist if they are OK on high and critical anomalies
+    if (shouldPromptCheckIn(anomaly)) {
+      await this.startCheckIn(anomaly);
+    }
+    await this.saveAnomalyEvents();
+  }
 
-    if (averageSpeed > this.config.speedAnomalyThreshold) {
-      const anomaly: AnomalyEvent = {
-        id: this.generateAnomalyId(),
-        type: 'speed_anomaly',
-        severity: averageSpeed > 50 ? 'high' : 'medium',
-        timestamp: new Date(),
-        location,
-        description: `Unusual speed detected: ${Math.round(
-          averageSpeed * 3.6,
-        )} km/h`,
-        confidence: 0.8,
-        isResolved: false,
-        metadata: {
-          speed: averageSpeed,
-          threshold: this.config.speedAnomalyThreshold,
-        },
-      };
+  // One check-in is open at a time; anomalies raised while it waits for an
+  // answer are added to it instead of prompting again
+  private async startCheckIn(anomaly: AnomalyEvent) {
+    const now = new Date();
+    const pending = this.getPendingCheckIn();
+    const checkIn = pending
+      ? attachAnomaly(pending, anomaly, now, this.config.checkInTimeout)
+      : createCheckIn(
+          this.generateCheckInId(),
+          anomaly,
+          now,
+          this.config.checkInTimeout,
+        );
+    anomaly.checkInId = checkIn.id;
 
-      await this.recordAnomaly(anomaly);
+    if (pending) {
+      this.updateCheckIn(checkIn);
+    } else {
+      this.checkIns = [...this.checkIns, checkIn].slice(-MAX_CHECK_INS);
+      await this.promptCheckIn(checkIn);
     }
+    await this.saveCheckIns();
+    this.scheduleCheckInTimeout();
   }
 
-  private async performMLAnalysis(
-    location: LocationData,
-  ): Promise<MLModelPrediction> {
-    // Mock ML model prediction
-    // In real implementation, this would call actual ML models
-    const features = this.extractFeatures(location);
-    const prediction = await this.runMLModel(features);
-
-    if (prediction.anomalyScore > 0.7) {
-      const anomaly: AnomalyEvent = {
-        id: this.generateAnomalyId(),
-        type: 'behavior_anomaly',
-        severity: prediction.predictedRisk,
-        timestamp: new Date(),
-        location,
-        description: `ML model detected behavioral anomaly: ${prediction.contributingFactors.join(
-          ', ',
-        )}`,
-        confidence: prediction.confidence,
-        isResolved: false,
-        metadata: {
-          mlPrediction: prediction,
-          features,
-        },
-      };
+  private async promptCheckIn(checkIn: CheckIn) {
+    const description = checkIn.steps[0].detail || 'Unusual activity';
+    const minutes = Math.max(
+      1,
+      Math.round((checkIn.deadline.getTime() - Date.now()) / (60 * 1000)),
+    );
 
-      await this.recordAnomaly(anomaly);
+    // The alert below still asks if the notification cannot be sent
+    try {
+      await NotificationService.sendNotification(
+        'Are you OK?',
+        `${description}. Your emergency contacts will be alerted in ${minutes} minutes unless you answer.`,
+        'anomaly',
+        'high',
+        {checkInId: checkIn.id, anomalyIds: checkIn.anomalyIds},
+      );
+    } catch (error) {
+      console.error('Failed to send check-in notification:', error);
+      this.recordCheckInStep(
+        checkIn.id,
+        'error',
+        `Notification not sent: ${getErrorMessage(error)}`,
+      );
     }
 
-    return prediction;
+    Alert.alert(
+      'Are you OK?',
+      `${description}\n\nIf you do not answer within ${minutes} minutes, your emergency contacts and the authorities will be alerted.`,
+      [
+        {
+          text: 'Need help',
+          style: 'destructive',
+          onPress: () =>
+            this.runCheckInTask(checkIn.id, () => this.requestHelp(checkIn.id)),
+        },
+        {
+          text: "I'm safe",
+          onPress: () =>
+            this.runCheckInTask(checkIn.id, () => this.confirmSafe(checkIn.id)),
+        },
+      ],
+      {cancelable: false},
+    );
   }
 
-  private extractFeatures(location: LocationData): Record<string, number> {
-    const hour = new Date(location.timestamp).getHours();
-    const recentLocations = this.locationHistory.slice(-10);
-    const speeds = this.calculateSpeeds(recentLocations);
-    const averageSpeed = this.calculateAverage(speeds);
+  private scheduleCheckInTimeout() {
+    if (this.checkInTimer) {
+      clearTimeout(this.checkInTimer);
+      this.checkInTimer = null;
+    }
 
-    return {
-      hour,
-      latitude: location.latitude,
-      longitude: location.longitude,
-      accuracy: location.accuracy,
-      speed: averageSpeed,
-      altitude: location.altitude || 0,
-      isWeekend: new Date(location.timestamp).getDay() >= 6 ? 1 : 0,
-    };
+    const pending = this.getPendingCheckIn();
+    if (pending) {
+      this.checkInTimer = setTimeout(
+        () =>
+          this.runCheckInTask(pending.id, () => this.handleCheckInTimeout()),
+        Math.max(0, pending.deadline.getTime() - Date.now()),
+      );
+    }
   }
 
-  private async runMLModel(
-    _features: Record<string, number>,
-  ): Promise<MLModelPrediction> {
-    // Mock ML model - in real implementation, this would call actual ML service
-    return new Promise(resolve => {
-      setTimeout(() => {
-        const anomalyScore = Math.random();
-        const predictedRisk =
-          anomalyScore > 0.8
-            ? 'critical'
-            : anomalyScore > 0.6
-            ? 'high'
-            : anomalyScore > 0.4
-            ? 'medium'
-            : 'low';
-
-        resolve({
-          anomalyScore,
-          predictedRisk: predictedRisk as
-            | 'low'
-            | 'medium'
-            | 'high'
-            | 'critical',
-          contributingFactors: [
-            'Unusual time of day',
-            'Abnormal speed pattern',
-            'Location deviation',
-          ],
-          recommendations: [
-            'Check if user is safe',
-            'Verify location accuracy',
-            'Contact emergency services if critical',
-          ],
-          confidence: 0.85,
-        });
-      }, 1000);
+  // Alert buttons and timers have no caller to report a failure to, so it
+  // is logged and recorded on the check-in instead
+  private runCheckInTask(checkInId: string, task: () => Promise<unknown>) {
+    task().catch(async error => {
+      console.error('Check-in handling failed:', error);
+      this.recordCheckInStep(checkInId, 'error', getErrorMessage(error));
+      await this.saveCheckIns();
     });
   }
 
-  private findNearestFrequentLocation(location: LocationData) {
+  private async handleCheckInTimeout() {
+    this.checkInTimer = null;
+    const pending = this.getPendingCheckIn();
+    if (!pending) {
+      return;
+    }
+
+    if (!isCheckInOverdue(pending)) {
+      this.scheduleCheckInTimeout();
+      return;
+    }
+
+    // Only the first timeout is recorded, later ones are escalation retries
+    if (!hasStep(pending, 'timed-out')) {
+      this.recordCheckInStep(pending.id, 'timed-out');
+    }
+    await this.escalateCheckIn(pending.id);
+  }
+
+  // Raises a panic alert, which messages the emergency contacts and notifies
+  // the police and tourism department
+  private async escalateCheckIn(checkInId: string) {
+    const checkIn = this.checkIns.find(c => c.id === checkInId);
     if (
-      !this.behaviorPattern ||
-      this.behaviorPattern.frequentLocations.length === 0
+      !checkIn ||
+      (checkIn.status !== 'pending' && checkIn.status !== 'help-requested')
     ) {
-      return null;
+      return;
     }
 
-    let nearest = null;
-    let minDistance = Infinity;
-
-    for (const freqLoc of this.behaviorPattern.frequentLocations) {
-      const distance = this.calculateDistance(
-        location.latitude,
-        location.longitude,
-        freqLoc.coordinates.latitude,
-        freqLoc.coordinates.longitude,
+    try {
+      const activeAlert = PanicButtonService.isPanicButtonActive()
+        ? PanicButtonService.getCurrentAlert()
+        : null;
+      const alert =
+        activeAlert || (await PanicButtonService.activatePanicButton());
+      this.recordCheckInStep(
+        checkInId,
+        'escalated',
+        activeAlert
+          ? `Panic alert ${alert.id} was already active`
+          : `Panic alert ${alert.id} raised`,
+        'escalated',
       );
-
-      if (distance < minDistance) {
-        minDistance = distance;
-        nearest = freqLoc;
+    } catch (error) {
+      this.recordCheckInStep(
+        checkInId,
+        'escalation-failed',
+        getErrorMessage(error),
+      );
+      const current = this.checkIns.find(c => c.id === checkInId);
+      if (current && isEscalationExhausted(current)) {
+        this.updateCheckIn({...current, status: 'escalation-failed'});
+        await this.notifyEscalationFailed();
+      } else if (current && current.status === 'pending') {
+        // Retried by the timeout, and the tourist can still answer meanwhile
+        this.updateCheckIn({
+          ...current,
+          deadline: new Date(Date.now() + ESCALATION_RETRY_DELAY),
+        });
+      } else {
+        setTimeout(
+          () =>
+            this.runCheckInTask(checkInId, () =>
+              this.escalateCheckIn(checkInId),
+            ),
+          ESCALATION_RETRY_DELAY,
+        );
       }
     }
 
-    return nearest;
+    await this.saveCheckIns();
+    this.scheduleCheckInTimeout();
   }
 
-  private calculateTotalDistance(locations: LocationData[]): number {
-    let totalDistance = 0;
-    for (let i = 1; i < locations.length; i++) {
-      const prev = locations[i - 1];
-      const curr = locations[i];
-      totalDistance += this.calculateDistance(
-        prev.latitude,
-        prev.longitude,
-        curr.latitude,
-        curr.longitude,
+  // Nobody has been told, so the tourist has to call for help themselves
+  private async notifyEscalationFailed() {
+    try {
+      await NotificationService.sendNotification(
+        'Could not alert your contacts',
+        'Your emergency contacts and the authorities could not be reached. If you need help, call the local emergency number.',
+        'anomaly',
+        'high',
       );
+    } catch (error) {
+      console.error('Failed to send escalation failure notification:', error);
     }
-    return totalDistance;
   }
 
-  private calculateDistance(
-    lat1: number,
-    lon1: number,
-    lat2: number,
-    lon2: number,
-  ): number {
-    const R = 6371e3; // Earth's radius in meters
-    const φ1 = (lat1 * Math.PI) / 180;
-    const φ2 = (lat2 * Math.PI) / 180;
-    const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-    const Δλ = ((lon2 - lon1) * Math.PI) / 180;
-
-    const a =
-      Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-      Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-    return R * c;
+  private recordCheckInStep(
+    checkInId: string,
+    type: CheckInStepType,
+    detail?: string,
+    status?: CheckIn['status'],
+  ) {
+    const checkIn = this.checkIns.find(c => c.id === checkInId);
+    if (checkIn) {
+      const updated = addCheckInStep(checkIn, type, new Date(), detail);
+      this.updateCheckIn(status ? {...updated, status} : updated);
+    }
   }
 
-  private async recordAnomaly(anomaly: AnomalyEvent) {
-    this.anomalyEvents.push(anomaly);
-    await this.saveAnomalyEvents();
-
-    // Trigger alert if critical
-    if (anomaly.severity === 'critical') {
-      await this.triggerCriticalAlert(anomaly);
-    }
+  private updateCheckIn(checkIn: CheckIn) {
+    this.checkIns = this.checkIns.map(c => (c.id === checkIn.id ? checkIn : c));
   }
 
-  private async triggerCriticalAlert(anomaly: AnomalyEvent) {
-    // In real implementation, this would trigger emergency alerts
-    console.log('CRITICAL ANOMALY DETECTED:', anomaly);
+  private generateCheckInId(): string {
+    return `checkin_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
   private generateAnomalyId(): string {
@@ -680,9 +998,209 @@ class AIAnomalyDetectionServiceClass {
       anomaly.isResolved = true;
       anomaly.resolvedAt = new Date();
       await this.saveAnomalyEvents();
+      if (anomaly.incidentId) {
+        await this.resolveIncident(anomaly.incidentId);
+      }
+    }
+  }
+
+  // "I'm safe". With verifyCheckIn on, it only counts once confirmed with
+  // biometrics or the PIN fallback; until then the deadline still runs.
+  async confirmSafe(checkInId: string): Promise<boolean> {
+    const checkIn = this.checkIns.find(c => c.id === checkInId);
+    if (!checkIn || checkIn.status !== 'pending') {
+      return false;
+    }
+
+    let method = 'unverified';
+    if (this.config.verifyCheckIn) {
+      let result: BiometricResult;
+      try {
+        result = await BiometricService.authenticateWithFallback(
+          'Confirm that you are safe',
+        );
+      } catch (error) {
+        result = {success: false, error: getErrorMessage(error)};
+      }
+      if (!result.success) {
+        this.recordCheckInStep(checkInId, 'verification-failed', result.error);
+        await this.saveCheckIns();
+        const current = this.checkIns.find(c => c.id === checkInId);
+        if (current && current.status === 'pending') {
+          await this.promptCheckIn(current);
+        }
+        return false;
+      }
+      method = result.biometricType || 'biometric';
+    }
+
+    // Escalation may have gone ahead while verifying
+    const current = this.checkIns.find(c => c.id === checkInId);
+    if (!current || current.status !== 'pending') {
+      return false;
+    }
+
+    this.recordCheckInStep(
+      checkInId,
+      'confirmed-safe',
+      `Confirmed with ${method}`,
+      'safe',
+    );
+    current.anomalyIds.forEach(anomalyId => this.markDismissed(anomalyId));
+    await this.saveAnomalyEvents();
+    await this.saveDetectorMetrics();
+    await this.saveCheckIns();
+    this.scheduleCheckInTimeout();
+    return true;
+  }
+
+  // "Need help" escalates straight away
+  async requestHelp(checkInId: string) {
+    const checkIn = this.checkIns.find(c => c.id === checkInId);
+    if (!checkIn || checkIn.status !== 'pending') {
+      return;
+    }
+
+    this.recordCheckInStep(
+      checkInId,
+      'help-requested',
+      undefined,
+      'help-requested',
+    );
+    await this.escalateCheckIn(checkInId);
+  }
+
+  // A false alarm: resolves the anomaly and counts against its detector
+  async dismissAnomaly(anomalyId: string) {
+    this.markDismissed(anomalyId);
+    await this.saveDetectorMetrics();
+    await this.resolveAnomaly(anomalyId);
+  }
+
+  private markDismissed(anomalyId: string) {
+    const anomaly = this.anomalyEvents.find(a => a.id === anomalyId);
+    if (anomaly && !anomaly.dismissedAt) {
+      anomaly.dismissedAt = new Date();
+      if (anomaly.detectorId) {
+        this.getMetrics(anomaly.detectorId).dismissed++;
+      }
+    }
+  }
+
+  registerDetector(detector: AnomalyDetector) {
+    this.detectors.set(detector.id, detector);
+  }
+
+  removeDetector(detectorId: string) {
+    this.detectors.delete(detectorId);
+  }
+
+  getDetectors(): AnomalyDetector[] {
+    return Array.from(this.detectors.values());
+  }
+
+  private getDetector(detectorId: string): AnomalyDetector {
+    const detector = this.detectors.get(detectorId);
+    if (!detector) {
+      throw new Error(`Anomaly detector ${detectorId} is not registered`);
+    }
+    return detector;
+  }
+
+  private getDetectorSettings(detectorId: string): DetectorSettings {
+    return this.detectorSettings[detectorId] || {config: {}};
+  }
+
+  isDetectorEnabled(detectorId: string): boolean {
+    const {enabled} = this.getDetectorSettings(detectorId);
+    return enabled ?? this.getDetector(detectorId).enabledByDefault !== false;
+  }
+
+  async setDetectorEnabled(detectorId: string, enabled: boolean) {
+    this.getDetector(detectorId);
+    this.detectorSettings[detectorId] = {
+      ...this.getDetectorSettings(detectorId),
+      enabled,
+    };
+    await this.saveDetectorSettings();
+  }
+
+  // The detector's defaults with any stored settings applied
+  getDetectorConfig(detectorId: string): DetectorConfig {
+    return resolveDetectorConfig(
+      this.getDetector(detectorId).configSchema,
+      this.getDetectorSettings(detectorId).config,
+    );
+  }
+
+  // Throws if a setting is not in the detector's schema or out of range
+  async updateDetectorConfig(
+    detectorId: string,
+    config: Partial<DetectorConfig>,
+  ) {
+    const updates = validateDetectorConfig(
+      this.getDetector(detectorId).configSchema,
+      config,
+    );
+    const settings = this.getDetectorSettings(detectorId);
+    this.detectorSettings[detectorId] = {
+      ...settings,
+      config: {...settings.config, ...updates},
+    };
+    await this.saveDetectorSettings();
+  }
+
+  getDetectorMetrics(detectorId: string): DetectorMetrics {
+    return {...(this.detectorMetrics[detectorId] || createDetectorMetrics())};
+  }
+
+  async resetDetectorMetrics(detectorId: string) {
+    this.detectorMetrics[detectorId] = createDetectorMetrics();
+    await this.saveDetectorMetrics();
+  }
+
+  getCheckIns(): CheckIn[] {
+    return [...this.checkIns];
+  }
+
+  getPendingCheckIn(): CheckIn | null {
+    return this.checkIns.find(checkIn => checkIn.status === 'pending') || null;
+  }
+
+  getCheckInForAnomaly(anomalyId: string): CheckIn | null {
+    return (
+      this.checkIns.find(checkIn => checkIn.anomalyIds.includes(anomalyId)) ||
+      null
+    );
+  }
+
+  getIncidents(): AnomalyIncident[] {
+    return [...this.incidents];
+  }
+
+  getOpenIncidents(): AnomalyIncident[] {
+    return this.incidents.filter(incident => !incident.isResolved);
+  }
+
+  // Resolving an incident by hand resolves all of its events
+  async resolveIncident(incidentId: string) {
+    const incident = this.incidents.find(i => i.id === incidentId);
+    if (incident && !incident.isResolved) {
+      const now = new Date();
+      incident.isResolved = true;
+      incident.resolvedAt = now;
+      incident.autoResolved = false;
+      incident.activeTypes = [];
+      this.resolveIncidentEvents([incidentId], now);
+      await this.saveAnomalyEvents();
+      await this.saveIncidents();
     }
   }
 
+  getAnomalyModel(): AnomalyModel {
+    return this.anomalyModel;
+  }
+
   getBehaviorPattern(): BehaviorPattern | null {
     return this.behaviorPattern;
   }
@@ -1,5 +1,6 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import {showMessage} from 'react-native-flash-message';
+import {RiskProfile} from '../utils/riskProfiles';
 
 export interface User {
   id: string;
@@ -28,6 +29,9 @@ export interface UserPreferences {
   panicButtonEnabled: boolean;
   geoFencingEnabled: boolean;
   theme: 'light' | 'dark';
+  riskProfileId?: string; // standard profile when unset
+  riskProfileSetBy?: 'tourist' | 'authority';
+  customRiskProfiles?: RiskProfile[]; // issued by authorities
 }
 
 export interface LoginCredentials {
@@ -181,6 +185,18 @@ class AuthServiceClass {
     }
   }
 
+  async updatePreferences(updates: Partial<UserPreferences>): Promise<void> {
+    if (!this.currentUser) {
+      throw new Error('No user is logged in');
+    }
+
+    this.currentUser = {
+      ...this.currentUser,
+      preferences: {...this.currentUser.preferences, ...updates},
+    };
+    await this.storeUser(this.currentUser);
+  }
+
   getCurrentUser(): User | null {
     return this.currentUser;
   }
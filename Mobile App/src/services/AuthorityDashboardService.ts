@@ -2,6 +2,19 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import {LocationData} from './LocationService';
 import {AnomalyEvent} from './AIAnomalyDetectionService';
 import {DigitalTouristID} from './BlockchainService';
+import {haversineDistance} from '../utils/geo';
+import {SpatialIndex} from '../utils/spatialIndex';
+import {
+  buildDensityLayer,
+  countWithinRadius,
+  CrowdDensity,
+  DEFAULT_DENSITY_RADIUS,
+  DensityBaseline,
+  DensityLayer,
+  getUsualCount,
+  LIVE_DENSITY_WINDOW,
+  recordBaselineSample,
+} from '../utils/crowdDensity';
 
 export interface TouristCluster {
   id: string;
@@ -75,6 +88,8 @@ export interface DashboardStats {
   lastUpdated: Date;
 }
 
+const HOUR = 60 * 60 * 1000;
+
 export interface AuthorityUser {
   id: string;
   name: string;
@@ -90,6 +105,9 @@ class AuthorityDashboardServiceClass {
   private touristLocations: Map<string, LocationData> = new Map();
   private anomalyEvents: AnomalyEvent[] = [];
   private touristClusters: TouristCluster[] = [];
+  private densityLayer: DensityLayer = {cells: [], updatedAt: new Date(0)};
+  private densityBaseline: DensityBaseline = {};
+  private lastBaselineHour: number | null = null; // hours since the epoch
   private heatMapData: HeatMapData[] = [];
   private efirRecords: EFIRData[] = [];
   private currentUser: AuthorityUser | null = null;
@@ -100,6 +118,7 @@ class AuthorityDashboardServiceClass {
       await this.loadAnomalyEvents();
       await this.loadEFIRRecords();
       await this.loadHeatMapData();
+      await this.loadDensityBaseline();
       await this.loadCurrentUser();
       console.log('AuthorityDashboardService initialized successfully');
     } catch (error) {
@@ -213,6 +232,33 @@ class AuthorityDashboardServiceClass {
     }
   }
 
+  private async loadDensityBaseline() {
+    try {
+      const data = await AsyncStorage.getItem('crowdDensityBaseline');
+      if (data) {
+        const parsed = JSON.parse(data);
+        this.densityBaseline = parsed.baseline;
+        this.lastBaselineHour = parsed.lastBaselineHour;
+      }
+    } catch (error) {
+      console.error('Failed to load crowd density baseline:', error);
+    }
+  }
+
+  private async saveDensityBaseline() {
+    try {
+      await AsyncStorage.setItem(
+        'crowdDensityBaseline',
+        JSON.stringify({
+          baseline: this.densityBaseline,
+          lastBaselineHour: this.lastBaselineHour,
+        }),
+      );
+    } catch (error) {
+      console.error('Failed to save crowd density baseline:', error);
+    }
+  }
+
   private async loadCurrentUser() {
     try {
       const user = await AsyncStorage.getItem('authorityUser');
@@ -286,6 +332,25 @@ class AuthorityDashboardServiceClass {
   private async updateTouristClusters() {
     const locations = Array.from(this.touristLocations.entries());
     this.touristClusters = this.calculateTouristClusters(locations);
+    this.densityLayer = buildDensityLayer(this.touristClusters);
+    await this.recordDensityBaseline();
+  }
+
+  // The first layer of each hour becomes a sample of the usual crowd. Cells
+  // never move, so the UTC hour stands in for the local one.
+  private async recordDensityBaseline() {
+    const hour = Math.floor(this.densityLayer.updatedAt.getTime() / HOUR);
+    if (hour === this.lastBaselineHour) {
+      return;
+    }
+
+    this.densityBaseline = recordBaselineSample(
+      this.densityBaseline,
+      this.densityLayer,
+      this.densityLayer.updatedAt.getUTCHours(),
+    );
+    this.lastBaselineHour = hour;
+    await this.saveDensityBaseline();
   }
 
   private calculateTouristClusters(
@@ -294,8 +359,13 @@ class AuthorityDashboardServiceClass {
     const clusters: TouristCluster[] = [];
     const processed = new Set<string>();
 
+    // Clustered tourists leave the index, so later lookups shrink as we go
+    const index = new SpatialIndex<[string, LocationData]>();
+    locations.forEach(entry => index.insertPoint(entry[0], entry[1], entry));
+
     for (const [touristId, location] of locations) {
       if (processed.has(touristId)) continue;
+      index.remove(touristId);
 
       const cluster: TouristCluster = {
         id: `cluster_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -318,28 +388,19 @@ class AuthorityDashboardServiceClass {
       };
 
       // Find nearby tourists
-      for (const [otherTouristId, otherLocation] of locations) {
-        if (processed.has(otherTouristId) || otherTouristId === touristId)
-          continue;
-
-        const distance = this.calculateDistance(
-          location.latitude,
-          location.longitude,
-          otherLocation.latitude,
-          otherLocation.longitude,
-        );
-
-        if (distance <= cluster.radius) {
-          cluster.touristCount++;
-          cluster.tourists.push({
-            id: otherTouristId,
-            name:
-              this.tourists.get(otherTouristId)?.kycData.fullName || 'Unknown',
-            lastSeen: new Date(otherLocation.timestamp),
-            status: 'safe',
-          });
-          processed.add(otherTouristId);
-        }
+      const nearby = index.withinRadius(location, cluster.radius);
+      for (const {item} of nearby) {
+        const [otherTouristId, otherLocation] = item;
+        cluster.touristCount++;
+        cluster.tourists.push({
+          id: otherTouristId,
+          name:
+            this.tourists.get(otherTouristId)?.kycData.fullName || 'Unknown',
+          lastSeen: new Date(otherLocation.timestamp),
+          status: 'safe',
+        });
+        processed.add(otherTouristId);
+        index.remove(otherTouristId);
       }
 
       // Determine risk level based on cluster characteristics
@@ -369,13 +430,7 @@ class AuthorityDashboardServiceClass {
     if (!event.location) return;
 
     const existingPoint = this.heatMapData.find(
-      point =>
-        this.calculateDistance(
-          point.coordinates.latitude,
-          point.coordinates.longitude,
-          event.location!.latitude,
-          event.location!.longitude,
-        ) <= 100, // Within 100 meters
+      point => haversineDistance(point.coordinates, event.location!) <= 100, // Within 100 meters
     );
 
     if (existingPoint) {
@@ -557,6 +612,36 @@ class AuthorityDashboardServiceClass {
     return [...this.touristClusters];
   }
 
+  // Anonymised tourist counts for the dashboard. Tourists' phones get theirs
+  // from the server, see CrowdDensityService.
+  getDensityLayer(): DensityLayer {
+    return {...this.densityLayer, cells: [...this.densityLayer.cells]};
+  }
+
+  // Tourists within the radius and the usual number for the hour. The live
+  // count is only given while the layer is current.
+  getCrowdDensity(
+    location: {latitude: number; longitude: number},
+    at: Date = new Date(),
+    radius: number = DEFAULT_DENSITY_RADIUS,
+  ): CrowdDensity {
+    const isLive =
+      Math.abs(at.getTime() - this.densityLayer.updatedAt.getTime()) <=
+      LIVE_DENSITY_WINDOW;
+    return {
+      radius,
+      count: isLive
+        ? countWithinRadius(this.densityLayer, location, radius)
+        : null,
+      usual: getUsualCount(
+        this.densityBaseline,
+        location,
+        at.getUTCHours(),
+        radius,
+      ),
+    };
+  }
+
   getHeatMapData(): HeatMapData[] {
     return [...this.heatMapData];
   }
@@ -580,26 +665,6 @@ class AuthorityDashboardServiceClass {
   getCurrentUser(): AuthorityUser | null {
     return this.currentUser;
   }
-
-  private calculateDistance(
-    lat1: number,
-    lon1: number,
-    lat2: number,
-    lon2: number,
-  ): number {
-    const R = 6371e3; // Earth's radius in meters
-    const φ1 = (lat1 * Math.PI) / 180;
-    const φ2 = (lat2 * Math.PI) / 180;
-    const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-    const Δλ = ((lon2 - lon1) * Math.PI) / 180;
-
-    const a =
-      Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-      Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-    return R * c;
-  }
 }
 
 export const AuthorityDashboardService = new AuthorityDashboardServiceClass();
@@ -1,4 +1,11 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import RNFS from 'react-native-fs';
+
+import {
+  detectItineraryFormat,
+  ItineraryImportResult,
+  parseItinerary,
+} from '../utils/itineraryImport';
 
 export interface DigitalTouristID {
   id: string;
@@ -43,6 +50,7 @@ export interface PlannedLocation {
     longitude: number;
   };
   plannedVisitDate: Date;
+  isDateOnly?: boolean; // planned for the day, without a visit time
   riskLevel: 'low' | 'medium' | 'high';
   isVisited: boolean;
   actualVisitDate?: Date;
@@ -285,6 +293,44 @@ class BlockchainServiceClass {
     await this.updateBlockchainRecord(this.currentDigitalID);
   }
 
+  // Adds the stops from a tour operator's GPX, KML or CSV file to the
+  // planned route. Stops without a date default to the entry date, and stops
+  // already planned for the same day and place are dropped.
+  async importItinerary(
+    content: string,
+    fileName?: string,
+  ): Promise<ItineraryImportResult> {
+    if (!this.currentDigitalID) {
+      throw new Error('No active digital ID found');
+    }
+
+    const {plannedLocations, entryDate} = this.currentDigitalID.tripItinerary;
+    const result = parseItinerary(content, {
+      format: detectItineraryFormat(content, fileName),
+      defaultVisitDate: entryDate,
+      existing: plannedLocations,
+    });
+
+    if (result.locations.length > 0) {
+      await this.updateTripItinerary({
+        plannedLocations: [...plannedLocations, ...result.locations].sort(
+          (a, b) => a.plannedVisitDate.getTime() - b.plannedVisitDate.getTime(),
+        ),
+      });
+    }
+
+    return result;
+  }
+
+  async importItineraryFile(
+    fileUri: string,
+    fileName?: string,
+  ): Promise<ItineraryImportResult> {
+    const path = decodeURIComponent(fileUri.replace(/^file:\/\//, ''));
+    const content = await RNFS.readFile(path, 'utf8');
+    return this.importItinerary(content, fileName);
+  }
+
   async markLocationVisited(locationId: string): Promise<void> {
     if (!this.currentDigitalID) {
       throw new Error('No active digital ID found');
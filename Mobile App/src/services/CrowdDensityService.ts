@@ -0,0 +1,80 @@
+import {supabase} from '../integrations/supabase/client';
+import {Coordinates, haversineDistance} from '../utils/geo';
+import {
+  countWithinRadius,
+  CrowdDensity,
+  CrowdDensityRecord,
+  DEFAULT_DENSITY_RADIUS,
+  DensityLayer,
+  getLayerUsualCount,
+  LIVE_DENSITY_WINDOW,
+  mapCrowdDensityRecords,
+} from '../utils/crowdDensity';
+
+// Cells are fetched this far around the tourist, the most the server gives,
+// so short walks do not need another fetch
+const FETCH_RADIUS = 2000; // meters
+
+class CrowdDensityServiceClass {
+  private layer: DensityLayer | null = null;
+  private fetchedAround: Coordinates | null = null;
+
+  // Fetches the anonymised cells around the location. The server leaves out
+  // cells with too few tourists; on failure the last cells are kept.
+  async refreshCrowdDensity(
+    location: Coordinates,
+    now: Date = new Date(),
+  ): Promise<boolean> {
+    try {
+      const {data, error} = await supabase.rpc('nearby_crowd_density', {
+        lat: location.latitude,
+        lng: location.longitude,
+        radius_meters: FETCH_RADIUS,
+        at_time: now.toISOString(),
+      });
+
+      if (error) {
+        console.error('Failed to fetch crowd density:', error);
+        return false;
+      }
+
+      this.layer = mapCrowdDensityRecords(
+        (data || []) as CrowdDensityRecord[],
+        now,
+      );
+      this.fetchedAround = {
+        latitude: location.latitude,
+        longitude: location.longitude,
+      };
+      return true;
+    } catch (error) {
+      console.error('Crowd density fetch failed:', error);
+      return false;
+    }
+  }
+
+  // Tourists within the radius and the usual number at this time of day.
+  // Unknown unless the last fetch is current and covers the whole radius.
+  getCrowdDensity(
+    location: Coordinates,
+    at: Date = new Date(),
+    radius: number = DEFAULT_DENSITY_RADIUS,
+  ): CrowdDensity {
+    if (
+      !this.layer ||
+      !this.fetchedAround ||
+      Math.abs(at.getTime() - this.layer.updatedAt.getTime()) >
+        LIVE_DENSITY_WINDOW ||
+      haversineDistance(location, this.fetchedAround) + radius > FETCH_RADIUS
+    ) {
+      return {radius, count: null, usual: null};
+    }
+    return {
+      radius,
+      count: countWithinRadius(this.layer, location, radius),
+      usual: getLayerUsualCount(this.layer, location, radius),
+    };
+  }
+}
+
+export const CrowdDensityService = new CrowdDensityServiceClass();
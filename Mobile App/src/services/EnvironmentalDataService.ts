@@ -0,0 +1,176 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {Coordinates} from '../utils/geo';
+import {EnvironmentalCondition} from '../utils/environmentalRisk';
+import {EnvironmentalProvider} from './environmentalProviders';
+
+interface CacheEntry {
+  providerId: string;
+  cell: string;
+  conditions: EnvironmentalCondition[];
+  fetchedAt: Date;
+}
+
+const CACHE_CELL_SIZE = 0.05; // degrees, about 5 km
+// Stale conditions are still used offline, up to this age
+const MAX_CACHE_AGE = 7 * 24 * 60 * 60 * 1000;
+
+class EnvironmentalDataServiceClass {
+  private providers: Map<string, EnvironmentalProvider> = new Map();
+  private cache: Map<string, CacheEntry> = new Map();
+
+  async initialize() {
+    try {
+      await this.loadCache();
+      console.log('EnvironmentalDataService initialized successfully');
+    } catch (error) {
+      console.error('EnvironmentalDataService initialization failed:', error);
+    }
+  }
+
+  private async loadCache() {
+    try {
+      const cached = await AsyncStorage.getItem('environmentalCache');
+      if (cached) {
+        const entries: CacheEntry[] = JSON.parse(cached).map((entry: any) => ({
+          ...entry,
+          fetchedAt: new Date(entry.fetchedAt),
+          conditions: entry.conditions.map((condition: any) => ({
+            ...condition,
+            validFrom: condition.validFrom
+              ? new Date(condition.validFrom)
+              : undefined,
+            validUntil: condition.validUntil
+              ? new Date(condition.validUntil)
+              : undefined,
+          })),
+        }));
+        this.cache = new Map(
+          entries.map(entry => [
+            this.getCacheKey(entry.providerId, entry.cell),
+            entry,
+          ]),
+        );
+      }
+    } catch (error) {
+      console.error('Failed to load environmental cache:', error);
+    }
+  }
+
+  // Drops entries too old to use, so cells the tourist has left do not
+  // pile up in storage
+  private async saveCache(now: Date = new Date()) {
+    this.cache.forEach((entry, key) => {
+      if (now.getTime() - entry.fetchedAt.getTime() > MAX_CACHE_AGE) {
+        this.cache.delete(key);
+      }
+    });
+
+    try {
+      await AsyncStorage.setItem(
+        'environmentalCache',
+        JSON.stringify(Array.from(this.cache.values())),
+      );
+    } catch (error) {
+      console.error('Failed to save environmental cache:', error);
+    }
+  }
+
+  registerProvider(provider: EnvironmentalProvider) {
+    this.providers.set(provider.id, provider);
+  }
+
+  removeProvider(providerId: string) {
+    this.providers.delete(providerId);
+  }
+
+  getProviders(): EnvironmentalProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  // Fetches conditions around the location from every provider whose cached
+  // result is older than its TTL. Providers are asked in parallel so one slow
+  // feed does not hold up the rest; a provider that fails keeps its last result.
+  async refreshConditions(
+    location: Coordinates,
+    now: Date = new Date(),
+  ): Promise<EnvironmentalCondition[]> {
+    const cell = this.getCell(location);
+    const stale = Array.from(this.providers.values()).filter(provider => {
+      const entry = this.cache.get(this.getCacheKey(provider.id, cell));
+      return (
+        !entry || now.getTime() - entry.fetchedAt.getTime() >= provider.ttl
+      );
+    });
+
+    const results = await Promise.all(
+      stale.map(async provider => {
+        try {
+          const conditions = await provider.fetchConditions(location);
+          this.cache.set(this.getCacheKey(provider.id, cell), {
+            providerId: provider.id,
+            cell,
+            conditions,
+            fetchedAt: now,
+          });
+          return true;
+        } catch (error) {
+          console.error(
+            `Failed to fetch environmental conditions from ${provider.id}:`,
+            error,
+          );
+          return false;
+        }
+      }),
+    );
+    const updated = results.includes(true);
+
+    if (updated) {
+      await this.saveCache(now);
+    }
+    return this.getConditions(location, now);
+  }
+
+  // Cached conditions around the location, without going to the network
+  getConditions(
+    location: Coordinates,
+    now: Date = new Date(),
+  ): EnvironmentalCondition[] {
+    const cell = this.getCell(location);
+    const conditions: EnvironmentalCondition[] = [];
+
+    this.cache.forEach(entry => {
+      if (
+        entry.cell === cell &&
+        this.providers.has(entry.providerId) &&
+        now.getTime() - entry.fetchedAt.getTime() <= MAX_CACHE_AGE
+      ) {
+        conditions.push(...entry.conditions);
+      }
+    });
+    return conditions;
+  }
+
+  getLastFetchedAt(providerId: string, location: Coordinates): Date | null {
+    const entry = this.cache.get(
+      this.getCacheKey(providerId, this.getCell(location)),
+    );
+    return entry ? entry.fetchedAt : null;
+  }
+
+  async clearCache() {
+    this.cache.clear();
+    await AsyncStorage.removeItem('environmentalCache');
+  }
+
+  private getCell(location: Coordinates): string {
+    const latitude = Math.floor(location.latitude / CACHE_CELL_SIZE);
+    const longitude = Math.floor(location.longitude / CACHE_CELL_SIZE);
+    return `${latitude},${longitude}`;
+  }
+
+  private getCacheKey(providerId: string, cell: string): string {
+    return `${providerId}:${cell}`;
+  }
+}
+
+export const EnvironmentalDataService = new EnvironmentalDataServiceClass();
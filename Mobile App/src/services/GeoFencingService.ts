@@ -1,31 +1,72 @@
 import {LocationService, GeoFenceZone, LocationData} from './LocationService';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  distanceToZoneBoundary,
+  getZoneBounds,
+  isLocationInsideZone,
+} from '../utils/geometry';
+import {Coordinates, getRadiusBounds} from '../utils/geo';
+import {SpatialIndex} from '../utils/spatialIndex';
+import {getZoneScheduleStatus, ZoneScheduleStatus} from '../utils/schedule';
+import {advanceOccupancy, getDueDwellMinutes} from '../utils/zoneOccupancy';
+
+const DEFAULT_APPROACH_DISTANCE = 200; // meters
+const DEFAULT_CLOSING_WARNING = 30; // minutes
 
 export interface GeoFenceAlert {
   id: string;
   zoneId: string;
   zoneName: string;
-  alertType: 'enter' | 'exit';
+  zoneType?: GeoFenceZone['type']; // as applied, closed zones read restricted
+  alertType: 'enter' | 'exit' | 'approach' | 'dwell' | 'closing';
   timestamp: Date;
   location: LocationData;
+  distanceToBoundary?: number; // meters, set for approach alerts
+  dwellMinutes?: number; // set for dwell alerts
+  minutesUntilClose?: number; // set for closing alerts
   message: string;
   isRead: boolean;
 }
 
+export interface ZoneOccupancy {
+  zoneId: string;
+  state: 'outside' | 'entering' | 'inside' | 'exiting';
+  enteredAt?: Date;
+  lastTransitionAt: Date;
+  dwellAlertedAt?: Date;
+  closingWarnedAt?: Date;
+}
+
+type GeoFenceAlertDetails = Pick<
+  GeoFenceAlert,
+  'distanceToBoundary' | 'dwellMinutes' | 'minutesUntilClose'
+>;
+
 class GeoFencingServiceClass {
   private geoFenceZones: GeoFenceZone[] = [];
   private alertHistory: GeoFenceAlert[] = [];
   private isEnabled = true;
   private alertCallbacks: ((alert: GeoFenceAlert) => void)[] = [];
+  private approachingZoneIds = new Set<string>();
+  private zoneOccupancy: Map<string, ZoneOccupancy> = new Map();
+  private zoneIndex = new SpatialIndex<GeoFenceZone>();
+  private zoneIndexStale = true;
+  private maxApproachDistance = DEFAULT_APPROACH_DISTANCE;
 
   async initialize() {
     try {
       await this.loadSettings();
       await this.loadAlertHistory();
+      await this.loadZoneOccupancy();
 
       // Load geo-fence zones from LocationService
       const {LocationService} = await import('./LocationService');
-      this.geoFenceZones = LocationService.getGeoFenceZones();
+      this.geoFenceZones = [...LocationService.getGeoFenceZones()];
+      this.zoneIndexStale = true;
+
+      // Keep zones in step with the authority-managed safety_zones table
+      const {SafetyZoneSyncService} = await import('./SafetyZoneSyncService');
+      await SafetyZoneSyncService.initialize();
 
       console.log('GeoFencingService initialized successfully');
     } catch (error) {
@@ -84,6 +125,46 @@ class GeoFencingServiceClass {
     }
   }
 
+  private async loadZoneOccupancy() {
+    try {
+      const occupancy = await AsyncStorage.getItem('geoFenceZoneOccupancy');
+      if (occupancy) {
+        const parsed: ZoneOccupancy[] = JSON.parse(occupancy);
+        this.zoneOccupancy = new Map(
+          parsed.map(entry => [
+            entry.zoneId,
+            {
+              ...entry,
+              enteredAt: entry.enteredAt
+                ? new Date(entry.enteredAt)
+                : undefined,
+              lastTransitionAt: new Date(entry.lastTransitionAt),
+              dwellAlertedAt: entry.dwellAlertedAt
+                ? new Date(entry.dwellAlertedAt)
+                : undefined,
+              closingWarnedAt: entry.closingWarnedAt
+                ? new Date(entry.closingWarnedAt)
+                : undefined,
+            },
+          ]),
+        );
+      }
+    } catch (error) {
+      console.error('Failed to load zone occupancy:', error);
+    }
+  }
+
+  private async saveZoneOccupancy() {
+    try {
+      await AsyncStorage.setItem(
+        'geoFenceZoneOccupancy',
+        JSON.stringify(Array.from(this.zoneOccupancy.values())),
+      );
+    } catch (error) {
+      console.error('Failed to save zone occupancy:', error);
+    }
+  }
+
   async enableGeoFencing(): Promise<void> {
     this.isEnabled = true;
     await this.saveSettings();
@@ -110,6 +191,7 @@ class GeoFencingServiceClass {
 
   async addGeoFenceZone(zone: GeoFenceZone): Promise<void> {
     this.geoFenceZones.push(zone);
+    this.zoneIndexStale = true;
     LocationService.addGeoFenceZone(zone);
   }
 
@@ -120,91 +202,311 @@ class GeoFencingServiceClass {
     const index = this.geoFenceZones.findIndex(zone => zone.id === zoneId);
     if (index !== -1) {
       this.geoFenceZones[index] = {...this.geoFenceZones[index], ...updates};
+      this.zoneIndexStale = true;
       LocationService.updateGeoFenceZone(zoneId, updates);
     }
   }
 
   async removeGeoFenceZone(zoneId: string): Promise<void> {
     this.geoFenceZones = this.geoFenceZones.filter(zone => zone.id !== zoneId);
+    this.zoneIndexStale = true;
     LocationService.removeGeoFenceZone(zoneId);
+
+    if (this.closeOutZone(zoneId)) {
+      await this.saveZoneOccupancy();
+    }
   }
 
-  private handleLocationUpdate(location: LocationData) {
-    if (!this.isEnabled) return;
-    this.checkGeoFenceZones(location);
+  // Forgets the tourist's state in a zone that no longer applies, without an
+  // exit alert as they have not left it. If the zone applies again while they
+  // are inside, that counts as a new entry.
+  private closeOutZone(zoneId: string): boolean {
+    this.approachingZoneIds.delete(zoneId);
+    return this.zoneOccupancy.delete(zoneId);
   }
 
-  private checkGeoFenceZones(location: LocationData) {
-    this.geoFenceZones.forEach(zone => {
-      if (!zone.isActive) return;
+  private async handleLocationUpdate(location: LocationData) {
+    if (!this.isEnabled) {
+      return;
+    }
+    await this.checkGeoFenceZones(location);
+  }
 
-      const distance = this.calculateDistance(
-        location.latitude,
-        location.longitude,
-        zone.center.latitude,
-        zone.center.longitude,
+  private async checkGeoFenceZones(location: LocationData) {
+    let occupancyChanged = false;
+    const now = new Date(location.timestamp);
+    const candidates = this.getCandidateZones(location);
+
+    // Zones removed since the last fix, by a sync for instance
+    Array.from(this.zoneOccupancy.keys()).forEach(zoneId => {
+      if (!this.zoneIndex.get(zoneId) && this.closeOutZone(zoneId)) {
+        occupancyChanged = true;
+      }
+    });
+
+    candidates.forEach(configuredZone => {
+      if (!configuredZone.isActive) {
+        if (this.closeOutZone(configuredZone.id)) {
+          occupancyChanged = true;
+        }
+        return;
+      }
+
+      const scheduleStatus = configuredZone.schedule
+        ? getZoneScheduleStatus(configuredZone.schedule, now)
+        : null;
+      const zone = this.getScheduledZone(configuredZone, scheduleStatus);
+      // Closed and ignored while closed, like an inactive zone
+      if (!zone) {
+        if (this.closeOutZone(configuredZone.id)) {
+          occupancyChanged = true;
+        }
+        return;
+      }
+
+      const isInside = isLocationInsideZone(location, zone);
+      const distance = distanceToZoneBoundary(location, zone);
+
+      if (this.updateZoneOccupancy(zone, location, isInside, distance)) {
+        occupancyChanged = true;
+      }
+
+      const occupancy = this.zoneOccupancy.get(zone.id);
+      if (!occupancy) {
+        return;
+      }
+
+      if (occupancy.state === 'outside') {
+        this.checkZoneApproach(zone, location, distance);
+        return;
+      }
+
+      if (this.checkZoneDwell(zone, location, occupancy)) {
+        occupancyChanged = true;
+      }
+      if (
+        scheduleStatus &&
+        this.checkZoneClosing(zone, location, occupancy, scheduleStatus)
+      ) {
+        occupancyChanged = true;
+      }
+    });
+
+    if (occupancyChanged) {
+      await this.saveZoneOccupancy();
+    }
+  }
+
+  // Rebuilt on the next fix after any zone change, so a sync that touches
+  // thousands of zones pays for one rebuild rather than one per zone
+  private rebuildZoneIndex() {
+    this.zoneIndex.clear();
+    this.maxApproachDistance = DEFAULT_APPROACH_DISTANCE;
+
+    this.geoFenceZones.forEach(zone => {
+      this.zoneIndex.insert(zone.id, getZoneBounds(zone), zone);
+      this.maxApproachDistance = Math.max(
+        this.maxApproachDistance,
+        zone.approachDistance ?? DEFAULT_APPROACH_DISTANCE,
       );
+    });
+    this.zoneIndexStale = false;
+  }
 
-      const isInside = distance <= zone.radius;
-      const wasInside = this.wasLocationInsideZone(location, zone);
+  // Zones near enough to the fix to enter or approach, plus any zone whose
+  // occupancy or approach warning still needs to be cleared
+  private getCandidateZones(location: LocationData): GeoFenceZone[] {
+    if (this.zoneIndexStale) {
+      this.rebuildZoneIndex();
+    }
+
+    const candidates = new Map<string, GeoFenceZone>();
+    this.zoneIndex
+      .search(getRadiusBounds(location, this.maxApproachDistance))
+      .forEach(zone => candidates.set(zone.id, zone));
 
-      if (isInside && !wasInside) {
-        this.triggerGeoFenceAlert(zone, location, 'enter');
-      } else if (!isInside && wasInside) {
-        this.triggerGeoFenceAlert(zone, location, 'exit');
+    const pendingZoneIds = Array.from(this.approachingZoneIds);
+    this.zoneOccupancy.forEach(occupancy => {
+      if (occupancy.state !== 'outside') {
+        pendingZoneIds.push(occupancy.zoneId);
+      }
+    });
+    pendingZoneIds.forEach(zoneId => {
+      const zone = this.zoneIndex.get(zoneId);
+      if (zone) {
+        candidates.set(zoneId, zone);
       }
     });
+
+    return Array.from(candidates.values());
   }
 
-  private wasLocationInsideZone(
-    location: LocationData,
+  // Active zones within distance meters of the location, as they apply at
+  // the given time, so closed zones are skipped or restricted
+  getActiveZonesNear(
+    location: Coordinates,
+    distance: number,
+    now: Date = new Date(),
+  ): GeoFenceZone[] {
+    if (this.zoneIndexStale) {
+      this.rebuildZoneIndex();
+    }
+
+    const zones: GeoFenceZone[] = [];
+    this.zoneIndex
+      .search(getRadiusBounds(location, distance))
+      .forEach(configuredZone => {
+        if (!configuredZone.isActive) {
+          return;
+        }
+
+        const zone = this.getScheduledZone(
+          configuredZone,
+          configuredZone.schedule
+            ? getZoneScheduleStatus(configuredZone.schedule, now)
+            : null,
+        );
+        if (zone) {
+          zones.push(zone);
+        }
+      });
+    return zones;
+  }
+
+  // The zone as it applies right now: unchanged while its schedule is open,
+  // and while closed either skipped or treated as a restricted area
+  private getScheduledZone(
+    zone: GeoFenceZone,
+    scheduleStatus: ZoneScheduleStatus | null,
+  ): GeoFenceZone | null {
+    if (!zone.schedule || !scheduleStatus || scheduleStatus.isOpen) {
+      return zone;
+    }
+
+    if (zone.schedule.whenClosed === 'inactive') {
+      return null;
+    }
+
+    return {
+      ...zone,
+      type: 'restricted',
+      alertMessage: `${zone.name} is closed at this time. Leave the area and return during opening hours.`,
+    };
+  }
+
+  private updateZoneOccupancy(
     zone: GeoFenceZone,
+    location: LocationData,
+    isInside: boolean,
+    distanceToBoundary: number,
   ): boolean {
-    const distance = this.calculateDistance(
-      location.latitude,
-      location.longitude,
-      zone.center.latitude,
-      zone.center.longitude,
+    const {occupancy, changed, transition} = advanceOccupancy(
+      zone.id,
+      this.zoneOccupancy.get(zone.id),
+      isInside,
+      distanceToBoundary,
+      location.accuracy,
+      new Date(location.timestamp),
     );
-    return distance <= zone.radius;
+    if (!changed) {
+      return false;
+    }
+
+    if (transition === 'enter') {
+      this.approachingZoneIds.delete(zone.id);
+    }
+    if (transition) {
+      this.triggerGeoFenceAlert(zone, location, transition);
+    }
+    this.zoneOccupancy.set(zone.id, occupancy);
+    return true;
+  }
+
+  private checkZoneDwell(
+    zone: GeoFenceZone,
+    location: LocationData,
+    occupancy: ZoneOccupancy,
+  ): boolean {
+    const now = new Date(location.timestamp);
+    const dwellMinutes = getDueDwellMinutes(zone, occupancy, now);
+    if (dwellMinutes === null) {
+      return false;
+    }
+
+    occupancy.dwellAlertedAt = now;
+    this.triggerGeoFenceAlert(zone, location, 'dwell', {dwellMinutes});
+    return true;
+  }
+
+  private checkZoneClosing(
+    zone: GeoFenceZone,
+    location: LocationData,
+    occupancy: ZoneOccupancy,
+    scheduleStatus: ZoneScheduleStatus,
+  ): boolean {
+    const {minutesUntilClose} = scheduleStatus;
+    const warningMinutes =
+      zone.schedule?.closingWarningMinutes ?? DEFAULT_CLOSING_WARNING;
+
+    if (minutesUntilClose === null || minutesUntilClose > warningMinutes) {
+      // Re-arm the warning for the next closing time
+      if (occupancy.closingWarnedAt) {
+        occupancy.closingWarnedAt = undefined;
+        return true;
+      }
+      return false;
+    }
+
+    if (occupancy.closingWarnedAt) {
+      return false;
+    }
+
+    occupancy.closingWarnedAt = new Date(location.timestamp);
+    this.triggerGeoFenceAlert(zone, location, 'closing', {minutesUntilClose});
+    return true;
   }
 
-  private calculateDistance(
-    lat1: number,
-    lon1: number,
-    lat2: number,
-    lon2: number,
-  ): number {
-    const R = 6371e3;
-    const φ1 = (lat1 * Math.PI) / 180;
-    const φ2 = (lat2 * Math.PI) / 180;
-    const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-    const Δλ = ((lon2 - lon1) * Math.PI) / 180;
+  private checkZoneApproach(
+    zone: GeoFenceZone,
+    location: LocationData,
+    distance: number,
+  ) {
+    if (zone.type === 'safe') {
+      return;
+    }
+
+    const approachDistance = zone.approachDistance ?? DEFAULT_APPROACH_DISTANCE;
 
-    const a =
-      Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-      Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+    if (distance > approachDistance) {
+      this.approachingZoneIds.delete(zone.id);
+      return;
+    }
 
-    return R * c;
+    // Warn once per approach rather than on every fix inside the band
+    if (!this.approachingZoneIds.has(zone.id)) {
+      this.approachingZoneIds.add(zone.id);
+      this.triggerGeoFenceAlert(zone, location, 'approach', {
+        distanceToBoundary: distance,
+      });
+    }
   }
 
   private triggerGeoFenceAlert(
     zone: GeoFenceZone,
     location: LocationData,
-    alertType: 'enter' | 'exit',
+    alertType: GeoFenceAlert['alertType'],
+    details: GeoFenceAlertDetails = {},
   ) {
     const alert: GeoFenceAlert = {
       id: this.generateAlertId(),
       zoneId: zone.id,
       zoneName: zone.name,
+      zoneType: zone.type,
       alertType,
       timestamp: new Date(),
       location,
-      message:
-        alertType === 'enter'
-          ? `You have entered ${zone.name}. ${zone.alertMessage}`
-          : `You have exited ${zone.name}`,
+      ...details,
+      message: this.getAlertMessage(zone, alertType, details),
       isRead: false,
     };
 
@@ -214,6 +516,42 @@ class GeoFencingServiceClass {
     this.alertCallbacks.forEach(callback => callback(alert));
   }
 
+  private getAlertMessage(
+    zone: GeoFenceZone,
+    alertType: GeoFenceAlert['alertType'],
+    details: GeoFenceAlertDetails,
+  ): string {
+    switch (alertType) {
+      case 'enter':
+        return `You have entered ${zone.name}. ${zone.alertMessage}`;
+      case 'exit':
+        return `You have exited ${zone.name}`;
+      case 'approach':
+        return `You are approaching ${zone.name} (${Math.round(
+          details.distanceToBoundary || 0,
+        )}m away). ${zone.alertMessage}`;
+      case 'dwell':
+        return `You have been in ${zone.name} for ${Math.round(
+          details.dwellMinutes || 0,
+        )} minutes. Please check in with your group or head back.`;
+      case 'closing':
+        return `${zone.name} closes in ${Math.round(
+          details.minutesUntilClose || 0,
+        )} minutes. Please start making your way out.`;
+    }
+  }
+
+  getZoneOccupancy(zoneId: string): ZoneOccupancy | undefined {
+    return this.zoneOccupancy.get(zoneId);
+  }
+
+  getOccupiedZones(): GeoFenceZone[] {
+    return this.geoFenceZones.filter(zone => {
+      const state = this.zoneOccupancy.get(zone.id)?.state;
+      return state === 'inside' || state === 'exiting';
+    });
+  }
+
   getAlertHistory(): GeoFenceAlert[] {
     return [...this.alertHistory];
   }
@@ -263,12 +601,24 @@ class GeoFencingServiceClass {
     const exitAlerts = this.alertHistory.filter(
       alert => alert.alertType === 'exit',
     ).length;
+    const approachAlerts = this.alertHistory.filter(
+      alert => alert.alertType === 'approach',
+    ).length;
+    const dwellAlerts = this.alertHistory.filter(
+      alert => alert.alertType === 'dwell',
+    ).length;
+    const closingAlerts = this.alertHistory.filter(
+      alert => alert.alertType === 'closing',
+    ).length;
 
     return {
       totalAlerts,
       unreadAlerts,
       enterAlerts,
       exitAlerts,
+      approachAlerts,
+      dwellAlerts,
+      closingAlerts,
     };
   }
 }
@@ -1,5 +1,13 @@
-import Geolocation from 'react-native-geolocation-service';
+import Geolocation, {GeoPosition} from 'react-native-geolocation-service';
 import {Platform, PermissionsAndroid, Alert} from 'react-native';
+import {GeoFenceGeometry} from '../types/geojson';
+import {isLocationInsideZone} from '../utils/geometry';
+import {
+  FixFilterResult,
+  LocationFilterSettings,
+  LocationFilterStats,
+  LocationFixFilter,
+} from '../utils/locationFilter';
 
 export interface LocationData {
   latitude: number;
@@ -8,6 +16,10 @@ export interface LocationData {
   altitude?: number;
   speed?: number;
   timestamp: number;
+  // 'filtered' fixes passed the quality checks and were smoothed, 'raw' ones
+  // are exactly what the GPS reported. Consumers that build tracks or detect
+  // anomalies should skip raw fixes.
+  source?: 'raw' | 'filtered';
 }
 
 export interface GeoFenceZone {
@@ -19,14 +31,81 @@ export interface GeoFenceZone {
     longitude: number;
   };
   radius: number; // in meters
+  // Polygon/MultiPolygon boundary; when set it replaces the center/radius
+  // circle for containment and center/radius are only used for display
+  geometry?: GeoFenceGeometry;
+  approachDistance?: number; // meters outside the boundary to warn at
+  dwellLimit?: number; // minutes inside before a dwell alert
+  schedule?: ZoneSchedule;
+  source?: 'safety_zones'; // set on zones synced from the authority table
   alertMessage: string;
   isActive: boolean;
 }
 
+export interface ZoneTimeWindow {
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  start: string; // 'HH:mm'
+  end: string; // 'HH:mm', at or before start for windows past midnight
+}
+
+export interface ZoneDateRange {
+  from: string; // 'YYYY-MM-DD', or 'MM-DD' to repeat every year
+  to: string; // inclusive, same format as from
+}
+
+export interface ZoneSchedule {
+  timezone: string; // IANA name, e.g. 'Asia/Kolkata'
+  // Weekly hours the zone is open; omit to keep it open all day
+  openingHours?: ZoneTimeWindow[];
+  // Date ranges the zone is closed regardless of opening hours
+  closures?: ZoneDateRange[];
+  // How the zone behaves while closed: ignored, or treated as restricted
+  whenClosed: 'inactive' | 'restricted';
+  closingWarningMinutes?: number; // lead time for the about-to-close alert
+}
+
+// Known hazards that apply before the first safety_zones sync, and on a
+// fresh install without a network
+const BUILT_IN_ZONES: GeoFenceZone[] = [
+  {
+    id: 'cave-1',
+    name: 'Elephant Caves',
+    type: 'cave',
+    center: {latitude: 20.2961, longitude: 85.8245},
+    radius: 500,
+    alertMessage:
+      'You are entering a cave area. Please stay with your group and follow safety guidelines.',
+    isActive: true,
+  },
+  {
+    id: 'forest-1',
+    name: 'Simlipal Forest',
+    type: 'forest',
+    center: {latitude: 21.75, longitude: 86.3333},
+    radius: 1000,
+    alertMessage:
+      'You are entering a forest area. Wildlife may be present. Stay alert and follow guide instructions.',
+    isActive: true,
+  },
+  {
+    id: 'restricted-1',
+    name: 'Military Restricted Zone',
+    type: 'restricted',
+    center: {latitude: 20.2961, longitude: 85.8245},
+    radius: 200,
+    alertMessage:
+      'WARNING: You are entering a restricted area. Turn back immediately.',
+    isActive: true,
+  },
+];
+
 class LocationServiceClass {
   private watchId: number | null = null;
   private currentLocation: LocationData | null = null;
+  private lastRawLocation: LocationData | null = null;
   private locationCallbacks: ((location: LocationData) => void)[] = [];
+  private rawLocationCallbacks: ((result: FixFilterResult) => void)[] = [];
+  private fixFilter = new LocationFixFilter();
   private geoFenceZones: GeoFenceZone[] = [];
   private isTracking = false;
 
@@ -64,55 +143,21 @@ class LocationServiceClass {
   }
 
   private async loadGeoFenceZones() {
-    // Load predefined geo-fence zones
-    this.geoFenceZones = [
-      {
-        id: 'cave-1',
-        name: 'Elephant Caves',
-        type: 'cave',
-        center: {latitude: 20.2961, longitude: 85.8245},
-        radius: 500,
-        alertMessage:
-          'You are entering a cave area. Please stay with your group and follow safety guidelines.',
-        isActive: true,
-      },
-      {
-        id: 'forest-1',
-        name: 'Simlipal Forest',
-        type: 'forest',
-        center: {latitude: 21.75, longitude: 86.3333},
-        radius: 1000,
-        alertMessage:
-          'You are entering a forest area. Wildlife may be present. Stay alert and follow guide instructions.',
-        isActive: true,
-      },
-      {
-        id: 'restricted-1',
-        name: 'Military Restricted Zone',
-        type: 'restricted',
-        center: {latitude: 20.2961, longitude: 85.8245},
-        radius: 200,
-        alertMessage:
-          'WARNING: You are entering a restricted area. Turn back immediately.',
-        isActive: true,
-      },
-    ];
+    // Built-in hazards plus the zones cached by the last safety_zones sync, so
+    // geo-fencing works offline; SafetyZoneSyncService pushes live changes
+    const {SafetyZoneSyncService} = await import('./SafetyZoneSyncService');
+    const syncedZones = await SafetyZoneSyncService.getCachedZones();
+    this.geoFenceZones = [...BUILT_IN_ZONES, ...syncedZones];
   }
 
+  // Resolves with the filtered fix, or with the raw fix when the filter
+  // rejects it so callers such as the panic button still get a position
   async getCurrentLocation(): Promise<LocationData | null> {
     return new Promise((resolve, reject) => {
       Geolocation.getCurrentPosition(
         position => {
-          const location: LocationData = {
-            latitude: position.coords.latitude,
-            longitude: position.coords.longitude,
-            accuracy: position.coords.accuracy,
-            altitude: position.coords.altitude || undefined,
-            speed: position.coords.speed || undefined,
-            timestamp: position.timestamp,
-          };
-          this.currentLocation = location;
-          resolve(location);
+          const result = this.filterFix(position);
+          resolve(result.filtered || result.raw);
         },
         error => {
           console.error('Location error:', error);
@@ -138,16 +183,11 @@ class LocationServiceClass {
 
     this.watchId = Geolocation.watchPosition(
       position => {
-        const location: LocationData = {
-          latitude: position.coords.latitude,
-          longitude: position.coords.longitude,
-          accuracy: position.coords.accuracy,
-          altitude: position.coords.altitude || undefined,
-          speed: position.coords.speed || undefined,
-          timestamp: position.timestamp,
-        };
-
-        this.currentLocation = location;
+        const result = this.filterFix(position);
+        if (!result.filtered) {
+          return;
+        }
+        const location = result.filtered;
 
         // Notify all callbacks
         this.locationCallbacks.forEach(cb => cb(location));
@@ -175,45 +215,42 @@ class LocationServiceClass {
     }
     this.isTracking = false;
     this.locationCallbacks = [];
+    // A later session may start far away, so do not smooth across the gap
+    this.fixFilter.reset();
+  }
+
+  // Runs a position through the fix filter, keeps the latest raw and
+  // filtered fixes, and tells raw listeners about every fix
+  private filterFix(position: GeoPosition): FixFilterResult {
+    const result = this.fixFilter.process({
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude,
+      accuracy: position.coords.accuracy,
+      altitude: position.coords.altitude || undefined,
+      speed: position.coords.speed || undefined,
+      timestamp: position.timestamp,
+    });
+
+    // Discarded fixes are counted in getLocationFilterStats
+    this.lastRawLocation = result.raw;
+    if (result.filtered) {
+      this.currentLocation = result.filtered;
+    }
+
+    this.rawLocationCallbacks.forEach(cb => cb(result));
+    return result;
   }
 
   private checkGeoFencing(location: LocationData) {
     this.geoFenceZones.forEach(zone => {
       if (!zone.isActive) return;
 
-      const distance = this.calculateDistance(
-        location.latitude,
-        location.longitude,
-        zone.center.latitude,
-        zone.center.longitude,
-      );
-
-      if (distance <= zone.radius) {
+      if (isLocationInsideZone(location, zone)) {
         this.triggerGeoFenceAlert(zone, location);
       }
     });
   }
 
-  private calculateDistance(
-    lat1: number,
-    lon1: number,
-    lat2: number,
-    lon2: number,
-  ): number {
-    const R = 6371e3; // Earth's radius in meters
-    const φ1 = (lat1 * Math.PI) / 180;
-    const φ2 = (lat2 * Math.PI) / 180;
-    const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-    const Δλ = ((lon2 - lon1) * Math.PI) / 180;
-
-    const a =
-      Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-      Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-    return R * c; // Distance in meters
-  }
-
   private triggerGeoFenceAlert(zone: GeoFenceZone, _location: LocationData) {
     Alert.alert(
       `Entering ${zone.name}`,
@@ -255,6 +292,33 @@ class LocationServiceClass {
     return this.currentLocation;
   }
 
+  getLastRawLocation(): LocationData | null {
+    return this.lastRawLocation;
+  }
+
+  // Every fix as reported by the GPS, with the filter's verdict
+  addRawLocationCallback(callback: (result: FixFilterResult) => void) {
+    this.rawLocationCallbacks.push(callback);
+  }
+
+  removeRawLocationCallback(callback: (result: FixFilterResult) => void) {
+    this.rawLocationCallbacks = this.rawLocationCallbacks.filter(
+      cb => cb !== callback,
+    );
+  }
+
+  getLocationFilterStats(): LocationFilterStats {
+    return this.fixFilter.getStats();
+  }
+
+  getLocationFilterSettings(): LocationFilterSettings {
+    return this.fixFilter.getSettings();
+  }
+
+  updateLocationFilterSettings(settings: Partial<LocationFilterSettings>) {
+    this.fixFilter.updateSettings(settings);
+  }
+
   isLocationTrackingActive(): boolean {
     return this.isTracking;
   }
@@ -1,14 +1,166 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import {LocationData} from './LocationService';
+import {GeoFencingService} from './GeoFencingService';
+import {TrackingService} from './TrackingService';
+import {AIAnomalyDetectionService} from './AIAnomalyDetectionService';
+import {AuthorityDashboardService} from './AuthorityDashboardService';
+import {AuthService} from './AuthService';
+import {BlockchainService, PlannedLocation} from './BlockchainService';
+import {EnvironmentalDataService} from './EnvironmentalDataService';
+import {CrowdDensityService} from './CrowdDensityService';
+import {Coordinates} from '../utils/geo';
+import {formatTimeOfDay, getZonedDateParts} from '../utils/schedule';
+import {getDaylightPhase, getSolarTimes} from '../utils/solar';
+import {resolveTimeZone} from '../utils/timezone';
+import {assessCrowdDensity} from '../utils/crowdDensity';
+import {
+  assessEnvironmentalRisk,
+  EnvironmentalRiskAssessment,
+} from '../utils/environmentalRisk';
+import {
+  getSegmentMidpoint,
+  getSegmentWarnings,
+  PASSING_DISTANCE,
+  RouteSegment,
+  RouteWaypoint,
+  RouteWarning,
+  splitRoute,
+  WALKING_SPEED,
+} from '../utils/routeScoring';
+import {
+  assessLocationRisk,
+  DEFAULT_LOCATION_RISK_SETTINGS,
+  getZoneRiskReach,
+  LocationRiskAssessment,
+  LocationRiskLayer,
+  LocationRiskLayerSettings,
+  LocationRiskSettings,
+  splitZoneLayers,
+} from '../utils/locationRisk';
+import {
+  assessMovementRisk,
+  MovementRiskAssessment,
+} from '../utils/movementRisk';
+import {
+  assessBehaviorRisk,
+  BehaviorRiskAssessment,
+} from '../utils/behaviorRisk';
+import {
+  DEFAULT_LEVEL_ADVICE,
+  DEFAULT_RECOMMENDATIONS,
+  getFactorWeights,
+  resolveRiskProfile,
+  RISK_PROFILES,
+  RiskLevel,
+  RiskProfile,
+  RiskThresholds,
+  SAFETY_FACTOR_NAMES,
+  SafetyFactorKey,
+} from '../utils/riskProfiles';
+import {
+  DailyScoreSummary,
+  getEntriesForDay,
+  getEntriesNear,
+  getScoreTrend,
+  ScoreHistoryEntry,
+  ScoreTrend,
+  summarizeByDay,
+  toDayKey,
+} from '../utils/scoreHistory';
+import {
+  applyGroupSize,
+  FactorContribution,
+  getFactorContributions,
+} from '../utils/scoreSimulation';
 
 export interface SafetyScore {
   score: number; // 0-100
-  riskLevel: 'low' | 'medium' | 'high';
+  riskLevel: RiskLevel;
   factors: SafetyFactor[];
   lastUpdated: Date;
   recommendations: string[];
+  profileId: string;
+  profileName: string;
 }
 
+export interface StopForecast {
+  stop: PlannedLocation;
+  visitTime: Date;
+  score: SafetyScore;
+}
+
+export interface DayForecast {
+  day: string; // YYYY-MM-DD, local time
+  stops: StopForecast[];
+  score: number; // of the riskiest stop
+  riskLevel: RiskLevel;
+}
+
+export interface ItineraryForecast {
+  stops: StopForecast[];
+  days: DayForecast[];
+  riskiestStop: StopForecast | null;
+  riskiestDay: DayForecast | null;
+  advice: string[];
+}
+
+export interface SafetyScoreScenario {
+  location?: Coordinates;
+  time?: Date;
+  groupSize?: number;
+}
+
+export interface SafetyScoreSimulation {
+  scenario: SafetyScoreScenario & {location: Coordinates; time: Date};
+  score: SafetyScore;
+  baseline: SafetyScore; // the current score
+  contributions: FactorContribution[];
+  delta: number; // score minus baseline; negative is safer
+}
+
+export interface RouteScoreOptions {
+  speed?: number; // m/s, walking pace by default
+  groupSize?: number;
+  segmentLength?: number; // meters
+}
+
+export interface RouteSegmentScore {
+  segment: RouteSegment;
+  departure: Date; // when the segment is entered
+  arrival: Date; // and left
+  score: SafetyScore; // at its midpoint, when that is passed
+  riskLevel: RiskLevel; // raised by the warnings
+  warnings: RouteWarning[];
+}
+
+export interface RouteScore {
+  segments: RouteSegmentScore[];
+  departure: Date;
+  arrival: Date;
+  distance: number; // meters
+  riskLevel: RiskLevel; // of the riskiest segment
+  riskiestSegment: RouteSegmentScore | null;
+}
+
+const MAX_SCORE_HISTORY = 1000;
+// Scores come in with every fix, so the history is written at most this often
+const HISTORY_SAVE_INTERVAL = 60 * 1000;
+const RISK_LEVEL_ORDER: RiskLevel[] = ['low', 'medium', 'high'];
+// Local minutes since midnight of the small hours, riskier than the evening
+const LATE_NIGHT_START = 22 * 60;
+const LATE_NIGHT_END = 5 * 60;
+const DUSK_MARGIN = 90 * 60 * 1000; // around sunrise and sunset
+const TIME_ZONE_REACH = 50000; // meters to look for zones naming a time zone
+// Stops imported or entered without a time are scored at mid-morning
+const DATE_ONLY_VISIT_HOUR = 10;
+
+// Factors whose recommendation the tourist can act on; one still standing
+// after RECOMMENDATION_GRACE counts against their behaviour score
+const ACTIONABLE_FACTORS: SafetyFactorKey[] = ['location', 'movement'];
+const RECOMMENDATION_GRACE = 30 * 60 * 1000;
+
 export interface SafetyFactor {
+  key: SafetyFactorKey;
   name: string;
   value: number;
   weight: number;
@@ -18,91 +170,217 @@ export interface SafetyFactor {
 
 class SafetyScoreServiceClass {
   private currentScore: SafetyScore | null = null;
+  private currentLocation: Coordinates | null = null; // of the current score
+  private locationRiskSettings: LocationRiskSettings =
+    DEFAULT_LOCATION_RISK_SETTINGS;
+  // When each actionable factor's recommendation was first given
+  private recommendationsGivenAt: Map<SafetyFactorKey, Date> = new Map();
+  private scoreHistory: ScoreHistoryEntry[] = [];
+  private historySavedAt = 0; // ms, of the last history write
 
   async initialize() {
     try {
+      await this.loadLocationRiskSettings();
+      await this.loadScoreHistory();
       console.log('SafetyScoreService initialized successfully');
     } catch (error) {
       console.error('SafetyScoreService initialization failed:', error);
     }
   }
 
+  private async loadLocationRiskSettings() {
+    try {
+      const settings = await AsyncStorage.getItem('locationRiskSettings');
+      if (settings) {
+        const stored = JSON.parse(settings);
+        // Merged per layer so layers added later keep their defaults
+        this.locationRiskSettings = {
+          safetyZones: {
+            ...DEFAULT_LOCATION_RISK_SETTINGS.safetyZones,
+            ...stored.safetyZones,
+          },
+          incidents: {
+            ...DEFAULT_LOCATION_RISK_SETTINGS.incidents,
+            ...stored.incidents,
+          },
+          zoneTypes: {
+            ...DEFAULT_LOCATION_RISK_SETTINGS.zoneTypes,
+            ...stored.zoneTypes,
+          },
+        };
+      }
+    } catch (error) {
+      console.error('Failed to load location risk settings:', error);
+    }
+  }
+
+  private async saveLocationRiskSettings() {
+    try {
+      await AsyncStorage.setItem(
+        'locationRiskSettings',
+        JSON.stringify(this.locationRiskSettings),
+      );
+    } catch (error) {
+      console.error('Failed to save location risk settings:', error);
+    }
+  }
+
+  private async loadScoreHistory() {
+    try {
+      const history = await AsyncStorage.getItem('safetyScoreHistory');
+      if (history) {
+        this.scoreHistory = JSON.parse(history).map((entry: any) => ({
+          ...entry,
+          timestamp: new Date(entry.timestamp),
+        }));
+      }
+    } catch (error) {
+      console.error('Failed to load safety score history:', error);
+    }
+  }
+
+  private async saveScoreHistory() {
+    this.historySavedAt = Date.now();
+    try {
+      await AsyncStorage.setItem(
+        'safetyScoreHistory',
+        JSON.stringify(this.scoreHistory),
+      );
+    } catch (error) {
+      console.error('Failed to save safety score history:', error);
+    }
+  }
+
   calculateSafetyScore(
     location: LocationData,
     _additionalFactors?: any,
   ): SafetyScore {
+    const now = new Date();
+    const profile = this.getRiskProfile();
+    const safetyScore = this.scoreAt(
+      location,
+      now,
+      profile,
+      this.assessMovementRisk(now),
+      this.assessBehaviorRisk(now),
+    );
+    this.trackRecommendations(safetyScore.factors, profile.thresholds);
+
+    this.currentScore = safetyScore;
+    this.currentLocation = {
+      latitude: location.latitude,
+      longitude: location.longitude,
+    };
+    this.addScoreToHistory(safetyScore, location);
+    return safetyScore;
+  }
+
+  private scoreAt(
+    location: Coordinates,
+    at: Date,
+    profile: RiskProfile,
+    movementAssessment: MovementRiskAssessment,
+    behaviorAssessment: BehaviorRiskAssessment,
+    groupSize?: number,
+  ): SafetyScore {
+    // Without crowd data, as offline or away from the last fetch, the other
+    // factors keep their usual weights rather than scoring a made-up value
+    const crowd = assessCrowdDensity(
+      CrowdDensityService.getCrowdDensity(location, at),
+    );
+    const weights = getFactorWeights(profile.weights, crowd.level !== null);
     const factors: SafetyFactor[] = [];
 
-    // 1. Location Risk Factor (30% weight)
-    const locationRisk = this.calculateLocationRisk(location);
-    factors.push({
-      name: 'Location Risk',
-      value: locationRisk,
-      weight: 0.3,
-      impact:
-        locationRisk > 70
-          ? 'negative'
-          : locationRisk > 40
-          ? 'neutral'
-          : 'positive',
-      description: this.getLocationRiskDescription(locationRisk),
-    });
+    // 1. Location Risk Factor
+    const locationAssessment = this.assessLocationRisk(location, at);
+    const locationRisk = applyGroupSize(
+      'location',
+      locationAssessment.risk,
+      groupSize,
+    );
+    factors.push(
+      this.createFactor(
+        'location',
+        locationRisk,
+        weights,
+        profile,
+        `${this.getLocationRiskDescription(locationRisk)}: ${
+          locationAssessment.description
+        }`,
+      ),
+    );
 
-    // 2. Time-based Risk Factor (20% weight)
-    const timeRisk = this.calculateTimeRisk();
-    factors.push({
-      name: 'Time Risk',
-      value: timeRisk,
-      weight: 0.2,
-      impact:
-        timeRisk > 70 ? 'negative' : timeRisk > 40 ? 'neutral' : 'positive',
-      description: this.getTimeRiskDescription(timeRisk),
-    });
+    // 2. Time-based Risk Factor
+    const timeRisk = applyGroupSize(
+      'time',
+      this.calculateTimeRisk(location, at),
+      groupSize,
+    );
+    factors.push(
+      this.createFactor(
+        'time',
+        timeRisk,
+        weights,
+        profile,
+        `${this.getTimeRiskDescription(timeRisk)}: ${this.describeDaylight(
+          location,
+          at,
+        )}`,
+      ),
+    );
 
-    // 3. Movement Pattern Factor (15% weight)
-    const movementRisk = this.calculateMovementRisk();
-    factors.push({
-      name: 'Movement Pattern',
-      value: movementRisk,
-      weight: 0.15,
-      impact:
-        movementRisk > 70
-          ? 'negative'
-          : movementRisk > 40
-          ? 'neutral'
-          : 'positive',
-      description: this.getMovementRiskDescription(movementRisk),
-    });
+    // 3. Movement Pattern Factor
+    factors.push(
+      this.createFactor(
+        'movement',
+        movementAssessment.risk,
+        weights,
+        profile,
+        `${this.getMovementRiskDescription(movementAssessment.risk)}: ${
+          movementAssessment.description
+        }`,
+      ),
+    );
 
-    // 4. Historical Behavior Factor (20% weight)
-    const behaviorRisk = this.calculateBehaviorRisk();
-    factors.push({
-      name: 'Historical Behavior',
-      value: behaviorRisk,
-      weight: 0.2,
-      impact:
-        behaviorRisk > 70
-          ? 'negative'
-          : behaviorRisk > 40
-          ? 'neutral'
-          : 'positive',
-      description: this.getBehaviorRiskDescription(behaviorRisk),
-    });
+    // 4. Historical Behavior Factor
+    factors.push(
+      this.createFactor(
+        'behavior',
+        behaviorAssessment.risk,
+        weights,
+        profile,
+        `${this.getBehaviorRiskDescription(behaviorAssessment.risk)}: ${
+          behaviorAssessment.description
+        }`,
+      ),
+    );
 
-    // 5. Environmental Factor (15% weight)
-    const environmentalRisk = this.calculateEnvironmentalRisk(location);
-    factors.push({
-      name: 'Environmental Risk',
-      value: environmentalRisk,
-      weight: 0.15,
-      impact:
-        environmentalRisk > 70
-          ? 'negative'
-          : environmentalRisk > 40
-          ? 'neutral'
-          : 'positive',
-      description: this.getEnvironmentalRiskDescription(environmentalRisk),
-    });
+    // 5. Environmental Factor
+    const environmental = this.calculateEnvironmentalRisk(location, at);
+    factors.push(
+      this.createFactor(
+        'environmental',
+        environmental.risk,
+        weights,
+        profile,
+        `${this.getEnvironmentalRiskDescription(environmental.risk)}: ${
+          environmental.description
+        }`,
+      ),
+    );
+
+    // 6. Crowd Density Factor
+    if (crowd.level !== null) {
+      factors.push(
+        this.createFactor(
+          'crowd',
+          crowd.risk,
+          weights,
+          profile,
+          crowd.description,
+        ),
+      );
+    }
 
     // Calculate weighted score
     const weightedScore = factors.reduce((total, factor) => {
@@ -110,140 +388,578 @@ class SafetyScoreServiceClass {
     }, 0);
 
     const finalScore = Math.round(Math.max(0, Math.min(100, weightedScore)));
-    const riskLevel = this.determineRiskLevel(finalScore);
-    const recommendations = this.generateRecommendations(factors, finalScore);
+    const riskLevel = this.determineRiskLevel(finalScore, profile.thresholds);
 
-    const safetyScore: SafetyScore = {
+    return {
       score: finalScore,
       riskLevel,
       factors,
-      lastUpdated: new Date(),
-      recommendations,
+      lastUpdated: at,
+      recommendations: this.generateRecommendations(
+        factors,
+        riskLevel,
+        profile,
+      ),
+      profileId: profile.id,
+      profileName: profile.name,
     };
+  }
 
-    this.currentScore = safetyScore;
-    return safetyScore;
+  // Scores a hypothetical trip. It reads the risk profile, the score history
+  // and the current location but never changes the current score, its
+  // history or the recommendations being tracked. The group size only
+  // adjusts the score when the scenario gives one, like the live score.
+  simulateSafetyScore(
+    scenario: SafetyScoreScenario,
+    now: Date = new Date(),
+  ): SafetyScoreSimulation {
+    const location = scenario.location || this.currentLocation;
+    if (!location) {
+      throw new Error('No location to simulate the safety score at');
+    }
+    const time = scenario.time || now;
+    const {groupSize} = scenario;
+    const profile = this.getRiskProfile();
+    const behaviorAssessment = this.assessBehaviorRisk(now);
+
+    // History says nothing about movement at a future time
+    const score = this.scoreAt(
+      location,
+      time,
+      profile,
+      this.assessMovementRisk(time),
+      behaviorAssessment,
+      groupSize,
+    );
+    const baseline =
+      this.currentScore ||
+      this.scoreAt(
+        location,
+        now,
+        profile,
+        this.assessMovementRisk(now),
+        behaviorAssessment,
+      );
+
+    return {
+      scenario: {location, time, groupSize},
+      score,
+      baseline,
+      contributions: getFactorContributions(score.factors, baseline.factors),
+      delta: score.score - baseline.score,
+    };
   }
 
-  private calculateLocationRisk(location: LocationData): number {
-    const riskZones = [
-      {lat: 20.2961, lng: 85.8245, radius: 500, risk: 80},
-      {lat: 21.75, lng: 86.3333, radius: 1000, risk: 70},
-      {lat: 20.2961, lng: 85.8245, radius: 200, risk: 90},
-    ];
+  private getGroupSize(): number | undefined {
+    return BlockchainService.getCurrentDigitalID()?.tripItinerary.groupSize;
+  }
 
-    for (const zone of riskZones) {
-      const distance = this.calculateDistance(
-        location.latitude,
-        location.longitude,
-        zone.lat,
-        zone.lng,
-      );
-      if (distance <= zone.radius) {
-        return zone.risk;
+  private addScoreToHistory(safetyScore: SafetyScore, location: Coordinates) {
+    const factors: ScoreHistoryEntry['factors'] = {};
+    safetyScore.factors.forEach(factor => {
+      factors[factor.key] = factor.value;
+    });
+
+    this.scoreHistory.push({
+      score: safetyScore.score,
+      riskLevel: safetyScore.riskLevel,
+      factors,
+      location: {latitude: location.latitude, longitude: location.longitude},
+      timestamp: safetyScore.lastUpdated,
+      profileId: safetyScore.profileId,
+    });
+
+    if (this.scoreHistory.length > MAX_SCORE_HISTORY) {
+      this.scoreHistory = this.scoreHistory.slice(-MAX_SCORE_HISTORY);
+    }
+
+    // A crash loses at most the last interval of scores
+    if (Date.now() - this.historySavedAt >= HISTORY_SAVE_INTERVAL) {
+      this.saveScoreHistory();
+    }
+  }
+
+  getScoreHistory(): ScoreHistoryEntry[] {
+    return [...this.scoreHistory];
+  }
+
+  getScoresForDay(day: Date): ScoreHistoryEntry[] {
+    return getEntriesForDay(this.scoreHistory, day);
+  }
+
+  getScoresNear(location: Coordinates, radius?: number): ScoreHistoryEntry[] {
+    return getEntriesNear(this.scoreHistory, location, radius);
+  }
+
+  // Daily summaries for the last few days with scores, oldest first
+  getDailySummaries(days: number = 7): DailyScoreSummary[] {
+    return summarizeByDay(this.scoreHistory).slice(-days);
+  }
+
+  getScoreTrend(days: number = 7): ScoreTrend {
+    return getScoreTrend(this.getDailySummaries(days));
+  }
+
+  clearScoreHistory(): void {
+    this.scoreHistory = [];
+    this.saveScoreHistory();
+  }
+
+  // Scores each upcoming stop of the trip itinerary at its planned visit
+  // time. The tourist's current behaviour carries over; future movement is
+  // unknown and scored as such.
+  forecastItinerary(now: Date = new Date()): ItineraryForecast {
+    const digitalID = BlockchainService.getCurrentDigitalID();
+    const profile = this.getRiskProfile();
+    const behaviorAssessment = this.assessBehaviorRisk(now);
+    const movementAssessment = assessMovementRisk([], now);
+    const groupSize = this.getGroupSize();
+    const today = toDayKey(now);
+
+    const stops: StopForecast[] = (
+      digitalID ? digitalID.tripItinerary.plannedLocations : []
+    )
+      .filter(
+        stop =>
+          !stop.isVisited && toDayKey(new Date(stop.plannedVisitDate)) >= today,
+      )
+      .map(stop => {
+        const visitTime = this.getVisitTime(stop);
+        return {
+          stop,
+          visitTime,
+          score: this.scoreAt(
+            stop.coordinates,
+            visitTime,
+            profile,
+            movementAssessment,
+            behaviorAssessment,
+            groupSize,
+          ),
+        };
+      })
+      .sort((a, b) => a.visitTime.getTime() - b.visitTime.getTime());
+
+    const days: DayForecast[] = [];
+    stops.forEach(stop => {
+      const day = toDayKey(stop.visitTime);
+      const existing = days.find(forecast => forecast.day === day);
+      if (!existing) {
+        days.push({
+          day,
+          stops: [stop],
+          score: stop.score.score,
+          riskLevel: stop.score.riskLevel,
+        });
+      } else {
+        existing.stops.push(stop);
+        if (stop.score.score > existing.score) {
+          existing.score = stop.score.score;
+          existing.riskLevel = stop.score.riskLevel;
+        }
       }
+    });
+
+    const riskiestStop = stops.reduce<StopForecast | null>(
+      (riskiest, stop) =>
+        !riskiest || stop.score.score > riskiest.score.score ? stop : riskiest,
+      null,
+    );
+    const riskiestDay = days.reduce<DayForecast | null>(
+      (riskiest, day) =>
+        !riskiest || day.score > riskiest.score ? day : riskiest,
+      null,
+    );
+
+    // Advice for every stop that is not low risk, before the tourist sets off
+    const advice = stops
+      .filter(stop => stop.score.riskLevel !== 'low')
+      .map(
+        stop =>
+          `${stop.stop.name} (${stop.visitTime.toLocaleDateString()}): ${
+            stop.score.recommendations[0]
+          }`,
+      );
+
+    return {stops, days, riskiestStop, riskiestDay, advice};
+  }
+
+  // Scores a polyline or the ordered itinerary stops segment by segment,
+  // each at the time it is expected to be passed after the departure
+  scoreRoute(
+    route: Coordinates[] | PlannedLocation[],
+    departure: Date,
+    options: RouteScoreOptions = {},
+  ): RouteScore {
+    const speed = options.speed || WALKING_SPEED;
+    const groupSize = options.groupSize || this.getGroupSize();
+    const waypoints: RouteWaypoint[] = (
+      route as Array<Coordinates | PlannedLocation>
+    ).map(point =>
+      'coordinates' in point ? {...point.coordinates, name: point.name} : point,
+    );
+    const profile = this.getRiskProfile();
+    const behaviorAssessment = this.assessBehaviorRisk(departure);
+    const movementAssessment = assessMovementRisk([], departure);
+
+    let elapsed = 0; // ms since departure
+    const segments = splitRoute(waypoints, options.segmentLength).map(
+      segment => {
+        const duration = (segment.length / speed) * 1000;
+        const segmentDeparture = new Date(departure.getTime() + elapsed);
+        const midpointTime = new Date(
+          segmentDeparture.getTime() + duration / 2,
+        );
+        elapsed += duration;
+
+        const midpoint = getSegmentMidpoint(segment);
+        const score = this.scoreAt(
+          midpoint,
+          midpointTime,
+          profile,
+          movementAssessment,
+          behaviorAssessment,
+          groupSize,
+        );
+        const warnings = getSegmentWarnings(
+          segment,
+          GeoFencingService.getActiveZonesNear(
+            midpoint,
+            segment.length / 2 + PASSING_DISTANCE,
+            midpointTime,
+          ),
+          getDaylightPhase(midpointTime, midpoint) !== 'day',
+        );
+
+        let riskLevel = score.riskLevel;
+        if (warnings.some(warning => warning.type === 'crosses-zone')) {
+          riskLevel = 'high';
+        } else if (warnings.length > 0 && riskLevel === 'low') {
+          riskLevel = 'medium';
+        }
+
+        return {
+          segment,
+          departure: segmentDeparture,
+          arrival: new Date(departure.getTime() + elapsed),
+          score,
+          riskLevel,
+          warnings,
+        };
+      },
+    );
+
+    const riskiestSegment = segments.reduce<RouteSegmentScore | null>(
+      (riskiest, segment) =>
+        !riskiest ||
+        RISK_LEVEL_ORDER.indexOf(segment.riskLevel) >
+          RISK_LEVEL_ORDER.indexOf(riskiest.riskLevel) ||
+        (segment.riskLevel === riskiest.riskLevel &&
+          segment.score.score > riskiest.score.score)
+          ? segment
+          : riskiest,
+      null,
+    );
+
+    return {
+      segments,
+      departure,
+      arrival: new Date(departure.getTime() + elapsed),
+      distance: segments.reduce(
+        (total, segment) => total + segment.segment.length,
+        0,
+      ),
+      riskLevel: riskiestSegment ? riskiestSegment.riskLevel : 'low',
+      riskiestSegment,
+    };
+  }
+
+  private getVisitTime(stop: PlannedLocation): Date {
+    const visitTime = new Date(stop.plannedVisitDate);
+    if (stop.isDateOnly) {
+      visitTime.setHours(DATE_ONLY_VISIT_HOUR, 0, 0, 0);
     }
+    return visitTime;
+  }
+
+  private createFactor(
+    key: SafetyFactorKey,
+    value: number,
+    weights: Record<SafetyFactorKey, number>,
+    profile: RiskProfile,
+    description: string,
+  ): SafetyFactor {
+    const {factorNegative, factorNeutral} = profile.thresholds;
+
+    return {
+      key,
+      name: SAFETY_FACTOR_NAMES[key],
+      value,
+      weight: weights[key],
+      impact:
+        value > factorNegative
+          ? 'negative'
+          : value > factorNeutral
+          ? 'neutral'
+          : 'positive',
+      description,
+    };
+  }
 
-    const distanceFromMainCity = this.calculateDistance(
-      location.latitude,
-      location.longitude,
-      20.2961,
-      85.8245,
+  // The tourist's chosen profile, or the one set for them by authorities
+  getRiskProfile(): RiskProfile {
+    const preferences = AuthService.getCurrentUser()?.preferences;
+    return resolveRiskProfile(
+      preferences?.riskProfileId,
+      preferences?.customRiskProfiles,
     );
+  }
 
-    if (distanceFromMainCity > 50000) return 60;
-    if (distanceFromMainCity > 20000) return 40;
-    return 20;
+  getAvailableRiskProfiles(): RiskProfile[] {
+    const customProfiles =
+      AuthService.getCurrentUser()?.preferences.customRiskProfiles || [];
+    return [
+      ...RISK_PROFILES.filter(
+        profile => !customProfiles.some(custom => custom.id === profile.id),
+      ),
+      ...customProfiles,
+    ];
   }
 
-  private calculateTimeRisk(): number {
-    const hour = new Date().getHours();
+  isRiskProfileSetByAuthority(): boolean {
+    return (
+      AuthService.getCurrentUser()?.preferences.riskProfileSetBy === 'authority'
+    );
+  }
+
+  async selectRiskProfile(profileId: string): Promise<void> {
+    if (this.isRiskProfileSetByAuthority()) {
+      throw new Error('Risk profile has been set by the authorities');
+    }
+    if (!this.getAvailableRiskProfiles().some(p => p.id === profileId)) {
+      throw new Error(`Unknown risk profile: ${profileId}`);
+    }
+
+    await AuthService.updatePreferences({
+      riskProfileId: profileId,
+      riskProfileSetBy: 'tourist',
+    });
+  }
+
+  // Authorities may assign a built-in profile by id or issue their own,
+  // which the tourist then cannot change until it is released
+  async assignRiskProfile(profile: string | RiskProfile): Promise<void> {
+    const existing =
+      AuthService.getCurrentUser()?.preferences.customRiskProfiles || [];
+    const customRiskProfiles =
+      typeof profile === 'string'
+        ? existing
+        : [...existing.filter(p => p.id !== profile.id), profile];
+    const profileId = typeof profile === 'string' ? profile : profile.id;
+
+    if (
+      !customRiskProfiles.some(p => p.id === profileId) &&
+      !RISK_PROFILES.some(p => p.id === profileId)
+    ) {
+      throw new Error(`Unknown risk profile: ${profileId}`);
+    }
+
+    await AuthService.updatePreferences({
+      riskProfileId: profileId,
+      riskProfileSetBy: 'authority',
+      customRiskProfiles,
+    });
+  }
+
+  async releaseRiskProfile(): Promise<void> {
+    await AuthService.updatePreferences({riskProfileSetBy: 'tourist'});
+  }
+
+  // Location risk from the safety_zones layer, the local zone types and the
+  // incident heat map, each decaying with distance from its source
+  assessLocationRisk(
+    location: Coordinates,
+    now: Date = new Date(),
+  ): LocationRiskAssessment {
+    const settings = this.locationRiskSettings;
+    const nearbyZones = GeoFencingService.getActiveZonesNear(
+      location,
+      getZoneRiskReach(settings),
+      now,
+    );
+
+    return assessLocationRisk(
+      location,
+      {
+        ...splitZoneLayers(nearbyZones),
+        heatMap: AuthorityDashboardService.getHeatMapData(),
+      },
+      settings,
+      now,
+    );
+  }
+
+  getLocationRiskSettings(): LocationRiskSettings {
+    return this.locationRiskSettings;
+  }
+
+  async updateLocationRiskSettings(
+    layer: LocationRiskLayer,
+    updates: Partial<LocationRiskLayerSettings>,
+  ): Promise<void> {
+    this.locationRiskSettings = {
+      ...this.locationRiskSettings,
+      [layer]: {...this.locationRiskSettings[layer], ...updates},
+    };
+    await this.saveLocationRiskSettings();
+  }
 
-    if (hour >= 22 || hour <= 5) return 80;
-    if (hour >= 19 || hour <= 7) return 60;
-    if (hour >= 17 || hour <= 9) return 40;
-    return 20;
+  // Time zone at the position, so a phone still on home time does not shift
+  // local hours
+  resolveTimeZone(location: Coordinates, now: Date = new Date()): string {
+    return resolveTimeZone(
+      location,
+      GeoFencingService.getActiveZonesNear(location, TIME_ZONE_REACH, now),
+    );
   }
 
-  private calculateMovementRisk(): number {
-    return 30; // Simplified for demo
+  // Follows actual darkness at the position: night is riskiest in the small
+  // hours, then after dark, in twilight and the hour and a half around
+  // sunrise and sunset
+  private calculateTimeRisk(location: Coordinates, at: Date): number {
+    const phase = getDaylightPhase(at, location);
+    if (phase === 'night') {
+      const {minutes} = getZonedDateParts(
+        at,
+        this.resolveTimeZone(location, at),
+      );
+      return minutes >= LATE_NIGHT_START || minutes < LATE_NIGHT_END ? 80 : 70;
+    }
+    if (phase === 'twilight') {
+      return 60;
+    }
+
+    const {sunrise, sunset} = getSolarTimes(at, location);
+    const isNearDarkness = [sunrise, sunset].some(
+      time => time && Math.abs(time.getTime() - at.getTime()) <= DUSK_MARGIN,
+    );
+    return isNearDarkness ? 40 : 20;
   }
 
-  private calculateBehaviorRisk(): number {
-    return 25; // Simplified for demo
+  private describeDaylight(location: Coordinates, at: Date): string {
+    const timeZone = this.resolveTimeZone(location, at);
+    const {solarNoon, sunrise, sunset} = getSolarTimes(at, location);
+    const format = (time: Date) =>
+      formatTimeOfDay(getZonedDateParts(time, timeZone).minutes);
+
+    switch (getDaylightPhase(at, location)) {
+      case 'day':
+        return sunset ? `daylight until ${format(sunset)}` : 'daylight all day';
+      case 'twilight':
+        return 'twilight';
+      default:
+        if (at > solarNoon) {
+          return sunset ? `dark since ${format(sunset)}` : 'dark all day';
+        }
+        return sunrise ? `dark until ${format(sunrise)}` : 'dark all day';
+    }
   }
 
-  private calculateEnvironmentalRisk(_location: LocationData): number {
-    const hour = new Date().getHours();
-    const isNight = hour >= 20 || hour <= 6;
+  // Erratic heading, stop-and-go and night movement over recent tracking
+  assessMovementRisk(now: Date = new Date()): MovementRiskAssessment {
+    return assessMovementRisk(TrackingService.getTrackingHistory(), now);
+  }
 
-    if (isNight) return 60;
-    return 30;
+  // Unresolved anomalies, geo-fence violations and recommendations the
+  // tourist has not acted on
+  assessBehaviorRisk(now: Date = new Date()): BehaviorRiskAssessment {
+    return assessBehaviorRisk(
+      {
+        anomalies: AIAnomalyDetectionService.getUnresolvedAnomalies(),
+        geofenceAlerts: GeoFencingService.getAlertHistory(),
+        ignoredRecommendations: this.getIgnoredRecommendationCount(now),
+      },
+      now,
+    );
   }
 
-  private calculateDistance(
-    lat1: number,
-    lon1: number,
-    lat2: number,
-    lon2: number,
-  ): number {
-    const R = 6371e3;
-    const φ1 = (lat1 * Math.PI) / 180;
-    const φ2 = (lat2 * Math.PI) / 180;
-    const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-    const Δλ = ((lon2 - lon1) * Math.PI) / 180;
+  // Starts the clock on recommendations for actionable factors and stops it
+  // once the factor recovers
+  private trackRecommendations(
+    factors: SafetyFactor[],
+    thresholds: RiskThresholds,
+  ) {
+    ACTIONABLE_FACTORS.forEach(key => {
+      const factor = factors.find(f => f.key === key);
+      const isRecommended =
+        factor &&
+        factor.impact === 'negative' &&
+        factor.value > thresholds.recommend;
+
+      if (!isRecommended) {
+        this.recommendationsGivenAt.delete(key);
+      } else if (!this.recommendationsGivenAt.has(key)) {
+        this.recommendationsGivenAt.set(key, new Date());
+      }
+    });
+  }
 
-    const a =
-      Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-      Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  private getIgnoredRecommendationCount(now: Date): number {
+    return Array.from(this.recommendationsGivenAt.values()).filter(
+      givenAt => now.getTime() - givenAt.getTime() > RECOMMENDATION_GRACE,
+    ).length;
+  }
 
-    return R * c;
+  // Darkness plus the weather and terrain warnings cached for the location
+  private calculateEnvironmentalRisk(
+    location: Coordinates,
+    at: Date,
+  ): EnvironmentalRiskAssessment {
+    return assessEnvironmentalRisk(
+      location,
+      EnvironmentalDataService.getConditions(location, at),
+      getDaylightPhase(at, location),
+      at,
+    );
   }
 
-  private determineRiskLevel(score: number): 'low' | 'medium' | 'high' {
-    if (score >= 70) return 'high';
-    if (score >= 40) return 'medium';
+  private determineRiskLevel(
+    score: number,
+    thresholds: RiskThresholds,
+  ): RiskLevel {
+    if (score >= thresholds.high) {
+      return 'high';
+    }
+    if (score >= thresholds.medium) {
+      return 'medium';
+    }
     return 'low';
   }
 
   private generateRecommendations(
     factors: SafetyFactor[],
-    score: number,
+    riskLevel: RiskLevel,
+    profile: RiskProfile,
   ): string[] {
     const recommendations: string[] = [];
 
     factors.forEach(factor => {
-      if (factor.impact === 'negative' && factor.value > 60) {
-        switch (factor.name) {
-          case 'Location Risk':
-            recommendations.push('Consider moving to a safer area');
-            break;
-          case 'Time Risk':
-            recommendations.push('Avoid traveling during high-risk hours');
-            break;
-          case 'Movement Pattern':
-            recommendations.push('Maintain steady movement patterns');
-            break;
-          case 'Historical Behavior':
-            recommendations.push('Follow safety guidelines more closely');
-            break;
-          case 'Environmental Risk':
-            recommendations.push('Be extra cautious of your surroundings');
-            break;
-        }
+      // Factors the profile gives no weight are not worth acting on
+      if (
+        factor.weight > 0 &&
+        factor.impact === 'negative' &&
+        factor.value > profile.thresholds.recommend
+      ) {
+        recommendations.push(
+          profile.recommendations?.[factor.key] ||
+            DEFAULT_RECOMMENDATIONS[factor.key],
+        );
       }
     });
 
-    if (score >= 70) {
-      recommendations.push('High risk detected - consider emergency contacts');
-    } else if (score >= 40) {
-      recommendations.push(
-        'Medium risk - stay alert and follow safety guidelines',
-      );
-    } else {
-      recommendations.push('Low risk - continue following safety practices');
-    }
+    recommendations.push(
+      profile.levelAdvice?.[riskLevel] || DEFAULT_LEVEL_ADVICE[riskLevel],
+    );
 
     return recommendations;
   }
@@ -0,0 +1,261 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {RealtimeChannel} from '@supabase/supabase-js';
+import {supabase} from '../integrations/supabase/client';
+import {GeoFenceZone, ZoneSchedule} from './LocationService';
+import {GeoFenceGeometry, GeoJSONPoint} from '../types/geojson';
+import {mapSafetyZoneRecord} from '../utils/safetyZoneMapping';
+
+// Row shape of public.safety_zones, as managed by the web SafetyZonesManager
+export interface SafetyZoneRecord {
+  id: string;
+  name: string;
+  description: string | null;
+  zone_type: 'safe' | 'caution' | 'danger';
+  coordinates: GeoJSONPoint | GeoFenceGeometry | null;
+  radius: number | null;
+  center_lat: number | null;
+  center_lng: number | null;
+  schedule: ZoneSchedule | null;
+  is_active: boolean;
+  updated_at: string;
+}
+
+export interface ZoneSyncStatus {
+  lastSyncedAt: Date | null;
+  zoneCount: number;
+  isSubscribed: boolean;
+  isSyncing: boolean;
+}
+
+const RESYNC_INTERVAL = 15 * 60 * 1000; // 15 minutes
+
+class SafetyZoneSyncServiceClass {
+  private zones: Map<string, GeoFenceZone> = new Map();
+  private lastSyncedAt: Date | null = null;
+  private channel: RealtimeChannel | null = null;
+  private resyncInterval: NodeJS.Timeout | null = null;
+  private isSyncing = false;
+  private zoneCallbacks: ((zones: GeoFenceZone[]) => void)[] = [];
+
+  async initialize() {
+    try {
+      // Geo-fencing starts on the cached zones; the download runs in the
+      // background so a slow or missing network does not hold it up
+      await this.loadCachedZones();
+      this.subscribeToChanges();
+      this.startPeriodicResync();
+      this.syncZones();
+      console.log('SafetyZoneSyncService initialized successfully');
+    } catch (error) {
+      console.error('SafetyZoneSyncService initialization failed:', error);
+    }
+  }
+
+  private async loadCachedZones() {
+    try {
+      const cached = await AsyncStorage.getItem('safetyZonesCache');
+      if (cached) {
+        const parsed = JSON.parse(cached);
+        this.zones = new Map(
+          parsed.zones.map((zone: GeoFenceZone) => [zone.id, zone]),
+        );
+        this.lastSyncedAt = parsed.lastSyncedAt
+          ? new Date(parsed.lastSyncedAt)
+          : null;
+      }
+    } catch (error) {
+      console.error('Failed to load cached safety zones:', error);
+    }
+  }
+
+  private async saveCachedZones() {
+    try {
+      await AsyncStorage.setItem(
+        'safetyZonesCache',
+        JSON.stringify({
+          zones: Array.from(this.zones.values()),
+          lastSyncedAt: this.lastSyncedAt,
+        }),
+      );
+    } catch (error) {
+      console.error('Failed to save safety zones cache:', error);
+    }
+  }
+
+  // Zones from the last successful sync, for use before the network is up
+  async getCachedZones(): Promise<GeoFenceZone[]> {
+    if (this.zones.size === 0) {
+      await this.loadCachedZones();
+    }
+    return this.getZones();
+  }
+
+  async syncZones(): Promise<boolean> {
+    if (this.isSyncing) {
+      return false;
+    }
+
+    this.isSyncing = true;
+    try {
+      const {data, error} = await supabase
+        .from('safety_zones')
+        .select('*')
+        .eq('is_active', true);
+
+      if (error) {
+        console.error('Failed to download safety zones:', error);
+        return false;
+      }
+
+      const zones = new Map<string, GeoFenceZone>();
+      ((data || []) as SafetyZoneRecord[]).forEach(record => {
+        const zone = mapSafetyZoneRecord(record);
+        if (zone) {
+          zones.set(zone.id, zone);
+        }
+      });
+
+      // Zones missing from a full download were deactivated or deleted
+      for (const zoneId of this.zones.keys()) {
+        if (!zones.has(zoneId)) {
+          await this.removeZone(zoneId);
+        }
+      }
+      for (const zone of zones.values()) {
+        await this.upsertZone(zone);
+      }
+
+      this.lastSyncedAt = new Date();
+      await this.saveCachedZones();
+      this.notifyZoneCallbacks();
+      return true;
+    } catch (error) {
+      console.error('Safety zone sync failed:', error);
+      return false;
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+
+  private subscribeToChanges() {
+    if (this.channel) {
+      return;
+    }
+
+    this.channel = supabase
+      .channel('mobile_safety_zones')
+      .on(
+        'postgres_changes',
+        {event: '*', schema: 'public', table: 'safety_zones'},
+        payload => {
+          this.handleRealtimeChange(
+            payload.eventType,
+            payload.new as SafetyZoneRecord,
+            payload.old as Partial<SafetyZoneRecord>,
+          );
+        },
+      )
+      .subscribe();
+  }
+
+  // Row level security hides rows once they are deactivated, so realtime may
+  // never deliver that update; a periodic full download catches those.
+  private startPeriodicResync() {
+    if (this.resyncInterval) {
+      return;
+    }
+
+    this.resyncInterval = setInterval(() => {
+      this.syncZones();
+    }, RESYNC_INTERVAL);
+  }
+
+  private async handleRealtimeChange(
+    eventType: 'INSERT' | 'UPDATE' | 'DELETE',
+    record: SafetyZoneRecord,
+    oldRecord: Partial<SafetyZoneRecord>,
+  ) {
+    try {
+      if (eventType === 'DELETE') {
+        if (oldRecord.id) {
+          await this.removeZone(oldRecord.id);
+        }
+      } else if (!record.is_active) {
+        await this.removeZone(record.id);
+      } else {
+        const zone = mapSafetyZoneRecord(record);
+        if (zone) {
+          await this.upsertZone(zone);
+        }
+      }
+
+      await this.saveCachedZones();
+      this.notifyZoneCallbacks();
+    } catch (error) {
+      console.error('Failed to apply safety zone change:', error);
+    }
+  }
+
+  private async upsertZone(zone: GeoFenceZone) {
+    const {GeoFencingService} = await import('./GeoFencingService');
+    const exists = GeoFencingService.getGeoFenceZones().some(
+      existing => existing.id === zone.id,
+    );
+
+    if (exists) {
+      await GeoFencingService.updateGeoFenceZone(zone.id, zone);
+    } else {
+      await GeoFencingService.addGeoFenceZone(zone);
+    }
+    this.zones.set(zone.id, zone);
+  }
+
+  private async removeZone(zoneId: string) {
+    if (!this.zones.has(zoneId)) {
+      return;
+    }
+
+    const {GeoFencingService} = await import('./GeoFencingService');
+    await GeoFencingService.removeGeoFenceZone(zoneId);
+    this.zones.delete(zoneId);
+  }
+
+  stopSync() {
+    if (this.channel) {
+      supabase.removeChannel(this.channel);
+      this.channel = null;
+    }
+    if (this.resyncInterval) {
+      clearInterval(this.resyncInterval);
+      this.resyncInterval = null;
+    }
+  }
+
+  getZones(): GeoFenceZone[] {
+    return Array.from(this.zones.values());
+  }
+
+  getSyncStatus(): ZoneSyncStatus {
+    return {
+      lastSyncedAt: this.lastSyncedAt,
+      zoneCount: this.zones.size,
+      isSubscribed: this.channel !== null,
+      isSyncing: this.isSyncing,
+    };
+  }
+
+  addZonesCallback(callback: (zones: GeoFenceZone[]) => void) {
+    this.zoneCallbacks.push(callback);
+  }
+
+  removeZonesCallback(callback: (zones: GeoFenceZone[]) => void) {
+    this.zoneCallbacks = this.zoneCallbacks.filter(cb => cb !== callback);
+  }
+
+  private notifyZoneCallbacks() {
+    const zones = this.getZones();
+    this.zoneCallbacks.forEach(callback => callback(zones));
+  }
+}
+
+export const SafetyZoneSyncService = new SafetyZoneSyncServiceClass();
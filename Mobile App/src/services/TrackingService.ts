@@ -1,9 +1,35 @@
 import {LocationData} from './LocationService';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import {Platform} from 'react-native';
+import RNFS from 'react-native-fs';
+import Share from 'react-native-share';
+import {haversineDistance} from '../utils/geo';
+import {
+  determineActivityState,
+  getSamplingInterval,
+} from '../utils/activitySampling';
+import {
+  buildTrackExport,
+  TrackExport,
+  TrackExportFormat,
+} from '../utils/trackExport';
+import {GeoFenceAlert} from './GeoFencingService';
+
+export type ActivityState = 'stationary' | 'walking' | 'vehicle';
+
+// Milliseconds between location samples
+export interface SamplingIntervals {
+  stationary: number;
+  walking: number;
+  vehicle: number;
+  highFrequency: number; // during a panic alert or inside a high-risk zone
+}
 
 export interface TrackingSettings {
   isEnabled: boolean;
-  updateInterval: number;
+  updateInterval: number; // fixed interval used when adaptive sampling is off
+  adaptiveSampling: boolean;
+  samplingIntervals: SamplingIntervals;
   shareWithFamily: boolean;
   shareWithPolice: boolean;
   shareWithTourism: boolean;
@@ -16,6 +42,13 @@ export interface TrackingStats {
   averageSpeed: number;
   maxSpeed: number;
   locationCount: number;
+  activityState: ActivityState;
+  samplingInterval: number; // ms, the interval currently in use
+  samplesTaken: number; // this tracking session
+  // Samples avoided compared with the fixed updateInterval; negative when
+  // fast movement or an emergency needed more frequent sampling
+  samplesSaved: number;
+  samplingSavedPercent: number;
 }
 
 class TrackingServiceClass {
@@ -24,13 +57,24 @@ class TrackingServiceClass {
   private trackingSettings: TrackingSettings = {
     isEnabled: false,
     updateInterval: 5000,
+    adaptiveSampling: true,
+    samplingIntervals: {
+      stationary: 60000,
+      walking: 5000,
+      vehicle: 2000,
+      highFrequency: 1000,
+    },
     shareWithFamily: false,
     shareWithPolice: false,
     shareWithTourism: false,
     maxHistorySize: 1000,
   };
   private trackingCallbacks: ((location: LocationData) => void)[] = [];
-  private trackingInterval: NodeJS.Timeout | null = null;
+  private trackingTimeout: NodeJS.Timeout | null = null;
+  private activityState: ActivityState = 'walking';
+  private samplingInterval = this.trackingSettings.updateInterval;
+  private samplesTaken = 0;
+  private trackingStartedAt: number | null = null;
 
   async initialize() {
     try {
@@ -46,9 +90,15 @@ class TrackingServiceClass {
     try {
       const settings = await AsyncStorage.getItem('trackingSettings');
       if (settings) {
+        const stored = JSON.parse(settings);
+        // Intervals merged one by one so ones added later keep their defaults
         this.trackingSettings = {
           ...this.trackingSettings,
-          ...JSON.parse(settings),
+          ...stored,
+          samplingIntervals: {
+            ...this.trackingSettings.samplingIntervals,
+            ...stored.samplingIntervals,
+          },
         };
       }
     } catch (error) {
@@ -108,7 +158,11 @@ class TrackingServiceClass {
       this.trackingSettings.isEnabled = true;
       await this.saveSettings();
 
-      this.startTrackingInterval();
+      this.activityState = 'walking';
+      this.samplesTaken = 0;
+      this.trackingStartedAt = Date.now();
+      await this.subscribeToSafetyChanges();
+      await this.sampleLocation();
 
       console.log('Tracking started successfully');
     } catch (error) {
@@ -127,25 +181,110 @@ class TrackingServiceClass {
     this.trackingSettings.isEnabled = false;
     this.saveSettings();
 
-    if (this.trackingInterval) {
-      clearInterval(this.trackingInterval);
-      this.trackingInterval = null;
+    if (this.trackingTimeout) {
+      clearTimeout(this.trackingTimeout);
+      this.trackingTimeout = null;
     }
+    this.unsubscribeFromSafetyChanges();
 
     console.log('Tracking stopped');
   }
 
-  private startTrackingInterval() {
-    this.trackingInterval = setInterval(async () => {
-      try {
-        const location = await this.getCurrentLocation();
-        if (location) {
-          this.addLocationToHistory(location);
-        }
-      } catch (error) {
-        console.error('Tracking interval error:', error);
+  // Takes one sample, then schedules the next one using whatever interval
+  // the tourist's activity and safety situation call for at that point
+  private async sampleLocation() {
+    if (!this.isTracking) {
+      return;
+    }
+
+    try {
+      this.samplesTaken++;
+      const location = await this.getCurrentLocation();
+      if (location) {
+        this.addLocationToHistory(location);
       }
-    }, this.trackingSettings.updateInterval);
+    } catch (error) {
+      console.error('Tracking sample error:', error);
+    }
+
+    await this.scheduleNextSample();
+  }
+
+  private async scheduleNextSample() {
+    const interval = await this.getSamplingInterval();
+
+    // Cleared after the await so overlapping samples leave a single timer
+    if (this.trackingTimeout) {
+      clearTimeout(this.trackingTimeout);
+      this.trackingTimeout = null;
+    }
+    if (!this.isTracking) {
+      return;
+    }
+
+    this.samplingInterval = interval;
+    this.trackingTimeout = setTimeout(() => {
+      this.trackingTimeout = null;
+      this.sampleLocation();
+    }, interval);
+  }
+
+  private async getSamplingInterval(): Promise<number> {
+    if (!this.trackingSettings.adaptiveSampling) {
+      return this.trackingSettings.updateInterval;
+    }
+
+    const isHighFrequencyRequired = await this.isHighFrequencyRequired();
+    this.activityState = determineActivityState(
+      this.trackingHistory,
+      this.activityState,
+    );
+    return getSamplingInterval(
+      this.trackingSettings,
+      this.activityState,
+      isHighFrequencyRequired,
+    );
+  }
+
+  private async isHighFrequencyRequired(): Promise<boolean> {
+    const {PanicButtonService} = await import('./PanicButtonService');
+    if (PanicButtonService.isPanicButtonActive()) {
+      return true;
+    }
+
+    // Restricted zones are the authority-marked danger areas, so they count
+    const {GeoFencingService} = await import('./GeoFencingService');
+    return GeoFencingService.getOccupiedZones().some(
+      zone => zone.type === 'high-risk' || zone.type === 'restricted',
+    );
+  }
+
+  // A panic alert or a high-risk zone entry should not wait out a long
+  // stationary interval, so sample straight away and reschedule
+  private handleSafetyStateChange = () => {
+    if (this.isTracking) {
+      this.sampleLocation();
+    }
+  };
+
+  private handleGeoFenceAlert = (alert: GeoFenceAlert) => {
+    if (alert.alertType === 'enter' || alert.alertType === 'exit') {
+      this.handleSafetyStateChange();
+    }
+  };
+
+  private async subscribeToSafetyChanges() {
+    const {PanicButtonService} = await import('./PanicButtonService');
+    const {GeoFencingService} = await import('./GeoFencingService');
+    PanicButtonService.addPanicCallback(this.handleSafetyStateChange);
+    GeoFencingService.addAlertCallback(this.handleGeoFenceAlert);
+  }
+
+  private async unsubscribeFromSafetyChanges() {
+    const {PanicButtonService} = await import('./PanicButtonService');
+    const {GeoFencingService} = await import('./GeoFencingService');
+    PanicButtonService.removePanicCallback(this.handleSafetyStateChange);
+    GeoFencingService.removeAlertCallback(this.handleGeoFenceAlert);
   }
 
   private async getCurrentLocation(): Promise<LocationData | null> {
@@ -159,6 +298,11 @@ class TrackingServiceClass {
   }
 
   private addLocationToHistory(location: LocationData) {
+    // Fixes the location filter rejected would show up as spikes in the track
+    if (location.source === 'raw') {
+      return;
+    }
+
     this.trackingHistory.push(location);
 
     if (this.trackingHistory.length > this.trackingSettings.maxHistorySize) {
@@ -195,6 +339,7 @@ class TrackingServiceClass {
         averageSpeed: 0,
         maxSpeed: 0,
         locationCount: this.trackingHistory.length,
+        ...this.getSamplingStats(),
       };
     }
 
@@ -207,12 +352,7 @@ class TrackingServiceClass {
       const prev = this.trackingHistory[i - 1];
       const curr = this.trackingHistory[i];
 
-      const distance = this.calculateDistance(
-        prev.latitude,
-        prev.longitude,
-        curr.latitude,
-        curr.longitude,
-      );
+      const distance = haversineDistance(prev, curr);
       totalDistance += distance;
 
       const timeDiff = (curr.timestamp - prev.timestamp) / 1000;
@@ -231,27 +371,30 @@ class TrackingServiceClass {
       averageSpeed,
       maxSpeed,
       locationCount: this.trackingHistory.length,
+      ...this.getSamplingStats(),
     };
   }
 
-  private calculateDistance(
-    lat1: number,
-    lon1: number,
-    lat2: number,
-    lon2: number,
-  ): number {
-    const R = 6371e3;
-    const φ1 = (lat1 * Math.PI) / 180;
-    const φ2 = (lat2 * Math.PI) / 180;
-    const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-    const Δλ = ((lon2 - lon1) * Math.PI) / 180;
-
-    const a =
-      Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-      Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-    return R * c;
+  private getSamplingStats() {
+    const elapsed =
+      this.isTracking && this.trackingStartedAt
+        ? Date.now() - this.trackingStartedAt
+        : 0;
+    // The fixed interval would have sampled once at start and once per tick
+    const fixedRateSamples = elapsed
+      ? Math.floor(elapsed / this.trackingSettings.updateInterval) + 1
+      : 0;
+    const samplesSaved = fixedRateSamples - this.samplesTaken;
+
+    return {
+      activityState: this.activityState,
+      samplingInterval: this.samplingInterval,
+      samplesTaken: this.samplesTaken,
+      samplesSaved,
+      samplingSavedPercent: fixedRateSamples
+        ? (samplesSaved / fixedRateSamples) * 100
+        : 0,
+    };
   }
 
   getTrackingSettings(): TrackingSettings {
@@ -263,6 +406,10 @@ class TrackingServiceClass {
   ): Promise<void> {
     this.trackingSettings = {...this.trackingSettings, ...settings};
     await this.saveSettings();
+
+    if (this.isTracking) {
+      await this.scheduleNextSample();
+    }
   }
 
   isTrackingActive(): boolean {
@@ -284,12 +431,42 @@ class TrackingServiceClass {
     this.saveTrackingHistory();
   }
 
-  exportTrackingData(): string {
-    return JSON.stringify({
-      settings: this.trackingSettings,
-      history: this.trackingHistory,
-      stats: this.getTrackingStats(),
-      exportedAt: new Date().toISOString(),
+  exportTrack(format: TrackExportFormat): TrackExport {
+    return buildTrackExport(this.trackingHistory, format);
+  }
+
+  // Writes the export to the cache and opens the share sheet, so the user
+  // can send it to family or investigators or save it with another app
+  async shareTrackExport(format: TrackExportFormat): Promise<TrackExport> {
+    const trackExport = this.exportTrack(format);
+    const path = `${RNFS.CachesDirectoryPath}/${trackExport.fileName}`;
+    await RNFS.writeFile(path, trackExport.content, 'utf8');
+
+    await this.openShareSheet(path, trackExport);
+    return trackExport;
+  }
+
+  // Saves to the app's Documents folder, which needs no storage permission.
+  // Scoped storage keeps that folder private on Android, so the share sheet
+  // follows to copy the file to Downloads or Drive. Resolves with the path.
+  async saveTrackExport(format: TrackExportFormat): Promise<string> {
+    const trackExport = this.exportTrack(format);
+    const path = `${RNFS.DocumentDirectoryPath}/${trackExport.fileName}`;
+    await RNFS.writeFile(path, trackExport.content, 'utf8');
+
+    if (Platform.OS === 'android') {
+      await this.openShareSheet(path, trackExport);
+    }
+    return path;
+  }
+
+  private async openShareSheet(path: string, trackExport: TrackExport) {
+    await Share.open({
+      title: 'Share tracking history',
+      url: `file://${path}`,
+      type: trackExport.mimeType,
+      filename: trackExport.fileName,
+      failOnCancel: false,
     });
   }
 }
@@ -0,0 +1,463 @@
+import {LocationData} from './LocationService';
+import {
+  AnomalyEvent,
+  BehaviorPattern,
+  MLModelPrediction,
+} from './AIAnomalyDetectionService';
+import {TripItinerary} from './BlockchainService';
+import {getPathLength, haversineDistance} from '../utils/geo';
+import {
+  AnomalyFeatureKey,
+  AnomalyFeatures,
+  AnomalyModel,
+  scoreAnomaly,
+} from '../utils/anomalyModel';
+import {DetectorConfig, DetectorConfigSchema} from '../utils/detectorConfig';
+import {
+  assessItineraryDeviation,
+  describeItineraryDeviation,
+} from '../utils/itineraryCorridor';
+
+// Everything a detector gets to look at on each monitoring round
+export interface DetectorContext<C extends DetectorConfig = DetectorConfig> {
+  location: LocationData; // the latest fix
+  history: LocationData[]; // the last 24 hours, oldest first
+  now: Date;
+  itinerary: TripItinerary | null;
+  behaviorPattern: BehaviorPattern | null;
+  anomalyModel: AnomalyModel;
+  features: AnomalyFeatures; // of the latest fix
+  config: C; // the detector's settings, defaults filled in
+}
+
+// What a detector reports; the service adds the id, type, time and location
+export interface AnomalyDetection {
+  severity: AnomalyEvent['severity'];
+  description: string;
+  confidence: number; // 0-1
+  metadata?: Record<string, any>;
+}
+
+// A check run against the tourist's movement every monitoring round, such as
+// night-time entry into a forest zone or a sudden altitude drop
+export interface AnomalyDetector<C extends DetectorConfig = DetectorConfig> {
+  id: string;
+  name: string;
+  anomalyType: string; // type of the anomalies it raises
+  configSchema: DetectorConfigSchema<C>;
+  enabledByDefault?: boolean; // true when unset
+  // Detections in the same group merge into one incident; by default each
+  // anomaly type is its own group
+  incidentGroup?: string;
+  cooldown?: number; // ms before a cleared anomaly is raised again
+  evaluate(
+    context: DetectorContext<C>,
+  ): Promise<AnomalyDetection | null> | AnomalyDetection | null;
+}
+
+// Places visited this often count as the tourist's usual places
+export const MIN_USUAL_VISITS = 3;
+
+export function getSpeeds(locations: LocationData[]): number[] {
+  const speeds: number[] = [];
+  for (let i = 1; i < locations.length; i++) {
+    const prev = locations[i - 1];
+    const curr = locations[i];
+    const distance = haversineDistance(prev, curr);
+    const timeDiff = (curr.timestamp - prev.timestamp) / 1000; // seconds
+    if (timeDiff > 0) {
+      speeds.push(distance / timeDiff);
+    }
+  }
+  return speeds;
+}
+
+export function getAverageSpeed(locations: LocationData[]): number {
+  const speeds = getSpeeds(locations);
+  if (speeds.length === 0) {
+    return 0;
+  }
+  return speeds.reduce((sum, speed) => sum + speed, 0) / speeds.length;
+}
+
+type UsualPlace = BehaviorPattern['frequentLocations'][number];
+
+export function getUsualPlaces(
+  behaviorPattern: BehaviorPattern | null,
+): UsualPlace[] {
+  return (behaviorPattern?.frequentLocations || []).filter(
+    place => place.visitCount >= MIN_USUAL_VISITS,
+  );
+}
+
+interface LocationDropoffConfig extends DetectorConfig {
+  threshold: number;
+  criticalAfter: number;
+}
+
+export class LocationDropoffDetector
+  implements AnomalyDetector<LocationDropoffConfig>
+{
+  readonly id = 'location_dropoff';
+  readonly name = 'Location dropoff';
+  readonly anomalyType = 'location_dropoff';
+  readonly configSchema = {
+    threshold: {
+      label: 'No location update for',
+      default: 30,
+      unit: 'minutes',
+      min: 1,
+    },
+    criticalAfter: {
+      label: 'Critical after',
+      default: 120,
+      unit: 'minutes',
+      min: 1,
+    },
+  };
+
+  evaluate({
+    location,
+    now,
+    config,
+  }: DetectorContext<LocationDropoffConfig>): AnomalyDetection | null {
+    const timeSinceLastUpdate =
+      (now.getTime() - location.timestamp) / (1000 * 60); // minutes
+    if (timeSinceLastUpdate <= config.threshold) {
+      return null;
+    }
+
+    return {
+      severity:
+        timeSinceLastUpdate > config.criticalAfter ? 'critical' : 'high',
+      description: `No location update for ${Math.round(
+        timeSinceLastUpdate,
+      )} minutes`,
+      confidence: 0.9,
+      metadata: {timeSinceLastUpdate, threshold: config.threshold},
+    };
+  }
+}
+
+interface InactivityConfig extends DetectorConfig {
+  window: number;
+  minDistancePerHour: number;
+}
+
+export class InactivityDetector implements AnomalyDetector<InactivityConfig> {
+  readonly id = 'inactivity';
+  readonly name = 'Inactivity';
+  readonly anomalyType = 'inactivity';
+  readonly configSchema = {
+    window: {
+      label: 'Activity measured over',
+      default: 1440,
+      unit: 'minutes',
+      min: 10,
+    },
+    minDistancePerHour: {
+      label: 'Less movement than',
+      default: 100,
+      unit: 'm/h',
+      min: 0,
+    },
+  };
+
+  evaluate({
+    history,
+    now,
+    config,
+  }: DetectorContext<InactivityConfig>): AnomalyDetection | null {
+    const recentLocations = history.filter(
+      loc => (now.getTime() - loc.timestamp) / (1000 * 60) <= config.window,
+    );
+    if (recentLocations.length < 2) {
+      return null;
+    }
+
+    const totalDistance = getPathLength(recentLocations);
+    const timeSpan =
+      (now.getTime() - recentLocations[0].timestamp) / (1000 * 60 * 60); // hours
+    const averageSpeed = totalDistance / timeSpan; // m/h
+    if (averageSpeed >= config.minDistancePerHour) {
+      return null;
+    }
+
+    return {
+      severity: 'medium',
+      description: `Low activity detected: ${Math.round(
+        averageSpeed,
+      )}m/h over ${Math.round(timeSpan)}h`,
+      confidence: 0.7,
+      metadata: {averageSpeed, timeSpan, totalDistance},
+    };
+  }
+}
+
+interface RouteDeviationConfig extends DetectorConfig {
+  corridorWidth: number;
+  highDistance: number;
+  highLateness: number;
+}
+
+// Measured against the route planned for the day when there is one, so a
+// new trip is not flagged for having no usual places yet
+export class RouteDeviationDetector
+  implements AnomalyDetector<RouteDeviationConfig>
+{
+  readonly id = 'route_deviation';
+  readonly name = 'Route deviation';
+  readonly anomalyType = 'route_deviation';
+  readonly configSchema = {
+    corridorWidth: {
+      label: 'Allowed distance from the planned route',
+      default: 1000,
+      unit: 'meters',
+      min: 50,
+    },
+    highDistance: {
+      label: 'High severity beyond',
+      default: 5000,
+      unit: 'meters',
+      min: 50,
+    },
+    highLateness: {
+      label: 'High severity when late by',
+      default: 180,
+      unit: 'minutes',
+      min: 1,
+    },
+  };
+
+  evaluate(
+    context: DetectorContext<RouteDeviationConfig>,
+  ): AnomalyDetection | null {
+    const {location, history, now, itinerary, config} = context;
+    const deviation = itinerary
+      ? assessItineraryDeviation(
+          itinerary,
+          location,
+          history,
+          now,
+          config.corridorWidth,
+        )
+      : null;
+    if (!deviation) {
+      return this.evaluateUsualPlaces(context);
+    }
+    if (!deviation.isOffRoute && deviation.lateStops.length === 0) {
+      return null;
+    }
+
+    const maxMinutesLate = Math.max(
+      0,
+      ...deviation.lateStops.map(({minutesLate}) => minutesLate),
+    );
+    const severity =
+      deviation.distanceFromRoute > config.highDistance ||
+      maxMinutesLate > config.highLateness ||
+      deviation.lateStops.some(({stop}) => stop.riskLevel === 'high')
+        ? 'high'
+        : 'medium';
+
+    return {
+      severity,
+      description: `Off the planned itinerary: ${describeItineraryDeviation(
+        deviation,
+      )}`,
+      confidence: 0.85,
+      metadata: {
+        mode: 'itinerary',
+        leg: {
+          index: deviation.leg.index,
+          label: deviation.leg.label,
+          fromStopId: deviation.leg.from.stop?.id,
+          toStopId: deviation.leg.to.stop?.id,
+        },
+        deviationDistance: deviation.distanceFromRoute,
+        corridorWidth: config.corridorWidth,
+        lateStops: deviation.lateStops.map(({stop, minutesLate}) => ({
+          stopId: stop.id,
+          name: stop.name,
+          plannedVisitDate: stop.plannedVisitDate,
+          minutesLate,
+        })),
+      },
+    };
+  }
+
+  private evaluateUsualPlaces({
+    location,
+    behaviorPattern,
+    config,
+  }: DetectorContext<RouteDeviationConfig>): AnomalyDetection | null {
+    let nearestFrequentLocation: UsualPlace | null = null;
+    let distance = Infinity;
+    for (const place of getUsualPlaces(behaviorPattern)) {
+      const placeDistance = haversineDistance(location, place.coordinates);
+      if (placeDistance < distance) {
+        distance = placeDistance;
+        nearestFrequentLocation = place;
+      }
+    }
+    if (!nearestFrequentLocation || distance <= config.corridorWidth) {
+      return null;
+    }
+
+    return {
+      severity: distance > config.highDistance ? 'high' : 'medium',
+      description: `Significant deviation from normal route: ${Math.round(
+        distance,
+      )}m from frequent location`,
+      confidence: 0.8,
+      metadata: {
+        mode: 'usual-places',
+        deviationDistance: distance,
+        nearestFrequentLocation,
+      },
+    };
+  }
+}
+
+interface SpeedAnomalyConfig extends DetectorConfig {
+  threshold: number;
+  highSpeed: number;
+}
+
+export class SpeedAnomalyDetector
+  implements AnomalyDetector<SpeedAnomalyConfig>
+{
+  readonly id = 'speed_anomaly';
+  readonly name = 'Unusual speed';
+  readonly anomalyType = 'speed_anomaly';
+  readonly configSchema = {
+    threshold: {
+      label: 'Faster than',
+      default: 20, // 72 km/h
+      unit: 'm/s',
+      min: 1,
+    },
+    highSpeed: {
+      label: 'High severity above',
+      default: 50,
+      unit: 'm/s',
+      min: 1,
+    },
+  };
+
+  evaluate({
+    history,
+    config,
+  }: DetectorContext<SpeedAnomalyConfig>): AnomalyDetection | null {
+    if (history.length < 2) {
+      return null;
+    }
+
+    const averageSpeed = getAverageSpeed(history.slice(-5));
+    if (averageSpeed <= config.threshold) {
+      return null;
+    }
+
+    return {
+      severity: averageSpeed > config.highSpeed ? 'high' : 'medium',
+      description: `Unusual speed detected: ${Math.round(
+        averageSpeed * 3.6,
+      )} km/h`,
+      confidence: 0.8,
+      metadata: {speed: averageSpeed, threshold: config.threshold},
+    };
+  }
+}
+
+const FEATURE_RECOMMENDATIONS: Record<AnomalyFeatureKey, string> = {
+  hour: 'Check if user is safe at this unusual hour',
+  speed: 'Confirm the user is travelling by choice',
+  distanceFromUsual: 'Verify the user meant to leave their usual area',
+  stepDistance: 'Verify location accuracy',
+  accuracy: 'Verify location accuracy',
+};
+
+export function predictBehaviorAnomaly(
+  model: AnomalyModel,
+  features: AnomalyFeatures,
+): MLModelPrediction {
+  const result = scoreAnomaly(model, features);
+  // The model alone never makes an anomaly critical, which would halve the
+  // time the tourist has to answer the check-in
+  const predictedRisk: MLModelPrediction['predictedRisk'] =
+    result.anomalyScore > 0.6
+      ? 'high'
+      : result.anomalyScore > 0.4
+      ? 'medium'
+      : 'low';
+
+  const recommendations: string[] = [];
+  result.contributions.forEach(({feature}) => {
+    const recommendation = FEATURE_RECOMMENDATIONS[feature];
+    if (!recommendations.includes(recommendation)) {
+      recommendations.push(recommendation);
+    }
+  });
+
+  return {
+    anomalyScore: result.anomalyScore,
+    predictedRisk,
+    contributingFactors: result.contributions.map(
+      contribution => contribution.description,
+    ),
+    recommendations,
+    confidence: result.confidence,
+  };
+}
+
+interface BehaviorAnomalyConfig extends DetectorConfig {
+  minScore: number;
+}
+
+export class BehaviorAnomalyDetector
+  implements AnomalyDetector<BehaviorAnomalyConfig>
+{
+  readonly id = 'behavior_anomaly';
+  readonly name = 'Unusual behaviour';
+  readonly anomalyType = 'behavior_anomaly';
+  readonly configSchema = {
+    minScore: {
+      label: 'Anomaly score above',
+      default: 0.7,
+      min: 0,
+      max: 1,
+    },
+  };
+
+  evaluate({
+    anomalyModel,
+    features,
+    config,
+  }: DetectorContext<BehaviorAnomalyConfig>): AnomalyDetection | null {
+    const prediction = predictBehaviorAnomaly(anomalyModel, features);
+    if (prediction.anomalyScore <= config.minScore) {
+      return null;
+    }
+
+    return {
+      severity: prediction.predictedRisk,
+      description: `ML model detected behavioral anomaly: ${prediction.contributingFactors.join(
+        ', ',
+      )}`,
+      confidence: prediction.confidence,
+      metadata: {
+        mlPrediction: prediction,
+        features,
+        modelMode: anomalyModel.mode,
+      },
+    };
+  }
+}
+
+export const createBuiltInDetectors = (): AnomalyDetector[] => [
+  new LocationDropoffDetector(),
+  new InactivityDetector(),
+  new RouteDeviationDetector(),
+  new SpeedAnomalyDetector(),
+  new BehaviorAnomalyDetector(),
+];
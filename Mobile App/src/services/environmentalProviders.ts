@@ -0,0 +1,95 @@
+import RNFS from 'react-native-fs';
+import {Coordinates} from '../utils/geo';
+import {
+  EnvironmentalCondition,
+  parseEnvironmentalFeed,
+} from '../utils/environmentalRisk';
+
+// A source of environmental conditions around a location, such as a weather
+// service, a disaster management feed or a bundled hazard map
+export interface EnvironmentalProvider {
+  id: string;
+  ttl: number; // ms fetched conditions stay fresh
+  fetchConditions(location: Coordinates): Promise<EnvironmentalCondition[]>;
+}
+
+const DEFAULT_TTL = 30 * 60 * 1000; // 30 minutes
+const DEFAULT_HTTP_TIMEOUT = 10 * 1000;
+
+// Fixed conditions, for demos, tests and hazards known ahead of time
+export class FixtureEnvironmentalProvider implements EnvironmentalProvider {
+  constructor(
+    readonly id: string,
+    private conditions: EnvironmentalCondition[],
+    readonly ttl: number = DEFAULT_TTL,
+  ) {}
+
+  async fetchConditions(): Promise<EnvironmentalCondition[]> {
+    return this.conditions.map(condition => ({...condition, source: this.id}));
+  }
+}
+
+// A feed file on the device, e.g. a landslide map downloaded before a trek
+export class FileEnvironmentalProvider implements EnvironmentalProvider {
+  constructor(
+    readonly id: string,
+    private path: string,
+    readonly ttl: number = DEFAULT_TTL,
+  ) {}
+
+  async fetchConditions(): Promise<EnvironmentalCondition[]> {
+    const content = await RNFS.readFile(this.path, 'utf8');
+    return parseEnvironmentalFeed(JSON.parse(content), this.id);
+  }
+}
+
+export interface HttpEnvironmentalProviderOptions {
+  id: string;
+  // {lat} and {lng} are replaced with the location
+  url: string;
+  ttl?: number;
+  timeout?: number; // ms
+  headers?: Record<string, string>;
+  // Maps a feed in another format onto conditions
+  parse?: (data: unknown, source: string) => EnvironmentalCondition[];
+}
+
+export class HttpEnvironmentalProvider implements EnvironmentalProvider {
+  readonly id: string;
+  readonly ttl: number;
+
+  constructor(private options: HttpEnvironmentalProviderOptions) {
+    this.id = options.id;
+    this.ttl = options.ttl ?? DEFAULT_TTL;
+  }
+
+  async fetchConditions(
+    location: Coordinates,
+  ): Promise<EnvironmentalCondition[]> {
+    const url = this.options.url
+      .replace('{lat}', String(location.latitude))
+      .replace('{lng}', String(location.longitude));
+
+    const controller = new AbortController();
+    const timeout = setTimeout(
+      () => controller.abort(),
+      this.options.timeout ?? DEFAULT_HTTP_TIMEOUT,
+    );
+    try {
+      const response = await fetch(url, {
+        headers: {Accept: 'application/json', ...this.options.headers},
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new Error(
+          `Environmental feed ${this.id} responded with ${response.status}`,
+        );
+      }
+
+      const data = await response.json();
+      return (this.options.parse || parseEnvironmentalFeed)(data, this.id);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
@@ -0,0 +1,23 @@
+// GeoJSON (RFC 7946) geometry shapes used for geo-fence zones.
+// Positions are [longitude, latitude], matching the safety_zones table.
+export type GeoJSONPosition = [number, number];
+
+export type GeoJSONLinearRing = GeoJSONPosition[];
+
+export interface GeoJSONPoint {
+  type: 'Point';
+  coordinates: GeoJSONPosition;
+}
+
+export interface GeoJSONPolygon {
+  type: 'Polygon';
+  // First ring is the outer boundary, any further rings are holes
+  coordinates: GeoJSONLinearRing[];
+}
+
+export interface GeoJSONMultiPolygon {
+  type: 'MultiPolygon';
+  coordinates: GeoJSONLinearRing[][];
+}
+
+export type GeoFenceGeometry = GeoJSONPolygon | GeoJSONMultiPolygon;
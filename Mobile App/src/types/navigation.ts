@@ -10,6 +10,7 @@ export type RootStackParamList = {
 export type MainTabParamList = {
   Dashboard: undefined;
   SafetyScore: undefined;
+  RouteSafety: undefined;
   GeoFencing: undefined;
   PanicButton: undefined;
   Tracking: undefined;
@@ -42,6 +43,10 @@ export type SafetyScoreScreenNavigationProp = BottomTabNavigationProp<
   MainTabParamList,
   'SafetyScore'
 >;
+export type RouteSafetyScreenNavigationProp = BottomTabNavigationProp<
+  MainTabParamList,
+  'RouteSafety'
+>;
 export type GeoFencingScreenNavigationProp = BottomTabNavigationProp<
   MainTabParamList,
   'GeoFencing'
@@ -46,6 +46,22 @@ declare module 'react-native-maps' {
     strokeWidth?: number;
   }
 
+  export interface PolygonProps {
+    coordinates: Array<{
+      latitude: number;
+      longitude: number;
+    }>;
+    holes?: Array<
+      Array<{
+        latitude: number;
+        longitude: number;
+      }>
+    >;
+    fillColor?: string;
+    strokeColor?: string;
+    strokeWidth?: number;
+  }
+
   export const PROVIDER_GOOGLE = 'google';
   export const PROVIDER_APPLE = 'apple';
 
@@ -53,4 +69,5 @@ declare module 'react-native-maps' {
   export class Marker extends Component<MarkerProps> {}
   export class Circle extends Component<CircleProps> {}
   export class Polyline extends Component<PolylineProps> {}
+  export class Polygon extends Component<PolygonProps> {}
 }
@@ -0,0 +1,67 @@
+import {LocationData} from '../services/LocationService';
+import {ActivityState, TrackingSettings} from '../services/TrackingService';
+import {haversineDistance} from './geo';
+
+export const ACTIVITY_WINDOW = 2 * 60 * 1000; // recent fixes used to pick a state
+const STATIONARY_RADIUS = 30; // meters, roughly GPS jitter
+const VEHICLE_MIN_SPEED = 6; // m/s, faster than running or cycling
+
+// Picks a state from the last couple of minutes of fixes: staying within
+// GPS jitter of the latest fix is stationary, and the reported speed (or
+// net displacement when the GPS gives none) separates walking from driving.
+// Keeps the previous state until there are enough fixes to tell.
+export function determineActivityState(
+  history: LocationData[],
+  previous: ActivityState,
+  now: number = Date.now(),
+): ActivityState {
+  const recent = history.filter(
+    location => now - location.timestamp <= ACTIVITY_WINDOW,
+  );
+  if (recent.length < 2) {
+    return previous;
+  }
+
+  const first = recent[0];
+  const latest = recent[recent.length - 1];
+  const isStationary = recent.every(
+    location => haversineDistance(location, latest) <= STATIONARY_RADIUS,
+  );
+  if (isStationary) {
+    return 'stationary';
+  }
+
+  const reportedSpeeds = recent
+    .map(location => location.speed)
+    .filter((speed): speed is number => speed !== undefined)
+    .sort((a, b) => a - b);
+  const elapsed = (latest.timestamp - first.timestamp) / 1000;
+  const speed =
+    reportedSpeeds.length > 0
+      ? reportedSpeeds[Math.floor(reportedSpeeds.length / 2)]
+      : elapsed > 0
+      ? haversineDistance(first, latest) / elapsed
+      : 0;
+
+  return speed >= VEHICLE_MIN_SPEED ? 'vehicle' : 'walking';
+}
+
+// Milliseconds until the next sample: the fixed interval when adaptive
+// sampling is off, the high-frequency one during an emergency, and
+// otherwise the interval for the activity
+export function getSamplingInterval(
+  settings: Pick<
+    TrackingSettings,
+    'adaptiveSampling' | 'samplingIntervals' | 'updateInterval'
+  >,
+  activityState: ActivityState,
+  isHighFrequencyRequired: boolean,
+): number {
+  if (!settings.adaptiveSampling) {
+    return settings.updateInterval;
+  }
+  if (isHighFrequencyRequired) {
+    return settings.samplingIntervals.highFrequency;
+  }
+  return settings.samplingIntervals[activityState];
+}
@@ -0,0 +1,173 @@
+import {
+  AnomalyEvent,
+  BuiltInAnomalyType,
+} from '../services/AIAnomalyDetectionService';
+
+export type AnomalyType = AnomalyEvent['type'];
+export type AnomalySeverity = AnomalyEvent['severity'];
+
+// Anomalies that describe the same situation and are merged into one
+// incident. Types without a group are each their own.
+export type IncidentGroup = string;
+
+export interface AnomalyIncident {
+  id: string;
+  group: IncidentGroup;
+  types: AnomalyType[]; // every type seen while open
+  activeTypes: AnomalyType[]; // still detected in the last check
+  eventIds: string[]; // recorded events, the first and any escalations
+  startedAt: Date;
+  lastSeenAt: Date;
+  peakSeverity: AnomalySeverity;
+  occurrences: number; // detections, including the deduplicated ones
+  description: string; // of the latest detection
+  location?: AnomalyEvent['location'];
+  isResolved: boolean;
+  resolvedAt?: Date;
+  autoResolved?: boolean;
+}
+
+export interface IncidentUpdate {
+  incidents: AnomalyIncident[];
+  recorded: AnomalyEvent[]; // detections to record and notify about
+  resolved: AnomalyIncident[]; // incidents whose condition cleared
+}
+
+export const INCIDENT_GROUPS: Record<BuiltInAnomalyType, IncidentGroup> = {
+  location_dropoff: 'stopped',
+  inactivity: 'stopped',
+  route_deviation: 'unusual-movement',
+  speed_anomaly: 'unusual-movement',
+  behavior_anomaly: 'unusual-movement',
+};
+
+// How long after an incident clears the same type is not raised again,
+// unless it comes back critical
+export const DEFAULT_COOLDOWN = 30 * 60 * 1000;
+export const ANOMALY_COOLDOWNS: Record<BuiltInAnomalyType, number> = {
+  location_dropoff: 30 * 60 * 1000,
+  inactivity: 2 * 60 * 60 * 1000,
+  route_deviation: 30 * 60 * 1000,
+  speed_anomaly: 10 * 60 * 1000,
+  behavior_anomaly: 30 * 60 * 1000,
+};
+
+export const SEVERITY_ORDER: AnomalySeverity[] = [
+  'low',
+  'medium',
+  'high',
+  'critical',
+];
+
+const isMoreSevere = (a: AnomalySeverity, b: AnomalySeverity) =>
+  SEVERITY_ORDER.indexOf(a) > SEVERITY_ORDER.indexOf(b);
+
+function isCoolingDown(
+  incidents: AnomalyIncident[],
+  detection: AnomalyEvent,
+  now: Date,
+  cooldowns: Record<AnomalyType, number>,
+): boolean {
+  if (detection.severity === 'critical') {
+    return false;
+  }
+  const cooldown = cooldowns[detection.type] ?? DEFAULT_COOLDOWN;
+  return incidents.some(
+    incident =>
+      incident.isResolved &&
+      incident.resolvedAt &&
+      incident.types.includes(detection.type) &&
+      now.getTime() - incident.resolvedAt.getTime() < cooldown,
+  );
+}
+
+// Folds one round of detections into the incidents. A detection joins the
+// open incident of its group; only the first of each type and escalations
+// past the incident's peak severity are recorded. Open incidents with no
+// detection this round have cleared and are resolved.
+export function updateIncidents(
+  incidents: AnomalyIncident[],
+  detections: AnomalyEvent[],
+  now: Date = new Date(),
+  cooldowns: Record<AnomalyType, number> = ANOMALY_COOLDOWNS,
+  groups: Record<AnomalyType, IncidentGroup> = INCIDENT_GROUPS,
+): IncidentUpdate {
+  const updated = incidents.map(incident => ({...incident}));
+  const recorded: AnomalyEvent[] = [];
+  const seen = new Set<AnomalyIncident>();
+  const activeTypes = new Map<AnomalyIncident, AnomalyType[]>();
+
+  detections.forEach(detection => {
+    const group = groups[detection.type] ?? detection.type;
+    let incident = updated.find(
+      candidate => !candidate.isResolved && candidate.group === group,
+    );
+
+    if (!incident) {
+      if (isCoolingDown(updated, detection, now, cooldowns)) {
+        return;
+      }
+
+      incident = {
+        id: `incident_${detection.id}`,
+        group,
+        types: [],
+        activeTypes: [],
+        eventIds: [],
+        startedAt: now,
+        lastSeenAt: now,
+        peakSeverity: detection.severity,
+        occurrences: 0,
+        description: detection.description,
+        isResolved: false,
+      };
+      updated.push(incident);
+    }
+
+    const isNewType = !incident.types.includes(detection.type);
+    const isEscalation = isMoreSevere(
+      detection.severity,
+      incident.peakSeverity,
+    );
+    if (isNewType || isEscalation) {
+      recorded.push({...detection, incidentId: incident.id});
+      incident.eventIds = [...incident.eventIds, detection.id];
+    }
+
+    if (isNewType) {
+      incident.types = [...incident.types, detection.type];
+    }
+    if (isEscalation) {
+      incident.peakSeverity = detection.severity;
+    }
+    incident.lastSeenAt = now;
+    incident.occurrences++;
+    incident.description = detection.description;
+    incident.location = detection.location;
+
+    seen.add(incident);
+    activeTypes.set(incident, [
+      ...(activeTypes.get(incident) || []),
+      detection.type,
+    ]);
+  });
+
+  const resolved: AnomalyIncident[] = [];
+  updated.forEach(incident => {
+    if (incident.isResolved) {
+      return;
+    }
+
+    if (seen.has(incident)) {
+      incident.activeTypes = activeTypes.get(incident) || [];
+    } else {
+      incident.isResolved = true;
+      incident.resolvedAt = now;
+      incident.autoResolved = true;
+      incident.activeTypes = [];
+      resolved.push(incident);
+    }
+  });
+
+  return {incidents: updated, recorded, resolved};
+}
@@ -0,0 +1,242 @@
+// Robust z-score model of the tourist's own movement. Each feature is
+// summarised by its median and median absolute deviation, so a few odd fixes
+// in the training data do not mask later anomalies.
+
+export type AnomalyFeatureKey =
+  | 'hour'
+  | 'speed'
+  | 'distanceFromUsual'
+  | 'stepDistance'
+  | 'accuracy';
+
+export type AnomalyFeatures = Record<AnomalyFeatureKey, number>;
+
+export interface FeatureStats {
+  median: number;
+  mad: number; // median absolute deviation
+}
+
+export type AnomalyModelMode = 'cold-start' | 'personal';
+
+export interface AnomalyModel {
+  mode: AnomalyModelMode;
+  stats: Record<AnomalyFeatureKey, FeatureStats>;
+  sampleCount: number;
+  trainedAt: Date;
+}
+
+export interface FeatureContribution {
+  feature: AnomalyFeatureKey;
+  value: number;
+  zScore: number;
+  description: string;
+}
+
+export interface AnomalyScore {
+  anomalyScore: number; // 0-1
+  contributions: FeatureContribution[]; // unusual features, strongest first
+  confidence: number; // 0-1
+  mode: AnomalyModelMode;
+}
+
+interface FeatureSpec {
+  minScale: number; // floor for the deviation, in the feature's unit
+  period?: number; // for features that wrap around, like the hour
+  oneSided?: boolean; // only values above the usual are unusual
+  prior: FeatureStats; // typical tourist, used until there is enough history
+  describe: (value: number, usual: number) => string;
+}
+
+// Personal history needed before the model replaces the priors
+export const MIN_TRAINING_SAMPLES = 50;
+// Features further than this from the usual count as contributing
+export const CONTRIBUTION_Z_SCORE = 3;
+const MAD_TO_SD = 1.4826; // scales the MAD to a standard deviation
+const SCORE_SCALE = 3; // excess z-score that takes the score to about 0.63
+
+const formatHour = (hour: number) =>
+  `${String(Math.floor(hour) % 24).padStart(2, '0')}:00`;
+const formatMeters = (meters: number) =>
+  meters >= 1000
+    ? `${(meters / 1000).toFixed(1)} km`
+    : `${Math.round(meters)} m`;
+
+const FEATURE_SPECS: Record<AnomalyFeatureKey, FeatureSpec> = {
+  hour: {
+    minScale: 1,
+    period: 24,
+    prior: {median: 13, mad: 3},
+    describe: (value, usual) =>
+      `Unusual time of day (${formatHour(value)}, usually around ${formatHour(
+        Math.round(usual),
+      )})`,
+  },
+  // Wide enough that a walker taking a taxi or bus is not unusual; vehicle
+  // speeds are left to the speed_anomaly detector
+  speed: {
+    minScale: 5,
+    oneSided: true,
+    prior: {median: 1, mad: 2},
+    describe: (value, usual) =>
+      `Faster than usual (${value.toFixed(1)} m/s, usually ${usual.toFixed(
+        1,
+      )} m/s)`,
+  },
+  distanceFromUsual: {
+    minScale: 100,
+    oneSided: true,
+    prior: {median: 300, mad: 500},
+    describe: value => `Far from usual places (${formatMeters(value)} away)`,
+  },
+  stepDistance: {
+    minScale: 50,
+    oneSided: true,
+    prior: {median: 50, mad: 100},
+    describe: (value, usual) =>
+      `Sudden jump between fixes (${formatMeters(
+        value,
+      )}, usually ${formatMeters(usual)})`,
+  },
+  accuracy: {
+    minScale: 5,
+    oneSided: true,
+    prior: {median: 10, mad: 10},
+    describe: value => `Poor location accuracy (±${Math.round(value)} m)`,
+  },
+};
+
+export const ANOMALY_FEATURES = Object.keys(
+  FEATURE_SPECS,
+) as AnomalyFeatureKey[];
+
+function median(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Signed difference, the short way round for wrapping features
+function difference(value: number, from: number, period?: number): number {
+  const diff = value - from;
+  if (!period) {
+    return diff;
+  }
+  return ((((diff + period / 2) % period) + period) % period) - period / 2;
+}
+
+function summarize(values: number[], period?: number): FeatureStats {
+  let center: number;
+  if (period) {
+    // Median of the deviations from the circular mean, so 23:00 and 01:00
+    // centre on midnight rather than noon
+    const angles = values.map(value => (value / period) * 2 * Math.PI);
+    const mean =
+      (Math.atan2(
+        angles.reduce((sum, angle) => sum + Math.sin(angle), 0),
+        angles.reduce((sum, angle) => sum + Math.cos(angle), 0),
+      ) /
+        (2 * Math.PI)) *
+      period;
+    center =
+      (mean +
+        median(values.map(value => difference(value, mean, period))) +
+        period) %
+      period;
+  } else {
+    center = median(values);
+  }
+
+  return {
+    median: center,
+    mad: median(
+      values.map(value => Math.abs(difference(value, center, period))),
+    ),
+  };
+}
+
+// Falls back to the typical-tourist priors until the tourist's own history
+// reaches MIN_TRAINING_SAMPLES
+export function trainAnomalyModel(
+  samples: AnomalyFeatures[],
+  now: Date = new Date(),
+): AnomalyModel {
+  const personal = samples.length >= MIN_TRAINING_SAMPLES;
+  const stats = {} as Record<AnomalyFeatureKey, FeatureStats>;
+  ANOMALY_FEATURES.forEach(feature => {
+    const spec = FEATURE_SPECS[feature];
+    stats[feature] = personal
+      ? summarize(
+          samples.map(sample => sample[feature]),
+          spec.period,
+        )
+      : spec.prior;
+  });
+
+  return {
+    mode: personal ? 'personal' : 'cold-start',
+    stats,
+    sampleCount: samples.length,
+    trainedAt: now,
+  };
+}
+
+// Being closer to a usual place, moving less far between fixes or having a
+// better fix than usual is not a sign of trouble
+export function getFeatureZScore(
+  model: AnomalyModel,
+  feature: AnomalyFeatureKey,
+  value: number,
+): number {
+  const spec = FEATURE_SPECS[feature];
+  const {median: center, mad} = model.stats[feature];
+  const scale = Math.max(mad * MAD_TO_SD, spec.minScale);
+  const diff = difference(value, center, spec.period);
+  return (spec.oneSided ? Math.max(0, diff) : Math.abs(diff)) / scale;
+}
+
+export function scoreAnomaly(
+  model: AnomalyModel,
+  features: AnomalyFeatures,
+): AnomalyScore {
+  const zScores = ANOMALY_FEATURES.map(feature => ({
+    feature,
+    value: features[feature],
+    zScore: getFeatureZScore(model, feature, features[feature]),
+  }));
+
+  // Every feature beyond the contribution threshold adds to the score, so
+  // several moderately odd features can add up to an anomaly
+  const excess = zScores.reduce(
+    (total, {zScore}) => total + Math.max(0, zScore - CONTRIBUTION_Z_SCORE),
+    0,
+  );
+
+  const contributions = zScores
+    .filter(({zScore}) => zScore >= CONTRIBUTION_Z_SCORE)
+    .sort((a, b) => b.zScore - a.zScore)
+    .map(({feature, value, zScore}) => ({
+      feature,
+      value,
+      zScore,
+      description: FEATURE_SPECS[feature].describe(
+        value,
+        model.stats[feature].median,
+      ),
+    }));
+
+  return {
+    anomalyScore: 1 - Math.exp(-excess / SCORE_SCALE),
+    contributions,
+    // Priors describe tourists in general, not this one
+    confidence:
+      model.mode === 'cold-start'
+        ? 0.5
+        : Math.min(0.95, 0.6 + model.sampleCount / 1000),
+    mode: model.mode,
+  };
+}
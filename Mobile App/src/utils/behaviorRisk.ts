@@ -0,0 +1,117 @@
+import {AnomalyEvent} from '../services/AIAnomalyDetectionService';
+import {GeoFenceAlert} from '../services/GeoFencingService';
+import {GeoFenceZone} from '../services/LocationService';
+
+export interface BehaviorRiskInputs {
+  anomalies: AnomalyEvent[]; // resolved ones are ignored
+  geofenceAlerts: GeoFenceAlert[];
+  ignoredRecommendations: number;
+}
+
+export interface BehaviorRiskAssessment {
+  risk: number; // 0-100
+  unresolvedAnomalies: number;
+  geofenceViolations: number;
+  ignoredRecommendations: number;
+  description: string;
+}
+
+const BASELINE_BEHAVIOR_RISK = 10;
+
+const ANOMALY_RISK: Record<AnomalyEvent['severity'], number> = {
+  low: 5,
+  medium: 15,
+  high: 30,
+  critical: 50,
+};
+
+// Risk per violation: entering a dangerous zone, or staying in one past its
+// dwell limit. Other alerts, such as approaching a zone, are not violations.
+const VIOLATION_RISK: Partial<
+  Record<
+    GeoFenceAlert['alertType'],
+    Partial<Record<GeoFenceZone['type'], number>>
+  >
+> = {
+  enter: {restricted: 30, 'high-risk': 15},
+  dwell: {restricted: 20, 'high-risk': 10, cave: 10, forest: 10},
+};
+
+const IGNORED_RECOMMENDATION_RISK = 10;
+
+// Older anomalies and violations weigh less, halving every day
+const HALF_LIFE = 24 * 60 * 60 * 1000;
+const VIOLATION_WINDOW = 7 * 24 * 60 * 60 * 1000;
+
+export function isGeofenceViolation(alert: GeoFenceAlert): boolean {
+  return getViolationRisk(alert) > 0;
+}
+
+export function assessBehaviorRisk(
+  inputs: BehaviorRiskInputs,
+  now: Date = new Date(),
+): BehaviorRiskAssessment {
+  const anomalies = inputs.anomalies.filter(anomaly => !anomaly.isResolved);
+  const anomalyRisk = anomalies.reduce(
+    (total, anomaly) =>
+      total +
+      ANOMALY_RISK[anomaly.severity] *
+        anomaly.confidence *
+        decay(now, anomaly.timestamp),
+    0,
+  );
+
+  const violations = inputs.geofenceAlerts
+    .filter(alert => {
+      const age = now.getTime() - new Date(alert.timestamp).getTime();
+      return age >= 0 && age <= VIOLATION_WINDOW && isGeofenceViolation(alert);
+    })
+    .sort(
+      (a, b) =>
+        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
+    );
+  const violationRisk = violations.reduce(
+    (total, alert) =>
+      total + getViolationRisk(alert) * decay(now, alert.timestamp),
+    0,
+  );
+
+  const recommendationRisk =
+    inputs.ignoredRecommendations * IGNORED_RECOMMENDATION_RISK;
+
+  const total = anomalyRisk + violationRisk + recommendationRisk;
+  let description = 'No unresolved anomalies or geo-fence violations';
+  if (total > 0) {
+    if (anomalyRisk >= violationRisk && anomalyRisk >= recommendationRisk) {
+      description = `${anomalies.length} unresolved ${
+        anomalies.length === 1 ? 'anomaly' : 'anomalies'
+      }`;
+    } else if (violationRisk >= recommendationRisk) {
+      description = `${violations.length} geo-fence violation${
+        violations.length === 1 ? '' : 's'
+      }, latest in ${violations[0].zoneName}`;
+    } else {
+      description = `${inputs.ignoredRecommendations} safety recommendation${
+        inputs.ignoredRecommendations === 1 ? '' : 's'
+      } not acted on`;
+    }
+  }
+
+  return {
+    risk: Math.round(Math.min(100, BASELINE_BEHAVIOR_RISK + total)),
+    unresolvedAnomalies: anomalies.length,
+    geofenceViolations: violations.length,
+    ignoredRecommendations: inputs.ignoredRecommendations,
+    description,
+  };
+}
+
+function getViolationRisk(alert: GeoFenceAlert): number {
+  const risks = VIOLATION_RISK[alert.alertType];
+  return (risks && alert.zoneType && risks[alert.zoneType]) || 0;
+}
+
+function decay(now: Date, timestamp: Date | number): number {
+  const age = Math.max(0, now.getTime() - new Date(timestamp).getTime());
+  return Math.pow(0.5, age / HALF_LIFE);
+}
@@ -0,0 +1,128 @@
+import {AnomalyEvent} from '../services/AIAnomalyDetectionService';
+
+export type CheckInStatus =
+  | 'pending'
+  | 'safe'
+  | 'help-requested'
+  | 'escalated'
+  | 'escalation-failed'; // gave up after MAX_ESCALATION_ATTEMPTS
+
+export type CheckInStepType =
+  | 'prompted' // the tourist was asked whether they are OK
+  | 'anomaly-added' // another anomaly came in while waiting for an answer
+  | 'confirmed-safe'
+  | 'verification-failed' // "I'm safe" was not confirmed
+  | 'help-requested'
+  | 'timed-out'
+  | 'escalated'
+  | 'escalation-failed'
+  | 'error'; // handling the check-in failed, see the detail
+
+export interface CheckInStep {
+  type: CheckInStepType;
+  at: Date;
+  anomalyId?: string;
+  detail?: string;
+}
+
+export interface CheckIn {
+  id: string;
+  anomalyIds: string[]; // the first is the one that prompted it
+  status: CheckInStatus;
+  promptedAt: Date;
+  deadline: Date; // escalated if still pending by then
+  steps: CheckInStep[];
+}
+
+// Anomalies at these severities ask the tourist to check in
+export const CHECK_IN_SEVERITIES: AnomalyEvent['severity'][] = [
+  'high',
+  'critical',
+];
+export const DEFAULT_CHECK_IN_TIMEOUT = 10; // minutes
+// A critical anomaly gives the tourist this share of the timeout to answer
+const CRITICAL_TIMEOUT_SHARE = 0.5;
+// Failed panic alerts are retried up to this many times in all
+export const MAX_ESCALATION_ATTEMPTS = 5;
+
+export const shouldPromptCheckIn = (anomaly: AnomalyEvent) =>
+  CHECK_IN_SEVERITIES.includes(anomaly.severity);
+
+export function getCheckInDeadline(
+  anomaly: AnomalyEvent,
+  from: Date,
+  timeout: number = DEFAULT_CHECK_IN_TIMEOUT,
+): Date {
+  const minutes =
+    anomaly.severity === 'critical'
+      ? timeout * CRITICAL_TIMEOUT_SHARE
+      : timeout;
+  return new Date(from.getTime() + minutes * 60 * 1000);
+}
+
+export function createCheckIn(
+  id: string,
+  anomaly: AnomalyEvent,
+  now: Date = new Date(),
+  timeout: number = DEFAULT_CHECK_IN_TIMEOUT,
+): CheckIn {
+  return {
+    id,
+    anomalyIds: [anomaly.id],
+    status: 'pending',
+    promptedAt: now,
+    deadline: getCheckInDeadline(anomaly, now, timeout),
+    steps: [
+      {
+        type: 'prompted',
+        at: now,
+        anomalyId: anomaly.id,
+        detail: anomaly.description,
+      },
+    ],
+  };
+}
+
+export function addCheckInStep(
+  checkIn: CheckIn,
+  type: CheckInStepType,
+  at: Date = new Date(),
+  detail?: string,
+): CheckIn {
+  return {...checkIn, steps: [...checkIn.steps, {type, at, detail}]};
+}
+
+// Folds a later anomaly into a pending check-in rather than prompting
+// again; the deadline only ever moves earlier
+export function attachAnomaly(
+  checkIn: CheckIn,
+  anomaly: AnomalyEvent,
+  now: Date = new Date(),
+  timeout: number = DEFAULT_CHECK_IN_TIMEOUT,
+): CheckIn {
+  const deadline = getCheckInDeadline(anomaly, now, timeout);
+  return {
+    ...checkIn,
+    anomalyIds: [...checkIn.anomalyIds, anomaly.id],
+    deadline: deadline < checkIn.deadline ? deadline : checkIn.deadline,
+    steps: [
+      ...checkIn.steps,
+      {
+        type: 'anomaly-added',
+        at: now,
+        anomalyId: anomaly.id,
+        detail: anomaly.description,
+      },
+    ],
+  };
+}
+
+export const isCheckInOverdue = (checkIn: CheckIn, now: Date = new Date()) =>
+  checkIn.status === 'pending' && now >= checkIn.deadline;
+
+export const hasStep = (checkIn: CheckIn, type: CheckInStepType) =>
+  checkIn.steps.some(step => step.type === type);
+
+export const isEscalationExhausted = (checkIn: CheckIn) =>
+  checkIn.steps.filter(step => step.type === 'escalation-failed').length >=
+  MAX_ESCALATION_ATTEMPTS;
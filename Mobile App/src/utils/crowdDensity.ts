@@ -0,0 +1,308 @@
+import {TouristCluster} from '../services/AuthorityDashboardService';
+import {Coordinates, haversineDistance} from './geo';
+
+export type CrowdLevel =
+  | 'deserted'
+  | 'quiet'
+  | 'normal'
+  | 'busy'
+  | 'overcrowded';
+
+// Tourist counts snapped to a grid, with no ids, names or exact positions.
+// Cells of sparse areas are larger, see buildDensityLayer.
+export interface DensityCell {
+  cell: string;
+  center: Coordinates;
+  count: number;
+  usual?: number; // mean count at this time of day, from the server
+}
+
+// Row shape of public.nearby_crowd_density. Counts the server would not
+// publish come back as 0.
+export interface CrowdDensityRecord {
+  cell: string;
+  center_lat: number;
+  center_lng: number;
+  tourist_count: number;
+  usual_count: number;
+}
+
+export interface DensityLayer {
+  cells: DensityCell[];
+  updatedAt: Date;
+}
+
+export interface BaselineSample {
+  mean: number;
+  samples: number;
+}
+
+// Usual counts, by `${cell}@${hour}`
+export type DensityBaseline = Record<string, BaselineSample>;
+
+export interface CrowdDensity {
+  radius: number; // meters
+  count: number | null; // tourists within the radius now, when known
+  usual: number | null; // at this hour
+}
+
+export interface CrowdRiskAssessment {
+  risk: number; // 0-100
+  level: CrowdLevel | null; // null without any data
+  description: string;
+}
+
+export const DENSITY_CELL_SIZE = 0.0025; // degrees, about 250 m
+// Fewer tourists than this in a published cell could single one out
+export const MIN_CELL_COUNT = 3;
+// Sparse cells are merged into cells this many times larger, about 1 km
+const MERGED_CELL_SCALE = 4;
+export const DEFAULT_DENSITY_RADIUS = 500; // meters
+// Tourists not seen for longer are not counted as present
+export const ACTIVE_TOURIST_WINDOW = 30 * 60 * 1000;
+// A layer older than this no longer counts as the live crowd
+export const LIVE_DENSITY_WINDOW = 15 * 60 * 1000;
+// Samples the usual count averages over; older ones fade out after that
+const BASELINE_WINDOW = 30;
+
+const DESERTED_COUNT = 1; // the tourist alone
+const QUIET_COUNT = 5;
+const BUSY_COUNT = 50;
+const OVERCROWDED_COUNT = 150;
+// Against the usual count, when that is large enough to compare with
+const MIN_USUAL_COUNT = 5;
+const DESERTED_RATIO = 0.2;
+const QUIET_RATIO = 0.5;
+const BUSY_RATIO = 1.5;
+const OVERCROWDED_RATIO = 2.5;
+
+// Both ends count against the tourist: nobody to help in a deserted area,
+// crushes and pickpockets in an overcrowded one
+const CROWD_RISK: Record<CrowdLevel, number> = {
+  deserted: 70,
+  quiet: 45,
+  normal: 20,
+  busy: 35,
+  overcrowded: 65,
+};
+
+const CROWD_LEVEL_NAMES: Record<CrowdLevel, string> = {
+  deserted: 'Deserted area',
+  quiet: 'Quiet area',
+  normal: 'Usual crowd',
+  busy: 'Busy area',
+  overcrowded: 'Overcrowded area',
+};
+
+// Keys of merged cells end in their scale, like `1234,5678/4`
+export function getDensityCell(location: Coordinates, scale = 1): string {
+  const size = DENSITY_CELL_SIZE * scale;
+  const latitude = Math.floor(location.latitude / size);
+  const longitude = Math.floor(location.longitude / size);
+  return scale === 1
+    ? `${latitude},${longitude}`
+    : `${latitude},${longitude}/${scale}`;
+}
+
+function getCellCenter(cell: string): Coordinates {
+  const [indices, scale = '1'] = cell.split('/');
+  const [latitude, longitude] = indices.split(',').map(Number);
+  const size = DENSITY_CELL_SIZE * Number(scale);
+  return {
+    latitude: (latitude + 0.5) * size,
+    longitude: (longitude + 0.5) * size,
+  };
+}
+
+function toDensityCells(counts: Map<string, number>): DensityCell[] {
+  const cells: DensityCell[] = [];
+  counts.forEach((count, cell) =>
+    cells.push({cell, center: getCellCenter(cell), count}),
+  );
+  return cells;
+}
+
+// Counts the tourists seen recently in each cluster into the cell of its
+// center. Cells with fewer than MIN_CELL_COUNT tourists are merged into
+// larger cells, and left out if those are still too sparse.
+export function buildDensityLayer(
+  clusters: TouristCluster[],
+  now: Date = new Date(),
+): DensityLayer {
+  const counts = new Map<string, number>();
+  clusters.forEach(cluster => {
+    const active = cluster.tourists.filter(
+      tourist =>
+        now.getTime() - tourist.lastSeen.getTime() <= ACTIVE_TOURIST_WINDOW,
+    ).length;
+    if (active > 0) {
+      const cell = getDensityCell(cluster.center);
+      counts.set(cell, (counts.get(cell) || 0) + active);
+    }
+  });
+
+  const dense = new Map<string, number>();
+  const merged = new Map<string, number>();
+  counts.forEach((count, cell) => {
+    if (count >= MIN_CELL_COUNT) {
+      dense.set(cell, count);
+    } else {
+      const mergedCell = getDensityCell(getCellCenter(cell), MERGED_CELL_SCALE);
+      merged.set(mergedCell, (merged.get(mergedCell) || 0) + count);
+    }
+  });
+  merged.forEach((count, cell) => {
+    if (count >= MIN_CELL_COUNT) {
+      dense.set(cell, count);
+    }
+  });
+
+  return {cells: toDensityCells(dense), updatedAt: now};
+}
+
+export function countWithinRadius(
+  layer: DensityLayer,
+  location: Coordinates,
+  radius: number = DEFAULT_DENSITY_RADIUS,
+): number {
+  return layer.cells
+    .filter(cell => haversineDistance(location, cell.center) <= radius)
+    .reduce((total, cell) => total + cell.count, 0);
+}
+
+export function mapCrowdDensityRecords(
+  records: CrowdDensityRecord[],
+  fetchedAt: Date,
+): DensityLayer {
+  return {
+    cells: records.map(record => ({
+      cell: record.cell,
+      center: {latitude: record.center_lat, longitude: record.center_lng},
+      count: record.tourist_count,
+      usual: record.usual_count,
+    })),
+    updatedAt: fetchedAt,
+  };
+}
+
+// Null when no cell within the radius has a usual count
+export function getLayerUsualCount(
+  layer: DensityLayer,
+  location: Coordinates,
+  radius: number = DEFAULT_DENSITY_RADIUS,
+): number | null {
+  const usual = layer.cells.filter(
+    cell => cell.usual && haversineDistance(location, cell.center) <= radius,
+  );
+  return usual.length > 0
+    ? usual.reduce((total, cell) => total + (cell.usual || 0), 0)
+    : null;
+}
+
+// Adds the layer as one sample for the hour. Cells known from earlier
+// samples but empty now count as zero, so quiet hours lower the usual count.
+export function recordBaselineSample(
+  baseline: DensityBaseline,
+  layer: DensityLayer,
+  hour: number,
+): DensityBaseline {
+  const updated = {...baseline};
+  const counts = new Map(layer.cells.map(cell => [cell.cell, cell.count]));
+  Object.keys(baseline).forEach(key => {
+    const [cell, sampleHour] = key.split('@');
+    if (Number(sampleHour) === hour && !counts.has(cell)) {
+      counts.set(cell, 0);
+    }
+  });
+
+  counts.forEach((count, cell) => {
+    const key = `${cell}@${hour}`;
+    const sample = baseline[key] || {mean: 0, samples: 0};
+    const samples = Math.min(sample.samples + 1, BASELINE_WINDOW);
+    updated[key] = {
+      mean: sample.mean + (count - sample.mean) / samples,
+      samples,
+    };
+  });
+  return updated;
+}
+
+export function getUsualCount(
+  baseline: DensityBaseline,
+  location: Coordinates,
+  hour: number,
+  radius: number = DEFAULT_DENSITY_RADIUS,
+): number | null {
+  let usual: number | null = null;
+  Object.keys(baseline).forEach(key => {
+    const [cell, sampleHour] = key.split('@');
+    if (
+      Number(sampleHour) === hour &&
+      haversineDistance(location, getCellCenter(cell)) <= radius
+    ) {
+      usual = (usual || 0) + baseline[key].mean;
+    }
+  });
+  return usual;
+}
+
+export function getCrowdLevel(count: number, usual: number | null): CrowdLevel {
+  const ratio =
+    usual !== null && usual >= MIN_USUAL_COUNT ? count / usual : null;
+
+  if (
+    count >= OVERCROWDED_COUNT ||
+    (ratio !== null && ratio >= OVERCROWDED_RATIO && count >= BUSY_COUNT)
+  ) {
+    return 'overcrowded';
+  }
+  if (count <= DESERTED_COUNT || (ratio !== null && ratio <= DESERTED_RATIO)) {
+    return 'deserted';
+  }
+  if (count >= BUSY_COUNT || (ratio !== null && ratio >= BUSY_RATIO)) {
+    return 'busy';
+  }
+  if (count < QUIET_COUNT || (ratio !== null && ratio <= QUIET_RATIO)) {
+    return 'quiet';
+  }
+  return 'normal';
+}
+
+// Scores the live count against the usual one, or for other times of day
+// the usual count alone
+export function assessCrowdDensity(density: CrowdDensity): CrowdRiskAssessment {
+  const within = `within ${density.radius} m`;
+  const usual = density.usual === null ? null : Math.round(density.usual);
+
+  if (density.count !== null) {
+    const level = getCrowdLevel(density.count, density.usual);
+    // Sparse cells are not published, so small counts are not exact
+    let detail =
+      density.count < MIN_CELL_COUNT
+        ? `fewer than ${MIN_CELL_COUNT} tourists ${within}`
+        : `${density.count} tourists ${within}`;
+    if (usual !== null) {
+      detail += `, usually ${usual} at this hour`;
+    }
+    return {
+      risk: CROWD_RISK[level],
+      level,
+      description: `${CROWD_LEVEL_NAMES[level]}: ${detail}`,
+    };
+  }
+
+  if (usual !== null) {
+    const level = getCrowdLevel(usual, null);
+    return {
+      risk: CROWD_RISK[level],
+      level,
+      description: `${CROWD_LEVEL_NAMES[level]}: usually ${usual} tourists ${within} at this hour`,
+    };
+  }
+
+  return {
+    risk: 30,
+    level: null,
+    description: 'No crowd data for this area yet',
+  };
+}
@@ -0,0 +1,116 @@
+// Settings a detector exposes to authorities, described well enough to
+// validate them and build a form for them
+
+export type DetectorConfigValue = number | boolean | string;
+
+export type DetectorConfig = Record<string, DetectorConfigValue>;
+
+export interface DetectorConfigField<T extends DetectorConfigValue> {
+  label: string;
+  default: T; // also decides the field's type
+  unit?: string;
+  min?: number;
+  max?: number;
+  options?: string[]; // allowed values of a string field
+}
+
+export type DetectorConfigSchema<C extends DetectorConfig> = {
+  [K in keyof C]: DetectorConfigField<C[K]>;
+};
+
+export interface DetectorMetrics {
+  evaluations: number;
+  detections: number; // evaluations that found an anomaly
+  recorded: number; // alerts raised after deduplication into incidents
+  dismissed: number; // alerts the tourist or an operator dismissed
+  errors: number;
+  lastDetectedAt?: Date;
+  lastErrorAt?: Date;
+  lastError?: string;
+}
+
+export function getDefaultConfig<C extends DetectorConfig>(
+  schema: DetectorConfigSchema<C>,
+): C {
+  const config = {} as C;
+  (Object.keys(schema) as Array<keyof C>).forEach(key => {
+    config[key] = schema[key].default;
+  });
+  return config;
+}
+
+function getValueError(
+  field: DetectorConfigField<DetectorConfigValue>,
+  value: DetectorConfigValue | undefined,
+): string | null {
+  if (typeof value !== typeof field.default) {
+    return `${field.label} must be a ${typeof field.default}`;
+  }
+  if (typeof value === 'number') {
+    if (!isFinite(value)) {
+      return `${field.label} must be a number`;
+    }
+    if (field.min !== undefined && value < field.min) {
+      return `${field.label} must be at least ${field.min}`;
+    }
+    if (field.max !== undefined && value > field.max) {
+      return `${field.label} must be at most ${field.max}`;
+    }
+  }
+  if (
+    typeof value === 'string' &&
+    field.options &&
+    !field.options.includes(value)
+  ) {
+    return `${field.label} must be one of ${field.options.join(', ')}`;
+  }
+  return null;
+}
+
+// Throws on keys the schema does not know and on values of the wrong type
+// or out of range
+export function validateDetectorConfig<C extends DetectorConfig>(
+  schema: DetectorConfigSchema<C>,
+  config: Partial<DetectorConfig>,
+): Partial<C> {
+  Object.keys(config).forEach(key => {
+    const field = schema[key] as DetectorConfigField<DetectorConfigValue>;
+    if (!field) {
+      throw new Error(`Unknown detector setting ${key}`);
+    }
+    const error = getValueError(field, config[key]);
+    if (error) {
+      throw new Error(error);
+    }
+  });
+  return config as Partial<C>;
+}
+
+// The defaults overridden by the stored settings that are still valid, so a
+// detector update that changes its schema does not break on old settings
+export function resolveDetectorConfig<C extends DetectorConfig>(
+  schema: DetectorConfigSchema<C>,
+  overrides: Partial<DetectorConfig> = {},
+): C {
+  const config: DetectorConfig = getDefaultConfig(schema);
+  Object.keys(overrides).forEach(key => {
+    const field = schema[key] as DetectorConfigField<DetectorConfigValue>;
+    const value = overrides[key];
+    if (field && value !== undefined && !getValueError(field, value)) {
+      config[key] = value;
+    }
+  });
+  return config as C;
+}
+
+export const createDetectorMetrics = (): DetectorMetrics => ({
+  evaluations: 0,
+  detections: 0,
+  recorded: 0,
+  dismissed: 0,
+  errors: 0,
+});
+
+// Share of raised alerts that turned out not to need help
+export const getDismissalRate = (metrics: DetectorMetrics) =>
+  metrics.recorded > 0 ? metrics.dismissed / metrics.recorded : 0;
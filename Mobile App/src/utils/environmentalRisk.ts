@@ -0,0 +1,202 @@
+import {Coordinates, haversineDistance} from './geo';
+import {isPointInGeometry} from './geometry';
+import {DaylightPhase} from './solar';
+import {GeoFenceGeometry} from '../types/geojson';
+
+export type EnvironmentalConditionType =
+  | 'rain'
+  | 'flood'
+  | 'landslide'
+  | 'heat'
+  | 'cold';
+
+export type EnvironmentalSeverity = 'advisory' | 'watch' | 'warning';
+
+export interface EnvironmentalCondition {
+  id: string;
+  type: EnvironmentalConditionType;
+  severity: EnvironmentalSeverity;
+  center: Coordinates;
+  radius: number; // meters
+  // Replaces the center/radius circle when set, as for geo-fence zones
+  geometry?: GeoFenceGeometry;
+  // Omitted for standing hazards such as landslide-prone slopes
+  validFrom?: Date;
+  validUntil?: Date;
+  temperature?: number; // °C, for heat and cold
+  description: string;
+  source: string; // id of the provider that reported it
+}
+
+export interface EnvironmentalRiskAssessment {
+  risk: number; // 0-100
+  conditions: EnvironmentalCondition[]; // affecting the location, worst first
+  description: string;
+}
+
+const CONDITION_TYPES: EnvironmentalConditionType[] = [
+  'rain',
+  'flood',
+  'landslide',
+  'heat',
+  'cold',
+];
+
+// Darkness alone, with no conditions reported
+const DARKNESS_RISK: Record<DaylightPhase, number> = {
+  day: 30,
+  twilight: 45,
+  night: 60,
+};
+
+const SEVERITIES: EnvironmentalSeverity[] = ['advisory', 'watch', 'warning'];
+
+const SEVERITY_RISK: Record<EnvironmentalSeverity, number> = {
+  advisory: 10,
+  watch: 20,
+  warning: 35,
+};
+
+// Floods and landslides can cut a tourist off; rain mostly slows them down
+const TYPE_WEIGHT: Record<EnvironmentalConditionType, number> = {
+  rain: 0.8,
+  flood: 1.2,
+  landslide: 1.2,
+  heat: 1,
+  cold: 1,
+};
+
+const CONDITION_NAMES: Record<EnvironmentalConditionType, string> = {
+  rain: 'Heavy rain',
+  flood: 'Flooding',
+  landslide: 'Landslide risk',
+  heat: 'Extreme heat',
+  cold: 'Extreme cold',
+};
+
+export function isConditionActive(
+  condition: EnvironmentalCondition,
+  location: Coordinates,
+  at: Date,
+): boolean {
+  if (condition.validFrom && at < condition.validFrom) {
+    return false;
+  }
+  if (condition.validUntil && at > condition.validUntil) {
+    return false;
+  }
+
+  if (condition.geometry) {
+    return isPointInGeometry(location, condition.geometry);
+  }
+  return haversineDistance(location, condition.center) <= condition.radius;
+}
+
+export function getConditionRisk(condition: EnvironmentalCondition): number {
+  return SEVERITY_RISK[condition.severity] * TYPE_WEIGHT[condition.type];
+}
+
+// Readable summary, e.g. 'Flooding warning: River Mahanadi in spate'
+export function describeCondition(condition: EnvironmentalCondition): string {
+  const temperature =
+    condition.temperature !== undefined
+      ? ` (${Math.round(condition.temperature)}°C)`
+      : '';
+  return `${CONDITION_NAMES[condition.type]} ${
+    condition.severity
+  }${temperature}: ${condition.description}`;
+}
+
+export function assessEnvironmentalRisk(
+  location: Coordinates,
+  conditions: EnvironmentalCondition[],
+  phase: DaylightPhase,
+  at: Date = new Date(),
+): EnvironmentalRiskAssessment {
+  const active = conditions
+    .filter(condition => isConditionActive(condition, location, at))
+    .sort((a, b) => getConditionRisk(b) - getConditionRisk(a));
+
+  const risk = active.reduce(
+    (total, condition) => total + getConditionRisk(condition),
+    DARKNESS_RISK[phase],
+  );
+
+  let description = `No weather or terrain warnings${
+    phase === 'day' ? '' : ', but it is dark'
+  }`;
+  if (active.length > 0) {
+    description = describeCondition(active[0]);
+    if (active.length > 1) {
+      description += ` and ${active.length - 1} more`;
+    }
+  }
+
+  return {
+    risk: Math.round(Math.min(100, risk)),
+    conditions: active,
+    description,
+  };
+}
+
+function hasConditionList(data: unknown): data is {conditions: unknown[]} {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    Array.isArray((data as {conditions?: unknown}).conditions)
+  );
+}
+
+// Reads conditions from the feed format the providers share: an array, or
+// an object with a conditions array. Entries that do not validate are
+// skipped rather than failing the whole feed.
+export function parseEnvironmentalFeed(
+  data: unknown,
+  source: string,
+): EnvironmentalCondition[] {
+  const entries = Array.isArray(data)
+    ? data
+    : hasConditionList(data)
+    ? data.conditions
+    : null;
+  if (!entries) {
+    throw new Error(`Environmental feed from ${source} has no conditions`);
+  }
+
+  const conditions: EnvironmentalCondition[] = [];
+  entries.forEach((entry: any, index: number) => {
+    const center = entry?.center;
+    if (
+      !entry ||
+      !CONDITION_TYPES.includes(entry.type) ||
+      !SEVERITIES.includes(entry.severity) ||
+      !center ||
+      !Number.isFinite(center.latitude) ||
+      !Number.isFinite(center.longitude) ||
+      !(entry.radius > 0 || entry.geometry)
+    ) {
+      console.warn(`Skipping invalid environmental condition from ${source}`);
+      return;
+    }
+
+    conditions.push({
+      id: String(entry.id ?? `${source}_${index}`),
+      type: entry.type,
+      severity: entry.severity,
+      center: {latitude: center.latitude, longitude: center.longitude},
+      radius: Number(entry.radius) || 0,
+      geometry: entry.geometry,
+      validFrom: entry.validFrom ? new Date(entry.validFrom) : undefined,
+      validUntil: entry.validUntil ? new Date(entry.validUntil) : undefined,
+      temperature: Number.isFinite(entry.temperature)
+        ? entry.temperature
+        : undefined,
+      description: String(
+        entry.description ||
+          CONDITION_NAMES[entry.type as EnvironmentalConditionType],
+      ),
+      source,
+    });
+  });
+  return conditions;
+}
@@ -0,0 +1,261 @@
+// Geodesy primitives shared by the location, geo-fencing, tracking, safety
+// score and anomaly services. Distances are in meters and bearings in
+// degrees clockwise from true north.
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface BoundingBox {
+  minLatitude: number;
+  minLongitude: number;
+  maxLatitude: number;
+  maxLongitude: number;
+}
+
+export const EARTH_RADIUS = 6371e3; // meters
+export const METERS_PER_DEGREE_LATITUDE = 111320;
+
+export const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+export const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+export function haversineDistance(from: Coordinates, to: Coordinates): number {
+  const φ1 = toRadians(from.latitude);
+  const φ2 = toRadians(to.latitude);
+  const Δφ = toRadians(to.latitude - from.latitude);
+  const Δλ = toRadians(to.longitude - from.longitude);
+
+  const a =
+    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return EARTH_RADIUS * c;
+}
+
+// Initial great-circle bearing from one point towards another, 0-360
+export function calculateBearing(from: Coordinates, to: Coordinates): number {
+  const φ1 = toRadians(from.latitude);
+  const φ2 = toRadians(to.latitude);
+  const Δλ = toRadians(to.longitude - from.longitude);
+
+  const y = Math.sin(Δλ) * Math.cos(φ2);
+  const x =
+    Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
+
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+}
+
+// Point reached by travelling the given distance along a great circle
+export function destinationPoint(
+  from: Coordinates,
+  bearing: number,
+  distance: number,
+): Coordinates {
+  const δ = distance / EARTH_RADIUS;
+  const θ = toRadians(bearing);
+  const φ1 = toRadians(from.latitude);
+  const λ1 = toRadians(from.longitude);
+
+  const φ2 = Math.asin(
+    Math.sin(φ1) * Math.cos(δ) + Math.cos(φ1) * Math.sin(δ) * Math.cos(θ),
+  );
+  const λ2 =
+    λ1 +
+    Math.atan2(
+      Math.sin(θ) * Math.sin(δ) * Math.cos(φ1),
+      Math.cos(δ) - Math.sin(φ1) * Math.sin(φ2),
+    );
+
+  return {
+    latitude: toDegrees(φ2),
+    // Normalise to -180..180
+    longitude: ((toDegrees(λ2) + 540) % 360) - 180,
+  };
+}
+
+// Flat x/y offset in meters from the origin. The equirectangular
+// approximation is well within GPS accuracy over the few tens of kilometres
+// that zones, segments and corridors span.
+export function projectPoint(
+  point: Coordinates,
+  origin: Coordinates,
+): [number, number] {
+  return [
+    toRadians(point.longitude - origin.longitude) *
+      Math.cos(toRadians(origin.latitude)) *
+      EARTH_RADIUS,
+    toRadians(point.latitude - origin.latitude) * EARTH_RADIUS,
+  ];
+}
+
+// Shortest distance from the origin to the segment a-b on the flat plane
+export function distanceFromOriginToSegment(
+  [ax, ay]: [number, number],
+  [bx, by]: [number, number],
+): number {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
+
+export function distanceToSegment(
+  point: Coordinates,
+  start: Coordinates,
+  end: Coordinates,
+): number {
+  return distanceFromOriginToSegment(
+    projectPoint(start, point),
+    projectPoint(end, point),
+  );
+}
+
+// Distance to the nearest segment of a path; a single point path falls back
+// to the distance to that point
+export function distanceToPath(
+  point: Coordinates,
+  path: Coordinates[],
+): number {
+  if (path.length === 0) {
+    return Infinity;
+  }
+  if (path.length === 1) {
+    return haversineDistance(point, path[0]);
+  }
+
+  let minDistance = Infinity;
+  for (let i = 1; i < path.length; i++) {
+    minDistance = Math.min(
+      minDistance,
+      distanceToSegment(point, path[i - 1], path[i]),
+    );
+  }
+  return minDistance;
+}
+
+export function getPathLength(path: Coordinates[]): number {
+  let length = 0;
+  for (let i = 1; i < path.length; i++) {
+    length += haversineDistance(path[i - 1], path[i]);
+  }
+  return length;
+}
+
+export function getBoundingBox(points: Coordinates[]): BoundingBox {
+  const bounds: BoundingBox = {
+    minLatitude: Infinity,
+    minLongitude: Infinity,
+    maxLatitude: -Infinity,
+    maxLongitude: -Infinity,
+  };
+
+  points.forEach(({latitude, longitude}) => {
+    bounds.minLatitude = Math.min(bounds.minLatitude, latitude);
+    bounds.minLongitude = Math.min(bounds.minLongitude, longitude);
+    bounds.maxLatitude = Math.max(bounds.maxLatitude, latitude);
+    bounds.maxLongitude = Math.max(bounds.maxLongitude, longitude);
+  });
+
+  return bounds;
+}
+
+// Box reaching radius meters from the center in every direction
+export function getRadiusBounds(
+  center: Coordinates,
+  radius: number,
+): BoundingBox {
+  const latitudeDelta = radius / METERS_PER_DEGREE_LATITUDE;
+  const longitudeDelta =
+    radius /
+    (METERS_PER_DEGREE_LATITUDE *
+      Math.max(Math.cos(toRadians(center.latitude)), 0.01));
+
+  return {
+    minLatitude: center.latitude - latitudeDelta,
+    minLongitude: center.longitude - longitudeDelta,
+    maxLatitude: center.latitude + latitudeDelta,
+    maxLongitude: center.longitude + longitudeDelta,
+  };
+}
+
+export function boundsIntersect(a: BoundingBox, b: BoundingBox): boolean {
+  return (
+    a.minLatitude <= b.maxLatitude &&
+    a.maxLatitude >= b.minLatitude &&
+    a.minLongitude <= b.maxLongitude &&
+    a.maxLongitude >= b.minLongitude
+  );
+}
+
+export function isPointInBounds(
+  point: Coordinates,
+  bounds: BoundingBox,
+): boolean {
+  return (
+    point.latitude >= bounds.minLatitude &&
+    point.latitude <= bounds.maxLatitude &&
+    point.longitude >= bounds.minLongitude &&
+    point.longitude <= bounds.maxLongitude
+  );
+}
+
+export function distanceToBounds(
+  point: Coordinates,
+  bounds: BoundingBox,
+): number {
+  return haversineDistance(point, {
+    latitude: Math.min(
+      Math.max(point.latitude, bounds.minLatitude),
+      bounds.maxLatitude,
+    ),
+    longitude: Math.min(
+      Math.max(point.longitude, bounds.minLongitude),
+      bounds.maxLongitude,
+    ),
+  });
+}
+
+// Douglas–Peucker: drops points that lie within tolerance meters of the line
+// through their neighbours. Keeps the endpoints and returns the original
+// objects, so timestamps and other fields survive.
+export function simplifyPath<T extends Coordinates>(
+  path: T[],
+  tolerance: number,
+): T[] {
+  if (path.length <= 2) {
+    return [...path];
+  }
+
+  const keep = new Array<boolean>(path.length).fill(false);
+  keep[0] = true;
+  keep[path.length - 1] = true;
+
+  // Explicit stack so long tracks cannot overflow the call stack
+  const ranges: Array<[number, number]> = [[0, path.length - 1]];
+  while (ranges.length > 0) {
+    const [first, last] = ranges.pop()!;
+    let maxDistance = 0;
+    let farthest = -1;
+
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceToSegment(path[i], path[first], path[last]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        farthest = i;
+      }
+    }
+
+    if (farthest !== -1 && maxDistance > tolerance) {
+      keep[farthest] = true;
+      ranges.push([first, farthest], [farthest, last]);
+    }
+  }
+
+  return path.filter((_, i) => keep[i]);
+}
@@ -0,0 +1,172 @@
+import {GeoFenceZone} from '../services/LocationService';
+import {
+  BoundingBox,
+  Coordinates,
+  distanceFromOriginToSegment,
+  getBoundingBox,
+  getRadiusBounds,
+  haversineDistance,
+  projectPoint,
+} from './geo';
+import {
+  GeoFenceGeometry,
+  GeoJSONLinearRing,
+  GeoJSONPosition,
+} from '../types/geojson';
+
+// Projects a ring onto a flat plane in meters centred on the origin
+function projectRing(
+  ring: GeoJSONLinearRing,
+  origin: Coordinates,
+): Array<[number, number]> {
+  return ring.map(([longitude, latitude]: GeoJSONPosition) =>
+    projectPoint({latitude, longitude}, origin),
+  );
+}
+
+// Ray casting against a ring projected around the query point (0, 0)
+function ringContainsOrigin(points: Array<[number, number]>): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [xi, yi] = points[i];
+    const [xj, yj] = points[j];
+    if (yi > 0 !== yj > 0 && ((xj - xi) * -yi) / (yj - yi) + xi > 0) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function distanceFromOriginToRing(points: Array<[number, number]>): number {
+  let minDistance = Infinity;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    minDistance = Math.min(
+      minDistance,
+      distanceFromOriginToSegment(points[j], points[i]),
+    );
+  }
+  return minDistance;
+}
+
+function getPolygons(geometry: GeoFenceGeometry): GeoJSONLinearRing[][] {
+  return geometry.type === 'Polygon'
+    ? [geometry.coordinates]
+    : geometry.coordinates;
+}
+
+export function isPointInPolygon(
+  point: Coordinates,
+  rings: GeoJSONLinearRing[],
+): boolean {
+  if (rings.length === 0) {
+    return false;
+  }
+
+  const [outer, ...holes] = rings;
+  if (!ringContainsOrigin(projectRing(outer, point))) {
+    return false;
+  }
+
+  return !holes.some(hole => ringContainsOrigin(projectRing(hole, point)));
+}
+
+export function isPointInGeometry(
+  point: Coordinates,
+  geometry: GeoFenceGeometry,
+): boolean {
+  return getPolygons(geometry).some(rings => isPointInPolygon(point, rings));
+}
+
+// Shortest distance in meters from the point to any edge of the geometry,
+// holes included, regardless of whether the point is inside or outside
+export function distanceToGeometryBoundary(
+  point: Coordinates,
+  geometry: GeoFenceGeometry,
+): number {
+  let minDistance = Infinity;
+  getPolygons(geometry).forEach(rings => {
+    rings.forEach(ring => {
+      minDistance = Math.min(
+        minDistance,
+        distanceFromOriginToRing(projectRing(ring, point)),
+      );
+    });
+  });
+  return minDistance;
+}
+
+// Circle around the outer rings' vertex centroid that covers every vertex.
+// Gives polygon zones a marker position and a display radius.
+export function getGeometryBoundingCircle(geometry: GeoFenceGeometry): {
+  center: Coordinates;
+  radius: number;
+} {
+  const vertices = getPolygons(geometry).reduce<GeoJSONPosition[]>(
+    (all, rings) => {
+      const outer = rings[0] || [];
+      const [first] = outer;
+      const last = outer[outer.length - 1];
+      // GeoJSON rings repeat the first vertex at the end
+      const isClosed =
+        outer.length > 1 && first[0] === last[0] && first[1] === last[1];
+      return all.concat(isClosed ? outer.slice(0, -1) : outer);
+    },
+    [],
+  );
+  if (vertices.length === 0) {
+    return {center: {latitude: 0, longitude: 0}, radius: 0};
+  }
+
+  const center = {
+    latitude:
+      vertices.reduce((sum, [, latitude]) => sum + latitude, 0) /
+      vertices.length,
+    longitude:
+      vertices.reduce((sum, [longitude]) => sum + longitude, 0) /
+      vertices.length,
+  };
+  const radius = vertices.reduce(
+    (max, [longitude, latitude]) =>
+      Math.max(max, haversineDistance(center, {latitude, longitude})),
+    0,
+  );
+
+  return {center, radius};
+}
+
+export function getGeometryBounds(geometry: GeoFenceGeometry): BoundingBox {
+  // Holes lie within the outer ring, so it alone sets the extent
+  const vertices: Coordinates[] = [];
+  getPolygons(geometry).forEach(rings => {
+    (rings[0] || []).forEach(([longitude, latitude]) => {
+      vertices.push({latitude, longitude});
+    });
+  });
+  return getBoundingBox(vertices);
+}
+
+export function getZoneBounds(zone: GeoFenceZone): BoundingBox {
+  return zone.geometry
+    ? getGeometryBounds(zone.geometry)
+    : getRadiusBounds(zone.center, zone.radius);
+}
+
+export function isLocationInsideZone(
+  location: Coordinates,
+  zone: GeoFenceZone,
+): boolean {
+  if (zone.geometry) {
+    return isPointInGeometry(location, zone.geometry);
+  }
+  return haversineDistance(location, zone.center) <= zone.radius;
+}
+
+export function distanceToZoneBoundary(
+  location: Coordinates,
+  zone: GeoFenceZone,
+): number {
+  if (zone.geometry) {
+    return distanceToGeometryBoundary(location, zone.geometry);
+  }
+  return Math.abs(haversineDistance(location, zone.center) - zone.radius);
+}
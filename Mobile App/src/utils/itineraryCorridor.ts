@@ -0,0 +1,192 @@
+import {PlannedLocation, TripItinerary} from '../services/BlockchainService';
+import {Coordinates, distanceToPath, haversineDistance} from './geo';
+import {toDayKey} from './scoreHistory';
+
+export interface ItineraryWaypoint extends Coordinates {
+  name: string;
+  stop?: PlannedLocation; // unset for the accommodation
+}
+
+export interface ItineraryLeg {
+  index: number;
+  from: ItineraryWaypoint;
+  to: ItineraryWaypoint;
+  label: string;
+}
+
+export interface LateStop {
+  stop: PlannedLocation;
+  minutesLate: number;
+}
+
+export interface ItineraryDeviation {
+  leg: ItineraryLeg; // the leg of the day's route closest to the tourist
+  distanceFromRoute: number; // meters from that leg
+  isOffRoute: boolean;
+  lateStops: LateStop[];
+}
+
+export interface TimedCoordinates extends Coordinates {
+  timestamp: number;
+}
+
+// Half-width of the corridor around the planned route
+export const DEFAULT_CORRIDOR_WIDTH = 1000; // meters
+// Coming this close to a stop counts as having reached it
+export const ARRIVAL_RADIUS = 200; // meters
+// Time past a stop's planned visit before the tourist counts as late
+export const LATENESS_GRACE = 60; // minutes
+
+// Stops planned for a day without a time have nothing to be late for
+const hasVisitTime = (stop: PlannedLocation) => !stop.isDateOnly;
+
+// Placeholder coordinates are left at 0,0 until the accommodation is located
+const isLocated = ({latitude, longitude}: Coordinates) =>
+  latitude !== 0 || longitude !== 0;
+
+// The day's route: from the accommodation through the stops planned for the
+// day in visit order and back again
+export function getDayRoute(
+  itinerary: TripItinerary,
+  day: Date,
+): ItineraryWaypoint[] {
+  const dayKey = toDayKey(day);
+  const stops: ItineraryWaypoint[] = itinerary.plannedLocations
+    .filter(stop => toDayKey(new Date(stop.plannedVisitDate)) === dayKey)
+    .sort(
+      (a, b) =>
+        new Date(a.plannedVisitDate).getTime() -
+        new Date(b.plannedVisitDate).getTime(),
+    )
+    .map(stop => ({...stop.coordinates, name: stop.name, stop}));
+  if (stops.length === 0) {
+    return [];
+  }
+
+  const {accommodation} = itinerary;
+  if (!isLocated(accommodation.coordinates)) {
+    return stops;
+  }
+  const base: ItineraryWaypoint = {
+    ...accommodation.coordinates,
+    name: accommodation.name || 'Accommodation',
+  };
+  return [base, ...stops, base];
+}
+
+export function getItineraryLegs(route: ItineraryWaypoint[]): ItineraryLeg[] {
+  // A single stop is a leg that starts and ends there
+  if (route.length === 1) {
+    return [{index: 0, from: route[0], to: route[0], label: route[0].name}];
+  }
+
+  const legs: ItineraryLeg[] = [];
+  for (let i = 1; i < route.length; i++) {
+    legs.push({
+      index: i - 1,
+      from: route[i - 1],
+      to: route[i],
+      label: `${route[i - 1].name} → ${route[i].name}`,
+    });
+  }
+  return legs;
+}
+
+// Stops whose planned visit is more than the grace period past, that the
+// tourist has not come near since the start of that day
+export function getLateStops(
+  route: ItineraryWaypoint[],
+  history: TimedCoordinates[],
+  now: Date,
+  grace: number = LATENESS_GRACE,
+): LateStop[] {
+  const lateStops: LateStop[] = [];
+
+  route.forEach(({stop}) => {
+    if (!stop || stop.isVisited) {
+      return;
+    }
+
+    if (!hasVisitTime(stop)) {
+      return;
+    }
+    const visitTime = new Date(stop.plannedVisitDate);
+    const minutesLate = (now.getTime() - visitTime.getTime()) / (1000 * 60);
+    if (minutesLate <= grace) {
+      return;
+    }
+
+    const dayStart = new Date(visitTime);
+    dayStart.setHours(0, 0, 0, 0);
+    const reached = history.some(
+      location =>
+        location.timestamp >= dayStart.getTime() &&
+        haversineDistance(location, stop.coordinates) <= ARRIVAL_RADIUS,
+    );
+    if (!reached) {
+      lateStops.push({stop, minutesLate: Math.round(minutesLate)});
+    }
+  });
+
+  return lateStops;
+}
+
+// Measures the tourist against a corridor around the route planned for the
+// day. Returns null when nothing is planned for the day.
+export function assessItineraryDeviation(
+  itinerary: TripItinerary,
+  location: Coordinates,
+  history: TimedCoordinates[],
+  now: Date = new Date(),
+  corridorWidth: number = DEFAULT_CORRIDOR_WIDTH,
+): ItineraryDeviation | null {
+  const route = getDayRoute(itinerary, now);
+  if (route.length === 0) {
+    return null;
+  }
+
+  const legs = getItineraryLegs(route);
+  let leg = legs[0];
+  let distanceFromRoute = Infinity;
+  legs.forEach(candidate => {
+    const distance = distanceToPath(location, [candidate.from, candidate.to]);
+    if (distance < distanceFromRoute) {
+      leg = candidate;
+      distanceFromRoute = distance;
+    }
+  });
+
+  return {
+    leg,
+    distanceFromRoute,
+    isOffRoute: distanceFromRoute > corridorWidth,
+    lateStops: getLateStops(route, history, now),
+  };
+}
+
+const formatDistance = (meters: number) =>
+  meters >= 1000
+    ? `${(meters / 1000).toFixed(1)} km`
+    : `${Math.round(meters)} m`;
+
+const formatDelay = (minutes: number) =>
+  minutes >= 60
+    ? `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+    : `${minutes}m`;
+
+export function describeItineraryDeviation(
+  deviation: ItineraryDeviation,
+): string {
+  const reasons: string[] = [];
+  if (deviation.isOffRoute) {
+    reasons.push(
+      `${formatDistance(deviation.distanceFromRoute)} off the planned leg ${
+        deviation.leg.label
+      }`,
+    );
+  }
+  deviation.lateStops.forEach(({stop, minutesLate}) =>
+    reasons.push(`${formatDelay(minutesLate)} late for ${stop.name}`),
+  );
+  return reasons.join('; ');
+}
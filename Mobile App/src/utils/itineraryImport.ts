@@ -0,0 +1,386 @@
+import {PlannedLocation} from '../services/BlockchainService';
+import {haversineDistance} from './geo';
+
+export type ItineraryFileFormat = 'gpx' | 'kml' | 'csv';
+
+export interface ItineraryImportIssue {
+  entry: number; // 1-based waypoint, placemark or CSV line
+  message: string;
+}
+
+export interface ItineraryImportOptions {
+  format?: ItineraryFileFormat; // detected from the content when omitted
+  defaultVisitDate?: Date; // for entries that carry no date
+  existing?: PlannedLocation[]; // imported entries repeating these are dropped
+  duplicateRadius?: number; // meters
+}
+
+export interface ItineraryImportResult {
+  format: ItineraryFileFormat;
+  locations: PlannedLocation[];
+  skipped: ItineraryImportIssue[];
+  duplicates: number;
+}
+
+// Raw entry before validation, as read from any of the formats
+interface ItineraryEntry {
+  entry: number;
+  name?: string;
+  latitude: number;
+  longitude: number;
+  date?: string;
+  riskLevel?: string;
+}
+
+export const DEFAULT_DUPLICATE_RADIUS = 50; // meters
+
+const RISK_LEVELS = ['low', 'medium', 'high'];
+
+export function detectItineraryFormat(
+  content: string,
+  fileName?: string,
+): ItineraryFileFormat {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'gpx' || extension === 'kml' || extension === 'csv') {
+    return extension;
+  }
+
+  const head = content.slice(0, 1000).toLowerCase();
+  if (head.includes('<gpx')) {
+    return 'gpx';
+  }
+  if (head.includes('<kml')) {
+    return 'kml';
+  }
+  return 'csv';
+}
+
+export function parseItinerary(
+  content: string,
+  options: ItineraryImportOptions = {},
+): ItineraryImportResult {
+  const format = options.format || detectItineraryFormat(content);
+  const duplicateRadius = options.duplicateRadius ?? DEFAULT_DUPLICATE_RADIUS;
+  const skipped: ItineraryImportIssue[] = [];
+  const entries =
+    format === 'gpx'
+      ? readGPX(content)
+      : format === 'kml'
+      ? readKML(content, skipped)
+      : readCSV(content, skipped);
+
+  const known = [...(options.existing || [])];
+  const locations: PlannedLocation[] = [];
+  let duplicates = 0;
+  const idPrefix = `PL_${Date.now()}`;
+
+  entries.forEach(entry => {
+    const problem = validateEntry(entry);
+    if (problem) {
+      skipped.push({entry: entry.entry, message: problem});
+      return;
+    }
+
+    const visit = entry.date
+      ? parseVisitDate(entry.date)
+      : options.defaultVisitDate && {
+          date: options.defaultVisitDate,
+          isDateOnly: true,
+        };
+    if (!visit) {
+      skipped.push({
+        entry: entry.entry,
+        message: entry.date
+          ? `Unrecognised date "${entry.date}"`
+          : 'Missing visit date',
+      });
+      return;
+    }
+
+    const location: PlannedLocation = {
+      id: `${idPrefix}_${locations.length}`,
+      name: entry.name || `Stop ${entry.entry}`,
+      coordinates: {latitude: entry.latitude, longitude: entry.longitude},
+      plannedVisitDate: visit.date,
+      isDateOnly: visit.isDateOnly,
+      riskLevel: RISK_LEVELS.includes(entry.riskLevel || '')
+        ? (entry.riskLevel as PlannedLocation['riskLevel'])
+        : 'low',
+      isVisited: false,
+    };
+
+    if (known.some(other => isDuplicate(location, other, duplicateRadius))) {
+      duplicates++;
+      return;
+    }
+
+    known.push(location);
+    locations.push(location);
+  });
+
+  return {format, locations, skipped, duplicates};
+}
+
+// The same place on the same day, e.g. a GPX route that repeats its
+// waypoints. Returning somewhere on another day is a separate visit.
+function isDuplicate(
+  a: PlannedLocation,
+  b: PlannedLocation,
+  radius: number,
+): boolean {
+  return (
+    a.plannedVisitDate.toDateString() === b.plannedVisitDate.toDateString() &&
+    haversineDistance(a.coordinates, b.coordinates) <= radius
+  );
+}
+
+function validateEntry(entry: ItineraryEntry): string | null {
+  const {latitude, longitude} = entry;
+  if (!isFinite(latitude) || !isFinite(longitude)) {
+    return 'Missing or non-numeric coordinates';
+  }
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    return `Coordinates out of range (${latitude}, ${longitude})`;
+  }
+  // Exporters write 0,0 for points they could not place
+  if (latitude === 0 && longitude === 0) {
+    return 'Coordinates are 0,0';
+  }
+  return null;
+}
+
+// ISO dates and times, plus the day-first dates Indian operators use.
+// Bare dates are local midnight rather than UTC midnight, and are flagged
+// so a visit at midnight is not mistaken for one without a time.
+function parseVisitDate(
+  value: string,
+): {date: Date; isDateOnly: boolean} | undefined {
+  const isoDate = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (isoDate) {
+    return toLocalDate(+isoDate[1], +isoDate[2], +isoDate[3]);
+  }
+
+  const dayFirst = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (dayFirst) {
+    return toLocalDate(+dayFirst[3], +dayFirst[2], +dayFirst[1]);
+  }
+
+  const time = Date.parse(value);
+  return isNaN(time) ? undefined : {date: new Date(time), isDateOnly: false};
+}
+
+function toLocalDate(
+  year: number,
+  month: number,
+  day: number,
+): {date: Date; isDateOnly: boolean} | undefined {
+  const date = new Date(year, month - 1, day);
+  // Rejects roll-overs such as 31/02
+  return date.getMonth() === month - 1 && date.getDate() === day
+    ? {date, isDateOnly: true}
+    : undefined;
+}
+
+// GPX waypoints and route points; track points are a recorded trace rather
+// than a plan, so they are left out
+function readGPX(content: string): ItineraryEntry[] {
+  return [...getElements(content, 'wpt'), ...getElements(content, 'rtept')].map(
+    (element, i) => ({
+      entry: i + 1,
+      name: getChildText(element.body, 'name'),
+      latitude: parseCoordinate(getAttribute(element.attributes, 'lat')),
+      longitude: parseCoordinate(getAttribute(element.attributes, 'lon')),
+      date: getChildText(element.body, 'time'),
+    }),
+  );
+}
+
+function readKML(
+  content: string,
+  skipped: ItineraryImportIssue[],
+): ItineraryEntry[] {
+  const entries: ItineraryEntry[] = [];
+
+  getElements(content, 'Placemark').forEach((placemark, i) => {
+    const point = getElements(placemark.body, 'Point')[0];
+    if (!point) {
+      skipped.push({entry: i + 1, message: 'Placemark is not a point'});
+      return;
+    }
+
+    // KML writes longitude first
+    const [longitude, latitude] = (
+      getChildText(point.body, 'coordinates') || ''
+    ).split(',');
+    const timeStamp = getElements(placemark.body, 'TimeStamp')[0];
+    const timeSpan = getElements(placemark.body, 'TimeSpan')[0];
+
+    entries.push({
+      entry: i + 1,
+      name: getChildText(placemark.body, 'name'),
+      latitude: parseCoordinate(latitude),
+      longitude: parseCoordinate(longitude),
+      date: timeStamp
+        ? getChildText(timeStamp.body, 'when')
+        : timeSpan
+        ? getChildText(timeSpan.body, 'begin')
+        : undefined,
+    });
+  });
+
+  return entries;
+}
+
+const CSV_COLUMNS: Record<string, keyof ItineraryEntry> = {
+  name: 'name',
+  place: 'name',
+  title: 'name',
+  lat: 'latitude',
+  latitude: 'latitude',
+  lng: 'longitude',
+  lon: 'longitude',
+  long: 'longitude',
+  longitude: 'longitude',
+  date: 'date',
+  visit_date: 'date',
+  risk: 'riskLevel',
+  risk_level: 'riskLevel',
+};
+
+// Columns are matched by header name; files without a header are read as
+// name, lat, lng, date
+function readCSV(
+  content: string,
+  skipped: ItineraryImportIssue[],
+): ItineraryEntry[] {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const delimiter =
+    (lines[0].match(/;/g) || []).length > (lines[0].match(/,/g) || []).length
+      ? ';'
+      : ',';
+
+  const header = splitCSVLine(lines[0], delimiter).map(cell =>
+    cell.trim().toLowerCase().replace(/\s+/g, '_'),
+  );
+  const hasHeader = header.some(cell => CSV_COLUMNS[cell] === 'latitude');
+  const columns: Array<keyof ItineraryEntry | undefined> = hasHeader
+    ? header.map(cell => CSV_COLUMNS[cell])
+    : ['name', 'latitude', 'longitude', 'date'];
+
+  if (
+    hasHeader &&
+    (!columns.includes('latitude') || !columns.includes('longitude'))
+  ) {
+    skipped.push({entry: 1, message: 'Header has no longitude column'});
+    return [];
+  }
+
+  const entries: ItineraryEntry[] = [];
+  lines.forEach((line, i) => {
+    if ((hasHeader && i === 0) || !line.trim()) {
+      return;
+    }
+
+    const entry: ItineraryEntry = {entry: i + 1, latitude: NaN, longitude: NaN};
+    splitCSVLine(line, delimiter).forEach((cell, column) => {
+      const field = columns[column];
+      const value = cell.trim();
+      if (field === 'latitude' || field === 'longitude') {
+        entry[field] = parseCoordinate(value);
+      } else if (field === 'riskLevel') {
+        entry.riskLevel = value.toLowerCase();
+      } else if (field === 'name' || field === 'date') {
+        entry[field] = value || undefined;
+      }
+    });
+    entries.push(entry);
+  });
+
+  return entries;
+}
+
+// Handles quoted cells with embedded delimiters and doubled quotes
+function splitCSVLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  cells.push(cell);
+  return cells;
+}
+
+function parseCoordinate(value?: string): number {
+  return value && value.trim() ? Number(value.trim()) : NaN;
+}
+
+// Route files are small and flat, so a scan for the few elements we read is
+// enough and avoids shipping an XML parser. Namespace prefixes are ignored.
+function getElements(
+  xml: string,
+  tag: string,
+): Array<{attributes: string; body: string}> {
+  const pattern = new RegExp(
+    `<(?:[\\w-]+:)?${tag}\\b([^>]*?)(?:\\/>|>([\\s\\S]*?)<\\/(?:[\\w-]+:)?${tag}\\s*>)`,
+    'g',
+  );
+  const elements: Array<{attributes: string; body: string}> = [];
+  let match = pattern.exec(xml);
+  while (match) {
+    elements.push({attributes: match[1], body: match[2] || ''});
+    match = pattern.exec(xml);
+  }
+  return elements;
+}
+
+function getAttribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(
+    new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`),
+  );
+  return match ? match[1] ?? match[2] : undefined;
+}
+
+function getChildText(body: string, tag: string): string | undefined {
+  const element = getElements(body, tag)[0];
+  if (!element) {
+    return undefined;
+  }
+
+  const text = decodeXmlText(element.body).trim();
+  return text || undefined;
+}
+
+function decodeXmlText(value: string): string {
+  const cdata = value.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  if (cdata) {
+    return cdata[1];
+  }
+
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
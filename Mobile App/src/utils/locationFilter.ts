@@ -0,0 +1,151 @@
+import {LocationData} from '../services/LocationService';
+import {haversineDistance} from './geo';
+
+export interface LocationFilterSettings {
+  maxAccuracy: number; // meters, fixes reporting worse accuracy are dropped
+  maxSpeed: number; // m/s, faster implied movement is an impossible jump
+  minProcessNoise: number; // m/s, how far the true position may drift
+  maxConsecutiveRejections: number; // jumps in a row before trusting them
+}
+
+export type FixRejectionReason = 'inaccurate' | 'impossible-jump' | 'stale';
+
+export interface FixFilterResult {
+  accepted: boolean;
+  raw: LocationData;
+  filtered?: LocationData; // smoothed fix, set when accepted
+  rejectionReason?: FixRejectionReason;
+}
+
+export interface LocationFilterStats {
+  accepted: number;
+  rejectedInaccurate: number;
+  rejectedJumps: number;
+  rejectedStale: number;
+}
+
+export const DEFAULT_LOCATION_FILTER_SETTINGS: LocationFilterSettings = {
+  maxAccuracy: 100,
+  maxSpeed: 70, // ~250 km/h, covers express trains but not GPS teleports
+  minProcessNoise: 3, // walking pace
+  maxConsecutiveRejections: 3,
+};
+
+// Rejects bad GPS fixes and smooths the rest with a Kalman filter that
+// treats latitude and longitude as independent with a shared variance in
+// meters². Each fix's reported accuracy is its measurement noise, so precise
+// fixes pull the estimate harder than vague ones.
+export class LocationFixFilter {
+  private settings: LocationFilterSettings;
+  private estimate: LocationData | null = null;
+  private variance = -1; // meters², negative until the first fix
+  private lastAccepted: LocationData | null = null;
+  private consecutiveJumps = 0;
+  private stats: LocationFilterStats = {
+    accepted: 0,
+    rejectedInaccurate: 0,
+    rejectedJumps: 0,
+    rejectedStale: 0,
+  };
+
+  constructor(settings: Partial<LocationFilterSettings> = {}) {
+    this.settings = {...DEFAULT_LOCATION_FILTER_SETTINGS, ...settings};
+  }
+
+  process(fix: LocationData): FixFilterResult {
+    const raw: LocationData = {...fix, source: 'raw'};
+
+    if (!(raw.accuracy > 0) || raw.accuracy > this.settings.maxAccuracy) {
+      this.stats.rejectedInaccurate++;
+      return {accepted: false, raw, rejectionReason: 'inaccurate'};
+    }
+
+    if (this.lastAccepted && raw.timestamp <= this.lastAccepted.timestamp) {
+      this.stats.rejectedStale++;
+      return {accepted: false, raw, rejectionReason: 'stale'};
+    }
+
+    if (this.isImpossibleJump(raw)) {
+      this.consecutiveJumps++;
+      // Several consistent "jumps" in a row mean the earlier track was wrong
+      // or the tourist really did move, e.g. after a flight with GPS off
+      if (this.consecutiveJumps < this.settings.maxConsecutiveRejections) {
+        this.stats.rejectedJumps++;
+        return {accepted: false, raw, rejectionReason: 'impossible-jump'};
+      }
+      this.reset();
+    }
+
+    this.consecutiveJumps = 0;
+    this.lastAccepted = raw;
+    this.stats.accepted++;
+    return {accepted: true, raw, filtered: this.smooth(raw)};
+  }
+
+  reset() {
+    this.estimate = null;
+    this.variance = -1;
+    this.lastAccepted = null;
+    this.consecutiveJumps = 0;
+  }
+
+  getStats(): LocationFilterStats {
+    return {...this.stats};
+  }
+
+  updateSettings(settings: Partial<LocationFilterSettings>) {
+    this.settings = {...this.settings, ...settings};
+  }
+
+  getSettings(): LocationFilterSettings {
+    return {...this.settings};
+  }
+
+  // Movement is only impossible once both fixes' error circles are allowed
+  // for, so two noisy fixes a few seconds apart do not count as a jump
+  private isImpossibleJump(fix: LocationData): boolean {
+    if (!this.lastAccepted) {
+      return false;
+    }
+
+    const elapsed = (fix.timestamp - this.lastAccepted.timestamp) / 1000;
+    const distance =
+      haversineDistance(this.lastAccepted, fix) -
+      fix.accuracy -
+      this.lastAccepted.accuracy;
+
+    return distance > 0 && distance / elapsed > this.settings.maxSpeed;
+  }
+
+  private smooth(fix: LocationData): LocationData {
+    const measurementVariance = fix.accuracy * fix.accuracy;
+
+    if (!this.estimate || this.variance < 0) {
+      this.variance = measurementVariance;
+      this.estimate = {...fix, source: 'filtered'};
+      return this.estimate;
+    }
+
+    const elapsed = (fix.timestamp - this.estimate.timestamp) / 1000;
+    const processNoise = Math.max(
+      fix.speed || 0,
+      this.settings.minProcessNoise,
+    );
+    this.variance += elapsed * processNoise * processNoise;
+
+    const gain = this.variance / (this.variance + measurementVariance);
+    this.variance = (1 - gain) * this.variance;
+
+    this.estimate = {
+      ...fix,
+      latitude:
+        this.estimate.latitude + gain * (fix.latitude - this.estimate.latitude),
+      longitude:
+        this.estimate.longitude +
+        gain * (fix.longitude - this.estimate.longitude),
+      accuracy: Math.sqrt(this.variance),
+      source: 'filtered',
+    };
+    return this.estimate;
+  }
+}
@@ -0,0 +1,226 @@
+import {GeoFenceZone} from '../services/LocationService';
+import {HeatMapData} from '../services/AuthorityDashboardService';
+import {Coordinates, haversineDistance} from './geo';
+import {distanceToZoneBoundary, isLocationInsideZone} from './geometry';
+
+export type LocationRiskLayer = 'safetyZones' | 'incidents' | 'zoneTypes';
+
+export interface LocationRiskLayerSettings {
+  enabled: boolean;
+  decayDistance: number; // meters over which the layer's risk halves
+  decayTime?: number; // ms over which incident risk halves, incidents only
+}
+
+export type LocationRiskSettings = Record<
+  LocationRiskLayer,
+  LocationRiskLayerSettings
+>;
+
+export interface LocationRiskLayerResult {
+  layer: LocationRiskLayer;
+  risk: number; // 0-100
+  detail: string;
+}
+
+export interface LocationRiskAssessment {
+  risk: number; // 0-100
+  drivingLayer: LocationRiskLayer | null; // null when no layer beat the baseline
+  description: string;
+  layers: LocationRiskLayerResult[];
+}
+
+export interface LocationRiskInputs {
+  safetyZones: GeoFenceZone[]; // authority zones from safety_zones
+  zones: GeoFenceZone[]; // other geo-fence zones such as caves and forests
+  heatMap: HeatMapData[];
+}
+
+export const DEFAULT_LOCATION_RISK_SETTINGS: LocationRiskSettings = {
+  safetyZones: {enabled: true, decayDistance: 250},
+  incidents: {
+    enabled: true,
+    decayDistance: 300,
+    decayTime: 7 * 24 * 60 * 60 * 1000, // a week
+  },
+  zoneTypes: {enabled: true, decayDistance: 150},
+};
+
+export const LOCATION_RISK_LAYER_NAMES: Record<LocationRiskLayer, string> = {
+  safetyZones: 'safety zones',
+  incidents: 'incident heat map',
+  zoneTypes: 'zone types',
+};
+
+// Risk with nothing nearby on any layer
+export const BASELINE_LOCATION_RISK = 20;
+
+// Risk inside a zone of each type; safe zones add none
+export const ZONE_TYPE_RISK: Record<GeoFenceZone['type'], number> = {
+  restricted: 90,
+  'high-risk': 75,
+  cave: 60,
+  forest: 50,
+  safe: 0,
+};
+
+// Beyond this many decay distances a source adds under 2% of its risk
+const DECAY_CUTOFF = 6;
+
+// How far out zones can still add risk, for narrowing the zones to pass in
+export function getZoneRiskReach(settings: LocationRiskSettings): number {
+  return (
+    Math.max(
+      settings.safetyZones.decayDistance,
+      settings.zoneTypes.decayDistance,
+    ) * DECAY_CUTOFF
+  );
+}
+
+// Zones synced from safety_zones feed the safety zone layer. Those only ever
+// map to safe, high-risk or restricted, so the zone-type layer holds the
+// built-in and locally added zones, such as caves and forests.
+export function splitZoneLayers(
+  zones: GeoFenceZone[],
+): Pick<LocationRiskInputs, 'safetyZones' | 'zones'> {
+  return {
+    safetyZones: zones.filter(zone => zone.source === 'safety_zones'),
+    zones: zones.filter(zone => zone.source !== 'safety_zones'),
+  };
+}
+
+// The location risk is that of the worst layer, so the description can name
+// exactly what drove it rather than an opaque blend
+export function assessLocationRisk(
+  location: Coordinates,
+  inputs: LocationRiskInputs,
+  settings: LocationRiskSettings = DEFAULT_LOCATION_RISK_SETTINGS,
+  now: Date = new Date(),
+): LocationRiskAssessment {
+  const layers: LocationRiskLayerResult[] = [];
+
+  if (settings.safetyZones.enabled) {
+    layers.push(
+      assessZoneLayer(
+        'safetyZones',
+        location,
+        inputs.safetyZones,
+        settings.safetyZones,
+      ),
+    );
+  }
+  if (settings.zoneTypes.enabled) {
+    layers.push(
+      assessZoneLayer('zoneTypes', location, inputs.zones, settings.zoneTypes),
+    );
+  }
+  if (settings.incidents.enabled) {
+    layers.push(
+      assessIncidentLayer(location, inputs.heatMap, settings.incidents, now),
+    );
+  }
+
+  const driver = layers.reduce<LocationRiskLayerResult | null>(
+    (worst, result) =>
+      result.risk > (worst ? worst.risk : BASELINE_LOCATION_RISK)
+        ? result
+        : worst,
+    null,
+  );
+
+  if (!driver) {
+    return {
+      risk: BASELINE_LOCATION_RISK,
+      drivingLayer: null,
+      description: 'No known risks nearby',
+      layers,
+    };
+  }
+
+  return {
+    risk: Math.round(driver.risk),
+    drivingLayer: driver.layer,
+    description: `${driver.detail} (${
+      LOCATION_RISK_LAYER_NAMES[driver.layer]
+    })`,
+    layers,
+  };
+}
+
+// Full zone risk inside the boundary, halving every decayDistance outside it
+function assessZoneLayer(
+  layer: LocationRiskLayer,
+  location: Coordinates,
+  zones: GeoFenceZone[],
+  settings: LocationRiskLayerSettings,
+): LocationRiskLayerResult {
+  let result: LocationRiskLayerResult = {layer, risk: 0, detail: ''};
+
+  zones.forEach(zone => {
+    const zoneRisk = ZONE_TYPE_RISK[zone.type] || 0;
+    if (!zone.isActive || zoneRisk === 0) {
+      return;
+    }
+
+    const inside = isLocationInsideZone(location, zone);
+    const distance = inside ? 0 : distanceToZoneBoundary(location, zone);
+    if (distance > settings.decayDistance * DECAY_CUTOFF) {
+      return;
+    }
+
+    const risk = zoneRisk * decay(distance, settings.decayDistance);
+    if (risk > result.risk) {
+      result = {
+        layer,
+        risk,
+        detail: inside
+          ? `Inside ${zone.type} zone "${zone.name}"`
+          : `${Math.round(distance)} m from ${zone.type} zone "${zone.name}"`,
+      };
+    }
+  });
+
+  return result;
+}
+
+// Each heat-map point weighs in by intensity, fading with distance and with
+// time since its last incident. A density of 1, e.g. one point of full
+// intensity close by and recent, is maximum risk.
+function assessIncidentLayer(
+  location: Coordinates,
+  heatMap: HeatMapData[],
+  settings: LocationRiskLayerSettings,
+  now: Date,
+): LocationRiskLayerResult {
+  let density = 0;
+  let incidents = 0;
+
+  heatMap.forEach(point => {
+    const distance = haversineDistance(location, point.coordinates);
+    if (distance > settings.decayDistance * DECAY_CUTOFF) {
+      return;
+    }
+
+    const age = Math.max(
+      0,
+      now.getTime() - new Date(point.lastIncident).getTime(),
+    );
+    const weight =
+      decay(distance, settings.decayDistance) *
+      (settings.decayTime ? decay(age, settings.decayTime) : 1);
+
+    density += point.intensity * weight;
+    incidents += point.incidentCount;
+  });
+
+  return {
+    layer: 'incidents',
+    risk: Math.min(1, density) * 100,
+    detail: `${incidents} reported incident${
+      incidents === 1 ? '' : 's'
+    } within ${Math.round(settings.decayDistance * DECAY_CUTOFF)} m`,
+  };
+}
+
+function decay(value: number, halfValue: number): number {
+  return halfValue > 0 ? Math.pow(0.5, value / halfValue) : value > 0 ? 0 : 1;
+}
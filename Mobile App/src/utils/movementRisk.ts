@@ -0,0 +1,183 @@
+import {LocationData} from '../services/LocationService';
+import {calculateBearing, haversineDistance} from './geo';
+import {getDaylightPhase} from './solar';
+
+export interface MovementRiskAssessment {
+  risk: number; // 0-100
+  // Each pattern scored 0-1
+  erraticHeading: number;
+  stopAndGo: number;
+  nightMovement: number;
+  description: string;
+}
+
+export const MOVEMENT_WINDOW = 30 * 60 * 1000; // recent history assessed
+
+const MIN_FIXES = 5; // fewer recent fixes than this says nothing reliable
+const MIN_LEG = 20; // meters between heading samples, above GPS jitter
+const CALM_TURN = 30; // degrees, mean turn of an ordinary walk
+const ERRATIC_TURN = 90; // degrees, mean turn scored as fully erratic
+const STOPPED_SPEED = 0.7; // m/s, slower counts as standing still
+const SHORT_STOP = 2 * 60 * 1000; // longer stops are visits, not stop-and-go
+const STOP_AND_GO_LIMIT = 5; // short stops per window scored as full risk
+
+const BASELINE_MOVEMENT_RISK = 10;
+const UNKNOWN_MOVEMENT_RISK = 30; // too little history to judge either way
+
+const PATTERN_WEIGHTS = {
+  erraticHeading: 0.4,
+  stopAndGo: 0.3,
+  nightMovement: 0.3,
+};
+
+// Scores the last half hour of the track for erratic changes of direction,
+// repeated short stops and movement after dark
+export function assessMovementRisk(
+  history: LocationData[],
+  now: Date = new Date(),
+): MovementRiskAssessment {
+  const recent = history
+    .filter(location => {
+      const age = now.getTime() - toTime(location.timestamp);
+      return age >= 0 && age <= MOVEMENT_WINDOW;
+    })
+    .sort((a, b) => toTime(a.timestamp) - toTime(b.timestamp));
+
+  if (recent.length < MIN_FIXES) {
+    return {
+      risk: UNKNOWN_MOVEMENT_RISK,
+      erraticHeading: 0,
+      stopAndGo: 0,
+      nightMovement: 0,
+      description: 'Not enough recent movement to assess',
+    };
+  }
+
+  const erraticHeading = getErraticHeading(recent);
+  const {shortStops, nightMovement, movingTime} = getMovementTiming(recent);
+  const stopAndGo = Math.min(1, shortStops / STOP_AND_GO_LIMIT);
+
+  const contributions = {
+    erraticHeading: erraticHeading * PATTERN_WEIGHTS.erraticHeading,
+    stopAndGo: stopAndGo * PATTERN_WEIGHTS.stopAndGo,
+    nightMovement: nightMovement * PATTERN_WEIGHTS.nightMovement,
+  };
+  const total =
+    contributions.erraticHeading +
+    contributions.stopAndGo +
+    contributions.nightMovement;
+
+  const descriptions = {
+    erraticHeading: 'Erratic changes of direction',
+    stopAndGo: `${shortStops} short stop${
+      shortStops === 1 ? '' : 's'
+    } in the last 30 minutes`,
+    nightMovement: 'Moving after dark',
+  };
+  const driver = (
+    Object.keys(contributions) as Array<keyof typeof contributions>
+  ).reduce((worst, pattern) =>
+    contributions[pattern] > contributions[worst] ? pattern : worst,
+  );
+
+  return {
+    risk: Math.round(
+      BASELINE_MOVEMENT_RISK + (100 - BASELINE_MOVEMENT_RISK) * total,
+    ),
+    erraticHeading,
+    stopAndGo,
+    nightMovement,
+    description:
+      total > 0
+        ? descriptions[driver]
+        : movingTime > 0
+        ? 'Steady movement'
+        : 'Stationary',
+  };
+}
+
+// Mean turn between legs of at least MIN_LEG, so jitter while standing
+// still does not read as zig-zagging
+function getErraticHeading(track: LocationData[]): number {
+  const anchors = [track[0]];
+  track.forEach(location => {
+    if (haversineDistance(anchors[anchors.length - 1], location) >= MIN_LEG) {
+      anchors.push(location);
+    }
+  });
+  if (anchors.length < 3) {
+    return 0;
+  }
+
+  const bearings = anchors
+    .slice(1)
+    .map((anchor, i) => calculateBearing(anchors[i], anchor));
+  let totalTurn = 0;
+  for (let i = 1; i < bearings.length; i++) {
+    const turn = Math.abs(bearings[i] - bearings[i - 1]) % 360;
+    totalTurn += turn > 180 ? 360 - turn : turn;
+  }
+  const meanTurn = totalTurn / (bearings.length - 1);
+
+  return Math.max(
+    0,
+    Math.min(1, (meanTurn - CALM_TURN) / (ERRATIC_TURN - CALM_TURN)),
+  );
+}
+
+// Short stops between stretches of movement, and the share of moving time
+// spent at night
+function getMovementTiming(track: LocationData[]) {
+  let shortStops = 0;
+  let movingTime = 0;
+  let nightTime = 0;
+  let hasMoved = false;
+  let stopStartedAt: number | null = null;
+
+  for (let i = 1; i < track.length; i++) {
+    const start = toTime(track[i - 1].timestamp);
+    const elapsed = toTime(track[i].timestamp) - start;
+    if (elapsed <= 0) {
+      continue;
+    }
+
+    const speed =
+      track[i].speed !== undefined
+        ? track[i].speed!
+        : haversineDistance(track[i - 1], track[i]) / (elapsed / 1000);
+
+    if (speed < STOPPED_SPEED) {
+      if (stopStartedAt === null) {
+        stopStartedAt = start;
+      }
+      continue;
+    }
+
+    if (
+      stopStartedAt !== null &&
+      hasMoved &&
+      start - stopStartedAt < SHORT_STOP
+    ) {
+      shortStops++;
+    }
+    stopStartedAt = null;
+    hasMoved = true;
+
+    movingTime += elapsed;
+    // Darkness at the fix itself, whatever time zone the phone is in
+    if (getDaylightPhase(new Date(start), track[i]) === 'night') {
+      nightTime += elapsed;
+    }
+  }
+
+  return {
+    shortStops,
+    movingTime,
+    nightMovement: movingTime > 0 ? nightTime / movingTime : 0,
+  };
+}
+
+// Stored history revives timestamps as Dates, live fixes carry numbers
+function toTime(timestamp: number | Date): number {
+  return new Date(timestamp).getTime();
+}
@@ -0,0 +1,206 @@
+export type SafetyFactorKey =
+  | 'location'
+  | 'time'
+  | 'movement'
+  | 'behavior'
+  | 'environmental'
+  | 'crowd';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export interface RiskThresholds {
+  factorNegative: number; // factor values above this count against the tourist
+  factorNeutral: number; // and above this are neither good nor bad
+  recommend: number; // negative factors above this get a recommendation
+  high: number; // overall scores at or above this are high risk
+  medium: number;
+}
+
+export interface RiskProfile {
+  id: string;
+  name: string;
+  description: string;
+  // The other factors are normalised to sum to 1. Crowd is the share they
+  // give up when there is crowd data, see getFactorWeights.
+  weights: Record<SafetyFactorKey, number>;
+  thresholds: RiskThresholds;
+  // Replace the standard wording; anything left out falls back to it
+  recommendations?: Partial<Record<SafetyFactorKey, string>>;
+  levelAdvice?: Partial<Record<RiskLevel, string>>;
+}
+
+export const SAFETY_FACTOR_NAMES: Record<SafetyFactorKey, string> = {
+  location: 'Location Risk',
+  time: 'Time Risk',
+  movement: 'Movement Pattern',
+  behavior: 'Historical Behavior',
+  environmental: 'Environmental Risk',
+  crowd: 'Crowd Density',
+};
+
+export const DEFAULT_RECOMMENDATIONS: Record<SafetyFactorKey, string> = {
+  location: 'Consider moving to a safer area',
+  time: 'Avoid traveling during high-risk hours',
+  movement: 'Maintain steady movement patterns',
+  behavior: 'Follow safety guidelines more closely',
+  environmental: 'Be extra cautious of your surroundings',
+  crowd: 'Stay where other people are around, but clear of dense crowds',
+};
+
+export const DEFAULT_LEVEL_ADVICE: Record<RiskLevel, string> = {
+  high: 'High risk detected - consider emergency contacts',
+  medium: 'Medium risk - stay alert and follow safety guidelines',
+  low: 'Low risk - continue following safety practices',
+};
+
+export const DEFAULT_RISK_PROFILE_ID = 'standard';
+
+export const RISK_PROFILES: RiskProfile[] = [
+  {
+    id: DEFAULT_RISK_PROFILE_ID,
+    name: 'Standard',
+    description: 'Balanced weighting for most travellers',
+    weights: {
+      location: 0.3,
+      time: 0.2,
+      movement: 0.15,
+      behavior: 0.2,
+      environmental: 0.15,
+      crowd: 0.1,
+    },
+    thresholds: {
+      factorNegative: 70,
+      factorNeutral: 40,
+      recommend: 60,
+      high: 70,
+      medium: 40,
+    },
+  },
+  {
+    id: 'solo-night',
+    name: 'Solo traveller at night',
+    description: 'Weighs time of day and surroundings more, and warns earlier',
+    weights: {
+      location: 0.3,
+      time: 0.3,
+      movement: 0.15,
+      behavior: 0.1,
+      environmental: 0.15,
+      crowd: 0.15,
+    },
+    thresholds: {
+      factorNegative: 60,
+      factorNeutral: 35,
+      recommend: 50,
+      high: 60,
+      medium: 35,
+    },
+    recommendations: {
+      location: 'Move to a well-lit, busy area or a registered safe zone',
+      time: 'Share your live location with a trusted contact and use registered taxis after dark',
+      movement: 'Keep to main roads and avoid being followed into quiet lanes',
+      crowd: 'Head for a busy, well-lit place rather than empty streets',
+    },
+    levelAdvice: {
+      high: 'High risk - call a trusted contact now and keep the panic button ready',
+    },
+  },
+  {
+    id: 'elderly-group',
+    name: 'Elderly group',
+    description: 'Weighs heat, terrain and the group staying together',
+    weights: {
+      location: 0.2,
+      time: 0.15,
+      movement: 0.25,
+      behavior: 0.15,
+      environmental: 0.25,
+      crowd: 0.1,
+    },
+    thresholds: {
+      factorNegative: 65,
+      factorNeutral: 40,
+      recommend: 55,
+      high: 65,
+      medium: 40,
+    },
+    recommendations: {
+      movement: 'Check that everyone in the group is together and rested',
+      environmental: 'Rest in the shade, drink water and avoid steep paths',
+      crowd: 'Keep the group together and wait for the crowd to thin out',
+    },
+  },
+  {
+    id: 'trekking',
+    name: 'Trekking party',
+    description: 'Weighs terrain, forest and cave zones and the weather',
+    weights: {
+      location: 0.3,
+      time: 0.2,
+      movement: 0.1,
+      behavior: 0.1,
+      environmental: 0.3,
+      crowd: 0.05,
+    },
+    thresholds: {
+      factorNegative: 70,
+      factorNeutral: 40,
+      recommend: 60,
+      high: 70,
+      medium: 40,
+    },
+    recommendations: {
+      location: 'Stay on marked trails and tell the forest office your route',
+      time: 'Plan to be off the trail before sunset',
+      environmental: 'Check the weather before continuing the trek',
+    },
+  },
+];
+
+// Looks the profile up among the built-in and authority-issued ones,
+// falling back to the standard profile
+export function resolveRiskProfile(
+  profileId: string | undefined,
+  customProfiles: RiskProfile[] = [],
+): RiskProfile {
+  return (
+    [...customProfiles, ...RISK_PROFILES].find(
+      profile => profile.id === profileId,
+    ) || RISK_PROFILES[0]
+  );
+}
+
+// Authority-issued weights need not add up to 1
+export function normalizeWeights(
+  weights: Record<SafetyFactorKey, number>,
+): Record<SafetyFactorKey, number> {
+  const keys = Object.keys(SAFETY_FACTOR_NAMES) as SafetyFactorKey[];
+  const weightOf = (key: SafetyFactorKey) => Math.max(0, weights[key] || 0);
+  const total = keys.reduce((sum, key) => sum + weightOf(key), 0);
+
+  const normalized = {} as Record<SafetyFactorKey, number>;
+  keys.forEach(key => {
+    normalized[key] = total > 0 ? weightOf(key) / total : 1 / keys.length;
+  });
+  return normalized;
+}
+
+// Weights for one score. Crowd data, where there is any, takes the profile's
+// crowd share and the other factors are scaled down keeping their
+// proportions; without it they score as if there were no crowd factor.
+export function getFactorWeights(
+  weights: Record<SafetyFactorKey, number>,
+  hasCrowdData: boolean,
+): Record<SafetyFactorKey, number> {
+  const base = normalizeWeights({...weights, crowd: 0});
+  // Only all-zero weights leave crowd a part of the base
+  const baseTotal = 1 - base.crowd;
+  const share = hasCrowdData ? Math.min(1, Math.max(0, weights.crowd || 0)) : 0;
+
+  const factorWeights = {} as Record<SafetyFactorKey, number>;
+  (Object.keys(base) as SafetyFactorKey[]).forEach(key => {
+    factorWeights[key] =
+      key === 'crowd' ? share : (base[key] / baseTotal) * (1 - share);
+  });
+  return factorWeights;
+}
@@ -0,0 +1,144 @@
+import {GeoFenceZone} from '../services/LocationService';
+import {
+  calculateBearing,
+  Coordinates,
+  destinationPoint,
+  haversineDistance,
+} from './geo';
+import {distanceToZoneBoundary, isLocationInsideZone} from './geometry';
+
+export interface RouteWaypoint extends Coordinates {
+  name?: string;
+}
+
+export interface RouteSegment {
+  index: number;
+  start: Coordinates;
+  end: Coordinates;
+  length: number; // meters
+  label: string; // the leg of the route it belongs to
+}
+
+export type RouteWarningType = 'crosses-zone' | 'passes-zone-after-dark';
+
+export interface RouteWarning {
+  type: RouteWarningType;
+  zoneId: string;
+  zoneName: string;
+  zoneType: GeoFenceZone['type'];
+}
+
+// Zones a route should not cross, or pass close to after dark
+export const DANGEROUS_ZONE_TYPES: GeoFenceZone['type'][] = [
+  'restricted',
+  'high-risk',
+];
+
+export const DEFAULT_SEGMENT_LENGTH = 500; // meters
+export const WALKING_SPEED = 1.4; // m/s
+export const PASSING_DISTANCE = 200; // meters from a zone counted as passing it
+const SAMPLE_SPACING = 20; // meters between points checked along a segment
+
+// Splits each leg between waypoints into segments no longer than maxLength,
+// so a long leg is scored along its length rather than only at its ends
+export function splitRoute(
+  waypoints: RouteWaypoint[],
+  maxLength: number = DEFAULT_SEGMENT_LENGTH,
+): RouteSegment[] {
+  const segments: RouteSegment[] = [];
+
+  for (let i = 1; i < waypoints.length; i++) {
+    const from = waypoints[i - 1];
+    const to = waypoints[i];
+    const legLength = haversineDistance(from, to);
+    if (legLength === 0) {
+      continue;
+    }
+
+    const label =
+      from.name && to.name ? `${from.name} → ${to.name}` : `Leg ${i}`;
+    const bearing = calculateBearing(from, to);
+    // Whole meters, so float noise does not add a sliver of a segment
+    const parts = Math.max(1, Math.ceil(Math.round(legLength) / maxLength));
+    let start: Coordinates = {
+      latitude: from.latitude,
+      longitude: from.longitude,
+    };
+
+    for (let part = 1; part <= parts; part++) {
+      const end: Coordinates =
+        part === parts
+          ? {latitude: to.latitude, longitude: to.longitude}
+          : destinationPoint(from, bearing, (legLength * part) / parts);
+      segments.push({
+        index: segments.length,
+        start,
+        end,
+        length: haversineDistance(start, end),
+        label,
+      });
+      start = end;
+    }
+  }
+
+  return segments;
+}
+
+export function getSegmentMidpoint(segment: RouteSegment): Coordinates {
+  return destinationPoint(
+    segment.start,
+    calculateBearing(segment.start, segment.end),
+    segment.length / 2,
+  );
+}
+
+// Dangerous zones the segment crosses, and when it is dark, the ones it
+// passes within PASSING_DISTANCE of
+export function getSegmentWarnings(
+  segment: RouteSegment,
+  zones: GeoFenceZone[],
+  isDark: boolean,
+): RouteWarning[] {
+  const samples = getSamplePoints(segment);
+  const warnings: RouteWarning[] = [];
+
+  zones
+    .filter(zone => DANGEROUS_ZONE_TYPES.includes(zone.type))
+    .forEach(zone => {
+      let type: RouteWarningType | null = null;
+      if (samples.some(point => isLocationInsideZone(point, zone))) {
+        type = 'crosses-zone';
+      } else if (
+        isDark &&
+        samples.some(
+          point => distanceToZoneBoundary(point, zone) <= PASSING_DISTANCE,
+        )
+      ) {
+        type = 'passes-zone-after-dark';
+      }
+
+      if (type) {
+        warnings.push({
+          type,
+          zoneId: zone.id,
+          zoneName: zone.name,
+          zoneType: zone.type,
+        });
+      }
+    });
+
+  return warnings;
+}
+
+function getSamplePoints(segment: RouteSegment): Coordinates[] {
+  const count = Math.max(1, Math.ceil(segment.length / SAMPLE_SPACING));
+  const bearing = calculateBearing(segment.start, segment.end);
+  const points = [segment.start];
+  for (let i = 1; i < count; i++) {
+    points.push(
+      destinationPoint(segment.start, bearing, (segment.length * i) / count),
+    );
+  }
+  points.push(segment.end);
+  return points;
+}
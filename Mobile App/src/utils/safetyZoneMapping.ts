@@ -0,0 +1,72 @@
+import {GeoFenceZone} from '../services/LocationService';
+import {SafetyZoneRecord} from '../services/SafetyZoneSyncService';
+import {getGeometryBoundingCircle} from './geometry';
+
+const ZONE_TYPE_MAPPING: Record<
+  SafetyZoneRecord['zone_type'],
+  GeoFenceZone['type']
+> = {
+  safe: 'safe',
+  caution: 'high-risk',
+  danger: 'restricted',
+};
+
+const DEFAULT_ALERT_MESSAGES: Record<GeoFenceZone['type'], string> = {
+  safe: 'You are in a designated safe zone.',
+  'high-risk':
+    'Authorities have marked this area for caution. Stay alert and keep to marked paths.',
+  restricted:
+    'WARNING: Authorities have marked this area as dangerous. Leave the area immediately.',
+  cave: 'You are entering a cave area. Please stay with your group and follow safety guidelines.',
+  forest:
+    'You are entering a forest area. Wildlife may be present. Stay alert and follow guide instructions.',
+};
+
+export const DEFAULT_ZONE_RADIUS = 500; // meters, web zones without a radius
+
+// Converts a safety_zones row into a geo-fence zone, or null when its type
+// or geometry cannot be used
+export function mapSafetyZoneRecord(
+  record: SafetyZoneRecord,
+): GeoFenceZone | null {
+  const type = ZONE_TYPE_MAPPING[record.zone_type];
+  if (!type) {
+    console.warn(`Unknown zone type for safety zone ${record.id}`);
+    return null;
+  }
+
+  const zone: GeoFenceZone = {
+    id: record.id,
+    name: record.name,
+    type,
+    center: {latitude: 0, longitude: 0},
+    radius: record.radius || DEFAULT_ZONE_RADIUS,
+    // Explicit so an update clears a boundary or schedule removed on the web
+    geometry: undefined,
+    schedule: record.schedule || undefined,
+    source: 'safety_zones',
+    alertMessage: record.description || DEFAULT_ALERT_MESSAGES[type],
+    isActive: record.is_active,
+  };
+
+  const geometry = record.coordinates;
+  if (geometry?.type === 'Polygon' || geometry?.type === 'MultiPolygon') {
+    const boundingCircle = getGeometryBoundingCircle(geometry);
+    zone.geometry = geometry;
+    zone.center = boundingCircle.center;
+    zone.radius = boundingCircle.radius;
+  } else if (record.center_lat !== null && record.center_lng !== null) {
+    zone.center = {
+      latitude: Number(record.center_lat),
+      longitude: Number(record.center_lng),
+    };
+  } else if (geometry?.type === 'Point') {
+    const [longitude, latitude] = geometry.coordinates;
+    zone.center = {latitude, longitude};
+  } else {
+    console.warn(`Safety zone ${record.id} has no usable geometry`);
+    return null;
+  }
+
+  return zone;
+}
@@ -0,0 +1,165 @@
+import {ZoneDateRange, ZoneSchedule} from '../services/LocationService';
+
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+  minutes: number; // minutes since local midnight
+}
+
+export interface ZoneScheduleStatus {
+  isOpen: boolean;
+  minutesUntilClose: number | null; // null while open with no closing ahead
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Wall-clock date and time in the given IANA time zone. Falls back to the
+// device clock when the engine has no time zone data.
+export function getZonedDateParts(
+  date: Date,
+  timeZone: string,
+): ZonedDateParts {
+  try {
+    const parts: Record<string, string> = {};
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false,
+    })
+      .formatToParts(date)
+      .forEach(part => {
+        parts[part.type] = part.value;
+      });
+
+    return {
+      year: Number(parts.year),
+      month: Number(parts.month),
+      day: Number(parts.day),
+      weekday: WEEKDAYS.indexOf(parts.weekday),
+      // Some engines render midnight as 24:00 with hour12 off
+      minutes: (Number(parts.hour) % 24) * 60 + Number(parts.minute),
+    };
+  } catch (error) {
+    console.warn(`Time zone ${timeZone} unavailable, using device time`);
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      weekday: date.getDay(),
+      minutes: date.getHours() * 60 + date.getMinutes(),
+    };
+  }
+}
+
+function parseTimeOfDay(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+// 'HH:mm' for minutes since midnight
+export function formatTimeOfDay(minutes: number): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+function isDateInRange(parts: ZonedDateParts, range: ZoneDateRange): boolean {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const monthDay = `${pad(parts.month)}-${pad(parts.day)}`;
+
+  // 'MM-DD' ranges repeat yearly and may wrap past new year
+  if (range.from.length === 5) {
+    return range.from <= range.to
+      ? monthDay >= range.from && monthDay <= range.to
+      : monthDay >= range.from || monthDay <= range.to;
+  }
+
+  const date = `${parts.year}-${monthDay}`;
+  return date >= range.from && date <= range.to;
+}
+
+function isClosedOn(schedule: ZoneSchedule, parts: ZonedDateParts): boolean {
+  return (schedule.closures || []).some(range => isDateInRange(parts, range));
+}
+
+// Minutes left in the opening window that contains the given time, or null
+// when no window is open
+function getMinutesLeftInWindow(
+  schedule: ZoneSchedule,
+  parts: ZonedDateParts,
+): number | null {
+  const previousDay = (parts.weekday + 6) % 7;
+  let minutesLeft: number | null = null;
+
+  (schedule.openingHours || []).forEach(hours => {
+    const start = parseTimeOfDay(hours.start);
+    const end = parseTimeOfDay(hours.end);
+    let remaining: number | null = null;
+
+    if (end > start) {
+      if (
+        hours.days.includes(parts.weekday) &&
+        parts.minutes >= start &&
+        parts.minutes < end
+      ) {
+        remaining = end - parts.minutes;
+      }
+    } else if (hours.days.includes(parts.weekday) && parts.minutes >= start) {
+      remaining = MINUTES_PER_DAY - parts.minutes + end;
+    } else if (hours.days.includes(previousDay) && parts.minutes < end) {
+      remaining = end - parts.minutes;
+    }
+
+    if (
+      remaining !== null &&
+      (minutesLeft === null || remaining > minutesLeft)
+    ) {
+      minutesLeft = remaining;
+    }
+  });
+
+  return minutesLeft;
+}
+
+export function getZoneScheduleStatus(
+  schedule: ZoneSchedule,
+  at: Date,
+): ZoneScheduleStatus {
+  const parts = getZonedDateParts(at, schedule.timezone);
+  if (isClosedOn(schedule, parts)) {
+    return {isOpen: false, minutesUntilClose: null};
+  }
+
+  const minutesToMidnight = MINUTES_PER_DAY - parts.minutes;
+  const tomorrow = getZonedDateParts(
+    new Date(at.getTime() + minutesToMidnight * 60 * 1000),
+    schedule.timezone,
+  );
+  const closesAtMidnight = isClosedOn(schedule, tomorrow);
+
+  if (!schedule.openingHours || schedule.openingHours.length === 0) {
+    return {
+      isOpen: true,
+      minutesUntilClose: closesAtMidnight ? minutesToMidnight : null,
+    };
+  }
+
+  const minutesLeft = getMinutesLeftInWindow(schedule, parts);
+  if (minutesLeft === null) {
+    return {isOpen: false, minutesUntilClose: null};
+  }
+
+  return {
+    isOpen: true,
+    minutesUntilClose: closesAtMidnight
+      ? Math.min(minutesLeft, minutesToMidnight)
+      : minutesLeft,
+  };
+}
@@ -0,0 +1,102 @@
+import {Coordinates, haversineDistance} from './geo';
+import {RiskLevel, SafetyFactorKey} from './riskProfiles';
+
+export interface ScoreHistoryEntry {
+  score: number;
+  riskLevel: RiskLevel;
+  factors: Partial<Record<SafetyFactorKey, number>>; // factor values
+  location: Coordinates;
+  timestamp: Date;
+  profileId: string;
+}
+
+export interface DailyScoreSummary {
+  day: string; // YYYY-MM-DD, local time
+  average: number;
+  highest: number;
+  lowest: number;
+  count: number;
+  riskiestEntry: ScoreHistoryEntry;
+}
+
+export type ScoreTrend = 'improving' | 'worsening' | 'stable';
+
+export const DEFAULT_PLACE_RADIUS = 500; // meters
+const TREND_THRESHOLD = 5; // points between daily averages
+
+// Local calendar day, so a late evening walk is not filed under tomorrow
+export function toDayKey(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate(),
+  )}`;
+}
+
+export function getEntriesForDay(
+  history: ScoreHistoryEntry[],
+  day: Date,
+): ScoreHistoryEntry[] {
+  const key = toDayKey(day);
+  return history.filter(entry => toDayKey(entry.timestamp) === key);
+}
+
+export function getEntriesNear(
+  history: ScoreHistoryEntry[],
+  location: Coordinates,
+  radius: number = DEFAULT_PLACE_RADIUS,
+): ScoreHistoryEntry[] {
+  return history.filter(
+    entry => haversineDistance(entry.location, location) <= radius,
+  );
+}
+
+// Oldest day first
+export function summarizeByDay(
+  history: ScoreHistoryEntry[],
+): DailyScoreSummary[] {
+  const days = new Map<string, ScoreHistoryEntry[]>();
+  history.forEach(entry => {
+    const key = toDayKey(entry.timestamp);
+    days.set(key, [...(days.get(key) || []), entry]);
+  });
+
+  return Array.from(days.entries())
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([day, entries]) => {
+      const scores = entries.map(entry => entry.score);
+      return {
+        day,
+        average: Math.round(
+          scores.reduce((total, score) => total + score, 0) / scores.length,
+        ),
+        highest: Math.max(...scores),
+        lowest: Math.min(...scores),
+        count: entries.length,
+        riskiestEntry: entries.reduce((riskiest, entry) =>
+          entry.score > riskiest.score ? entry : riskiest,
+        ),
+      };
+    });
+}
+
+// Compares the latest day's average with the days before it. Scores measure
+// risk, so a rising average is a worsening trend.
+export function getScoreTrend(summaries: DailyScoreSummary[]): ScoreTrend {
+  if (summaries.length < 2) {
+    return 'stable';
+  }
+
+  const latest = summaries[summaries.length - 1].average;
+  const earlier = summaries.slice(0, -1);
+  const baseline =
+    earlier.reduce((total, summary) => total + summary.average, 0) /
+    earlier.length;
+
+  if (latest - baseline > TREND_THRESHOLD) {
+    return 'worsening';
+  }
+  if (baseline - latest > TREND_THRESHOLD) {
+    return 'improving';
+  }
+  return 'stable';
+}
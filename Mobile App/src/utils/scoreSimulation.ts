@@ -0,0 +1,75 @@
+import {SafetyFactorKey} from './riskProfiles';
+
+export interface FactorContribution {
+  key: SafetyFactorKey;
+  name: string;
+  value: number;
+  weight: number;
+  contribution: number; // points added to the overall score
+  delta: number; // change in contribution against the baseline
+}
+
+interface ScoredFactor {
+  key: SafetyFactorKey;
+  name: string;
+  value: number;
+  weight: number;
+}
+
+// Factors a group is less exposed to: where and when they are
+const GROUP_SENSITIVE_FACTORS: SafetyFactorKey[] = ['location', 'time'];
+
+// Travelling alone raises location and time risk, larger groups lower it.
+// An unknown group size leaves the factors as they are.
+export function getGroupSizeModifier(groupSize?: number): number {
+  if (!groupSize || groupSize < 1) {
+    return 1;
+  }
+  if (groupSize === 1) {
+    return 1.1;
+  }
+  if (groupSize === 2) {
+    return 1;
+  }
+  if (groupSize <= 5) {
+    return 0.9;
+  }
+  return 0.8;
+}
+
+export function applyGroupSize(
+  key: SafetyFactorKey,
+  value: number,
+  groupSize?: number,
+): number {
+  if (!GROUP_SENSITIVE_FACTORS.includes(key)) {
+    return value;
+  }
+  return Math.round(
+    Math.max(0, Math.min(100, value * getGroupSizeModifier(groupSize))),
+  );
+}
+
+// How many points each factor adds to the score, and how that changed
+// against the baseline score's factors
+export function getFactorContributions(
+  factors: ScoredFactor[],
+  baselineFactors: ScoredFactor[] = [],
+): FactorContribution[] {
+  return factors.map(factor => {
+    const contribution = factor.value * factor.weight;
+    const baseline = baselineFactors.find(f => f.key === factor.key);
+
+    return {
+      key: factor.key,
+      name: factor.name,
+      value: factor.value,
+      weight: factor.weight,
+      contribution: Math.round(contribution * 10) / 10,
+      delta: baseline
+        ? Math.round((contribution - baseline.value * baseline.weight) * 10) /
+          10
+        : 0,
+    };
+  });
+}
@@ -0,0 +1,126 @@
+import {Coordinates, toDegrees, toRadians} from './geo';
+
+export type DaylightPhase = 'day' | 'twilight' | 'night';
+
+export interface SolarTimes {
+  solarNoon: Date;
+  // null when the sun does not cross that altitude on the day (polar day
+  // or night)
+  sunrise: Date | null;
+  sunset: Date | null;
+  civilDawn: Date | null;
+  civilDusk: Date | null;
+}
+
+// Sun altitudes in degrees: the upper limb touching the horizon after
+// refraction, and the end of civil twilight
+export const SUNRISE_ALTITUDE = -0.833;
+export const CIVIL_TWILIGHT_ALTITUDE = -6;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const UNIX_EPOCH_JULIAN = 2440587.5;
+const J2000 = 2451545;
+const OBLIQUITY = toRadians(23.4397);
+
+const toJulian = (date: Date) =>
+  date.getTime() / MS_PER_DAY + UNIX_EPOCH_JULIAN;
+const fromJulian = (julian: number) =>
+  new Date((julian - UNIX_EPOCH_JULIAN) * MS_PER_DAY);
+
+// Ecliptic longitude and equation of center for days since J2000
+function getSunEclipticLongitude(days: number) {
+  const meanAnomaly = toRadians((357.5291 + 0.98560028 * days) % 360);
+  const center = toRadians(
+    1.9148 * Math.sin(meanAnomaly) +
+      0.02 * Math.sin(2 * meanAnomaly) +
+      0.0003 * Math.sin(3 * meanAnomaly),
+  );
+  const perihelion = toRadians(102.9372);
+
+  return {
+    meanAnomaly,
+    longitude: meanAnomaly + center + perihelion + Math.PI,
+  };
+}
+
+// Degrees above the horizon at the given instant
+export function getSunAltitude(date: Date, location: Coordinates): number {
+  const days = toJulian(date) - J2000;
+  const {longitude} = getSunEclipticLongitude(days);
+
+  const declination = Math.asin(Math.sin(OBLIQUITY) * Math.sin(longitude));
+  const rightAscension = Math.atan2(
+    Math.sin(longitude) * Math.cos(OBLIQUITY),
+    Math.cos(longitude),
+  );
+  const siderealTime = toRadians(
+    280.16 + 360.9856235 * days + location.longitude,
+  );
+  const hourAngle = siderealTime - rightAscension;
+  const latitude = toRadians(location.latitude);
+
+  return toDegrees(
+    Math.asin(
+      Math.sin(latitude) * Math.sin(declination) +
+        Math.cos(latitude) * Math.cos(declination) * Math.cos(hourAngle),
+    ),
+  );
+}
+
+export function getDaylightPhase(
+  date: Date,
+  location: Coordinates,
+): DaylightPhase {
+  const altitude = getSunAltitude(date, location);
+  if (altitude >= SUNRISE_ALTITUDE) {
+    return 'day';
+  }
+  if (altitude >= CIVIL_TWILIGHT_ALTITUDE) {
+    return 'twilight';
+  }
+  return 'night';
+}
+
+// Sunrise, sunset and civil twilight around the solar noon nearest to the
+// given instant, following the NOAA sunrise equation
+export function getSolarTimes(date: Date, location: Coordinates): SolarTimes {
+  const westLongitude = -location.longitude;
+  const cycle = Math.round(
+    toJulian(date) - J2000 - 0.0009 - westLongitude / 360,
+  );
+  const approxTransit = J2000 + 0.0009 + westLongitude / 360 + cycle;
+
+  const {meanAnomaly, longitude} = getSunEclipticLongitude(
+    approxTransit - J2000,
+  );
+  const transit =
+    approxTransit +
+    0.0053 * Math.sin(meanAnomaly) -
+    0.0069 * Math.sin(2 * longitude);
+  const declination = Math.asin(Math.sin(OBLIQUITY) * Math.sin(longitude));
+  const latitude = toRadians(location.latitude);
+
+  // Julian dates the sun crosses the altitude before and after noon
+  const crossings = (altitude: number): [Date, Date] | [null, null] => {
+    const cosHourAngle =
+      (Math.sin(toRadians(altitude)) -
+        Math.sin(latitude) * Math.sin(declination)) /
+      (Math.cos(latitude) * Math.cos(declination));
+    if (cosHourAngle < -1 || cosHourAngle > 1) {
+      return [null, null];
+    }
+    const offset = toDegrees(Math.acos(cosHourAngle)) / 360;
+    return [fromJulian(transit - offset), fromJulian(transit + offset)];
+  };
+
+  const [sunrise, sunset] = crossings(SUNRISE_ALTITUDE);
+  const [civilDawn, civilDusk] = crossings(CIVIL_TWILIGHT_ALTITUDE);
+
+  return {
+    solarNoon: fromJulian(transit),
+    sunrise,
+    sunset,
+    civilDawn,
+    civilDusk,
+  };
+}
@@ -0,0 +1,289 @@
+import {
+  BoundingBox,
+  boundsIntersect,
+  Coordinates,
+  distanceToBounds,
+  getRadiusBounds,
+  METERS_PER_DEGREE_LATITUDE,
+  toRadians,
+} from './geo';
+
+export interface SpatialMatch<T> {
+  item: T;
+  distance: number; // meters to the nearest edge of the item's bounds
+}
+
+interface IndexEntry<T> {
+  id: string;
+  bounds: BoundingBox;
+  item: T;
+  cellKeys: string[];
+}
+
+const DEFAULT_CELL_SIZE = 0.01; // degrees, roughly 1.1 km of latitude
+// Items spanning more cells than this, e.g. a whole forest reserve, are kept
+// in a separate list that every lookup checks
+const MAX_CELLS_PER_ENTRY = 256;
+
+// Uniform grid over latitude/longitude. Each item is filed under every cell
+// its bounding box overlaps, so lookups only touch nearby cells instead of
+// scanning every zone or tourist.
+export class SpatialIndex<T> {
+  private cells: Map<string, Set<string>> = new Map();
+  private entries: Map<string, IndexEntry<T>> = new Map();
+  private oversized: Set<string> = new Set();
+  private cellSize: number;
+
+  constructor(cellSize: number = DEFAULT_CELL_SIZE) {
+    this.cellSize = cellSize;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(id: string): T | undefined {
+    return this.entries.get(id)?.item;
+  }
+
+  insert(id: string, bounds: BoundingBox, item: T) {
+    if (this.entries.has(id)) {
+      this.remove(id);
+    }
+
+    const cellKeys =
+      this.countCells(bounds) > MAX_CELLS_PER_ENTRY
+        ? []
+        : this.getCellKeys(bounds);
+    if (cellKeys.length === 0) {
+      this.oversized.add(id);
+    }
+    cellKeys.forEach(key => {
+      let cell = this.cells.get(key);
+      if (!cell) {
+        cell = new Set();
+        this.cells.set(key, cell);
+      }
+      cell.add(id);
+    });
+
+    this.entries.set(id, {id, bounds, item, cellKeys});
+  }
+
+  insertPoint(id: string, point: Coordinates, item: T) {
+    this.insert(
+      id,
+      {
+        minLatitude: point.latitude,
+        minLongitude: point.longitude,
+        maxLatitude: point.latitude,
+        maxLongitude: point.longitude,
+      },
+      item,
+    );
+  }
+
+  remove(id: string): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return false;
+    }
+
+    entry.cellKeys.forEach(key => {
+      const cell = this.cells.get(key);
+      if (cell) {
+        cell.delete(id);
+        if (cell.size === 0) {
+          this.cells.delete(key);
+        }
+      }
+    });
+    this.oversized.delete(id);
+    this.entries.delete(id);
+    return true;
+  }
+
+  clear() {
+    this.cells.clear();
+    this.entries.clear();
+    this.oversized.clear();
+  }
+
+  // Items whose bounding box intersects the given box
+  search(bounds: BoundingBox): T[] {
+    return this.searchEntries(bounds).map(entry => entry.item);
+  }
+
+  // Items whose bounding box contains the point. Callers still run the exact
+  // shape test, e.g. point-in-polygon, on these candidates.
+  containing(point: Coordinates): T[] {
+    return this.search({
+      minLatitude: point.latitude,
+      minLongitude: point.longitude,
+      maxLatitude: point.latitude,
+      maxLongitude: point.longitude,
+    });
+  }
+
+  withinRadius(point: Coordinates, radius: number): SpatialMatch<T>[] {
+    return this.toMatches(
+      point,
+      this.searchEntries(getRadiusBounds(point, radius)),
+    ).filter(match => match.distance <= radius);
+  }
+
+  // Grows the search ring by ring until the k-th best match is closer than
+  // anything an unvisited ring could hold
+  nearest(point: Coordinates, k: number): SpatialMatch<T>[] {
+    if (k <= 0 || this.entries.size === 0) {
+      return [];
+    }
+
+    const [centerX, centerY] = this.getCell(point.latitude, point.longitude);
+    const seen = new Set<string>();
+    const matches: SpatialMatch<T>[] = [];
+    this.oversized.forEach(id => {
+      seen.add(id);
+      const entry = this.entries.get(id)!;
+      matches.push({
+        item: entry.item,
+        distance: distanceToBounds(point, entry.bounds),
+      });
+    });
+
+    for (let ring = 0; seen.size < this.entries.size; ring++) {
+      // Once a ring has more cells than the index holds, the remaining items
+      // are far apart and a full scan is cheaper than walking empty cells
+      if (ring * 8 > this.cells.size) {
+        return this.toMatches(point, Array.from(this.entries.values())).slice(
+          0,
+          k,
+        );
+      }
+
+      this.getRingCellKeys(centerX, centerY, ring).forEach(key => {
+        this.cells.get(key)?.forEach(id => {
+          if (seen.has(id)) {
+            return;
+          }
+          seen.add(id);
+          const entry = this.entries.get(id)!;
+          matches.push({
+            item: entry.item,
+            distance: distanceToBounds(point, entry.bounds),
+          });
+        });
+      });
+
+      matches.sort((a, b) => a.distance - b.distance);
+      if (
+        matches.length >= k &&
+        matches[k - 1].distance <= this.getRingReach(point, ring)
+      ) {
+        break;
+      }
+    }
+
+    // Only oversized entries never go through the loop
+    matches.sort((a, b) => a.distance - b.distance);
+    return matches.slice(0, k);
+  }
+
+  private searchEntries(bounds: BoundingBox): IndexEntry<T>[] {
+    // A query wider than the filled cells, e.g. a 50 km radius, is cheaper
+    // to answer by checking every entry than by walking empty cells
+    if (this.countCells(bounds) > this.cells.size) {
+      return Array.from(this.entries.values()).filter(entry =>
+        boundsIntersect(entry.bounds, bounds),
+      );
+    }
+
+    const ids = new Set<string>(this.oversized);
+    this.getCellKeys(bounds).forEach(key => {
+      this.cells.get(key)?.forEach(id => ids.add(id));
+    });
+
+    const results: IndexEntry<T>[] = [];
+    ids.forEach(id => {
+      const entry = this.entries.get(id)!;
+      if (boundsIntersect(entry.bounds, bounds)) {
+        results.push(entry);
+      }
+    });
+    return results;
+  }
+
+  private toMatches(
+    point: Coordinates,
+    entries: IndexEntry<T>[],
+  ): SpatialMatch<T>[] {
+    return entries
+      .map(entry => ({
+        item: entry.item,
+        distance: distanceToBounds(point, entry.bounds),
+      }))
+      .sort((a, b) => a.distance - b.distance);
+  }
+
+  // Lower bound in meters on the distance to anything beyond the given ring.
+  // Longitude cells narrow towards the poles, so measure at the far edge.
+  private getRingReach(point: Coordinates, ring: number): number {
+    const farLatitude = Math.min(
+      Math.abs(point.latitude) + (ring + 1) * this.cellSize,
+      89,
+    );
+    return (
+      ring *
+      this.cellSize *
+      METERS_PER_DEGREE_LATITUDE *
+      Math.cos(toRadians(farLatitude))
+    );
+  }
+
+  private getCell(latitude: number, longitude: number): [number, number] {
+    return [
+      Math.floor(longitude / this.cellSize),
+      Math.floor(latitude / this.cellSize),
+    ];
+  }
+
+  // Cells on the square ring the given number of cells out from the center
+  private getRingCellKeys(
+    centerX: number,
+    centerY: number,
+    ring: number,
+  ): string[] {
+    if (ring === 0) {
+      return [`${centerX}:${centerY}`];
+    }
+
+    const keys: string[] = [];
+    for (let offset = -ring; offset <= ring; offset++) {
+      keys.push(`${centerX + offset}:${centerY - ring}`);
+      keys.push(`${centerX + offset}:${centerY + ring}`);
+    }
+    for (let offset = -ring + 1; offset < ring; offset++) {
+      keys.push(`${centerX - ring}:${centerY + offset}`);
+      keys.push(`${centerX + ring}:${centerY + offset}`);
+    }
+    return keys;
+  }
+
+  private countCells(bounds: BoundingBox): number {
+    const [minX, minY] = this.getCell(bounds.minLatitude, bounds.minLongitude);
+    const [maxX, maxY] = this.getCell(bounds.maxLatitude, bounds.maxLongitude);
+    return (maxX - minX + 1) * (maxY - minY + 1);
+  }
+
+  private getCellKeys(bounds: BoundingBox): string[] {
+    const [minX, minY] = this.getCell(bounds.minLatitude, bounds.minLongitude);
+    const [maxX, maxY] = this.getCell(bounds.maxLatitude, bounds.maxLongitude);
+    const keys: string[] = [];
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        keys.push(`${x}:${y}`);
+      }
+    }
+    return keys;
+  }
+}
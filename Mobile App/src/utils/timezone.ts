@@ -0,0 +1,172 @@
+import {GeoFenceZone} from '../services/LocationService';
+import {Coordinates, haversineDistance} from './geo';
+import {isPointInPolygon} from './geometry';
+import {GeoJSONLinearRing} from '../types/geojson';
+
+// Regions the app serves whose clocks are not a whole hour off UTC, where
+// the longitude fallback below would be wrong. Outlines are coarse and only
+// used when no zone nearby names its time zone. India's neighbours come
+// first, as India's outline takes in Nepal, Bhutan, Bangladesh and Sri Lanka.
+const REGION_TIMEZONES: {timeZone: string; outline: GeoJSONLinearRing}[] = [
+  {
+    timeZone: 'Asia/Kathmandu',
+    outline: [
+      [80.06, 28.84],
+      [81.1, 30.45],
+      [82.1, 30.35],
+      [83.5, 29.3],
+      [85.1, 28.55],
+      [86.0, 28.1],
+      [88.1, 27.9],
+      [88.2, 27.0],
+      [88.05, 26.4],
+      [87.2, 26.35],
+      [85.2, 26.75],
+      [84.6, 27.3],
+      [83.3, 27.35],
+      [82.0, 27.7],
+      [81.0, 28.35],
+      [80.06, 28.84],
+    ],
+  },
+  {
+    timeZone: 'Asia/Thimphu',
+    outline: [
+      [88.75, 27.15],
+      [89.5, 28.1],
+      [90.5, 28.3],
+      [92.1, 27.8],
+      [92.1, 26.85],
+      [90.5, 26.75],
+      [89.0, 26.8],
+      [88.75, 27.15],
+    ],
+  },
+  {
+    timeZone: 'Asia/Dhaka',
+    outline: [
+      [88.95, 22.6],
+      [88.75, 23.3],
+      [88.1, 24.35],
+      [88.45, 25.1],
+      [88.1, 25.75],
+      [88.4, 26.6],
+      [89.1, 26.3],
+      [89.85, 25.95],
+      [89.85, 25.25],
+      [92.4, 25.1],
+      [92.3, 24.25],
+      [91.3, 24.1],
+      [91.15, 23.0],
+      [91.6, 22.95],
+      [92.3, 23.7],
+      [92.65, 22.0],
+      [92.35, 20.6],
+      [89.0, 21.0],
+      [88.95, 22.6],
+    ],
+  },
+  {
+    timeZone: 'Asia/Colombo',
+    outline: [
+      [79.5, 5.8],
+      [79.5, 9.9],
+      [82.0, 9.9],
+      [82.0, 5.8],
+      [79.5, 5.8],
+    ],
+  },
+  // Leaves out Pakistan, Tibet, Xinjiang and Myanmar, which are not on
+  // India's clock
+  {
+    timeZone: 'Asia/Kolkata',
+    outline: [
+      [68.1, 23.7],
+      [69.3, 24.25],
+      [71.1, 24.6],
+      [70.9, 25.2],
+      [70.3, 25.7],
+      [69.5, 26.8],
+      [70.3, 27.8],
+      [71.9, 28.0],
+      [72.9, 29.0],
+      [73.4, 29.9],
+      [73.9, 30.4],
+      [74.45, 31.0],
+      [74.55, 31.7],
+      [75.0, 32.4],
+      [74.6, 32.8],
+      [74.0, 33.4],
+      [73.95, 34.2],
+      [74.3, 34.75],
+      [75.8, 34.9],
+      [77.0, 35.4],
+      [77.8, 35.5],
+      [78.1, 34.6],
+      [78.8, 34.2],
+      [78.8, 33.6],
+      [79.5, 32.7],
+      [78.75, 31.8],
+      [79.5, 31.0],
+      [80.6, 30.5],
+      [81.1, 30.45],
+      [83.5, 29.3],
+      [86.0, 28.1],
+      [88.1, 27.9],
+      [88.8, 28.1],
+      [90.5, 28.3],
+      [92.1, 27.8],
+      [93.5, 28.7],
+      [94.5, 29.3],
+      [96.0, 29.4],
+      [97.4, 28.2],
+      [96.2, 27.3],
+      [95.2, 26.6],
+      [94.6, 25.5],
+      [94.3, 24.5],
+      [93.5, 24.0],
+      [93.4, 22.4],
+      [92.65, 22.0],
+      [92.35, 20.6],
+      [94.3, 14.0],
+      [94.3, 5.5],
+      [77.0, 5.5],
+      [71.5, 8.2],
+      [71.5, 12.5],
+      [68.0, 20.0],
+      [68.1, 23.7],
+    ],
+  },
+];
+
+// The time zone at a position: from the nearest zone with a schedule, then
+// the regions above, and otherwise the nautical zone for the longitude
+export function resolveTimeZone(
+  location: Coordinates,
+  zones: GeoFenceZone[] = [],
+): string {
+  const scheduled = zones
+    .filter(zone => zone.schedule?.timezone)
+    .sort(
+      (a, b) =>
+        haversineDistance(location, a.center) -
+        haversineDistance(location, b.center),
+    );
+  if (scheduled.length > 0) {
+    return scheduled[0].schedule!.timezone;
+  }
+
+  const region = REGION_TIMEZONES.find(({outline}) =>
+    isPointInPolygon(location, [outline]),
+  );
+  if (region) {
+    return region.timeZone;
+  }
+
+  // Etc/GMT names have the sign inverted: Etc/GMT-5 is UTC+5
+  const offset = Math.round(location.longitude / 15);
+  if (offset === 0) {
+    return 'Etc/GMT';
+  }
+  return `Etc/GMT${offset > 0 ? '-' : '+'}${Math.abs(offset)}`;
+}
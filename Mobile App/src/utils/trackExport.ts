@@ -0,0 +1,247 @@
+import {LocationData} from '../services/LocationService';
+
+export type TrackExportFormat = 'gpx' | 'kml' | 'geojson';
+
+export interface TrackExport {
+  format: TrackExportFormat;
+  fileName: string;
+  mimeType: string;
+  content: string;
+  tripCount: number;
+  pointCount: number;
+}
+
+export const DEFAULT_TRIP_GAP = 30 * 60 * 1000; // 30 minutes
+
+const MIME_TYPES: Record<TrackExportFormat, string> = {
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+  geojson: 'application/geo+json',
+};
+
+const CREATOR = 'SafeSafar';
+
+// Sorted fixes broken wherever the gap between two fixes exceeds maxGap
+export function splitIntoTrips(
+  history: LocationData[],
+  maxGap: number = DEFAULT_TRIP_GAP,
+): LocationData[][] {
+  const sorted = [...history].sort(
+    (a, b) => toTime(a.timestamp) - toTime(b.timestamp),
+  );
+  const trips: LocationData[][] = [];
+
+  sorted.forEach((location, i) => {
+    if (
+      i === 0 ||
+      toTime(location.timestamp) - toTime(sorted[i - 1].timestamp) > maxGap
+    ) {
+      trips.push([]);
+    }
+    trips[trips.length - 1].push(location);
+  });
+
+  return trips;
+}
+
+export function buildTrackExport(
+  history: LocationData[],
+  format: TrackExportFormat,
+  maxGap: number = DEFAULT_TRIP_GAP,
+): TrackExport {
+  const trips = splitIntoTrips(history, maxGap);
+  const content =
+    format === 'gpx'
+      ? toGPX(trips)
+      : format === 'kml'
+      ? toKML(trips)
+      : toGeoJSON(trips);
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+
+  return {
+    format,
+    fileName: `safesafar-track-${stamp}.${format}`,
+    mimeType: MIME_TYPES[format],
+    content,
+    tripCount: trips.length,
+    pointCount: history.length,
+  };
+}
+
+// GPX 1.1 with one <trk> per trip. Speed uses Garmin's TrackPointExtension,
+// which most GIS tools read; accuracy has no standard field, so it lives in
+// our own namespace.
+export function toGPX(trips: LocationData[][]): string {
+  const tracks = trips.map((trip, i) => {
+    const points = trip.map(location => {
+      const extensions = [
+        location.speed !== undefined
+          ? `<gpxtpx:TrackPointExtension><gpxtpx:speed>${location.speed}</gpxtpx:speed></gpxtpx:TrackPointExtension>`
+          : '',
+        `<safesafar:accuracy>${location.accuracy}</safesafar:accuracy>`,
+      ].join('');
+
+      return [
+        `      <trkpt lat="${location.latitude}" lon="${location.longitude}">`,
+        location.altitude !== undefined
+          ? `        <ele>${location.altitude}</ele>`
+          : null,
+        `        <time>${toISOString(location.timestamp)}</time>`,
+        `        <extensions>${extensions}</extensions>`,
+        '      </trkpt>',
+      ]
+        .filter(line => line !== null)
+        .join('\n');
+    });
+
+    return [
+      '  <trk>',
+      `    <name>${escapeXml(getTripName(trip, i))}</name>`,
+      '    <trkseg>',
+      ...points,
+      '    </trkseg>',
+      '  </trk>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${CREATOR}"`,
+    '  xmlns="http://www.topografix.com/GPX/1/1"',
+    '  xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v2"',
+    '  xmlns:safesafar="https://safesafar.app/xmlns/track/1"',
+    '  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '  xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">',
+    '  <metadata>',
+    `    <name>${CREATOR} tracking history</name>`,
+    `    <time>${new Date().toISOString()}</time>`,
+    '  </metadata>',
+    ...tracks,
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+// KML 2.2 with a gx:Track per trip; accuracy and speed ride along as
+// per-point arrays declared in a schema, which Google Earth charts
+export function toKML(trips: LocationData[][]): string {
+  const placemarks = trips.map((trip, i) => {
+    const whens = trip.map(
+      location => `        <when>${toISOString(location.timestamp)}</when>`,
+    );
+    const coords = trip.map(
+      location =>
+        `        <gx:coord>${location.longitude} ${location.latitude} ${
+          location.altitude || 0
+        }</gx:coord>`,
+    );
+    const accuracy = trip.map(
+      location => `            <gx:value>${location.accuracy}</gx:value>`,
+    );
+    const speed = trip.map(
+      location =>
+        `            <gx:value>${
+          location.speed !== undefined ? location.speed : ''
+        }</gx:value>`,
+    );
+
+    return [
+      '    <Placemark>',
+      `      <name>${escapeXml(getTripName(trip, i))}</name>`,
+      '      <styleUrl>#trackStyle</styleUrl>',
+      '      <gx:Track>',
+      ...whens,
+      ...coords,
+      '        <ExtendedData>',
+      '          <SchemaData schemaUrl="#trackSchema">',
+      '            <gx:SimpleArrayData name="accuracy">',
+      ...accuracy,
+      '            </gx:SimpleArrayData>',
+      '            <gx:SimpleArrayData name="speed">',
+      ...speed,
+      '            </gx:SimpleArrayData>',
+      '          </SchemaData>',
+      '        </ExtendedData>',
+      '      </gx:Track>',
+      '    </Placemark>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">',
+    '  <Document>',
+    `    <name>${CREATOR} tracking history</name>`,
+    '    <Style id="trackStyle">',
+    '      <LineStyle><color>ffd27619</color><width>4</width></LineStyle>',
+    '    </Style>',
+    '    <Schema id="trackSchema">',
+    '      <gx:SimpleArrayField name="accuracy" type="float">',
+    '        <displayName>Accuracy (m)</displayName>',
+    '      </gx:SimpleArrayField>',
+    '      <gx:SimpleArrayField name="speed" type="float">',
+    '        <displayName>Speed (m/s)</displayName>',
+    '      </gx:SimpleArrayField>',
+    '    </Schema>',
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+// One LineString feature per trip. Per-point values follow the
+// coordinateProperties convention used by togeojson and Mapbox tools.
+export function toGeoJSON(trips: LocationData[][]): string {
+  const features = trips.map((trip, i) => {
+    const coordinates = trip.map(location =>
+      location.altitude !== undefined
+        ? [location.longitude, location.latitude, location.altitude]
+        : [location.longitude, location.latitude],
+    );
+
+    return {
+      type: 'Feature',
+      geometry:
+        coordinates.length === 1
+          ? {type: 'Point', coordinates: coordinates[0]}
+          : {type: 'LineString', coordinates},
+      properties: {
+        name: getTripName(trip, i),
+        startTime: toISOString(trip[0].timestamp),
+        endTime: toISOString(trip[trip.length - 1].timestamp),
+        coordinateProperties: {
+          times: trip.map(location => toISOString(location.timestamp)),
+          accuracy: trip.map(location => location.accuracy),
+          speed: trip.map(location =>
+            location.speed !== undefined ? location.speed : null,
+          ),
+        },
+      },
+    };
+  });
+
+  return JSON.stringify({type: 'FeatureCollection', features}, null, 2);
+}
+
+function getTripName(trip: LocationData[], index: number): string {
+  return `Trip ${index + 1} (${toISOString(trip[0].timestamp).slice(0, 10)})`;
+}
+
+// Stored history revives timestamps as Dates, live fixes carry numbers
+function toTime(timestamp: number | Date): number {
+  return new Date(timestamp).getTime();
+}
+
+function toISOString(timestamp: number | Date): string {
+  return new Date(timestamp).toISOString();
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,105 @@
+import {GeoFenceZone} from '../services/LocationService';
+import {ZoneOccupancy} from '../services/GeoFencingService';
+
+export type ZoneTransition = 'enter' | 'exit';
+
+export interface OccupancyUpdate {
+  occupancy: ZoneOccupancy;
+  changed: boolean; // needs saving
+  transition: ZoneTransition | null;
+}
+
+export const MAX_HYSTERESIS_BUFFER = 100; // meters, caps the GPS accuracy buffer
+
+// Default time a tourist may stay in a zone before a dwell alert, in minutes
+export const DEFAULT_DWELL_LIMITS: Partial<
+  Record<GeoFenceZone['type'], number>
+> = {
+  'high-risk': 30,
+  cave: 120,
+  forest: 240,
+};
+
+// Advances the zone's outside -> entering -> inside -> exiting cycle.
+// A fix closer to the boundary than its own accuracy is ambiguous and only
+// moves to the intermediate state; a second fix on the same side confirms.
+export function advanceOccupancy(
+  zoneId: string,
+  current: ZoneOccupancy | undefined,
+  isInside: boolean,
+  distanceToBoundary: number,
+  accuracy: number,
+  now: Date,
+): OccupancyUpdate {
+  const buffer = Math.min(accuracy || 0, MAX_HYSTERESIS_BUFFER);
+  const isConfident = distanceToBoundary >= buffer;
+  const previous: ZoneOccupancy = current || {
+    zoneId,
+    state: 'outside',
+    lastTransitionAt: now,
+  };
+
+  let next: ZoneOccupancy['state'] = previous.state;
+  switch (previous.state) {
+    case 'outside':
+      if (isInside) {
+        next = isConfident ? 'inside' : 'entering';
+      }
+      break;
+    case 'entering':
+      next = isInside ? 'inside' : 'outside';
+      break;
+    case 'inside':
+      if (!isInside) {
+        next = isConfident ? 'outside' : 'exiting';
+      }
+      break;
+    case 'exiting':
+      next = isInside ? 'inside' : 'outside';
+      break;
+  }
+
+  if (next === previous.state) {
+    return {occupancy: previous, changed: !current, transition: null};
+  }
+
+  const occupancy: ZoneOccupancy = {
+    ...previous,
+    state: next,
+    lastTransitionAt: now,
+  };
+  let transition: ZoneTransition | null = null;
+
+  if (next === 'inside' && previous.state !== 'exiting') {
+    occupancy.enteredAt = now;
+    occupancy.dwellAlertedAt = undefined;
+    occupancy.closingWarnedAt = undefined;
+    transition = 'enter';
+  } else if (
+    next === 'outside' &&
+    (previous.state === 'inside' || previous.state === 'exiting')
+  ) {
+    occupancy.enteredAt = undefined;
+    occupancy.dwellAlertedAt = undefined;
+    transition = 'exit';
+  }
+
+  return {occupancy, changed: true, transition};
+}
+
+// Minutes spent in the zone once they reach its dwell limit, or null while
+// under it or when the alert was already given for this stay
+export function getDueDwellMinutes(
+  zone: GeoFenceZone,
+  occupancy: ZoneOccupancy,
+  now: Date,
+): number | null {
+  const dwellLimit = zone.dwellLimit ?? DEFAULT_DWELL_LIMITS[zone.type];
+  if (!dwellLimit || !occupancy.enteredAt || occupancy.dwellAlertedAt) {
+    return null;
+  }
+
+  const dwellMinutes =
+    (now.getTime() - occupancy.enteredAt.getTime()) / (1000 * 60);
+  return dwellMinutes >= dwellLimit ? dwellMinutes : null;
+}
@@ -1,20 +1,33 @@
-import { Shield, MapPin, Users, AlertCircle } from "lucide-react";
+import { Shield, MapPin, Users, AlertCircle, Lightbulb } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import type { SafetyLevel, SafetyScore } from "@/lib/safetyScore";
 
 interface SafetyStatusProps {
   currentLocation?: string;
-  safetyLevel: "safe" | "moderate" | "high-risk";
+  // Overrides the level of safetyScore, e.g. while the tourist has an alert open
+  safetyLevel?: SafetyLevel;
+  safetyScore?: SafetyScore | null;
   touristCount: number;
   activeAlerts: number;
 }
 
 export const SafetyStatus = ({ 
-  currentLocation = "Shillong, Meghalaya", 
-  safetyLevel, 
+  currentLocation = "Location unavailable", 
+  safetyLevel: safetyLevelProp, 
+  safetyScore,
   touristCount, 
   activeAlerts 
 }: SafetyStatusProps) => {
+  const safetyLevel = safetyLevelProp ?? safetyScore?.level ?? "safe";
+
+  const getFactorColor = (value: number) => {
+    if (value >= 70) return "[&>div]:bg-red-500";
+    if (value >= 40) return "[&>div]:bg-amber-500";
+    return "[&>div]:bg-emerald-500";
+  };
+
   const getSafetyColor = () => {
     switch (safetyLevel) {
       case "safe":
@@ -49,11 +62,18 @@ export const SafetyStatus = ({
             <Shield className="w-5 h-5 mr-2 text-primary" />
             Safety Status
           </CardTitle>
-          <Badge 
-            className={getSafetyColor()}
-          >
-            {getSafetyText()}
-          </Badge>
+          <div className="flex items-center gap-2">
+            {safetyScore && (
+              <span className="text-sm text-muted-foreground">
+                Risk score {safetyScore.score}/100
+              </span>
+            )}
+            <Badge 
+              className={getSafetyColor()}
+            >
+              {getSafetyText()}
+            </Badge>
+          </div>
         </div>
       </CardHeader>
       
@@ -76,6 +96,35 @@ export const SafetyStatus = ({
           </div>
         </div>
         
+        {safetyScore && (
+          <div className="space-y-3">
+            {safetyScore.factors.map((factor) => (
+              <div key={factor.key} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">
+                    {factor.name}
+                    <span className="ml-1 text-xs text-muted-foreground">
+                      ({Math.round(factor.weight * 100)}%)
+                    </span>
+                  </span>
+                  <span>{factor.value}</span>
+                </div>
+                <Progress value={factor.value} className={`h-2 ${getFactorColor(factor.value)}`} />
+                <p className="text-xs text-muted-foreground">{factor.description}</p>
+              </div>
+            ))}
+
+            <div className="space-y-1">
+              {safetyScore.recommendations.map((recommendation) => (
+                <div key={recommendation} className="flex items-start text-sm">
+                  <Lightbulb className="w-4 h-4 mr-2 mt-0.5 text-primary shrink-0" />
+                  <span>{recommendation}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+        
         <div className="mt-4 p-3 bg-primary/5 rounded-lg">
           <p className="text-xs text-muted-foreground">
             Real-time safety monitoring active. Your location is being tracked for emergency response.
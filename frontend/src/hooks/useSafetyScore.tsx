@@ -0,0 +1,112 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useSafetyZones } from './useSafetyZones';
+import {
+  ALERT_RADIUS,
+  ALERT_WINDOW_HOURS,
+  AlertCount,
+  Position,
+  SafetyScore,
+  calculateSafetyScore,
+  distanceInMeters,
+} from '@/lib/safetyScore';
+
+interface UseSafetyScoreReturn {
+  safetyScore: SafetyScore | null;
+  isLoading: boolean;
+  refreshScore: () => Promise<void>;
+}
+
+// Moving further than this refetches the alerts around the tourist
+const ALERT_REFETCH_DISTANCE = 200; // meters
+const ALERT_REFRESH_INTERVAL = 5 * 60 * 1000;
+// How often the time of day is re-evaluated while standing still
+const CLOCK_INTERVAL = 60 * 1000;
+
+// Pass the currentLocation from the dashboard's useLocation, so the score
+// follows the position that is being tracked
+export const useSafetyScore = (currentLocation: Position | null): UseSafetyScoreReturn => {
+  const { safetyZones, isLoading: zonesLoading } = useSafetyZones();
+  const [alertCounts, setAlertCounts] = useState<AlertCount[]>([]);
+  const [isLoadingAlerts, setIsLoadingAlerts] = useState(false);
+  const [now, setNow] = useState(new Date());
+  const lastFetchedAt = useRef<Position | null>(null);
+  const latestRequest = useRef(0);
+
+  const fetchAlertCounts = useCallback(async (position: Position) => {
+    // Recorded up front, so location updates while the request is in flight
+    // do not start more requests for the same spot
+    lastFetchedAt.current = position;
+    const request = ++latestRequest.current;
+    setIsLoadingAlerts(true);
+    try {
+      const since = new Date(Date.now() - ALERT_WINDOW_HOURS * 60 * 60 * 1000);
+      const { data, error } = await supabase.rpc('nearby_alert_counts', {
+        lat: position.latitude,
+        lng: position.longitude,
+        radius_meters: ALERT_RADIUS,
+        since: since.toISOString(),
+      });
+
+      if (error) throw error;
+
+      // Responses can arrive out of order; only the latest request counts
+      if (request === latestRequest.current) {
+        setAlertCounts((data || []) as AlertCount[]);
+      }
+    } catch (error) {
+      console.error('Error fetching nearby alerts:', error);
+    } finally {
+      if (request === latestRequest.current) {
+        setIsLoadingAlerts(false);
+      }
+    }
+  }, []);
+
+  // Refetch alerts as the tourist moves away from where they were last fetched
+  useEffect(() => {
+    if (!currentLocation) return;
+
+    if (
+      !lastFetchedAt.current ||
+      distanceInMeters(lastFetchedAt.current, currentLocation) > ALERT_REFETCH_DISTANCE
+    ) {
+      fetchAlertCounts(currentLocation);
+    }
+  }, [currentLocation, fetchAlertCounts]);
+
+  // And periodically, for alerts raised or resolved while standing still
+  useEffect(() => {
+    const interval = setInterval(() => {
+      if (lastFetchedAt.current) {
+        fetchAlertCounts(lastFetchedAt.current);
+      }
+    }, ALERT_REFRESH_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [fetchAlertCounts]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), CLOCK_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  const safetyScore = useMemo(
+    () =>
+      currentLocation ? calculateSafetyScore(currentLocation, safetyZones, alertCounts, now) : null,
+    [currentLocation, safetyZones, alertCounts, now]
+  );
+
+  const refreshScore = useCallback(async () => {
+    setNow(new Date());
+    if (currentLocation) {
+      await fetchAlertCounts(currentLocation);
+    }
+  }, [currentLocation, fetchAlertCounts]);
+
+  return {
+    safetyScore,
+    isLoading: zonesLoading || isLoadingAlerts,
+    refreshScore,
+  };
+};
@@ -2,6 +2,27 @@ import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
 
+// Opening hours and closures, see the safety_zones migration. Types rather
+// than interfaces so they fit the generated Json column type.
+export type ZoneTimeWindow = {
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  start: string; // 'HH:mm'
+  end: string; // 'HH:mm', at or before start for windows past midnight
+};
+
+export type ZoneDateRange = {
+  from: string; // 'YYYY-MM-DD', or 'MM-DD' to repeat every year
+  to: string; // inclusive, same format as from
+};
+
+export type ZoneSchedule = {
+  timezone: string; // IANA name, e.g. 'Asia/Kolkata'
+  openingHours?: ZoneTimeWindow[];
+  closures?: ZoneDateRange[];
+  whenClosed: 'inactive' | 'restricted';
+  closingWarningMinutes?: number;
+};
+
 export interface SafetyZone {
   id: string;
   name: string;
@@ -11,6 +32,7 @@ export interface SafetyZone {
   radius?: number;
   center_lat?: number;
   center_lng?: number;
+  schedule?: ZoneSchedule | null;
   created_by: string;
   is_active: boolean;
   created_at: string;
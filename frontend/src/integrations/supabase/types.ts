@@ -230,6 +230,7 @@ export type Database = {
           is_active: boolean
           name: string
           radius: number | null
+          schedule: Json | null
           updated_at: string
           zone_type: string
         }
@@ -244,6 +245,7 @@ export type Database = {
           is_active?: boolean
           name: string
           radius?: number | null
+          schedule?: Json | null
           updated_at?: string
           zone_type: string
         }
@@ -258,6 +260,7 @@ export type Database = {
           is_active?: boolean
           name?: string
           radius?: number | null
+          schedule?: Json | null
           updated_at?: string
           zone_type?: string
         }
@@ -301,7 +304,34 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      nearby_alert_counts: {
+        Args: {
+          lat: number
+          lng: number
+          radius_meters: number
+          since: string
+        }
+        Returns: {
+          alert_count: number
+          alert_type: string
+          status: string
+        }[]
+      }
+      nearby_crowd_density: {
+        Args: {
+          at_time?: string
+          lat: number
+          lng: number
+          radius_meters: number
+        }
+        Returns: {
+          cell: string
+          center_lat: number
+          center_lng: number
+          tourist_count: number
+          usual_count: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import type { SafetyZone } from "@/hooks/useSafetyZones";
+import { AlertCount, calculateSafetyScore } from "@/lib/safetyScore";
+
+const shillong = { latitude: 25.57, longitude: 91.88 };
+const london = { latitude: 51.5, longitude: -0.12 };
+const metersNorth = (meters: number) => meters / 111320;
+
+// Midday in Shillong
+const noon = new Date("2026-06-21T06:30:00Z");
+
+const square = (south: number, west: number, size: number) => [
+  [west, south],
+  [west + size, south],
+  [west + size, south + size],
+  [west, south + size],
+  [west, south],
+];
+
+function zone(overrides: Partial<SafetyZone>): SafetyZone {
+  return {
+    id: "zone",
+    name: "Zone",
+    zone_type: "danger",
+    coordinates: null,
+    created_by: "authority",
+    is_active: true,
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: "2026-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+const factor = (score: ReturnType<typeof calculateSafetyScore>, key: string) =>
+  score.factors.find((f) => f.key === key);
+
+describe("calculateSafetyScore", () => {
+  it("scores a quiet daytime position as safe", () => {
+    const score = calculateSafetyScore(shillong, [], [], noon);
+
+    expect(score.level).toBe("safe");
+    expect(factor(score, "time")?.description).toBe("Daytime");
+    expect(factor(score, "alerts")?.description).toBe(
+      "Fewer than 3 emergency alerts within 1 km in the last 24 hours"
+    );
+    expect(score.recommendations).toEqual(["No concerns right now, keep location sharing on"]);
+  });
+
+  it("flags being inside a danger zone", () => {
+    const market = zone({
+      name: "Old Market",
+      center_lat: shillong.latitude,
+      center_lng: shillong.longitude,
+      radius: 200,
+    });
+    const score = calculateSafetyScore(shillong, [market], [], noon);
+
+    expect(factor(score, "zone")?.value).toBe(90);
+    expect(score.recommendations[0]).toBe(
+      "Leave Old Market or stay with your group and keep your phone charged"
+    );
+  });
+
+  it("counts a polygon danger zone as nearby from outside", () => {
+    const polygon = zone({
+      name: "Riverbank",
+      coordinates: { type: "Polygon", coordinates: [square(25.57, 91.88, 0.01)] },
+    });
+    const position = { latitude: 25.57 - metersNorth(300), longitude: 91.885 };
+
+    expect(factor(calculateSafetyScore(position, [polygon], [], noon), "zone")).toMatchObject({
+      value: 60,
+      description: "300m from danger zone Riverbank",
+    });
+  });
+
+  it("does not count a hole in a polygon as inside it", () => {
+    const polygon = zone({
+      name: "Riverbank",
+      coordinates: {
+        type: "MultiPolygon",
+        coordinates: [[square(25.56, 91.87, 0.03), square(25.565, 91.875, 0.02)]],
+      },
+    });
+
+    expect(factor(calculateSafetyScore(shillong, [polygon], [], noon), "zone")?.value).toBe(30);
+  });
+
+  it("follows the darkness at the position, not the browser's clock", () => {
+    const evening = new Date("2026-06-21T14:00:00Z");
+
+    expect(factor(calculateSafetyScore(shillong, [], [], evening), "time")).toMatchObject({
+      value: 70,
+      description: "After dark",
+    });
+    expect(factor(calculateSafetyScore(london, [], [], evening), "time")?.value).toBe(20);
+    expect(
+      factor(calculateSafetyScore(shillong, [], [], new Date("2026-06-21T20:00:00Z")), "time")
+        ?.value
+    ).toBe(80);
+  });
+
+  it("weighs alerts that are still active double", () => {
+    const counts: AlertCount[] = [
+      { alert_type: "panic", status: "resolved", alert_count: 3 },
+      { alert_type: "panic", status: "active", alert_count: 3 },
+    ];
+
+    expect(factor(calculateSafetyScore(shillong, [], counts, noon), "alerts")).toMatchObject({
+      value: 100,
+      description: "6 emergency alerts within 1 km in the last 24 hours, 3 still active",
+    });
+  });
+});
@@ -0,0 +1,291 @@
+import type { SafetyZone } from "@/hooks/useSafetyZones";
+import { getDaylightPhase, getSolarHour, getSunAltitude } from "@/lib/solar";
+
+export type SafetyLevel = "safe" | "moderate" | "high-risk";
+
+export type SafetyFactorKey = "zone" | "alerts" | "time";
+
+export interface SafetyFactor {
+  key: SafetyFactorKey;
+  name: string;
+  value: number; // 0-100, higher is riskier
+  weight: number;
+  description: string;
+}
+
+export interface SafetyScore {
+  score: number; // 0-100, higher is riskier
+  level: SafetyLevel;
+  factors: SafetyFactor[];
+  recommendations: string[];
+  calculatedAt: Date;
+}
+
+export interface AlertCount {
+  alert_type: string;
+  status: string;
+  alert_count: number;
+}
+
+export interface Position {
+  latitude: number;
+  longitude: number;
+}
+
+// nearby_alert_counts enforces the same minimum radius and hides smaller
+// groups of alerts, so single alerts cannot be located
+export const ALERT_RADIUS = 1000; // meters
+export const MIN_REPORTED_ALERTS = 3;
+export const ALERT_WINDOW_HOURS = 24;
+// Zones within this distance of the tourist count as nearby
+const ZONE_NEARBY_DISTANCE = 500; // meters
+
+const FACTOR_WEIGHTS: Record<SafetyFactorKey, number> = {
+  zone: 0.45,
+  alerts: 0.3,
+  time: 0.25,
+};
+
+const FACTOR_NAMES: Record<SafetyFactorKey, string> = {
+  zone: "Safety Zones",
+  alerts: "Recent Alerts",
+  time: "Time of Day",
+};
+
+const RECOMMENDATIONS: Record<SafetyFactorKey, string> = {
+  zone: "Move towards a safe zone and avoid restricted areas",
+  alerts: "Incidents were reported nearby, stay in busy, well-lit places",
+  time: "Avoid walking alone after dark and use registered taxis",
+};
+
+// Factor values at or above this get a recommendation
+const RECOMMEND_THRESHOLD = 60;
+
+// Sun altitude below which darkness is close, in degrees
+const LOW_SUN_ALTITUDE = 6;
+// Solar hours counted as late night
+const LATE_NIGHT_START = 22;
+const LATE_NIGHT_END = 5;
+
+type Ring = number[][];
+
+type ZoneGeometry =
+  | { type: "Point"; coordinates: number[] }
+  | { type: "Polygon"; coordinates: Ring[] }
+  | { type: "MultiPolygon"; coordinates: Ring[][] };
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export const distanceInMeters = (from: Position, to: Position): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 6371000 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+const isInsideRing = (position: Position, ring: Ring): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lngI, latI] = ring[i];
+    const [lngJ, latJ] = ring[j];
+    if (
+      latI > position.latitude !== latJ > position.latitude &&
+      position.longitude < ((lngJ - lngI) * (position.latitude - latI)) / (latJ - latI) + lngI
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Meters to the nearest edge of the ring, on a plane around the position,
+// which is accurate enough at the distances that count as nearby
+const distanceToRing = (position: Position, ring: Ring): number => {
+  const metersPerDegree = 111320;
+  const scaleX = metersPerDegree * Math.cos(toRadians(position.latitude));
+  const points = ring.map(([lng, lat]) => ({
+    x: (lng - position.longitude) * scaleX,
+    y: (lat - position.latitude) * metersPerDegree,
+  }));
+
+  let nearest = Infinity;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[j];
+    const b = points[i];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t =
+      lengthSquared > 0 ? Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared)) : 0;
+    nearest = Math.min(nearest, Math.hypot(a.x + t * dx, a.y + t * dy));
+  }
+  return nearest;
+};
+
+// 0 inside the polygon, otherwise meters to its outer edge or, inside a
+// hole, to the hole's edge
+const distanceToPolygon = (position: Position, polygon: Ring[]): number => {
+  if (!isInsideRing(position, polygon[0])) {
+    return distanceToRing(position, polygon[0]);
+  }
+  const hole = polygon.slice(1).find((ring) => isInsideRing(position, ring));
+  return hole ? distanceToRing(position, hole) : 0;
+};
+
+// Meters from the zone's edge, negative inside a circle and 0 inside a
+// polygon
+const distanceToZone = (position: Position, zone: SafetyZone): number | null => {
+  const geometry = zone.coordinates as ZoneGeometry | null;
+  if (geometry?.type === "Polygon") {
+    return distanceToPolygon(position, geometry.coordinates);
+  }
+  if (geometry?.type === "MultiPolygon") {
+    return Math.min(
+      ...geometry.coordinates.map((polygon) => distanceToPolygon(position, polygon))
+    );
+  }
+
+  const center =
+    zone.center_lat != null && zone.center_lng != null
+      ? { latitude: zone.center_lat, longitude: zone.center_lng }
+      : geometry?.type === "Point"
+      ? { latitude: geometry.coordinates[1], longitude: geometry.coordinates[0] }
+      : null;
+  if (!center || !zone.radius) return null;
+  return distanceInMeters(position, center) - zone.radius;
+};
+
+const assessZones = (
+  position: Position,
+  zones: SafetyZone[]
+): { value: number; description: string; zone?: SafetyZone } => {
+  // zone is the one the tourist is inside, when that decides the value
+  const distances = zones
+    .filter((zone) => zone.is_active)
+    .map((zone) => ({ zone, distance: distanceToZone(position, zone) }))
+    .filter((entry): entry is { zone: SafetyZone; distance: number } => entry.distance !== null);
+  const inside = (type: SafetyZone["zone_type"]) =>
+    distances.find(({ zone, distance }) => zone.zone_type === type && distance <= 0);
+
+  const danger = inside("danger");
+  if (danger) {
+    return { value: 90, description: `Inside danger zone ${danger.zone.name}`, zone: danger.zone };
+  }
+  const caution = inside("caution");
+  if (caution) {
+    return {
+      value: 60,
+      description: `Inside caution zone ${caution.zone.name}`,
+      zone: caution.zone,
+    };
+  }
+  const nearbyDanger = distances.find(
+    ({ zone, distance }) => zone.zone_type === "danger" && distance <= ZONE_NEARBY_DISTANCE
+  );
+  if (nearbyDanger) {
+    return {
+      value: 60,
+      description: `${Math.round(nearbyDanger.distance)}m from danger zone ${nearbyDanger.zone.name}`,
+    };
+  }
+  const safe = inside("safe");
+  if (safe) {
+    return { value: 10, description: `Inside safe zone ${safe.zone.name}`, zone: safe.zone };
+  }
+  return { value: 30, description: "Outside any marked zone" };
+};
+
+const assessAlerts = (counts: AlertCount[]): { value: number; description: string } => {
+  const total = counts.reduce((sum, count) => sum + count.alert_count, 0);
+  const active = counts
+    .filter((count) => count.status === "active")
+    .reduce((sum, count) => sum + count.alert_count, 0);
+  const radius = `${ALERT_RADIUS / 1000} km`;
+
+  if (total === 0) {
+    return {
+      value: 10,
+      description:
+        `Fewer than ${MIN_REPORTED_ALERTS} emergency alerts within ${radius} ` +
+        `in the last ${ALERT_WINDOW_HOURS} hours`,
+    };
+  }
+  // Alerts still open weigh double
+  return {
+    value: Math.min(100, 20 + (total + active) * 10),
+    description:
+      `${total} emergency ${total === 1 ? "alert" : "alerts"} within ${radius} ` +
+      `in the last ${ALERT_WINDOW_HOURS} hours` +
+      (active > 0 ? `, ${active} still active` : ""),
+  };
+};
+
+// Follows the darkness at the tourist's position rather than the clock
+const assessTime = (position: Position, at: Date): { value: number; description: string } => {
+  const phase = getDaylightPhase(at, position);
+  if (phase === "night") {
+    const hour = getSolarHour(at, position);
+    return hour >= LATE_NIGHT_START || hour < LATE_NIGHT_END
+      ? { value: 80, description: "Late night" }
+      : { value: 70, description: "After dark" };
+  }
+  if (phase === "twilight") return { value: 60, description: "Twilight" };
+  if (getSunAltitude(at, position) < LOW_SUN_ALTITUDE) {
+    return { value: 40, description: "Daylight, but the sun is low" };
+  }
+  return { value: 20, description: "Daytime" };
+};
+
+export const getSafetyLevel = (score: number): SafetyLevel => {
+  if (score >= 70) return "high-risk";
+  if (score >= 40) return "moderate";
+  return "safe";
+};
+
+// Scores the position against safety zones, recent alerts around it and the
+// daylight where the tourist is
+export const calculateSafetyScore = (
+  position: Position,
+  zones: SafetyZone[],
+  alertCounts: AlertCount[],
+  at: Date = new Date()
+): SafetyScore => {
+  const zone = assessZones(position, zones);
+  const assessments: Record<SafetyFactorKey, { value: number; description: string }> = {
+    zone,
+    alerts: assessAlerts(alertCounts),
+    time: assessTime(position, at),
+  };
+
+  const factors = (Object.keys(FACTOR_WEIGHTS) as SafetyFactorKey[]).map((key) => ({
+    key,
+    name: FACTOR_NAMES[key],
+    value: assessments[key].value,
+    weight: FACTOR_WEIGHTS[key],
+    description: assessments[key].description,
+  }));
+  const score = Math.round(
+    factors.reduce((total, factor) => total + factor.value * factor.weight, 0)
+  );
+
+  const recommendations = factors
+    .filter((factor) => factor.value >= RECOMMEND_THRESHOLD)
+    .map((factor) =>
+      factor.key === "zone" && zone.zone?.zone_type === "danger"
+        ? `Leave ${zone.zone.name} or stay with your group and keep your phone charged`
+        : RECOMMENDATIONS[factor.key]
+    );
+  if (recommendations.length === 0) {
+    recommendations.push("No concerns right now, keep location sharing on");
+  }
+
+  return {
+    score,
+    level: getSafetyLevel(score),
+    factors,
+    recommendations,
+    calculatedAt: at,
+  };
+};
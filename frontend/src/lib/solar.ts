@@ -0,0 +1,55 @@
+import type { Position } from "@/lib/safetyScore";
+
+export type DaylightPhase = "day" | "twilight" | "night";
+
+// Sun altitudes in degrees: the upper limb touching the horizon after
+// refraction, and the end of civil twilight
+export const SUNRISE_ALTITUDE = -0.833;
+export const CIVIL_TWILIGHT_ALTITUDE = -6;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const UNIX_EPOCH_JULIAN = 2440587.5;
+const J2000 = 2451545;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+const OBLIQUITY = toRadians(23.4397);
+
+// Degrees above the horizon at the given instant, from the position alone,
+// so neither the browser's clock nor its time zone affects it
+export const getSunAltitude = (at: Date, position: Position): number => {
+  const days = at.getTime() / MS_PER_DAY + UNIX_EPOCH_JULIAN - J2000;
+  const meanAnomaly = toRadians((357.5291 + 0.98560028 * days) % 360);
+  const center = toRadians(
+    1.9148 * Math.sin(meanAnomaly) +
+      0.02 * Math.sin(2 * meanAnomaly) +
+      0.0003 * Math.sin(3 * meanAnomaly)
+  );
+  const longitude = meanAnomaly + center + toRadians(102.9372) + Math.PI;
+
+  const declination = Math.asin(Math.sin(OBLIQUITY) * Math.sin(longitude));
+  const rightAscension = Math.atan2(Math.sin(longitude) * Math.cos(OBLIQUITY), Math.cos(longitude));
+  const hourAngle = toRadians(280.16 + 360.9856235 * days + position.longitude) - rightAscension;
+  const latitude = toRadians(position.latitude);
+
+  return toDegrees(
+    Math.asin(
+      Math.sin(latitude) * Math.sin(declination) +
+        Math.cos(latitude) * Math.cos(declination) * Math.cos(hourAngle)
+    )
+  );
+};
+
+export const getDaylightPhase = (at: Date, position: Position): DaylightPhase => {
+  const altitude = getSunAltitude(at, position);
+  if (altitude >= SUNRISE_ALTITUDE) return "day";
+  if (altitude >= CIVIL_TWILIGHT_ALTITUDE) return "twilight";
+  return "night";
+};
+
+// Hours since local solar midnight, within about an hour of the clock time
+// where the tourist is
+export const getSolarHour = (at: Date, position: Position): number => {
+  const utcHours = (at.getTime() % MS_PER_DAY) / (60 * 60 * 1000);
+  return (((utcHours + position.longitude / 15) % 24) + 24) % 24;
+};
@@ -12,6 +12,7 @@ import { Label } from "@/components/ui/label";
 import MapComponent from "@/components/MapComponent";
 import { useLocation } from "@/hooks/useLocation";
 import { useEmergencyAlerts } from "@/hooks/useEmergencyAlerts";
+import { useSafetyScore } from "@/hooks/useSafetyScore";
 import { useAuth } from "@/hooks/useAuth";
 import { useEffect } from "react";
 
@@ -27,6 +28,7 @@ export const TouristDashboard = () => {
     requestLocationPermission 
   } = useLocation();
   const { alerts, activeAlertsCount, createAlert } = useEmergencyAlerts();
+  const { safetyScore } = useSafetyScore(currentLocation);
   const [locationSharingEnabled, setLocationSharingEnabled] = useState(false);
 
   // Redirect if not authenticated
@@ -73,7 +75,8 @@ export const TouristDashboard = () => {
 
         {/* Safety Status */}
         <SafetyStatus 
-          safetyLevel={activeAlertsCount > 0 ? "high-risk" : "safe"}
+          safetyLevel={activeAlertsCount > 0 ? "high-risk" : undefined}
+          safetyScore={safetyScore}
           touristCount={47}
           activeAlerts={activeAlertsCount}
           currentLocation={currentLocation ? `Lat: ${currentLocation.latitude.toFixed(4)}, Lng: ${currentLocation.longitude.toFixed(4)}` : "Location unavailable"}
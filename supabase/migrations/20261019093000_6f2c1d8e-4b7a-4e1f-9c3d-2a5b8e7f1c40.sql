@@ -0,0 +1,4 @@
+-- Stream safety zone changes to the mobile app
+ALTER TABLE public.safety_zones REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.safety_zones;
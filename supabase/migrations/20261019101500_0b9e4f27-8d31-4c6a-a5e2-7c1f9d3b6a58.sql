@@ -0,0 +1,7 @@
+-- Opening hours and seasonal closures for safety zones.
+-- Shape: { "timezone": "Asia/Kolkata",
+--          "openingHours": [{ "days": [0-6], "start": "HH:mm", "end": "HH:mm" }],
+--          "closures": [{ "from": "MM-DD" | "YYYY-MM-DD", "to": "..." }],
+--          "whenClosed": "inactive" | "restricted",
+--          "closingWarningMinutes": 30 }
+ALTER TABLE public.safety_zones ADD COLUMN schedule JSONB;
@@ -0,0 +1,32 @@
+-- Anonymised emergency alert counts around a point, for tourists' safety
+-- scores. Tourists can only read their own alerts, so this returns counts
+-- by type and status and nothing that identifies who raised them.
+CREATE OR REPLACE FUNCTION public.nearby_alert_counts(
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  radius_meters DOUBLE PRECISION,
+  since TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (alert_type TEXT, status TEXT, alert_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT a.alert_type, a.status, COUNT(*) AS alert_count
+  FROM public.emergency_alerts a
+  -- Capped so the function cannot be used to map alerts across a region
+  WHERE a.created_at >= GREATEST(since, now() - INTERVAL '7 days')
+    AND 2 * 6371000 * asin(LEAST(1, sqrt(
+      power(sin(radians(a.latitude - lat) / 2), 2) +
+      cos(radians(lat)) * cos(radians(a.latitude)) *
+      power(sin(radians(a.longitude - lng) / 2), 2)
+    ))) <= LEAST(GREATEST(radius_meters, 1000), 5000)
+  GROUP BY a.alert_type, a.status
+  -- With the 1 km minimum radius, so repeated small queries cannot pin down
+  -- where a single alert was raised
+  HAVING COUNT(*) >= 3;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.nearby_alert_counts(
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMP WITH TIME ZONE
+) TO authenticated;
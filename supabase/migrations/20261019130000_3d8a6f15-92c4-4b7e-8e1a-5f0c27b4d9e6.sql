@@ -0,0 +1,109 @@
+-- Anonymised tourist counts around a point, for the crowd factor of
+-- tourists' safety scores. Each tourist's latest location in the half hour
+-- is snapped to a grid of 0.0025 degree cells (about 250 m), as in the
+-- mobile app's crowdDensity.ts. Cells with fewer than 3 tourists are merged
+-- into cells four times larger and left out if those are still too sparse.
+-- usual_count is the mean count over the same half hour of the 30 days
+-- before, and is only given for cells at least 3 different tourists visited.
+CREATE OR REPLACE FUNCTION public.nearby_crowd_density(
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  radius_meters DOUBLE PRECISION,
+  at_time TIMESTAMP WITH TIME ZONE DEFAULT now()
+)
+RETURNS TABLE (
+  cell TEXT,
+  center_lat DOUBLE PRECISION,
+  center_lng DOUBLE PRECISION,
+  tourist_count BIGINT,
+  usual_count DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  WITH
+  -- Day 0 is the half hour before at_time, days 1-30 the same half hour on
+  -- the days before
+  latest AS (
+    SELECT DISTINCT ON (d.day, l.user_id)
+      d.day,
+      l.user_id,
+      l.latitude::DOUBLE PRECISION AS latitude,
+      l.longitude::DOUBLE PRECISION AS longitude
+    FROM generate_series(0, 30) AS d(day)
+    JOIN public.locations l
+      ON l.timestamp <= LEAST(at_time, now()) - d.day * INTERVAL '1 day'
+     AND l.timestamp > LEAST(at_time, now()) - d.day * INTERVAL '1 day'
+       - INTERVAL '30 minutes'
+    ORDER BY d.day, l.user_id, l.timestamp DESC
+  ),
+  fixes AS (
+    SELECT
+      day,
+      user_id,
+      floor(latitude / 0.0025)::BIGINT AS lat_index,
+      floor(longitude / 0.0025)::BIGINT AS lng_index
+    FROM latest
+    -- Wide enough for merged cells whose centre is within the radius
+    WHERE abs(latitude - lat) <= 0.05
+      AND abs(longitude - lng) <= 0.05 / cos(radians(lat))
+  ),
+  base AS (
+    SELECT
+      lat_index,
+      lng_index,
+      COUNT(*) FILTER (WHERE day = 0) AS now_count,
+      COUNT(*) FILTER (WHERE day > 0) / 30.0 AS usual_count,
+      COUNT(DISTINCT user_id) FILTER (WHERE day > 0) AS usual_tourists
+    FROM fixes
+    GROUP BY lat_index, lng_index
+  ),
+  cells AS (
+    SELECT
+      lat_index || ',' || lng_index AS cell,
+      (lat_index + 0.5) * 0.0025 AS center_lat,
+      (lng_index + 0.5) * 0.0025 AS center_lng,
+      now_count,
+      usual_count,
+      usual_tourists
+    FROM base
+    WHERE now_count >= 3 OR usual_tourists >= 3
+    UNION ALL
+    SELECT
+      floor(f.lat_index / 4.0)::BIGINT || ','
+        || floor(f.lng_index / 4.0)::BIGINT || '/4',
+      (floor(f.lat_index / 4.0)::BIGINT + 0.5) * 0.01,
+      (floor(f.lng_index / 4.0)::BIGINT + 0.5) * 0.01,
+      COUNT(*) FILTER (WHERE f.day = 0),
+      COUNT(*) FILTER (WHERE f.day > 0) / 30.0,
+      COUNT(DISTINCT f.user_id) FILTER (WHERE f.day > 0)
+    FROM fixes f
+    JOIN base b
+      ON b.lat_index = f.lat_index
+     AND b.lng_index = f.lng_index
+    WHERE b.now_count < 3 AND b.usual_tourists < 3
+    GROUP BY floor(f.lat_index / 4.0)::BIGINT, floor(f.lng_index / 4.0)::BIGINT
+  )
+  -- Counts too small to publish are given as 0, as the app treats
+  -- missing cells
+  SELECT
+    c.cell,
+    c.center_lat::DOUBLE PRECISION,
+    c.center_lng::DOUBLE PRECISION,
+    CASE WHEN c.now_count >= 3 THEN c.now_count ELSE 0 END,
+    (CASE WHEN c.usual_tourists >= 3 THEN c.usual_count ELSE 0 END)
+      ::DOUBLE PRECISION
+  FROM cells c
+  WHERE (c.now_count >= 3 OR c.usual_tourists >= 3)
+    -- Capped so the function cannot be used to map tourists across a region
+    AND 2 * 6371000 * asin(LEAST(1, sqrt(
+      power(sin(radians(c.center_lat - lat) / 2), 2) +
+      cos(radians(lat)) * cos(radians(c.center_lat)) *
+      power(sin(radians(c.center_lng - lng) / 2), 2)
+    ))) <= LEAST(GREATEST(radius_meters, 500), 2000);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.nearby_crowd_density(
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMP WITH TIME ZONE
+) TO authenticated;